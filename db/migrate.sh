@@ -0,0 +1,61 @@
+#!/usr/bin/env sh
+# Applies the numbered migrations in db/migrations to the database in $DATABASE_URL, in order.
+# Each migration runs in its own transaction together with its schema_migrations row, so a
+# failing migration leaves nothing half-applied. Applied migrations are recorded with a checksum
+# and must not be edited afterwards; add a new numbered file instead.
+set -eu
+
+: "${DATABASE_URL:?Set DATABASE_URL to the Postgres connection string}"
+
+MIGRATIONS_DIR="$(dirname "$0")/migrations"
+
+run_psql() {
+  psql "$DATABASE_URL" -X -q -v ON_ERROR_STOP=1 "$@"
+}
+
+checksum() {
+  if command -v sha256sum >/dev/null 2>&1; then
+    sha256sum "$1" | cut -d ' ' -f 1
+  else
+    shasum -a 256 "$1" | cut -d ' ' -f 1
+  fi
+}
+
+# Row-level security with no policies keeps the table out of reach of API clients
+run_psql -c "
+  create table if not exists schema_migrations (
+    version text primary key,
+    name text not null,
+    checksum text not null,
+    applied_at timestamptz not null default now()
+  );
+  alter table schema_migrations enable row level security;
+"
+
+applied_count=0
+for file in "$MIGRATIONS_DIR"/[0-9]*.sql; do
+  [ -e "$file" ] || continue
+  name="$(basename "$file" .sql)"
+  version="${name%%_*}"
+  sum="$(checksum "$file")"
+  recorded="$(run_psql -A -t -c "select checksum from schema_migrations where version = '$version'")"
+
+  if [ -n "$recorded" ]; then
+    if [ "$recorded" != "$sum" ]; then
+      echo "Migration $name was changed after it was applied. Add a new migration instead." >&2
+      exit 1
+    fi
+    continue
+  fi
+
+  echo "Applying $name"
+  run_psql -1 -f "$file" \
+    -c "insert into schema_migrations (version, name, checksum) values ('$version', '$name', '$sum')"
+  applied_count=$((applied_count + 1))
+done
+
+if [ "$applied_count" -eq 0 ]; then
+  echo "Database is up to date."
+else
+  echo "Applied $applied_count migration(s)."
+fi
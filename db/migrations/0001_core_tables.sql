@@ -0,0 +1,82 @@
+-- Core tables: logins, app settings, customers and transactions
+
+-- Enable pgcrypto for password hashing
+create extension if not exists pgcrypto;
+
+-- Users table for admin/partner logins
+create table if not exists app_users (
+  id uuid primary key default gen_random_uuid(),
+  email text not null unique,
+  password_hash text not null,
+  role text not null,
+  created_at timestamptz default now()
+);
+
+-- Account lifecycle: disabled accounts cannot sign in, and accounts created or reset by an
+-- admin must choose a new password on their next login
+alter table app_users
+  add column if not exists disabled_at timestamptz,
+  add column if not exists must_change_password boolean not null default false;
+
+-- Key/value application settings (e.g., default partner contact number)
+create table if not exists app_settings (
+  key text primary key,
+  value text,
+  updated_at timestamptz default now()
+);
+
+create or replace function touch_app_settings_updated_at()
+returns trigger as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$ language plpgsql;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_trigger where tgname = 'app_settings_touch_updated_at'
+  ) then
+    create trigger app_settings_touch_updated_at
+    before insert or update on app_settings
+    for each row
+    execute function touch_app_settings_updated_at();
+  end if;
+end;
+$$;
+
+-- Customers table
+create table if not exists customers (
+  id uuid primary key default gen_random_uuid(),
+  full_name text,
+  shop_name text,
+  address text,
+  contact text,
+  whatsapp_number text,
+  outstanding_balance numeric default 0,
+  created_at timestamptz default now()
+);
+
+-- Backfill whatsapp_number column for existing deployments where the table
+-- predates this field. Postgres 9.6+ supports IF NOT EXISTS on ALTER TABLE.
+alter table customers
+  add column if not exists whatsapp_number text;
+
+-- Transactions table
+create table if not exists transactions (
+  id uuid primary key default gen_random_uuid(),
+  customer_id uuid references customers(id) on delete set null,
+  amount numeric,
+  quantity numeric,
+  type text,
+  paid_amount numeric,
+  balance numeric,
+  status text,
+  due_date date,
+  created_at timestamptz default now()
+);
+
+-- Ensure legacy databases also have the due_date column
+alter table transactions
+  add column if not exists due_date date;
@@ -0,0 +1,263 @@
+-- Password checks, server-verified sessions and admin account management
+
+-- Authentication helper: verifies password against stored password_hash using pgcrypto
+create or replace function authenticate_user(p_email text, p_password text)
+returns table(id uuid, email text, role text) as $$
+begin
+  return query
+    select app_users.id, app_users.email, app_users.role
+    from app_users
+    where lower(app_users.email) = lower(trim(p_email))
+      and app_users.disabled_at is null
+      and app_users.password_hash = crypt(p_password, app_users.password_hash);
+end;
+$$ language plpgsql stable security definer;
+
+-- Server-verified sessions: create_session issues an opaque random token that expires after
+-- 12 hours. The client sends it in the `x-session-token` request header and row-level security
+-- policies resolve the caller's role from it via current_app_role().
+create table if not exists app_sessions (
+  token text primary key,
+  user_id uuid not null references app_users(id) on delete cascade,
+  created_at timestamptz default now(),
+  expires_at timestamptz not null
+);
+
+create index if not exists app_sessions_user_id_idx on app_sessions (user_id);
+
+drop function if exists create_session(text, text);
+create or replace function create_session(p_email text, p_password text)
+returns table(
+  token text, id uuid, email text, role text, expires_at timestamptz, must_change_password boolean
+) as $$
+declare
+  v_user record;
+  v_token text;
+  v_expires timestamptz;
+begin
+  select * into v_user from authenticate_user(p_email, p_password) limit 1;
+  if not found then
+    return;
+  end if;
+
+  delete from app_sessions where app_sessions.expires_at < now();
+
+  v_token := encode(gen_random_bytes(32), 'hex');
+  v_expires := now() + interval '12 hours';
+
+  insert into app_sessions (token, user_id, expires_at)
+  values (v_token, v_user.id, v_expires);
+
+  return query
+    select v_token, v_user.id, v_user.email, lower(v_user.role), v_expires, u.must_change_password
+      from app_users u
+     where u.id = v_user.id;
+end;
+$$ language plpgsql volatile security definer;
+
+drop function if exists validate_session(text);
+create or replace function validate_session(p_token text)
+returns table(
+  token text, id uuid, email text, role text, expires_at timestamptz, must_change_password boolean
+) as $$
+begin
+  return query
+    select s.token, u.id, u.email, lower(u.role), s.expires_at, u.must_change_password
+      from app_sessions s
+      join app_users u on u.id = s.user_id
+     where s.token = p_token
+       and s.expires_at > now()
+       and u.disabled_at is null;
+end;
+$$ language plpgsql stable security definer;
+
+create or replace function end_session(p_token text)
+returns void as $$
+begin
+  delete from app_sessions where app_sessions.token = p_token;
+end;
+$$ language plpgsql volatile security definer;
+
+-- Role of the caller according to the session token header, or null for anonymous requests.
+-- Accounts that still have to change their password get no role, so every policy and role check
+-- refuses them until change_own_password (which only needs current_app_user_id) has been called.
+create or replace function current_app_role()
+returns text as $$
+  select lower(u.role)
+    from app_sessions s
+    join app_users u on u.id = s.user_id
+   where s.token = nullif(current_setting('request.headers', true)::json->>'x-session-token', '')
+     and s.expires_at > now()
+     and u.disabled_at is null
+     and not u.must_change_password
+   limit 1;
+$$ language sql stable security definer;
+
+-- Id of the caller according to the session token header, or null for anonymous requests
+create or replace function current_app_user_id()
+returns uuid as $$
+  select s.user_id
+    from app_sessions s
+    join app_users u on u.id = s.user_id
+   where s.token = nullif(current_setting('request.headers', true)::json->>'x-session-token', '')
+     and s.expires_at > now()
+     and u.disabled_at is null
+   limit 1;
+$$ language sql stable security definer;
+
+-- Partners visible to admins (for per-partner comparisons and contact numbers)
+create or replace function list_partners()
+returns table(id uuid, email text, created_at timestamptz) as $$
+begin
+  if current_app_role() is distinct from 'admin' then
+    raise exception 'only admins can list partners';
+  end if;
+
+  return query
+    select app_users.id, app_users.email, app_users.created_at
+      from app_users
+     where lower(app_users.role) = 'partner'
+     order by app_users.created_at;
+end;
+$$ language plpgsql stable security definer;
+
+-- Account management for admins. app_users has no row-level security policies, so these
+-- security-definer functions are the only way to read or change accounts from the client.
+create or replace function admin_list_users()
+returns table(
+  id uuid, email text, role text, created_at timestamptz, disabled_at timestamptz, must_change_password boolean
+) as $$
+begin
+  if current_app_role() is distinct from 'admin' then
+    raise exception 'only admins can manage users';
+  end if;
+
+  return query
+    select u.id, u.email, lower(u.role), u.created_at, u.disabled_at, u.must_change_password
+      from app_users u
+     order by lower(u.role), u.created_at;
+end;
+$$ language plpgsql stable security definer;
+
+create or replace function admin_create_user(p_email text, p_password text, p_role text)
+returns uuid as $$
+declare
+  v_email text := lower(trim(p_email));
+  v_role text := lower(trim(p_role));
+  v_id uuid;
+begin
+  if current_app_role() is distinct from 'admin' then
+    raise exception 'only admins can manage users';
+  end if;
+  if v_email is null or v_email = '' then
+    raise exception 'email is required';
+  end if;
+  if v_role not in ('admin', 'partner') then
+    raise exception 'role must be admin or partner';
+  end if;
+  if length(coalesce(p_password, '')) < 8 then
+    raise exception 'password must be at least 8 characters';
+  end if;
+  if exists (select 1 from app_users where lower(app_users.email) = v_email) then
+    raise exception 'an account with this email already exists';
+  end if;
+
+  insert into app_users (email, password_hash, role, must_change_password)
+  values (v_email, crypt(p_password, gen_salt('bf')), v_role, true)
+  returning app_users.id into v_id;
+
+  return v_id;
+end;
+$$ language plpgsql volatile security definer;
+
+create or replace function admin_set_user_disabled(p_user_id uuid, p_disabled boolean)
+returns void as $$
+begin
+  if current_app_role() is distinct from 'admin' then
+    raise exception 'only admins can manage users';
+  end if;
+  if p_user_id = current_app_user_id() then
+    raise exception 'you cannot disable your own account';
+  end if;
+
+  update app_users
+     set disabled_at = case when p_disabled then coalesce(disabled_at, now()) else null end
+   where app_users.id = p_user_id;
+  if not found then
+    raise exception 'user not found';
+  end if;
+
+  if p_disabled then
+    delete from app_sessions where app_sessions.user_id = p_user_id;
+  end if;
+end;
+$$ language plpgsql volatile security definer;
+
+-- Deleting a partner keeps their customers and transactions; partner_id is set to null and
+-- the rows show up as unassigned for admins.
+create or replace function admin_delete_user(p_user_id uuid)
+returns void as $$
+begin
+  if current_app_role() is distinct from 'admin' then
+    raise exception 'only admins can manage users';
+  end if;
+  if p_user_id = current_app_user_id() then
+    raise exception 'you cannot delete your own account';
+  end if;
+
+  delete from app_users where app_users.id = p_user_id;
+  if not found then
+    raise exception 'user not found';
+  end if;
+end;
+$$ language plpgsql volatile security definer;
+
+create or replace function admin_reset_password(p_user_id uuid, p_password text)
+returns void as $$
+begin
+  if current_app_role() is distinct from 'admin' then
+    raise exception 'only admins can manage users';
+  end if;
+  if length(coalesce(p_password, '')) < 8 then
+    raise exception 'password must be at least 8 characters';
+  end if;
+
+  update app_users
+     set password_hash = crypt(p_password, gen_salt('bf')),
+         must_change_password = true
+   where app_users.id = p_user_id;
+  if not found then
+    raise exception 'user not found';
+  end if;
+
+  -- Existing sessions must sign in again with the new password
+  delete from app_sessions where app_sessions.user_id = p_user_id;
+end;
+$$ language plpgsql volatile security definer;
+
+-- Lets the signed-in user replace their own password (required after an admin reset)
+create or replace function change_own_password(p_current_password text, p_new_password text)
+returns void as $$
+declare
+  v_user_id uuid := current_app_user_id();
+begin
+  if v_user_id is null then
+    raise exception 'not signed in';
+  end if;
+  if length(coalesce(p_new_password, '')) < 8 then
+    raise exception 'password must be at least 8 characters';
+  end if;
+  if p_new_password = p_current_password then
+    raise exception 'new password must be different from the current one';
+  end if;
+
+  update app_users
+     set password_hash = crypt(p_new_password, gen_salt('bf')),
+         must_change_password = false
+   where app_users.id = v_user_id
+     and app_users.password_hash = crypt(p_current_password, app_users.password_hash);
+  if not found then
+    raise exception 'current password is incorrect';
+  end if;
+end;
+$$ language plpgsql volatile security definer;
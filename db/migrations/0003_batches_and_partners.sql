@@ -0,0 +1,154 @@
+-- Tea batches, per-partner books and the single-sale RPC
+
+-- Batches table to track tea batches / inventory
+create table if not exists batches (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  total_quantity numeric not null,
+  remaining_quantity numeric not null,
+  purchase_rate numeric not null,
+  created_at timestamptz default now()
+);
+
+-- Ensure transactions table has batch_id and tea_name columns for inventory tracking
+alter table transactions
+  add column if not exists batch_id uuid references batches(id) on delete set null,
+  add column if not exists tea_name text;
+
+-- Owning partner for each customer book. Transactions carry the partner too so that
+-- partner-scoped queries and policies do not need a join.
+alter table customers
+  add column if not exists partner_id uuid references app_users(id) on delete set null;
+
+alter table transactions
+  add column if not exists partner_id uuid references app_users(id) on delete set null;
+
+create index if not exists customers_partner_id_idx on customers (partner_id);
+create index if not exists transactions_partner_id_idx on transactions (partner_id);
+
+-- Legacy single-partner data belongs to the first partner account
+update customers
+   set partner_id = (select id from app_users where lower(role) = 'partner' order by created_at limit 1)
+ where partner_id is null;
+
+update transactions t
+   set partner_id = c.partner_id
+  from customers c
+ where t.customer_id = c.id
+   and t.partner_id is null;
+
+-- Fill partner_id on insert: transactions, orders and cheques inherit the customer's partner,
+-- otherwise the partner making the request owns the row.
+create or replace function assign_partner_id()
+returns trigger as $$
+begin
+  if new.partner_id is null and tg_table_name in ('transactions', 'orders', 'cheques') then
+    if new.customer_id is not null then
+      select c.partner_id into new.partner_id from customers c where c.id = new.customer_id;
+    end if;
+  end if;
+
+  if new.partner_id is null and current_app_role() = 'partner' then
+    new.partner_id := current_app_user_id();
+  end if;
+
+  return new;
+end;
+$$ language plpgsql;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_trigger where tgname = 'customers_assign_partner_id'
+  ) then
+    create trigger customers_assign_partner_id
+    before insert on customers
+    for each row
+    execute function assign_partner_id();
+  end if;
+
+  if not exists (
+    select 1 from pg_trigger where tgname = 'transactions_assign_partner_id'
+  ) then
+    create trigger transactions_assign_partner_id
+    before insert on transactions
+    for each row
+    execute function assign_partner_id();
+  end if;
+end;
+$$;
+
+-- Record sale RPC: attempts to insert a transaction and decrement batch remaining quantity atomically
+create or replace function record_sale(
+  p_batch_id uuid,
+  p_customer_id uuid,
+  p_quantity numeric,
+  p_price_per_kg numeric,
+  p_paid_amount numeric,
+  p_tx_type text,
+  p_due_date date default null
+) returns json as $$
+declare
+  v_batch record;
+  v_total numeric;
+  v_inserted record;
+  v_order_id uuid;
+begin
+  select *
+    into v_batch
+    from batches
+   where id = p_batch_id
+   for update;
+
+  if not found then
+    raise exception 'batch not found';
+  end if;
+
+  if coalesce(v_batch.remaining_quantity, 0) < p_quantity then
+    raise exception 'insufficient stock';
+  end if;
+
+  v_total := p_quantity * p_price_per_kg;
+
+  -- Every sale belongs to an order so that it has an invoice number (see orders below)
+  insert into orders (customer_id, due_date)
+  values (p_customer_id, p_due_date)
+  returning id into v_order_id;
+
+  insert into transactions (
+    customer_id,
+    order_id,
+    amount,
+    quantity,
+    type,
+    paid_amount,
+    balance,
+    status,
+    batch_id,
+    tea_name,
+    due_date,
+    created_at
+  )
+  values (
+    p_customer_id,
+    v_order_id,
+    v_total,
+    p_quantity,
+    coalesce(p_tx_type, 'sale'),
+    p_paid_amount,
+    v_total - coalesce(p_paid_amount, v_total),
+    case when v_total - coalesce(p_paid_amount, v_total) <= 0 then 'paid' else 'partial' end,
+    p_batch_id,
+    v_batch.name,
+    p_due_date,
+    now()
+  )
+  returning * into v_inserted;
+
+  update batches
+     set remaining_quantity = remaining_quantity - p_quantity
+   where id = p_batch_id;
+
+  return json_build_object('transaction', row_to_json(v_inserted), 'batch_id', p_batch_id);
+end;
+$$ language plpgsql;
@@ -0,0 +1,306 @@
+-- Multi-line orders, invoice numbers and offline-capture ids
+
+-- Multi-line orders: an order header groups several sale lines (one per batch) bought by a
+-- customer at once. Each line stays a `sale` transaction so stock, tea and batch analytics
+-- keep working per batch; the order's combined total/paid/balance comes from order_summary.
+create table if not exists orders (
+  id uuid primary key default gen_random_uuid(),
+  customer_id uuid references customers(id) on delete set null,
+  partner_id uuid references app_users(id) on delete set null,
+  due_date date,
+  created_at timestamptz default now()
+);
+
+alter table transactions
+  add column if not exists order_id uuid references orders(id) on delete set null,
+  add column if not exists rate numeric;
+
+-- Invoice numbers are issued from a sequence when the order is created; existing orders
+-- receive numbers in creation order the first time this column is added.
+create sequence if not exists invoice_number_seq;
+
+alter table orders
+  add column if not exists invoice_number bigint unique default nextval('invoice_number_seq');
+
+create index if not exists orders_customer_id_idx on orders (customer_id);
+create index if not exists orders_partner_id_idx on orders (partner_id);
+create index if not exists transactions_order_id_idx on transactions (order_id);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_trigger where tgname = 'orders_assign_partner_id'
+  ) then
+    create trigger orders_assign_partner_id
+    before insert on orders
+    for each row
+    execute function assign_partner_id();
+  end if;
+end;
+$$;
+
+-- Sales recorded before orders existed get a single-line order (and invoice number) each,
+-- numbered in the order they were sold
+do $$
+declare
+  v_sale record;
+  v_order_id uuid;
+begin
+  for v_sale in
+    select id, customer_id, due_date, created_at
+      from transactions
+     where order_id is null
+       and lower(coalesce(type, '')) not in ('payment', 'charge', 'return')
+     order by created_at, id
+  loop
+    insert into orders (customer_id, due_date, created_at)
+    values (v_sale.customer_id, v_sale.due_date, v_sale.created_at)
+    returning id into v_order_id;
+
+    update transactions set order_id = v_order_id where id = v_sale.id;
+  end loop;
+end;
+$$;
+
+-- Offline capture: the partner app queues sales and payments while offline and replays them
+-- later with the id it generated on the device. record_order and record_payment store that id
+-- in `client_id` and return the row already recorded when the same id arrives again, so a
+-- replay after a lost response never records the sale or payment twice.
+alter table orders
+  add column if not exists client_id uuid unique;
+
+alter table transactions
+  add column if not exists client_id uuid unique;
+
+-- Record order RPC: p_items is a json array of {batch_id, quantity, rate}. Every batch is
+-- locked and decremented in the same database transaction; any missing batch or insufficient
+-- stock raises and rolls back the whole order. The amount paid up front is applied to the
+-- lines in the order given, so line balances always add up to the order balance. A cheque paid
+-- up front is recorded through record_payment instead, so it lands in the cheque register and
+-- can be reversed if it bounces. With p_apply_credit the customer's open credit notes are then
+-- applied to whatever the order still owes. p_client_id makes the call idempotent (see
+-- client_id above) and p_recorded_at keeps the time a queued sale was captured offline.
+drop function if exists record_order(uuid, json, numeric, date);
+drop function if exists record_order(uuid, json, numeric, date, text, text);
+drop function if exists record_order(uuid, json, numeric, date, text, text, text, date);
+drop function if exists record_order(uuid, json, numeric, date, text, text, text, date, boolean);
+create or replace function record_order(
+  p_customer_id uuid,
+  p_items json,
+  p_paid_amount numeric default null,
+  p_due_date date default null,
+  p_payment_method text default 'cash',
+  p_payment_reference text default null,
+  p_cheque_bank text default null,
+  p_cheque_date date default null,
+  p_apply_credit boolean default false,
+  p_client_id uuid default null,
+  p_recorded_at timestamptz default null
+) returns json as $$
+declare
+  v_order orders%rowtype;
+  v_item json;
+  v_batch record;
+  v_quantity numeric;
+  v_rate numeric;
+  v_line_total numeric;
+  v_line_paid numeric;
+  v_total numeric := 0;
+  v_paid numeric;
+  v_remaining_paid numeric;
+  v_inserted record;
+  v_lines json[] := '{}';
+  v_by_cheque boolean;
+  v_cheque_share numeric;
+  v_cheque_allocations json[] := '{}';
+  v_cheque_payment json;
+  v_line_ids uuid[] := '{}';
+  v_credit_applied numeric := 0;
+begin
+  if p_client_id is not null then
+    select * into v_order from orders where client_id = p_client_id;
+    if found then
+      return json_build_object(
+        'order', row_to_json(v_order),
+        'lines', (select coalesce(json_agg(t order by t.created_at, t.id), '[]'::json) from transactions t where t.order_id = v_order.id),
+        'total', (select coalesce(sum(amount), 0) from transactions where order_id = v_order.id),
+        'paid', (select coalesce(sum(paid_amount), 0) from transactions where order_id = v_order.id),
+        'balance', (select coalesce(sum(balance), 0) from transactions where order_id = v_order.id),
+        'duplicate', true
+      );
+    end if;
+  end if;
+
+  if p_items is null or json_typeof(p_items) <> 'array' or json_array_length(p_items) = 0 then
+    raise exception 'order must contain at least one line';
+  end if;
+
+  if not exists (select 1 from customers where id = p_customer_id) then
+    raise exception 'customer not found';
+  end if;
+  if exists (select 1 from customers where id = p_customer_id and archived_at is not null) then
+    raise exception 'customer is archived; restore it before recording a sale';
+  end if;
+
+  -- Lock every batch in a stable order so concurrent orders cannot deadlock
+  perform 1
+     from batches
+    where id in (select (value->>'batch_id')::uuid from json_array_elements(p_items))
+    order by id
+      for update;
+
+  for v_item in select value from json_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::numeric;
+    v_rate := (v_item->>'rate')::numeric;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'line quantity must be greater than zero';
+    end if;
+    if v_rate is null or v_rate < 0 then
+      raise exception 'line rate cannot be negative';
+    end if;
+    v_total := v_total + round(v_quantity * v_rate, 2);
+  end loop;
+
+  v_paid := coalesce(p_paid_amount, v_total);
+  if v_paid < 0 then
+    raise exception 'paid amount cannot be negative';
+  end if;
+  if v_paid > v_total then
+    raise exception 'paid amount (%) exceeds the order total (%)', v_paid, v_total;
+  end if;
+  v_remaining_paid := v_paid;
+  v_by_cheque := p_payment_method = 'cheque' and v_paid > 0;
+
+  insert into orders (customer_id, due_date, client_id, created_at)
+  values (
+    p_customer_id,
+    case when v_paid < v_total then p_due_date else null end,
+    p_client_id,
+    least(coalesce(p_recorded_at, now()), now())
+  )
+  returning * into v_order;
+
+  for v_item in select value from json_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::numeric;
+    v_rate := (v_item->>'rate')::numeric;
+    v_line_total := round(v_quantity * v_rate, 2);
+    v_line_paid := least(v_remaining_paid, v_line_total);
+    v_remaining_paid := v_remaining_paid - v_line_paid;
+    v_cheque_share := 0;
+    if v_by_cheque then
+      -- The cheque payment below settles this share of the line
+      v_cheque_share := v_line_paid;
+      v_line_paid := 0;
+    end if;
+
+    update batches
+       set remaining_quantity = remaining_quantity - v_quantity
+     where id = (v_item->>'batch_id')::uuid
+    returning * into v_batch;
+
+    if not found then
+      raise exception 'batch % not found', v_item->>'batch_id';
+    end if;
+    if v_batch.archived_at is not null then
+      raise exception 'batch % is archived', v_batch.name;
+    end if;
+    if v_batch.remaining_quantity < 0 then
+      raise exception 'insufficient stock for %', v_batch.name;
+    end if;
+
+    insert into transactions (
+      customer_id,
+      order_id,
+      amount,
+      quantity,
+      rate,
+      type,
+      paid_amount,
+      balance,
+      status,
+      payment_method,
+      payment_reference,
+      batch_id,
+      tea_name,
+      due_date,
+      created_at
+    )
+    values (
+      p_customer_id,
+      v_order.id,
+      v_line_total,
+      v_quantity,
+      v_rate,
+      'sale',
+      v_line_paid,
+      v_line_total - v_line_paid,
+      case when v_line_total - v_line_paid <= 0 then 'paid' else 'partial' end,
+      case when v_line_paid > 0 then coalesce(p_payment_method, 'cash') end,
+      case when v_line_paid > 0 then nullif(trim(p_payment_reference), '') end,
+      v_batch.id,
+      v_batch.name,
+      v_order.due_date,
+      v_order.created_at
+    )
+    returning * into v_inserted;
+
+    if v_cheque_share > 0 then
+      v_cheque_allocations := v_cheque_allocations || json_build_object('sale_id', v_inserted.id, 'amount', v_cheque_share);
+    end if;
+
+    v_line_ids := v_line_ids || v_inserted.id;
+    v_lines := v_lines || row_to_json(v_inserted);
+  end loop;
+
+  if v_by_cheque then
+    v_cheque_payment := record_payment(
+      p_customer_id,
+      v_paid,
+      to_json(v_cheque_allocations),
+      'cheque',
+      p_payment_reference,
+      p_cheque_bank,
+      p_cheque_date,
+      null,
+      v_order.created_at
+    );
+  end if;
+
+  if p_apply_credit then
+    v_credit_applied := apply_credit_notes(p_customer_id, v_line_ids);
+  end if;
+
+  return json_build_object(
+    'order', row_to_json(v_order),
+    'lines', to_json(v_lines),
+    'payment', v_cheque_payment->'payment',
+    'total', v_total,
+    'paid', v_paid,
+    'credit_applied', v_credit_applied,
+    'balance', v_total - v_paid - v_credit_applied
+  );
+end;
+$$ language plpgsql;
+
+-- Combined invoice figures for each order, derived from its lines so that later payments
+-- allocated to individual lines are reflected automatically
+drop view if exists order_summary;
+create or replace view order_summary as
+select
+  o.id as order_id,
+  o.invoice_number,
+  o.customer_id,
+  o.partner_id,
+  o.due_date,
+  o.created_at,
+  count(t.id)                        as line_count,
+  coalesce(sum(t.quantity), 0)       as total_quantity,
+  coalesce(sum(t.amount), 0)         as total_amount,
+  coalesce(sum(t.paid_amount), 0)    as paid_amount,
+  coalesce(sum(t.balance), 0)        as balance,
+  case when coalesce(sum(t.balance), 0) <= 0 then 'paid' else 'partial' end as status
+from orders o
+left join transactions t on t.order_id = o.id
+group by o.id, o.invoice_number, o.customer_id, o.partner_id, o.due_date, o.created_at;
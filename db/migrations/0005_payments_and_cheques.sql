@@ -0,0 +1,360 @@
+-- Payment allocations, payment methods, receipts and the cheque register
+
+-- Payment allocations: links each payment transaction to the sale invoices it settles.
+-- A sale keeps `paid_amount` as the amount received at the time of sale; later payments
+-- only reduce its `balance`, so collections are never counted twice. Credit notes from
+-- returns are applied to sales through the same table.
+create table if not exists payment_allocations (
+  id uuid primary key default gen_random_uuid(),
+  payment_id uuid not null references transactions(id) on delete cascade,
+  sale_id uuid not null references transactions(id) on delete cascade,
+  amount numeric not null check (amount > 0),
+  created_at timestamptz default now()
+);
+
+create index if not exists payment_allocations_payment_id_idx on payment_allocations (payment_id);
+create index if not exists payment_allocations_sale_id_idx on payment_allocations (sale_id);
+
+-- How money was received: set on payments and on sales with an amount paid up front.
+-- Rows recorded before this column existed keep a null method ("not recorded").
+alter table transactions
+  add column if not exists payment_method text,
+  add column if not exists payment_reference text;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'transactions_payment_method_check'
+  ) then
+    alter table transactions
+      add constraint transactions_payment_method_check
+      check (payment_method is null or payment_method in ('cash', 'upi', 'cheque', 'bank_transfer'));
+  end if;
+end;
+$$;
+
+-- Receipt numbers: every payment transaction gets the next number from receipt_number_seq when
+-- it is inserted; payments recorded earlier are numbered in the order they were collected.
+create sequence if not exists receipt_number_seq;
+
+alter table transactions
+  add column if not exists receipt_number bigint unique;
+
+create or replace function assign_receipt_number()
+returns trigger as $$
+begin
+  if new.receipt_number is null and lower(coalesce(new.type, '')) = 'payment' then
+    new.receipt_number := nextval('receipt_number_seq');
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+do $$
+declare
+  v_payment record;
+begin
+  if not exists (
+    select 1 from pg_trigger where tgname = 'transactions_assign_receipt_number'
+  ) then
+    create trigger transactions_assign_receipt_number
+    before insert on transactions
+    for each row
+    execute function assign_receipt_number();
+  end if;
+
+  for v_payment in
+    select id
+      from transactions
+     where receipt_number is null
+       and lower(coalesce(type, '')) = 'payment'
+     order by created_at, id
+  loop
+    update transactions set receipt_number = nextval('receipt_number_seq') where id = v_payment.id;
+  end loop;
+end;
+$$;
+
+-- Cheque register: each cheque payment is tracked from received through deposited to cleared
+-- or bounced. The payment is applied to invoices when it is recorded; bounce_cheque reverses it.
+create table if not exists cheques (
+  id uuid primary key default gen_random_uuid(),
+  payment_id uuid not null unique references transactions(id) on delete cascade,
+  customer_id uuid references customers(id) on delete set null,
+  partner_id uuid references app_users(id) on delete set null,
+  cheque_number text not null,
+  bank_name text,
+  cheque_date date,
+  amount numeric not null,
+  status text not null default 'received'
+    check (status in ('received', 'deposited', 'cleared', 'bounced')),
+  deposited_at timestamptz,
+  cleared_at timestamptz,
+  bounced_at timestamptz,
+  bounce_charge numeric default 0,
+  bounce_charge_id uuid references transactions(id) on delete set null,
+  created_at timestamptz default now()
+);
+
+create index if not exists cheques_status_idx on cheques (status);
+create index if not exists cheques_customer_id_idx on cheques (customer_id);
+create index if not exists cheques_partner_id_idx on cheques (partner_id);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_trigger where tgname = 'cheques_assign_partner_id'
+  ) then
+    create trigger cheques_assign_partner_id
+    before insert on cheques
+    for each row
+    execute function assign_partner_id();
+  end if;
+end;
+$$;
+
+-- Record payment RPC: inserts a payment transaction and applies it to open sales atomically.
+-- p_allocations is an optional json array of {"sale_id": uuid, "amount": numeric}; when it is
+-- null or empty the payment is applied to open sales oldest-due first. Any amount left over is
+-- kept on the payment row as a negative balance (customer credit). p_client_id and
+-- p_recorded_at serve offline replays the same way as in record_order.
+drop function if exists record_payment(uuid, numeric, json);
+drop function if exists record_payment(uuid, numeric, json, text, text);
+drop function if exists record_payment(uuid, numeric, json, text, text, text, date);
+create or replace function record_payment(
+  p_customer_id uuid,
+  p_amount numeric,
+  p_allocations json default null,
+  p_payment_method text default 'cash',
+  p_payment_reference text default null,
+  p_cheque_bank text default null,
+  p_cheque_date date default null,
+  p_client_id uuid default null,
+  p_recorded_at timestamptz default null
+) returns json as $$
+declare
+  v_payment record;
+  v_sale record;
+  v_item json;
+  v_apply numeric;
+  v_remaining numeric;
+begin
+  if p_client_id is not null then
+    select * into v_payment from transactions where client_id = p_client_id;
+    if found then
+      return json_build_object(
+        'payment', row_to_json(v_payment),
+        'allocated', (select coalesce(sum(amount), 0) from payment_allocations where payment_id = v_payment.id),
+        'unallocated', greatest(-coalesce(v_payment.balance, 0), 0),
+        'duplicate', true
+      );
+    end if;
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'payment amount must be greater than zero';
+  end if;
+
+  if p_payment_method = 'cheque' and nullif(trim(p_payment_reference), '') is null then
+    raise exception 'cheque number is required for cheque payments';
+  end if;
+
+  insert into transactions (
+    customer_id, amount, type, paid_amount, balance, status, payment_method, payment_reference, client_id, created_at
+  )
+  values (
+    p_customer_id, p_amount, 'payment', p_amount, 0, 'paid',
+    coalesce(p_payment_method, 'cash'), nullif(trim(p_payment_reference), ''), p_client_id,
+    least(coalesce(p_recorded_at, now()), now())
+  )
+  returning * into v_payment;
+
+  v_remaining := p_amount;
+
+  if p_allocations is not null and json_array_length(p_allocations) > 0 then
+    for v_item in select value from json_array_elements(p_allocations) loop
+      v_apply := nullif(v_item->>'amount', '')::numeric;
+      if v_apply is null or v_apply <= 0 then
+        continue;
+      end if;
+
+      select *
+        into v_sale
+        from transactions
+       where id = (v_item->>'sale_id')::uuid
+         and customer_id = p_customer_id
+         and lower(coalesce(type, '')) <> 'payment'
+       for update;
+
+      if not found then
+        raise exception 'sale % not found for this customer', v_item->>'sale_id';
+      end if;
+
+      if v_apply > coalesce(v_sale.balance, 0) then
+        raise exception 'allocation exceeds remaining balance of sale %', v_sale.id;
+      end if;
+
+      if v_apply > v_remaining then
+        raise exception 'allocations exceed the payment amount';
+      end if;
+
+      insert into payment_allocations (payment_id, sale_id, amount)
+      values (v_payment.id, v_sale.id, v_apply);
+
+      update transactions
+         set balance = balance - v_apply,
+             status = case when balance - v_apply <= 0 then 'paid' else 'partial' end
+       where id = v_sale.id;
+
+      v_remaining := v_remaining - v_apply;
+    end loop;
+  else
+    for v_sale in
+      select *
+        from transactions
+       where customer_id = p_customer_id
+         and lower(coalesce(type, '')) <> 'payment'
+         and coalesce(balance, 0) > 0
+       order by coalesce(due_date, created_at::date), created_at
+       for update
+    loop
+      exit when v_remaining <= 0;
+
+      v_apply := least(v_remaining, v_sale.balance);
+
+      insert into payment_allocations (payment_id, sale_id, amount)
+      values (v_payment.id, v_sale.id, v_apply);
+
+      update transactions
+         set balance = balance - v_apply,
+             status = case when balance - v_apply <= 0 then 'paid' else 'partial' end
+       where id = v_sale.id;
+
+      v_remaining := v_remaining - v_apply;
+    end loop;
+  end if;
+
+  update transactions
+     set balance = -v_remaining
+   where id = v_payment.id
+  returning * into v_payment;
+
+  if p_payment_method = 'cheque' then
+    insert into cheques (payment_id, customer_id, cheque_number, bank_name, cheque_date, amount)
+    values (
+      v_payment.id,
+      p_customer_id,
+      trim(p_payment_reference),
+      nullif(trim(p_cheque_bank), ''),
+      p_cheque_date,
+      p_amount
+    );
+  end if;
+
+  return json_build_object(
+    'payment', row_to_json(v_payment),
+    'allocated', p_amount - v_remaining,
+    'unallocated', v_remaining
+  );
+end;
+$$ language plpgsql;
+
+-- Moves a cheque forward: received -> deposited -> cleared. Bounces go through bounce_cheque.
+create or replace function update_cheque_status(p_cheque_id uuid, p_status text)
+returns json as $$
+declare
+  v_cheque cheques%rowtype;
+begin
+  select * into v_cheque from cheques where id = p_cheque_id for update;
+  if not found then
+    raise exception 'cheque not found';
+  end if;
+
+  if p_status = 'deposited' and v_cheque.status = 'received' then
+    update cheques set status = 'deposited', deposited_at = now()
+     where id = p_cheque_id
+    returning * into v_cheque;
+  elsif p_status = 'cleared' and v_cheque.status in ('received', 'deposited') then
+    update cheques
+       set status = 'cleared',
+           deposited_at = coalesce(deposited_at, now()),
+           cleared_at = now()
+     where id = p_cheque_id
+    returning * into v_cheque;
+  else
+    raise exception 'cannot mark a % cheque as %', v_cheque.status, p_status;
+  end if;
+
+  return row_to_json(v_cheque);
+end;
+$$ language plpgsql;
+
+-- Bounced cheque: restores the balance of every invoice the payment was applied to, zeroes the
+-- payment row (so it no longer counts as a collection or credit) and optionally adds a bounce
+-- charge to the customer's account as a 'charge' transaction.
+create or replace function bounce_cheque(p_cheque_id uuid, p_bounce_charge numeric default 0)
+returns json as $$
+declare
+  v_cheque cheques%rowtype;
+  v_allocation record;
+  v_charge_id uuid;
+  v_charge json;
+begin
+  select * into v_cheque from cheques where id = p_cheque_id for update;
+  if not found then
+    raise exception 'cheque not found';
+  end if;
+  if v_cheque.status not in ('received', 'deposited') then
+    raise exception 'a % cheque cannot be bounced', v_cheque.status;
+  end if;
+  if coalesce(p_bounce_charge, 0) < 0 then
+    raise exception 'bounce charge cannot be negative';
+  end if;
+
+  for v_allocation in
+    select * from payment_allocations where payment_id = v_cheque.payment_id
+  loop
+    update transactions
+       set balance = coalesce(balance, 0) + v_allocation.amount,
+           status = case when coalesce(balance, 0) + v_allocation.amount <= 0 then 'paid' else 'partial' end
+     where id = v_allocation.sale_id;
+  end loop;
+
+  delete from payment_allocations where payment_id = v_cheque.payment_id;
+
+  update transactions
+     set amount = 0,
+         paid_amount = 0,
+         balance = 0,
+         status = 'bounced'
+   where id = v_cheque.payment_id;
+
+  if coalesce(p_bounce_charge, 0) > 0 then
+    insert into transactions (customer_id, amount, type, paid_amount, balance, status, tea_name, due_date, created_at)
+    values (
+      v_cheque.customer_id,
+      p_bounce_charge,
+      'charge',
+      0,
+      p_bounce_charge,
+      'due',
+      'Cheque bounce charge (' || v_cheque.cheque_number || ')',
+      current_date,
+      now()
+    )
+    returning id into v_charge_id;
+
+    select row_to_json(t) into v_charge from transactions t where t.id = v_charge_id;
+  end if;
+
+  update cheques
+     set status = 'bounced',
+         bounced_at = now(),
+         bounce_charge = coalesce(p_bounce_charge, 0),
+         bounce_charge_id = v_charge_id
+   where id = p_cheque_id
+  returning * into v_cheque;
+
+  return json_build_object('cheque', row_to_json(v_cheque), 'charge', v_charge);
+end;
+$$ language plpgsql;
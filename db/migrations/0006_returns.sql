@@ -0,0 +1,154 @@
+-- Returns and credit notes
+
+-- Returns: a 'return' transaction points at the sale it reverses and stores the returned
+-- quantity and value as negative numbers, so sums over transactions (sales, P&L, stock sold)
+-- net returns out without special cases. The credit first settles what is still owed on the
+-- original sale; anything left is a credit note, kept on the return row as a negative balance.
+create sequence if not exists credit_note_number_seq;
+
+alter table transactions
+  add column if not exists return_of uuid references transactions(id) on delete set null,
+  add column if not exists return_reason text,
+  add column if not exists credit_note_number bigint unique;
+
+create index if not exists transactions_return_of_idx on transactions (return_of);
+
+-- Applies the customer's open credit notes, oldest first, to the given sales. Each amount used
+-- is recorded in payment_allocations against the return row so it can be traced later.
+create or replace function apply_credit_notes(p_customer_id uuid, p_sale_ids uuid[])
+returns numeric as $$
+declare
+  v_note record;
+  v_sale record;
+  v_available numeric;
+  v_apply numeric;
+  v_applied numeric := 0;
+begin
+  for v_note in
+    select id, -balance as available
+      from transactions
+     where customer_id = p_customer_id
+       and lower(coalesce(type, '')) = 'return'
+       and balance < 0
+     order by created_at, id
+       for update
+  loop
+    v_available := v_note.available;
+
+    for v_sale in
+      select id, balance
+        from transactions
+       where id = any(p_sale_ids)
+         and balance > 0
+       order by created_at, id
+         for update
+    loop
+      exit when v_available <= 0;
+      v_apply := least(v_available, v_sale.balance);
+
+      update transactions
+         set balance = balance - v_apply,
+             status = case when balance - v_apply <= 0 then 'paid' else 'partial' end
+       where id = v_sale.id;
+
+      insert into payment_allocations (payment_id, sale_id, amount)
+      values (v_note.id, v_sale.id, v_apply);
+
+      v_available := v_available - v_apply;
+      v_applied := v_applied + v_apply;
+    end loop;
+
+    update transactions set balance = -v_available where id = v_note.id;
+  end loop;
+
+  return v_applied;
+end;
+$$ language plpgsql;
+
+-- Record return RPC: restocks the sale's batch and credits the customer at the sale rate.
+-- A sale cannot be returned beyond the quantity still held after earlier returns.
+create or replace function record_return(p_sale_id uuid, p_quantity numeric, p_reason text default null)
+returns json as $$
+declare
+  v_sale transactions%rowtype;
+  v_return transactions%rowtype;
+  v_returned numeric;
+  v_rate numeric;
+  v_value numeric;
+  v_applied numeric;
+begin
+  select * into v_sale from transactions where id = p_sale_id for update;
+  if not found then
+    raise exception 'sale not found';
+  end if;
+  if lower(coalesce(v_sale.type, '')) in ('payment', 'charge', 'return') then
+    raise exception 'only tea sales can be returned';
+  end if;
+  if p_quantity is null or p_quantity <= 0 then
+    raise exception 'return quantity must be greater than zero';
+  end if;
+
+  select coalesce(sum(-quantity), 0) into v_returned from transactions where return_of = p_sale_id;
+  if p_quantity > coalesce(v_sale.quantity, 0) - v_returned then
+    raise exception 'only % kg of this sale can still be returned', coalesce(v_sale.quantity, 0) - v_returned;
+  end if;
+
+  v_rate := coalesce(v_sale.rate, v_sale.amount / nullif(v_sale.quantity, 0), 0);
+  v_value := round(p_quantity * v_rate, 2);
+  v_applied := least(greatest(coalesce(v_sale.balance, 0), 0), v_value);
+
+  if v_sale.batch_id is not null then
+    update batches
+       set remaining_quantity = remaining_quantity + p_quantity
+     where id = v_sale.batch_id;
+  end if;
+
+  insert into transactions (
+    customer_id,
+    return_of,
+    return_reason,
+    credit_note_number,
+    amount,
+    quantity,
+    rate,
+    type,
+    paid_amount,
+    balance,
+    status,
+    batch_id,
+    tea_name
+  )
+  values (
+    v_sale.customer_id,
+    v_sale.id,
+    nullif(trim(p_reason), ''),
+    nextval('credit_note_number_seq'),
+    -v_value,
+    -p_quantity,
+    v_rate,
+    'return',
+    0,
+    -(v_value - v_applied),
+    'returned',
+    v_sale.batch_id,
+    v_sale.tea_name
+  )
+  returning * into v_return;
+
+  if v_applied > 0 then
+    update transactions
+       set balance = balance - v_applied,
+           status = case when balance - v_applied <= 0 then 'paid' else 'partial' end
+     where id = v_sale.id;
+
+    insert into payment_allocations (payment_id, sale_id, amount)
+    values (v_return.id, v_sale.id, v_applied);
+  end if;
+
+  return json_build_object(
+    'return', row_to_json(v_return),
+    'applied', v_applied,
+    'credit', v_value - v_applied
+  );
+end;
+$$ language plpgsql;
@@ -0,0 +1,107 @@
+-- Analytics views. They are created once every table and column they read exists.
+
+-- Server-side analytics view: aggregates useful admin metrics in one row
+drop view if exists analytics_summary;
+create or replace view analytics_summary as
+with sales as (
+  -- Returns carry negative amounts, so total_sales is net of returns. Bounced cheque charges
+  -- are owed by the customer but are not sales, so they stay out of the totals and the P&L.
+  select
+    coalesce(sum(amount), 0) as total_sales,
+    count(*) filter (where lower(coalesce(type, '')) <> 'return')                 as sales_count,
+    coalesce(avg(amount) filter (where lower(coalesce(type, '')) <> 'return'), 0) as avg_sale_value,
+    max(created_at) filter (where lower(coalesce(type, '')) <> 'return')          as last_sale_at
+  from transactions
+  where lower(coalesce(type, '')) not in ('payment', 'charge')
+),
+returns as (
+  select
+    coalesce(-sum(amount), 0) as total_returns,
+    count(*)                  as returns_count
+  from transactions
+  where lower(coalesce(type, '')) = 'return'
+),
+payments as (
+  select
+    coalesce(sum(amount), 0) as total_collections,
+    count(*)                 as payments_count,
+    max(created_at)          as last_payment_at
+  from transactions
+  where lower(coalesce(type, '')) = 'payment'
+),
+balances as (
+  select coalesce(sum(balance), 0) as outstanding_balance from transactions
+),
+pnl as (
+  select coalesce(sum(
+    t.amount - (t.quantity * coalesce(b.purchase_rate, 0))
+  ), 0) as total_pnl
+  from transactions t
+  left join batches b on t.batch_id = b.id
+  where lower(coalesce(t.type, '')) not in ('payment', 'charge')
+),
+today_collections as (
+  select coalesce(sum(coalesce(t.paid_amount, 0)), 0) as amount
+  from transactions t
+  where date_trunc('day', t.created_at) = date_trunc('day', now())
+)
+select
+  sales.total_sales,
+  payments.total_collections,
+  greatest(balances.outstanding_balance, 0) as outstanding,
+  sales.sales_count,
+  payments.payments_count,
+  sales.avg_sale_value,
+  sales.last_sale_at,
+  payments.last_payment_at,
+  coalesce((select count(*) from customers), 0)    as total_customers,
+  coalesce((select count(*) from transactions), 0) as transactions_count,
+  pnl.total_pnl,
+  today_collections.amount as today_collections,
+  returns.total_returns,
+  returns.returns_count
+from sales
+cross join payments
+cross join returns
+cross join balances
+cross join pnl
+cross join today_collections;
+
+-- Simple view for tea analytics: total sold per tea name / batch, net of returns
+drop view if exists tea_analytics;
+create or replace view tea_analytics as
+select
+  coalesce(t.tea_name, 'Unknown')      as tea_name,
+  coalesce(sum(t.quantity), 0)         as total_sold_quantity,
+  coalesce(sum(t.amount), 0)           as total_sales_amount,
+  coalesce(sum(t.paid_amount), 0)      as total_paid_amount,
+  coalesce(sum(t.balance), 0)          as outstanding_balance,
+  coalesce(avg(t.amount / nullif(t.quantity, 0)) filter (where lower(coalesce(t.type, '')) <> 'return'), 0) as avg_selling_rate,
+  count(*) filter (where lower(coalesce(t.type, '')) <> 'return') as orders_count,
+  min(t.created_at)                    as first_sale_at,
+  max(t.created_at)                    as last_sale_at,
+  coalesce(-sum(t.quantity) filter (where lower(coalesce(t.type, '')) = 'return'), 0) as returned_quantity
+from transactions t
+where lower(coalesce(t.type, '')) not in ('payment', 'charge')
+group by coalesce(t.tea_name, 'Unknown')
+order by total_sold_quantity desc;
+
+-- Batch-level P&L view: sold quantity, revenue, purchase cost (using purchase_rate), and pnl.
+-- Returned tea is back in stock, so returns reduce the sold quantity and revenue.
+drop view if exists batch_pnl;
+create or replace view batch_pnl as
+select
+  b.id as batch_id,
+  b.name as batch_name,
+  b.total_quantity,
+  b.remaining_quantity,
+  b.purchase_rate,
+  coalesce(sum(t.quantity), 0) as sold_quantity,
+  coalesce(sum(t.amount), 0) as sold_revenue,
+  (coalesce(sum(t.quantity), 0) * b.purchase_rate) as purchase_cost_for_sold,
+  (coalesce(sum(t.amount), 0) - (coalesce(sum(t.quantity), 0) * b.purchase_rate)) as pnl,
+  coalesce(-sum(t.quantity) filter (where lower(coalesce(t.type, '')) = 'return'), 0) as returned_quantity
+from batches b
+left join transactions t on t.batch_id = b.id
+group by b.id, b.name, b.total_quantity, b.remaining_quantity, b.purchase_rate
+order by pnl desc;
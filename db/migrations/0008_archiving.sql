@@ -0,0 +1,45 @@
+-- Archiving customers and batches
+
+-- Archiving: customers and batches are archived instead of deleted. Archived records are hidden
+-- from the sale and payment screens but stay in reports and P&L; admins can restore them or
+-- purge them for good.
+alter table customers
+  add column if not exists archived_at timestamptz;
+
+alter table batches
+  add column if not exists archived_at timestamptz;
+
+create index if not exists customers_archived_at_idx on customers (archived_at) where archived_at is not null;
+create index if not exists batches_archived_at_idx on batches (archived_at) where archived_at is not null;
+
+-- Permanently removes an archived customer together with their transactions
+create or replace function purge_archived_customer(p_customer_id uuid)
+returns void as $$
+begin
+  if current_app_role() is distinct from 'admin' then
+    raise exception 'only admins can purge customers';
+  end if;
+  if not exists (select 1 from customers where id = p_customer_id and archived_at is not null) then
+    raise exception 'only archived customers can be purged';
+  end if;
+
+  delete from transactions where customer_id = p_customer_id;
+  delete from customers where id = p_customer_id;
+end;
+$$ language plpgsql;
+
+-- Permanently removes an archived batch; its sales keep their amounts but lose the batch link
+create or replace function purge_archived_batch(p_batch_id uuid)
+returns void as $$
+begin
+  if current_app_role() is distinct from 'admin' then
+    raise exception 'only admins can purge batches';
+  end if;
+  if not exists (select 1 from batches where id = p_batch_id and archived_at is not null) then
+    raise exception 'only archived batches can be purged';
+  end if;
+
+  update transactions set batch_id = null where batch_id = p_batch_id;
+  delete from batches where id = p_batch_id;
+end;
+$$ language plpgsql;
@@ -0,0 +1,301 @@
+-- Admin resets with restorable snapshots
+
+-- Admin resets. Each reset first stores the rows it is about to change in `resets.snapshot`;
+-- undo_last_reset puts them back as long as the reset is the most recent one and its undo
+-- window (24 hours) has not passed.
+create table if not exists resets (
+  id uuid primary key default gen_random_uuid(),
+  kind text not null check (kind in ('today', 'all')),
+  created_at timestamptz not null default now(),
+  created_by uuid,
+  summary jsonb,
+  snapshot jsonb not null,
+  undo_until timestamptz not null,
+  undone_at timestamptz
+);
+
+create index if not exists resets_created_at_idx on resets (created_at desc);
+
+-- Reset today: zeroes the amounts, quantities and balances of transactions created today (server
+-- date), returns their stock to the batches, reverses allocations between today's rows and
+-- older ones, drops cheques for today's payments and recomputes the affected customers'
+-- outstanding_balance.
+drop function if exists reset_today_metrics();
+create or replace function reset_today_metrics()
+returns json as $$
+declare
+  v_ids uuid[];
+  v_customer_ids uuid[];
+  v_allocation record;
+  v_reset resets%rowtype;
+  v_customers_reset integer;
+begin
+  if current_app_role() is distinct from 'admin' then
+    raise exception 'only admins can reset metrics';
+  end if;
+
+  select coalesce(array_agg(id), '{}') into v_ids
+    from transactions
+   where created_at >= date_trunc('day', now())
+     and created_at < date_trunc('day', now()) + interval '1 day';
+
+  select coalesce(array_agg(distinct customer_id), '{}') into v_customer_ids
+    from transactions
+   where id = any(v_ids)
+     and customer_id is not null;
+
+  insert into resets (kind, created_by, snapshot, undo_until)
+  values (
+    'today',
+    current_app_user_id(),
+    jsonb_build_object(
+      'transactions', (
+        select coalesce(jsonb_agg(to_jsonb(t)), '[]'::jsonb)
+          from transactions t
+         where t.id = any(v_ids)
+            or t.id in (
+              select a.sale_id from payment_allocations a where a.payment_id = any(v_ids)
+              union
+              select a.payment_id from payment_allocations a where a.sale_id = any(v_ids)
+            )
+      ),
+      'payment_allocations', (
+        select coalesce(jsonb_agg(to_jsonb(a)), '[]'::jsonb)
+          from payment_allocations a
+         where a.payment_id = any(v_ids) or a.sale_id = any(v_ids)
+      ),
+      'cheques', (
+        select coalesce(jsonb_agg(to_jsonb(c)), '[]'::jsonb) from cheques c where c.payment_id = any(v_ids)
+      ),
+      'batches', (
+        select coalesce(jsonb_agg(to_jsonb(b)), '[]'::jsonb)
+          from batches b
+         where b.id in (select batch_id from transactions where id = any(v_ids))
+      ),
+      'customers', (
+        select coalesce(jsonb_agg(to_jsonb(c)), '[]'::jsonb) from customers c where c.id = any(v_customer_ids)
+      )
+    ),
+    now() + interval '24 hours'
+  )
+  returning * into v_reset;
+
+  -- Older sales paid by today's payments owe again; older payments and credit notes used by
+  -- today's sales get their credit back
+  for v_allocation in
+    select * from payment_allocations where payment_id = any(v_ids) or sale_id = any(v_ids)
+  loop
+    if not (v_allocation.sale_id = any(v_ids)) then
+      update transactions
+         set balance = coalesce(balance, 0) + v_allocation.amount,
+             status = 'partial'
+       where id = v_allocation.sale_id;
+    elsif not (v_allocation.payment_id = any(v_ids)) then
+      update transactions
+         set balance = coalesce(balance, 0) - v_allocation.amount
+       where id = v_allocation.payment_id;
+    end if;
+  end loop;
+
+  delete from payment_allocations where payment_id = any(v_ids) or sale_id = any(v_ids);
+  delete from cheques where payment_id = any(v_ids);
+
+  update batches b
+     set remaining_quantity = b.remaining_quantity + sold.quantity
+    from (
+      select batch_id, sum(coalesce(quantity, 0)) as quantity
+        from transactions
+       where id = any(v_ids) and batch_id is not null
+       group by batch_id
+    ) sold
+   where b.id = sold.batch_id;
+
+  update transactions
+     set amount = 0,
+         quantity = 0,
+         paid_amount = 0,
+         balance = 0,
+         status = 'reset'
+   where id = any(v_ids);
+
+  update customers c
+     set outstanding_balance = greatest(
+       coalesce((select sum(t.balance) from transactions t where t.customer_id = c.id), 0),
+       0
+     )
+   where c.id = any(v_customer_ids);
+  get diagnostics v_customers_reset = row_count;
+
+  update resets
+     set summary = jsonb_build_object(
+       'tx_reset_count', coalesce(array_length(v_ids, 1), 0),
+       'customers_reset_count', v_customers_reset
+     )
+   where id = v_reset.id
+  returning * into v_reset;
+
+  return json_build_object(
+    'reset_id', v_reset.id,
+    'tx_reset_count', coalesce(array_length(v_ids, 1), 0),
+    'customers_reset_count', v_customers_reset,
+    'undo_until', v_reset.undo_until
+  );
+end;
+$$ language plpgsql;
+
+-- Reset all: removes every customer, order and transaction (payment allocations and cheques go
+-- with them) and re-inserts the demo customers and sale from db/seed.sql. Batches and stock
+-- levels are left alone.
+drop function if exists reset_all();
+create or replace function reset_all()
+returns json as $$
+declare
+  v_reset resets%rowtype;
+  v_tx_deleted integer;
+  v_customers_deleted integer;
+  v_seeded_customers uuid[];
+  v_seeded_transactions uuid[];
+begin
+  if current_app_role() is distinct from 'admin' then
+    raise exception 'only admins can reset all data';
+  end if;
+
+  insert into resets (kind, created_by, snapshot, undo_until)
+  values (
+    'all',
+    current_app_user_id(),
+    jsonb_build_object(
+      'customers', (select coalesce(jsonb_agg(to_jsonb(c)), '[]'::jsonb) from customers c),
+      'orders', (select coalesce(jsonb_agg(to_jsonb(o)), '[]'::jsonb) from orders o),
+      'transactions', (select coalesce(jsonb_agg(to_jsonb(t)), '[]'::jsonb) from transactions t),
+      'payment_allocations', (select coalesce(jsonb_agg(to_jsonb(a)), '[]'::jsonb) from payment_allocations a),
+      'cheques', (select coalesce(jsonb_agg(to_jsonb(c)), '[]'::jsonb) from cheques c)
+    ),
+    now() + interval '24 hours'
+  )
+  returning * into v_reset;
+
+  delete from transactions;
+  get diagnostics v_tx_deleted = row_count;
+  delete from orders;
+  delete from customers;
+  get diagnostics v_customers_deleted = row_count;
+
+  with seeded as (
+    insert into customers (full_name, shop_name, address, contact, outstanding_balance, partner_id)
+    values
+      ('Rajesh Kumar', 'Kumar Tea Shop', 'MG Road, Bangalore', '+91 9876543210', 5000,
+        (select id from app_users where lower(role) = 'partner' order by created_at limit 1)),
+      ('Priya Sharma', 'Sharma General Store', 'Park Street, Kolkata', '+91 9876543211', 2500,
+        (select id from app_users where lower(role) = 'partner' order by created_at limit 1))
+    returning id
+  )
+  select array_agg(id) into v_seeded_customers from seeded;
+
+  with seeded as (
+    insert into transactions (customer_id, amount, quantity, type, paid_amount, balance, status)
+    select c.id, 4000, 50, 'sale', 2000, 2000, 'partial'
+      from customers c
+     where c.id = any(v_seeded_customers)
+       and c.full_name = 'Rajesh Kumar'
+    returning id
+  )
+  select coalesce(array_agg(id), '{}') into v_seeded_transactions from seeded;
+
+  update resets
+     set snapshot = snapshot || jsonb_build_object(
+           'seeded_customers', to_jsonb(v_seeded_customers),
+           'seeded_transactions', to_jsonb(v_seeded_transactions)
+         ),
+         summary = jsonb_build_object(
+           'tx_deleted', v_tx_deleted,
+           'customers_deleted', v_customers_deleted,
+           'customers_inserted', coalesce(array_length(v_seeded_customers, 1), 0),
+           'transactions_inserted', coalesce(array_length(v_seeded_transactions, 1), 0)
+         )
+   where id = v_reset.id
+  returning * into v_reset;
+
+  return json_build_object(
+    'reset_id', v_reset.id,
+    'tx_deleted', v_tx_deleted,
+    'customers_deleted', v_customers_deleted,
+    'customers_inserted', coalesce(array_length(v_seeded_customers, 1), 0),
+    'transactions_inserted', coalesce(array_length(v_seeded_transactions, 1), 0),
+    'undo_until', v_reset.undo_until
+  );
+end;
+$$ language plpgsql;
+
+-- Puts back the rows saved by the most recent reset. Rows created after the reset are kept;
+-- only the demo rows seeded by a reset-all are removed again.
+create or replace function undo_last_reset()
+returns json as $$
+declare
+  v_reset resets%rowtype;
+  v_snapshot jsonb;
+begin
+  if current_app_role() is distinct from 'admin' then
+    raise exception 'only admins can undo a reset';
+  end if;
+
+  select * into v_reset from resets order by created_at desc limit 1 for update;
+  if not found or v_reset.undone_at is not null then
+    raise exception 'there is no reset to undo';
+  end if;
+  if v_reset.undo_until < now() then
+    raise exception 'the last reset can no longer be undone (undo window ended %)', v_reset.undo_until;
+  end if;
+  v_snapshot := v_reset.snapshot;
+
+  if v_reset.kind = 'today' then
+    update transactions t
+       set amount = s.amount,
+           quantity = s.quantity,
+           paid_amount = s.paid_amount,
+           balance = s.balance,
+           status = s.status
+      from jsonb_populate_recordset(null::transactions, v_snapshot->'transactions') s
+     where t.id = s.id;
+
+    update batches b
+       set remaining_quantity = s.remaining_quantity
+      from jsonb_populate_recordset(null::batches, v_snapshot->'batches') s
+     where b.id = s.id;
+
+    update customers c
+       set outstanding_balance = s.outstanding_balance
+      from jsonb_populate_recordset(null::customers, v_snapshot->'customers') s
+     where c.id = s.id;
+  else
+    delete from transactions
+     where id in (select jsonb_array_elements_text(coalesce(v_snapshot->'seeded_transactions', '[]'::jsonb))::uuid);
+    delete from customers
+     where id in (select jsonb_array_elements_text(coalesce(v_snapshot->'seeded_customers', '[]'::jsonb))::uuid);
+
+    insert into customers
+    select * from jsonb_populate_recordset(null::customers, v_snapshot->'customers')
+    on conflict (id) do nothing;
+
+    insert into orders
+    select * from jsonb_populate_recordset(null::orders, v_snapshot->'orders')
+    on conflict (id) do nothing;
+
+    insert into transactions
+    select * from jsonb_populate_recordset(null::transactions, v_snapshot->'transactions')
+    on conflict (id) do nothing;
+  end if;
+
+  insert into payment_allocations
+  select * from jsonb_populate_recordset(null::payment_allocations, v_snapshot->'payment_allocations')
+  on conflict (id) do nothing;
+
+  insert into cheques
+  select * from jsonb_populate_recordset(null::cheques, v_snapshot->'cheques')
+  on conflict (id) do nothing;
+
+  update resets set undone_at = now() where id = v_reset.id returning * into v_reset;
+
+  return json_build_object('reset_id', v_reset.id, 'kind', v_reset.kind, 'undone_at', v_reset.undone_at);
+end;
+$$ language plpgsql;
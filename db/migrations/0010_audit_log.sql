@@ -0,0 +1,97 @@
+-- Append-only audit log
+
+-- Audit log: every insert, update and delete on customers, transactions, batches and
+-- app_settings is recorded with the acting user and the row before and after the change.
+-- Entries are append-only; the guard trigger rejects updates, deletes and truncates.
+create table if not exists audit_log (
+  id bigserial primary key,
+  occurred_at timestamptz not null default now(),
+  actor_id uuid,
+  actor_email text,
+  actor_role text,
+  table_name text not null,
+  record_id text,
+  action text not null check (action in ('insert', 'update', 'delete')),
+  before_data jsonb,
+  after_data jsonb
+);
+
+create index if not exists audit_log_occurred_at_idx on audit_log (occurred_at desc);
+create index if not exists audit_log_table_record_idx on audit_log (table_name, record_id);
+create index if not exists audit_log_actor_id_idx on audit_log (actor_id);
+
+create or replace function write_audit_log()
+returns trigger as $$
+declare
+  v_actor_id uuid := current_app_user_id();
+  v_before jsonb;
+  v_after jsonb;
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    v_before := to_jsonb(old);
+  end if;
+  if tg_op in ('INSERT', 'UPDATE') then
+    v_after := to_jsonb(new);
+  end if;
+  if tg_op = 'UPDATE' and v_before = v_after then
+    return null;
+  end if;
+
+  insert into audit_log (actor_id, actor_email, actor_role, table_name, record_id, action, before_data, after_data)
+  values (
+    v_actor_id,
+    (select email from app_users where id = v_actor_id),
+    (select role from app_users where id = v_actor_id),
+    tg_table_name,
+    coalesce(v_after, v_before)->>(case when tg_table_name = 'app_settings' then 'key' else 'id' end),
+    lower(tg_op),
+    v_before,
+    v_after
+  );
+  return null;
+end;
+$$ language plpgsql security definer;
+
+create or replace function prevent_audit_log_change()
+returns trigger as $$
+begin
+  raise exception 'audit_log is append-only';
+end;
+$$ language plpgsql;
+
+do $$
+declare
+  v_table text;
+begin
+  foreach v_table in array array['customers', 'transactions', 'batches', 'app_settings']
+  loop
+    if not exists (
+      select 1 from pg_trigger where tgname = v_table || '_write_audit_log'
+    ) then
+      execute format(
+        'create trigger %I after insert or update or delete on %I for each row execute function write_audit_log()',
+        v_table || '_write_audit_log',
+        v_table
+      );
+    end if;
+  end loop;
+
+  if not exists (
+    select 1 from pg_trigger where tgname = 'audit_log_prevent_change'
+  ) then
+    create trigger audit_log_prevent_change
+    before update or delete on audit_log
+    for each row
+    execute function prevent_audit_log_change();
+  end if;
+
+  if not exists (
+    select 1 from pg_trigger where tgname = 'audit_log_prevent_truncate'
+  ) then
+    create trigger audit_log_prevent_truncate
+    before truncate on audit_log
+    for each statement
+    execute function prevent_audit_log_change();
+  end if;
+end;
+$$;
@@ -0,0 +1,128 @@
+-- Row-level security policies
+
+-- Row-level security: only callers with a valid session can read or change business data,
+-- app settings are writable by admins only, and login tables are reachable solely through
+-- the security definer functions above.
+alter table app_users enable row level security;
+alter table app_sessions enable row level security;
+alter table app_settings enable row level security;
+alter table customers enable row level security;
+alter table transactions enable row level security;
+alter table batches enable row level security;
+alter table orders enable row level security;
+alter table cheques enable row level security;
+alter table payment_allocations enable row level security;
+alter table audit_log enable row level security;
+alter table resets enable row level security;
+
+drop policy if exists app_settings_staff_read on app_settings;
+create policy app_settings_staff_read on app_settings
+  for select using (current_app_role() in ('admin', 'partner'));
+
+drop policy if exists app_settings_admin_write on app_settings;
+create policy app_settings_admin_write on app_settings
+  for all using (current_app_role() = 'admin')
+  with check (current_app_role() = 'admin');
+
+-- Admins see every book; partners only their own customers and transactions
+drop policy if exists customers_staff_access on customers;
+create policy customers_staff_access on customers
+  for all using (
+    current_app_role() = 'admin'
+    or (current_app_role() = 'partner' and partner_id = current_app_user_id())
+  )
+  with check (
+    current_app_role() = 'admin'
+    or (current_app_role() = 'partner' and partner_id = current_app_user_id())
+  );
+
+drop policy if exists transactions_staff_access on transactions;
+create policy transactions_staff_access on transactions
+  for all using (
+    current_app_role() = 'admin'
+    or (current_app_role() = 'partner' and partner_id = current_app_user_id())
+  )
+  with check (
+    current_app_role() = 'admin'
+    or (current_app_role() = 'partner' and partner_id = current_app_user_id())
+  );
+
+drop policy if exists orders_staff_access on orders;
+create policy orders_staff_access on orders
+  for all using (
+    current_app_role() = 'admin'
+    or (current_app_role() = 'partner' and partner_id = current_app_user_id())
+  )
+  with check (
+    current_app_role() = 'admin'
+    or (current_app_role() = 'partner' and partner_id = current_app_user_id())
+  );
+
+drop policy if exists cheques_staff_access on cheques;
+create policy cheques_staff_access on cheques
+  for all using (
+    current_app_role() = 'admin'
+    or (current_app_role() = 'partner' and partner_id = current_app_user_id())
+  )
+  with check (
+    current_app_role() = 'admin'
+    or (current_app_role() = 'partner' and partner_id = current_app_user_id())
+  );
+
+drop policy if exists batches_staff_access on batches;
+create policy batches_staff_access on batches
+  for all using (current_app_role() in ('admin', 'partner'))
+  with check (current_app_role() in ('admin', 'partner'));
+
+-- Allocations follow the partner of the payment and the sale they link; both must be the
+-- caller's, so a partner can neither read nor create links to another partner's book
+drop policy if exists payment_allocations_staff_access on payment_allocations;
+create policy payment_allocations_staff_access on payment_allocations
+  for all using (
+    current_app_role() = 'admin'
+    or (
+      current_app_role() = 'partner'
+      and exists (
+        select 1 from transactions t
+         where t.id = payment_allocations.payment_id
+           and t.partner_id = current_app_user_id()
+      )
+      and exists (
+        select 1 from transactions t
+         where t.id = payment_allocations.sale_id
+           and t.partner_id = current_app_user_id()
+      )
+    )
+  )
+  with check (
+    current_app_role() = 'admin'
+    or (
+      current_app_role() = 'partner'
+      and exists (
+        select 1 from transactions t
+         where t.id = payment_allocations.payment_id
+           and t.partner_id = current_app_user_id()
+      )
+      and exists (
+        select 1 from transactions t
+         where t.id = payment_allocations.sale_id
+           and t.partner_id = current_app_user_id()
+      )
+    )
+  );
+
+drop policy if exists resets_admin_access on resets;
+create policy resets_admin_access on resets
+  for all using (current_app_role() = 'admin')
+  with check (current_app_role() = 'admin');
+
+-- Only admins read the audit log; entries are written by the security definer trigger
+drop policy if exists audit_log_admin_read on audit_log;
+create policy audit_log_admin_read on audit_log
+  for select using (current_app_role() = 'admin');
+
+-- Views run with the caller's permissions so the policies above also apply to analytics (Postgres 15+)
+alter view analytics_summary set (security_invoker = true);
+alter view tea_analytics set (security_invoker = true);
+alter view batch_pnl set (security_invoker = true);
+alter view order_summary set (security_invoker = true);
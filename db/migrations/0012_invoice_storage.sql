@@ -0,0 +1,18 @@
+-- Invoice PDF storage bucket
+
+-- Private storage bucket for shareable invoice PDFs (Supabase only). Staff upload invoices and
+-- hand out time-limited signed links, so customers never need direct bucket access.
+do $$
+begin
+  if exists (select 1 from pg_namespace where nspname = 'storage') then
+    insert into storage.buckets (id, name, public)
+    values ('invoices', 'invoices', false)
+    on conflict (id) do nothing;
+
+    drop policy if exists invoices_staff_access on storage.objects;
+    create policy invoices_staff_access on storage.objects
+      for all using (bucket_id = 'invoices' and current_app_role() in ('admin', 'partner'))
+      with check (bucket_id = 'invoices' and current_app_role() in ('admin', 'partner'));
+  end if;
+end;
+$$;
@@ -0,0 +1,575 @@
+-- Credit limits and credit holds
+
+-- Credit control per customer: `credit_limit` caps what the customer may owe after a sale and
+-- `max_overdue_days` stops further credit while any invoice is overdue by more than that many
+-- days (counted from the sale date when no due date was set). Both are optional; a customer
+-- without them can buy on credit as before. Sales paid in full are never held.
+alter table customers
+  add column if not exists credit_limit numeric check (credit_limit >= 0),
+  add column if not exists max_overdue_days integer check (max_overdue_days >= 0);
+
+-- Admin overrides: a customer on credit hold can still buy on credit once an admin grants an
+-- override with a reason. The next sale that needs it uses it up and records its order.
+create table if not exists credit_overrides (
+  id uuid primary key default gen_random_uuid(),
+  customer_id uuid not null references customers(id) on delete cascade,
+  reason text not null check (length(trim(reason)) > 0),
+  granted_by uuid references app_users(id) on delete set null,
+  granted_at timestamptz not null default now(),
+  used_at timestamptz,
+  order_id uuid references orders(id) on delete set null
+);
+
+create index if not exists credit_overrides_customer_id_idx on credit_overrides (customer_id);
+
+-- Staff can see overrides for the customers they can see; changes only go through the
+-- security definer functions below
+alter table credit_overrides enable row level security;
+
+drop policy if exists credit_overrides_staff_read on credit_overrides;
+create policy credit_overrides_staff_read on credit_overrides
+  for select using (exists (select 1 from customers c where c.id = customer_id));
+
+create or replace function grant_credit_override(p_customer_id uuid, p_reason text)
+returns credit_overrides as $$
+declare
+  v_override credit_overrides%rowtype;
+begin
+  if current_app_role() is distinct from 'admin' then
+    raise exception 'only admins can override a credit hold';
+  end if;
+  if nullif(trim(p_reason), '') is null then
+    raise exception 'a reason is required to override a credit hold';
+  end if;
+  if not exists (select 1 from customers where id = p_customer_id) then
+    raise exception 'customer not found';
+  end if;
+
+  insert into credit_overrides (customer_id, reason, granted_by)
+  values (p_customer_id, trim(p_reason), current_app_user_id())
+  returning * into v_override;
+
+  return v_override;
+end;
+$$ language plpgsql security definer;
+
+-- Raises when a sale leaving p_new_balance unpaid would put the customer past their credit
+-- limit or while they have an invoice overdue beyond max_overdue_days. Runs after the sale
+-- lines are written, so the outstanding already includes them. An unused admin override lets
+-- the sale through and is marked as used by the order. It is security definer to mark the
+-- override, so it refuses callers without a staff session before reading any balance.
+create or replace function enforce_credit_limit(p_customer_id uuid, p_order_id uuid, p_new_balance numeric)
+returns void as $$
+declare
+  v_customer customers%rowtype;
+  v_outstanding numeric;
+  v_overdue_days integer;
+  v_reason text;
+  v_override_id uuid;
+begin
+  if coalesce(p_new_balance, 0) <= 0 then
+    return;
+  end if;
+
+  select * into v_customer from customers where id = p_customer_id;
+  if v_customer.credit_limit is null and v_customer.max_overdue_days is null then
+    return;
+  end if;
+  if current_app_role() is null then
+    raise exception 'not signed in';
+  end if;
+
+  select greatest(coalesce(sum(balance), 0), 0)
+    into v_outstanding
+    from transactions
+   where customer_id = p_customer_id;
+
+  select coalesce(max(current_date - coalesce(due_date, created_at::date)), 0)
+    into v_overdue_days
+    from transactions
+   where customer_id = p_customer_id
+     and lower(coalesce(type, 'sale')) <> 'payment'
+     and balance > 0;
+
+  if v_customer.credit_limit is not null and v_outstanding > v_customer.credit_limit then
+    v_reason := format(
+      'outstanding of %s would exceed the credit limit of %s',
+      to_char(v_outstanding, 'FM999999999990.00'),
+      to_char(v_customer.credit_limit, 'FM999999999990.00')
+    );
+  elsif v_customer.max_overdue_days is not null and v_overdue_days > v_customer.max_overdue_days then
+    v_reason := format('an invoice is %s days overdue (allowed %s)', v_overdue_days, v_customer.max_overdue_days);
+  else
+    return;
+  end if;
+
+  update credit_overrides
+     set used_at = now(),
+         order_id = p_order_id
+   where id = (
+     select id
+       from credit_overrides
+      where customer_id = p_customer_id
+        and used_at is null
+      order by granted_at
+      limit 1
+        for update
+   )
+  returning id into v_override_id;
+
+  if v_override_id is null then
+    raise exception 'credit hold: %; collect payment or ask an admin for an override', v_reason;
+  end if;
+end;
+$$ language plpgsql security definer;
+
+-- record_sale and record_order as before, now checking the credit limit once the sale is written
+create or replace function record_sale(
+  p_batch_id uuid,
+  p_customer_id uuid,
+  p_quantity numeric,
+  p_price_per_kg numeric,
+  p_paid_amount numeric,
+  p_tx_type text,
+  p_due_date date default null
+) returns json as $$
+declare
+  v_batch record;
+  v_total numeric;
+  v_inserted record;
+  v_order_id uuid;
+begin
+  select *
+    into v_batch
+    from batches
+   where id = p_batch_id
+   for update;
+
+  if not found then
+    raise exception 'batch not found';
+  end if;
+
+  if coalesce(v_batch.remaining_quantity, 0) < p_quantity then
+    raise exception 'insufficient stock';
+  end if;
+
+  v_total := p_quantity * p_price_per_kg;
+
+  -- Every sale belongs to an order so that it has an invoice number (see orders below)
+  insert into orders (customer_id, due_date)
+  values (p_customer_id, p_due_date)
+  returning id into v_order_id;
+
+  insert into transactions (
+    customer_id,
+    order_id,
+    amount,
+    quantity,
+    type,
+    paid_amount,
+    balance,
+    status,
+    batch_id,
+    tea_name,
+    due_date,
+    created_at
+  )
+  values (
+    p_customer_id,
+    v_order_id,
+    v_total,
+    p_quantity,
+    coalesce(p_tx_type, 'sale'),
+    p_paid_amount,
+    v_total - coalesce(p_paid_amount, v_total),
+    case when v_total - coalesce(p_paid_amount, v_total) <= 0 then 'paid' else 'partial' end,
+    p_batch_id,
+    v_batch.name,
+    p_due_date,
+    now()
+  )
+  returning * into v_inserted;
+
+  update batches
+     set remaining_quantity = remaining_quantity - p_quantity
+   where id = p_batch_id;
+
+  perform enforce_credit_limit(p_customer_id, v_order_id, v_inserted.balance);
+
+  return json_build_object('transaction', row_to_json(v_inserted), 'batch_id', p_batch_id);
+end;
+$$ language plpgsql;
+
+create or replace function record_order(
+  p_customer_id uuid,
+  p_items json,
+  p_paid_amount numeric default null,
+  p_due_date date default null,
+  p_payment_method text default 'cash',
+  p_payment_reference text default null,
+  p_cheque_bank text default null,
+  p_cheque_date date default null,
+  p_apply_credit boolean default false,
+  p_client_id uuid default null,
+  p_recorded_at timestamptz default null
+) returns json as $$
+declare
+  v_order orders%rowtype;
+  v_item json;
+  v_batch record;
+  v_quantity numeric;
+  v_rate numeric;
+  v_line_total numeric;
+  v_line_paid numeric;
+  v_total numeric := 0;
+  v_paid numeric;
+  v_remaining_paid numeric;
+  v_inserted record;
+  v_lines json[] := '{}';
+  v_by_cheque boolean;
+  v_cheque_share numeric;
+  v_cheque_allocations json[] := '{}';
+  v_cheque_payment json;
+  v_line_ids uuid[] := '{}';
+  v_credit_applied numeric := 0;
+begin
+  if p_client_id is not null then
+    select * into v_order from orders where client_id = p_client_id;
+    if found then
+      return json_build_object(
+        'order', row_to_json(v_order),
+        'lines', (select coalesce(json_agg(t order by t.created_at, t.id), '[]'::json) from transactions t where t.order_id = v_order.id),
+        'total', (select coalesce(sum(amount), 0) from transactions where order_id = v_order.id),
+        'paid', (select coalesce(sum(paid_amount), 0) from transactions where order_id = v_order.id),
+        'balance', (select coalesce(sum(balance), 0) from transactions where order_id = v_order.id),
+        'duplicate', true
+      );
+    end if;
+  end if;
+
+  if p_items is null or json_typeof(p_items) <> 'array' or json_array_length(p_items) = 0 then
+    raise exception 'order must contain at least one line';
+  end if;
+
+  if not exists (select 1 from customers where id = p_customer_id) then
+    raise exception 'customer not found';
+  end if;
+  if exists (select 1 from customers where id = p_customer_id and archived_at is not null) then
+    raise exception 'customer is archived; restore it before recording a sale';
+  end if;
+
+  -- Lock every batch in a stable order so concurrent orders cannot deadlock
+  perform 1
+     from batches
+    where id in (select (value->>'batch_id')::uuid from json_array_elements(p_items))
+    order by id
+      for update;
+
+  for v_item in select value from json_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::numeric;
+    v_rate := (v_item->>'rate')::numeric;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'line quantity must be greater than zero';
+    end if;
+    if v_rate is null or v_rate < 0 then
+      raise exception 'line rate cannot be negative';
+    end if;
+    v_total := v_total + round(v_quantity * v_rate, 2);
+  end loop;
+
+  v_paid := coalesce(p_paid_amount, v_total);
+  if v_paid < 0 then
+    raise exception 'paid amount cannot be negative';
+  end if;
+  if v_paid > v_total then
+    raise exception 'paid amount (%) exceeds the order total (%)', v_paid, v_total;
+  end if;
+  v_remaining_paid := v_paid;
+  v_by_cheque := p_payment_method = 'cheque' and v_paid > 0;
+
+  insert into orders (customer_id, due_date, client_id, created_at)
+  values (
+    p_customer_id,
+    case when v_paid < v_total then p_due_date else null end,
+    p_client_id,
+    least(coalesce(p_recorded_at, now()), now())
+  )
+  returning * into v_order;
+
+  for v_item in select value from json_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::numeric;
+    v_rate := (v_item->>'rate')::numeric;
+    v_line_total := round(v_quantity * v_rate, 2);
+    v_line_paid := least(v_remaining_paid, v_line_total);
+    v_remaining_paid := v_remaining_paid - v_line_paid;
+    v_cheque_share := 0;
+    if v_by_cheque then
+      -- The cheque payment below settles this share of the line
+      v_cheque_share := v_line_paid;
+      v_line_paid := 0;
+    end if;
+
+    update batches
+       set remaining_quantity = remaining_quantity - v_quantity
+     where id = (v_item->>'batch_id')::uuid
+    returning * into v_batch;
+
+    if not found then
+      raise exception 'batch % not found', v_item->>'batch_id';
+    end if;
+    if v_batch.archived_at is not null then
+      raise exception 'batch % is archived', v_batch.name;
+    end if;
+    if v_batch.remaining_quantity < 0 then
+      raise exception 'insufficient stock for %', v_batch.name;
+    end if;
+
+    insert into transactions (
+      customer_id,
+      order_id,
+      amount,
+      quantity,
+      rate,
+      type,
+      paid_amount,
+      balance,
+      status,
+      payment_method,
+      payment_reference,
+      batch_id,
+      tea_name,
+      due_date,
+      created_at
+    )
+    values (
+      p_customer_id,
+      v_order.id,
+      v_line_total,
+      v_quantity,
+      v_rate,
+      'sale',
+      v_line_paid,
+      v_line_total - v_line_paid,
+      case when v_line_total - v_line_paid <= 0 then 'paid' else 'partial' end,
+      case when v_line_paid > 0 then coalesce(p_payment_method, 'cash') end,
+      case when v_line_paid > 0 then nullif(trim(p_payment_reference), '') end,
+      v_batch.id,
+      v_batch.name,
+      v_order.due_date,
+      v_order.created_at
+    )
+    returning * into v_inserted;
+
+    if v_cheque_share > 0 then
+      v_cheque_allocations := v_cheque_allocations || json_build_object('sale_id', v_inserted.id, 'amount', v_cheque_share);
+    end if;
+
+    v_line_ids := v_line_ids || v_inserted.id;
+    v_lines := v_lines || row_to_json(v_inserted);
+  end loop;
+
+  if v_by_cheque then
+    v_cheque_payment := record_payment(
+      p_customer_id,
+      v_paid,
+      to_json(v_cheque_allocations),
+      'cheque',
+      p_payment_reference,
+      p_cheque_bank,
+      p_cheque_date,
+      null,
+      v_order.created_at
+    );
+  end if;
+
+  if p_apply_credit then
+    v_credit_applied := apply_credit_notes(p_customer_id, v_line_ids);
+  end if;
+
+  perform enforce_credit_limit(p_customer_id, v_order.id, v_total - v_paid - v_credit_applied);
+
+  return json_build_object(
+    'order', row_to_json(v_order),
+    'lines', to_json(v_lines),
+    'payment', v_cheque_payment->'payment',
+    'total', v_total,
+    'paid', v_paid,
+    'credit_applied', v_credit_applied,
+    'balance', v_total - v_paid - v_credit_applied
+  );
+end;
+$$ language plpgsql;
+
+-- Puts back credit overrides saved by reset_all, which deletes them with their customers.
+-- Overrides are only written through security definer functions, so undo_last_reset restores
+-- them through this one.
+create or replace function restore_credit_overrides(p_overrides jsonb)
+returns void as $$
+begin
+  if current_app_role() is distinct from 'admin' then
+    raise exception 'only admins can undo a reset';
+  end if;
+
+  insert into credit_overrides
+  select * from jsonb_populate_recordset(null::credit_overrides, coalesce(p_overrides, '[]'::jsonb))
+  on conflict (id) do nothing;
+end;
+$$ language plpgsql security definer;
+
+-- reset_all and undo_last_reset as in 0009, with credit overrides kept in the reset snapshot
+drop function if exists reset_all();
+create or replace function reset_all()
+returns json as $$
+declare
+  v_reset resets%rowtype;
+  v_tx_deleted integer;
+  v_customers_deleted integer;
+  v_seeded_customers uuid[];
+  v_seeded_transactions uuid[];
+begin
+  if current_app_role() is distinct from 'admin' then
+    raise exception 'only admins can reset all data';
+  end if;
+
+  insert into resets (kind, created_by, snapshot, undo_until)
+  values (
+    'all',
+    current_app_user_id(),
+    jsonb_build_object(
+      'customers', (select coalesce(jsonb_agg(to_jsonb(c)), '[]'::jsonb) from customers c),
+      'orders', (select coalesce(jsonb_agg(to_jsonb(o)), '[]'::jsonb) from orders o),
+      'transactions', (select coalesce(jsonb_agg(to_jsonb(t)), '[]'::jsonb) from transactions t),
+      'payment_allocations', (select coalesce(jsonb_agg(to_jsonb(a)), '[]'::jsonb) from payment_allocations a),
+      'cheques', (select coalesce(jsonb_agg(to_jsonb(c)), '[]'::jsonb) from cheques c),
+      'credit_overrides', (select coalesce(jsonb_agg(to_jsonb(o)), '[]'::jsonb) from credit_overrides o)
+    ),
+    now() + interval '24 hours'
+  )
+  returning * into v_reset;
+
+  delete from transactions;
+  get diagnostics v_tx_deleted = row_count;
+  delete from orders;
+  delete from customers;
+  get diagnostics v_customers_deleted = row_count;
+
+  with seeded as (
+    insert into customers (full_name, shop_name, address, contact, outstanding_balance, partner_id)
+    values
+      ('Rajesh Kumar', 'Kumar Tea Shop', 'MG Road, Bangalore', '+91 9876543210', 5000,
+        (select id from app_users where lower(role) = 'partner' order by created_at limit 1)),
+      ('Priya Sharma', 'Sharma General Store', 'Park Street, Kolkata', '+91 9876543211', 2500,
+        (select id from app_users where lower(role) = 'partner' order by created_at limit 1))
+    returning id
+  )
+  select array_agg(id) into v_seeded_customers from seeded;
+
+  with seeded as (
+    insert into transactions (customer_id, amount, quantity, type, paid_amount, balance, status)
+    select c.id, 4000, 50, 'sale', 2000, 2000, 'partial'
+      from customers c
+     where c.id = any(v_seeded_customers)
+       and c.full_name = 'Rajesh Kumar'
+    returning id
+  )
+  select coalesce(array_agg(id), '{}') into v_seeded_transactions from seeded;
+
+  update resets
+     set snapshot = snapshot || jsonb_build_object(
+           'seeded_customers', to_jsonb(v_seeded_customers),
+           'seeded_transactions', to_jsonb(v_seeded_transactions)
+         ),
+         summary = jsonb_build_object(
+           'tx_deleted', v_tx_deleted,
+           'customers_deleted', v_customers_deleted,
+           'customers_inserted', coalesce(array_length(v_seeded_customers, 1), 0),
+           'transactions_inserted', coalesce(array_length(v_seeded_transactions, 1), 0)
+         )
+   where id = v_reset.id
+  returning * into v_reset;
+
+  return json_build_object(
+    'reset_id', v_reset.id,
+    'tx_deleted', v_tx_deleted,
+    'customers_deleted', v_customers_deleted,
+    'customers_inserted', coalesce(array_length(v_seeded_customers, 1), 0),
+    'transactions_inserted', coalesce(array_length(v_seeded_transactions, 1), 0),
+    'undo_until', v_reset.undo_until
+  );
+end;
+$$ language plpgsql;
+
+create or replace function undo_last_reset()
+returns json as $$
+declare
+  v_reset resets%rowtype;
+  v_snapshot jsonb;
+begin
+  if current_app_role() is distinct from 'admin' then
+    raise exception 'only admins can undo a reset';
+  end if;
+
+  select * into v_reset from resets order by created_at desc limit 1 for update;
+  if not found or v_reset.undone_at is not null then
+    raise exception 'there is no reset to undo';
+  end if;
+  if v_reset.undo_until < now() then
+    raise exception 'the last reset can no longer be undone (undo window ended %)', v_reset.undo_until;
+  end if;
+  v_snapshot := v_reset.snapshot;
+
+  if v_reset.kind = 'today' then
+    update transactions t
+       set amount = s.amount,
+           quantity = s.quantity,
+           paid_amount = s.paid_amount,
+           balance = s.balance,
+           status = s.status
+      from jsonb_populate_recordset(null::transactions, v_snapshot->'transactions') s
+     where t.id = s.id;
+
+    update batches b
+       set remaining_quantity = s.remaining_quantity
+      from jsonb_populate_recordset(null::batches, v_snapshot->'batches') s
+     where b.id = s.id;
+
+    update customers c
+       set outstanding_balance = s.outstanding_balance
+      from jsonb_populate_recordset(null::customers, v_snapshot->'customers') s
+     where c.id = s.id;
+  else
+    delete from transactions
+     where id in (select jsonb_array_elements_text(coalesce(v_snapshot->'seeded_transactions', '[]'::jsonb))::uuid);
+    delete from customers
+     where id in (select jsonb_array_elements_text(coalesce(v_snapshot->'seeded_customers', '[]'::jsonb))::uuid);
+
+    insert into customers
+    select * from jsonb_populate_recordset(null::customers, v_snapshot->'customers')
+    on conflict (id) do nothing;
+
+    insert into orders
+    select * from jsonb_populate_recordset(null::orders, v_snapshot->'orders')
+    on conflict (id) do nothing;
+
+    insert into transactions
+    select * from jsonb_populate_recordset(null::transactions, v_snapshot->'transactions')
+    on conflict (id) do nothing;
+
+    perform restore_credit_overrides(v_snapshot->'credit_overrides');
+  end if;
+
+  insert into payment_allocations
+  select * from jsonb_populate_recordset(null::payment_allocations, v_snapshot->'payment_allocations')
+  on conflict (id) do nothing;
+
+  insert into cheques
+  select * from jsonb_populate_recordset(null::cheques, v_snapshot->'cheques')
+  on conflict (id) do nothing;
+
+  update resets set undone_at = now() where id = v_reset.id returning * into v_reset;
+
+  return json_build_object('reset_id', v_reset.id, 'kind', v_reset.kind, 'undone_at', v_reset.undone_at);
+end;
+$$ language plpgsql;
@@ -0,0 +1,239 @@
+-- Price lists: default selling rates, customer rates and quantity breaks
+
+-- Default selling rate per batch. New sales of the batch are priced at this rate unless a
+-- price rule for the tea applies; batches without one fall back to the tea's price rules only.
+alter table batches
+  add column if not exists selling_rate numeric check (selling_rate >= 0);
+
+-- Price rules per tea, matched on the batch name so every batch of the same tea shares them.
+-- A rule without a customer applies to everyone; a customer rule wins over the general list.
+-- `min_quantity` makes a rule a quantity break: the rule with the highest break the line
+-- reaches applies, and a break of 0 is the plain rate.
+create table if not exists price_rules (
+  id uuid primary key default gen_random_uuid(),
+  tea_name text not null check (length(trim(tea_name)) > 0),
+  customer_id uuid references customers(id) on delete cascade,
+  min_quantity numeric not null default 0 check (min_quantity >= 0),
+  rate numeric not null check (rate >= 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- One rate per tea, customer and break; the general list uses the nil uuid in the index
+create unique index if not exists price_rules_unique_idx on price_rules (
+  lower(trim(tea_name)),
+  coalesce(customer_id, '00000000-0000-0000-0000-000000000000'::uuid),
+  min_quantity
+);
+
+create index if not exists price_rules_customer_id_idx on price_rules (customer_id);
+
+-- Tea names are stored trimmed, and price changes go to the audit log like batch changes
+create or replace function touch_price_rule()
+returns trigger as $$
+begin
+  new.tea_name := trim(new.tea_name);
+  new.updated_at := now();
+  return new;
+end;
+$$ language plpgsql;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_trigger where tgname = 'price_rules_touch'
+  ) then
+    create trigger price_rules_touch
+    before insert or update on price_rules
+    for each row
+    execute function touch_price_rule();
+  end if;
+
+  if not exists (
+    select 1 from pg_trigger where tgname = 'price_rules_write_audit_log'
+  ) then
+    create trigger price_rules_write_audit_log
+    after insert or update or delete on price_rules
+    for each row
+    execute function write_audit_log();
+  end if;
+end;
+$$;
+
+-- Staff manage prices like batches; customer rules follow the customers they can see
+alter table price_rules enable row level security;
+
+drop policy if exists price_rules_staff_access on price_rules;
+create policy price_rules_staff_access on price_rules
+  for all using (
+    current_app_role() in ('admin', 'partner')
+    and (customer_id is null or exists (select 1 from customers c where c.id = customer_id))
+  )
+  with check (
+    current_app_role() in ('admin', 'partner')
+    and (customer_id is null or exists (select 1 from customers c where c.id = customer_id))
+  );
+
+-- reset_all and undo_last_reset as in 0013, with customer rates kept in the reset snapshot.
+-- reset_all deletes them with their customers; the general price list is left alone.
+drop function if exists reset_all();
+create or replace function reset_all()
+returns json as $$
+declare
+  v_reset resets%rowtype;
+  v_tx_deleted integer;
+  v_customers_deleted integer;
+  v_seeded_customers uuid[];
+  v_seeded_transactions uuid[];
+begin
+  if current_app_role() is distinct from 'admin' then
+    raise exception 'only admins can reset all data';
+  end if;
+
+  insert into resets (kind, created_by, snapshot, undo_until)
+  values (
+    'all',
+    current_app_user_id(),
+    jsonb_build_object(
+      'customers', (select coalesce(jsonb_agg(to_jsonb(c)), '[]'::jsonb) from customers c),
+      'orders', (select coalesce(jsonb_agg(to_jsonb(o)), '[]'::jsonb) from orders o),
+      'transactions', (select coalesce(jsonb_agg(to_jsonb(t)), '[]'::jsonb) from transactions t),
+      'payment_allocations', (select coalesce(jsonb_agg(to_jsonb(a)), '[]'::jsonb) from payment_allocations a),
+      'cheques', (select coalesce(jsonb_agg(to_jsonb(c)), '[]'::jsonb) from cheques c),
+      'credit_overrides', (select coalesce(jsonb_agg(to_jsonb(o)), '[]'::jsonb) from credit_overrides o),
+      'price_rules', (
+        select coalesce(jsonb_agg(to_jsonb(r)), '[]'::jsonb) from price_rules r where r.customer_id is not null
+      )
+    ),
+    now() + interval '24 hours'
+  )
+  returning * into v_reset;
+
+  delete from transactions;
+  get diagnostics v_tx_deleted = row_count;
+  delete from orders;
+  delete from customers;
+  get diagnostics v_customers_deleted = row_count;
+
+  with seeded as (
+    insert into customers (full_name, shop_name, address, contact, outstanding_balance, partner_id)
+    values
+      ('Rajesh Kumar', 'Kumar Tea Shop', 'MG Road, Bangalore', '+91 9876543210', 5000,
+        (select id from app_users where lower(role) = 'partner' order by created_at limit 1)),
+      ('Priya Sharma', 'Sharma General Store', 'Park Street, Kolkata', '+91 9876543211', 2500,
+        (select id from app_users where lower(role) = 'partner' order by created_at limit 1))
+    returning id
+  )
+  select array_agg(id) into v_seeded_customers from seeded;
+
+  with seeded as (
+    insert into transactions (customer_id, amount, quantity, type, paid_amount, balance, status)
+    select c.id, 4000, 50, 'sale', 2000, 2000, 'partial'
+      from customers c
+     where c.id = any(v_seeded_customers)
+       and c.full_name = 'Rajesh Kumar'
+    returning id
+  )
+  select coalesce(array_agg(id), '{}') into v_seeded_transactions from seeded;
+
+  update resets
+     set snapshot = snapshot || jsonb_build_object(
+           'seeded_customers', to_jsonb(v_seeded_customers),
+           'seeded_transactions', to_jsonb(v_seeded_transactions)
+         ),
+         summary = jsonb_build_object(
+           'tx_deleted', v_tx_deleted,
+           'customers_deleted', v_customers_deleted,
+           'customers_inserted', coalesce(array_length(v_seeded_customers, 1), 0),
+           'transactions_inserted', coalesce(array_length(v_seeded_transactions, 1), 0)
+         )
+   where id = v_reset.id
+  returning * into v_reset;
+
+  return json_build_object(
+    'reset_id', v_reset.id,
+    'tx_deleted', v_tx_deleted,
+    'customers_deleted', v_customers_deleted,
+    'customers_inserted', coalesce(array_length(v_seeded_customers, 1), 0),
+    'transactions_inserted', coalesce(array_length(v_seeded_transactions, 1), 0),
+    'undo_until', v_reset.undo_until
+  );
+end;
+$$ language plpgsql;
+
+create or replace function undo_last_reset()
+returns json as $$
+declare
+  v_reset resets%rowtype;
+  v_snapshot jsonb;
+begin
+  if current_app_role() is distinct from 'admin' then
+    raise exception 'only admins can undo a reset';
+  end if;
+
+  select * into v_reset from resets order by created_at desc limit 1 for update;
+  if not found or v_reset.undone_at is not null then
+    raise exception 'there is no reset to undo';
+  end if;
+  if v_reset.undo_until < now() then
+    raise exception 'the last reset can no longer be undone (undo window ended %)', v_reset.undo_until;
+  end if;
+  v_snapshot := v_reset.snapshot;
+
+  if v_reset.kind = 'today' then
+    update transactions t
+       set amount = s.amount,
+           quantity = s.quantity,
+           paid_amount = s.paid_amount,
+           balance = s.balance,
+           status = s.status
+      from jsonb_populate_recordset(null::transactions, v_snapshot->'transactions') s
+     where t.id = s.id;
+
+    update batches b
+       set remaining_quantity = s.remaining_quantity
+      from jsonb_populate_recordset(null::batches, v_snapshot->'batches') s
+     where b.id = s.id;
+
+    update customers c
+       set outstanding_balance = s.outstanding_balance
+      from jsonb_populate_recordset(null::customers, v_snapshot->'customers') s
+     where c.id = s.id;
+  else
+    delete from transactions
+     where id in (select jsonb_array_elements_text(coalesce(v_snapshot->'seeded_transactions', '[]'::jsonb))::uuid);
+    delete from customers
+     where id in (select jsonb_array_elements_text(coalesce(v_snapshot->'seeded_customers', '[]'::jsonb))::uuid);
+
+    insert into customers
+    select * from jsonb_populate_recordset(null::customers, v_snapshot->'customers')
+    on conflict (id) do nothing;
+
+    insert into orders
+    select * from jsonb_populate_recordset(null::orders, v_snapshot->'orders')
+    on conflict (id) do nothing;
+
+    insert into transactions
+    select * from jsonb_populate_recordset(null::transactions, v_snapshot->'transactions')
+    on conflict (id) do nothing;
+
+    perform restore_credit_overrides(v_snapshot->'credit_overrides');
+
+    insert into price_rules
+    select * from jsonb_populate_recordset(null::price_rules, coalesce(v_snapshot->'price_rules', '[]'::jsonb))
+    on conflict (id) do nothing;
+  end if;
+
+  insert into payment_allocations
+  select * from jsonb_populate_recordset(null::payment_allocations, v_snapshot->'payment_allocations')
+  on conflict (id) do nothing;
+
+  insert into cheques
+  select * from jsonb_populate_recordset(null::cheques, v_snapshot->'cheques')
+  on conflict (id) do nothing;
+
+  update resets set undone_at = now() where id = v_reset.id returning * into v_reset;
+
+  return json_build_object('reset_id', v_reset.id, 'kind', v_reset.kind, 'undone_at', v_reset.undone_at);
+end;
+$$ language plpgsql;
@@ -0,0 +1,917 @@
+-- Schemes: discounts and free-quantity offers on sales
+
+-- A scheme is either a percentage off the line ("festival 5% off") or free tea for every so many
+-- kilograms bought ("buy 10 kg get 1 kg free"). It applies between valid_from and valid_to
+-- (open-ended without an end date) and can be limited to one tea, matched on the batch name like
+-- price rules, to one customer and to lines of at least min_quantity kg.
+create table if not exists schemes (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(trim(name)) > 0),
+  kind text not null check (kind in ('discount', 'free_quantity')),
+  discount_percent numeric check (discount_percent > 0 and discount_percent <= 100),
+  buy_quantity numeric check (buy_quantity > 0),
+  free_quantity numeric check (free_quantity > 0),
+  tea_name text,
+  customer_id uuid references customers(id) on delete cascade,
+  min_quantity numeric not null default 0 check (min_quantity >= 0),
+  valid_from date not null default current_date,
+  valid_to date,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  check (valid_to is null or valid_to >= valid_from),
+  check (
+    (kind = 'discount' and discount_percent is not null)
+    or (kind = 'free_quantity' and buy_quantity is not null and free_quantity is not null)
+  )
+);
+
+-- Sale lines remember the scheme they were sold under. `quantity` stays the billed quantity and
+-- `amount` is net of `discount_amount`; `free_quantity` is tea given on top, which leaves stock
+-- like any other sale but is not charged for.
+alter table transactions
+  add column if not exists scheme_id uuid references schemes(id) on delete set null,
+  add column if not exists discount_amount numeric not null default 0,
+  add column if not exists free_quantity numeric not null default 0;
+
+create index if not exists transactions_scheme_id_idx on transactions (scheme_id);
+
+-- Scheme changes go to the audit log like price changes
+do $$
+begin
+  if not exists (
+    select 1 from pg_trigger where tgname = 'schemes_write_audit_log'
+  ) then
+    create trigger schemes_write_audit_log
+    after insert or update or delete on schemes
+    for each row
+    execute function write_audit_log();
+  end if;
+end;
+$$;
+
+-- Staff read schemes for the sale screen; only admins set them up
+alter table schemes enable row level security;
+
+drop policy if exists schemes_staff_read on schemes;
+create policy schemes_staff_read on schemes
+  for select using (
+    current_app_role() in ('admin', 'partner')
+    and (customer_id is null or exists (select 1 from customers c where c.id = customer_id))
+  );
+
+drop policy if exists schemes_admin_write on schemes;
+create policy schemes_admin_write on schemes
+  for all using (current_app_role() = 'admin')
+  with check (current_app_role() = 'admin');
+
+-- What a scheme gives on a sale line: the discount off the line and the free kilograms.
+-- Raises when the scheme does not apply to the line, so a sale never records a scheme it was
+-- not entitled to. Without a scheme both are zero.
+create or replace function scheme_benefit(
+  p_scheme_id uuid,
+  p_customer_id uuid,
+  p_tea_name text,
+  p_quantity numeric,
+  p_rate numeric,
+  p_sold_on date,
+  out discount_amount numeric,
+  out free_quantity numeric
+) as $$
+declare
+  v_scheme schemes%rowtype;
+begin
+  discount_amount := 0;
+  free_quantity := 0;
+  if p_scheme_id is null then
+    return;
+  end if;
+
+  select * into v_scheme from schemes where id = p_scheme_id;
+  if not found then
+    raise exception 'scheme not found';
+  end if;
+  if not v_scheme.active or p_sold_on < v_scheme.valid_from or p_sold_on > coalesce(v_scheme.valid_to, p_sold_on) then
+    raise exception 'scheme % is not valid on %', v_scheme.name, p_sold_on;
+  end if;
+  if v_scheme.tea_name is not null and lower(trim(v_scheme.tea_name)) is distinct from lower(trim(p_tea_name)) then
+    raise exception 'scheme % does not cover %', v_scheme.name, coalesce(p_tea_name, 'this tea');
+  end if;
+  if v_scheme.customer_id is not null and v_scheme.customer_id is distinct from p_customer_id then
+    raise exception 'scheme % is for another customer', v_scheme.name;
+  end if;
+  if p_quantity < greatest(v_scheme.min_quantity, coalesce(v_scheme.buy_quantity, 0)) then
+    raise exception 'scheme % needs at least % kg', v_scheme.name, greatest(v_scheme.min_quantity, coalesce(v_scheme.buy_quantity, 0));
+  end if;
+
+  if v_scheme.kind = 'discount' then
+    discount_amount := round(round(p_quantity * p_rate, 2) * v_scheme.discount_percent / 100, 2);
+  else
+    free_quantity := floor(p_quantity / v_scheme.buy_quantity) * v_scheme.free_quantity;
+  end if;
+end;
+$$ language plpgsql stable;
+
+-- record_sale takes an optional scheme; the free quantity is checked against and taken from stock
+drop function if exists record_sale(uuid, uuid, numeric, numeric, numeric, text, date);
+
+create or replace function record_sale(
+  p_batch_id uuid,
+  p_customer_id uuid,
+  p_quantity numeric,
+  p_price_per_kg numeric,
+  p_paid_amount numeric,
+  p_tx_type text,
+  p_due_date date default null,
+  p_scheme_id uuid default null
+) returns json as $$
+declare
+  v_batch record;
+  v_benefit record;
+  v_total numeric;
+  v_inserted record;
+  v_order_id uuid;
+begin
+  select *
+    into v_batch
+    from batches
+   where id = p_batch_id
+   for update;
+
+  if not found then
+    raise exception 'batch not found';
+  end if;
+
+  select * into v_benefit
+    from scheme_benefit(p_scheme_id, p_customer_id, v_batch.name, p_quantity, p_price_per_kg, current_date);
+
+  if coalesce(v_batch.remaining_quantity, 0) < p_quantity + v_benefit.free_quantity then
+    raise exception 'insufficient stock';
+  end if;
+
+  v_total := p_quantity * p_price_per_kg - v_benefit.discount_amount;
+
+  -- Every sale belongs to an order so that it has an invoice number (see orders below)
+  insert into orders (customer_id, due_date)
+  values (p_customer_id, p_due_date)
+  returning id into v_order_id;
+
+  insert into transactions (
+    customer_id,
+    order_id,
+    amount,
+    quantity,
+    type,
+    paid_amount,
+    balance,
+    status,
+    batch_id,
+    tea_name,
+    due_date,
+    scheme_id,
+    discount_amount,
+    free_quantity,
+    created_at
+  )
+  values (
+    p_customer_id,
+    v_order_id,
+    v_total,
+    p_quantity,
+    coalesce(p_tx_type, 'sale'),
+    p_paid_amount,
+    v_total - coalesce(p_paid_amount, v_total),
+    case when v_total - coalesce(p_paid_amount, v_total) <= 0 then 'paid' else 'partial' end,
+    p_batch_id,
+    v_batch.name,
+    p_due_date,
+    p_scheme_id,
+    v_benefit.discount_amount,
+    v_benefit.free_quantity,
+    now()
+  )
+  returning * into v_inserted;
+
+  update batches
+     set remaining_quantity = remaining_quantity - p_quantity - v_benefit.free_quantity
+   where id = p_batch_id;
+
+  perform enforce_credit_limit(p_customer_id, v_order_id, v_inserted.balance);
+
+  return json_build_object('transaction', row_to_json(v_inserted), 'batch_id', p_batch_id);
+end;
+$$ language plpgsql;
+
+-- record_order reads an optional scheme_id per line: {batch_id, quantity, rate, scheme_id}.
+-- Schemes are checked against the date the sale was made, so queued offline sales keep theirs.
+create or replace function record_order(
+  p_customer_id uuid,
+  p_items json,
+  p_paid_amount numeric default null,
+  p_due_date date default null,
+  p_payment_method text default 'cash',
+  p_payment_reference text default null,
+  p_cheque_bank text default null,
+  p_cheque_date date default null,
+  p_apply_credit boolean default false,
+  p_client_id uuid default null,
+  p_recorded_at timestamptz default null
+) returns json as $$
+declare
+  v_order orders%rowtype;
+  v_item json;
+  v_batch record;
+  v_benefit record;
+  v_scheme_id uuid;
+  v_sold_on date := least(coalesce(p_recorded_at, now()), now())::date;
+  v_quantity numeric;
+  v_rate numeric;
+  v_line_total numeric;
+  v_line_paid numeric;
+  v_total numeric := 0;
+  v_paid numeric;
+  v_remaining_paid numeric;
+  v_inserted record;
+  v_lines json[] := '{}';
+  v_by_cheque boolean;
+  v_cheque_share numeric;
+  v_cheque_allocations json[] := '{}';
+  v_cheque_payment json;
+  v_line_ids uuid[] := '{}';
+  v_credit_applied numeric := 0;
+begin
+  if p_client_id is not null then
+    select * into v_order from orders where client_id = p_client_id;
+    if found then
+      return json_build_object(
+        'order', row_to_json(v_order),
+        'lines', (select coalesce(json_agg(t order by t.created_at, t.id), '[]'::json) from transactions t where t.order_id = v_order.id),
+        'total', (select coalesce(sum(amount), 0) from transactions where order_id = v_order.id),
+        'paid', (select coalesce(sum(paid_amount), 0) from transactions where order_id = v_order.id),
+        'balance', (select coalesce(sum(balance), 0) from transactions where order_id = v_order.id),
+        'duplicate', true
+      );
+    end if;
+  end if;
+
+  if p_items is null or json_typeof(p_items) <> 'array' or json_array_length(p_items) = 0 then
+    raise exception 'order must contain at least one line';
+  end if;
+
+  if not exists (select 1 from customers where id = p_customer_id) then
+    raise exception 'customer not found';
+  end if;
+  if exists (select 1 from customers where id = p_customer_id and archived_at is not null) then
+    raise exception 'customer is archived; restore it before recording a sale';
+  end if;
+
+  -- Lock every batch in a stable order so concurrent orders cannot deadlock
+  perform 1
+     from batches
+    where id in (select (value->>'batch_id')::uuid from json_array_elements(p_items))
+    order by id
+      for update;
+
+  for v_item in select value from json_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::numeric;
+    v_rate := (v_item->>'rate')::numeric;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'line quantity must be greater than zero';
+    end if;
+    if v_rate is null or v_rate < 0 then
+      raise exception 'line rate cannot be negative';
+    end if;
+    select * into v_benefit
+      from scheme_benefit(
+        nullif(v_item->>'scheme_id', '')::uuid,
+        p_customer_id,
+        (select name from batches where id = (v_item->>'batch_id')::uuid),
+        v_quantity,
+        v_rate,
+        v_sold_on
+      );
+    v_total := v_total + round(v_quantity * v_rate, 2) - v_benefit.discount_amount;
+  end loop;
+
+  v_paid := coalesce(p_paid_amount, v_total);
+  if v_paid < 0 then
+    raise exception 'paid amount cannot be negative';
+  end if;
+  if v_paid > v_total then
+    raise exception 'paid amount (%) exceeds the order total (%)', v_paid, v_total;
+  end if;
+  v_remaining_paid := v_paid;
+  v_by_cheque := p_payment_method = 'cheque' and v_paid > 0;
+
+  insert into orders (customer_id, due_date, client_id, created_at)
+  values (
+    p_customer_id,
+    case when v_paid < v_total then p_due_date else null end,
+    p_client_id,
+    least(coalesce(p_recorded_at, now()), now())
+  )
+  returning * into v_order;
+
+  for v_item in select value from json_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::numeric;
+    v_rate := (v_item->>'rate')::numeric;
+    v_scheme_id := nullif(v_item->>'scheme_id', '')::uuid;
+    select * into v_benefit
+      from scheme_benefit(
+        v_scheme_id,
+        p_customer_id,
+        (select name from batches where id = (v_item->>'batch_id')::uuid),
+        v_quantity,
+        v_rate,
+        v_sold_on
+      );
+    v_line_total := round(v_quantity * v_rate, 2) - v_benefit.discount_amount;
+    v_line_paid := least(v_remaining_paid, v_line_total);
+    v_remaining_paid := v_remaining_paid - v_line_paid;
+    v_cheque_share := 0;
+    if v_by_cheque then
+      -- The cheque payment below settles this share of the line
+      v_cheque_share := v_line_paid;
+      v_line_paid := 0;
+    end if;
+
+    update batches
+       set remaining_quantity = remaining_quantity - v_quantity - v_benefit.free_quantity
+     where id = (v_item->>'batch_id')::uuid
+    returning * into v_batch;
+
+    if not found then
+      raise exception 'batch % not found', v_item->>'batch_id';
+    end if;
+    if v_batch.archived_at is not null then
+      raise exception 'batch % is archived', v_batch.name;
+    end if;
+    if v_batch.remaining_quantity < 0 then
+      raise exception 'insufficient stock for %', v_batch.name;
+    end if;
+
+    insert into transactions (
+      customer_id,
+      order_id,
+      amount,
+      quantity,
+      rate,
+      type,
+      paid_amount,
+      balance,
+      status,
+      payment_method,
+      payment_reference,
+      batch_id,
+      tea_name,
+      due_date,
+      scheme_id,
+      discount_amount,
+      free_quantity,
+      created_at
+    )
+    values (
+      p_customer_id,
+      v_order.id,
+      v_line_total,
+      v_quantity,
+      v_rate,
+      'sale',
+      v_line_paid,
+      v_line_total - v_line_paid,
+      case when v_line_total - v_line_paid <= 0 then 'paid' else 'partial' end,
+      case when v_line_paid > 0 then coalesce(p_payment_method, 'cash') end,
+      case when v_line_paid > 0 then nullif(trim(p_payment_reference), '') end,
+      v_batch.id,
+      v_batch.name,
+      v_order.due_date,
+      v_scheme_id,
+      v_benefit.discount_amount,
+      v_benefit.free_quantity,
+      v_order.created_at
+    )
+    returning * into v_inserted;
+
+    if v_cheque_share > 0 then
+      v_cheque_allocations := v_cheque_allocations || json_build_object('sale_id', v_inserted.id, 'amount', v_cheque_share);
+    end if;
+
+    v_line_ids := v_line_ids || v_inserted.id;
+    v_lines := v_lines || row_to_json(v_inserted);
+  end loop;
+
+  if v_by_cheque then
+    v_cheque_payment := record_payment(
+      p_customer_id,
+      v_paid,
+      to_json(v_cheque_allocations),
+      'cheque',
+      p_payment_reference,
+      p_cheque_bank,
+      p_cheque_date,
+      null,
+      v_order.created_at
+    );
+  end if;
+
+  if p_apply_credit then
+    v_credit_applied := apply_credit_notes(p_customer_id, v_line_ids);
+  end if;
+
+  perform enforce_credit_limit(p_customer_id, v_order.id, v_total - v_paid - v_credit_applied);
+
+  return json_build_object(
+    'order', row_to_json(v_order),
+    'lines', to_json(v_lines),
+    'payment', v_cheque_payment->'payment',
+    'total', v_total,
+    'paid', v_paid,
+    'credit_applied', v_credit_applied,
+    'balance', v_total - v_paid - v_credit_applied
+  );
+end;
+$$ language plpgsql;
+
+-- Returns of a discounted line are credited at the rate actually charged, not the list rate.
+-- Free tea is not returned for credit, so only the billed quantity can come back.
+create or replace function record_return(p_sale_id uuid, p_quantity numeric, p_reason text default null)
+returns json as $$
+declare
+  v_sale transactions%rowtype;
+  v_return transactions%rowtype;
+  v_returned numeric;
+  v_rate numeric;
+  v_value numeric;
+  v_applied numeric;
+begin
+  select * into v_sale from transactions where id = p_sale_id for update;
+  if not found then
+    raise exception 'sale not found';
+  end if;
+  if lower(coalesce(v_sale.type, '')) in ('payment', 'charge', 'return') then
+    raise exception 'only tea sales can be returned';
+  end if;
+  if p_quantity is null or p_quantity <= 0 then
+    raise exception 'return quantity must be greater than zero';
+  end if;
+
+  select coalesce(sum(-quantity), 0) into v_returned from transactions where return_of = p_sale_id;
+  if p_quantity > coalesce(v_sale.quantity, 0) - v_returned then
+    raise exception 'only % kg of this sale can still be returned', coalesce(v_sale.quantity, 0) - v_returned;
+  end if;
+
+  v_rate := case
+    when v_sale.discount_amount > 0 then v_sale.amount / nullif(v_sale.quantity, 0)
+    else coalesce(v_sale.rate, v_sale.amount / nullif(v_sale.quantity, 0), 0)
+  end;
+  v_value := round(p_quantity * v_rate, 2);
+  v_applied := least(greatest(coalesce(v_sale.balance, 0), 0), v_value);
+
+  if v_sale.batch_id is not null then
+    update batches
+       set remaining_quantity = remaining_quantity + p_quantity
+     where id = v_sale.batch_id;
+  end if;
+
+  insert into transactions (
+    customer_id,
+    return_of,
+    return_reason,
+    credit_note_number,
+    amount,
+    quantity,
+    rate,
+    type,
+    paid_amount,
+    balance,
+    status,
+    batch_id,
+    tea_name
+  )
+  values (
+    v_sale.customer_id,
+    v_sale.id,
+    nullif(trim(p_reason), ''),
+    nextval('credit_note_number_seq'),
+    -v_value,
+    -p_quantity,
+    v_rate,
+    'return',
+    0,
+    -(v_value - v_applied),
+    'returned',
+    v_sale.batch_id,
+    v_sale.tea_name
+  )
+  returning * into v_return;
+
+  if v_applied > 0 then
+    update transactions
+       set balance = balance - v_applied,
+           status = case when balance - v_applied <= 0 then 'paid' else 'partial' end
+     where id = v_sale.id;
+
+    insert into payment_allocations (payment_id, sale_id, amount)
+    values (v_return.id, v_sale.id, v_applied);
+  end if;
+
+  return json_build_object(
+    'return', row_to_json(v_return),
+    'applied', v_applied,
+    'credit', v_value - v_applied
+  );
+end;
+$$ language plpgsql;
+
+-- Free tea costs what the batch cost, so the P&L views charge it at the purchase rate.
+-- batch_pnl gains a free_quantity column; sold_quantity stays the billed quantity.
+drop view if exists batch_pnl;
+create or replace view batch_pnl as
+select
+  b.id as batch_id,
+  b.name as batch_name,
+  b.total_quantity,
+  b.remaining_quantity,
+  b.purchase_rate,
+  coalesce(sum(t.quantity), 0) as sold_quantity,
+  coalesce(sum(t.amount), 0) as sold_revenue,
+  ((coalesce(sum(t.quantity), 0) + coalesce(sum(t.free_quantity), 0)) * b.purchase_rate) as purchase_cost_for_sold,
+  (coalesce(sum(t.amount), 0) - ((coalesce(sum(t.quantity), 0) + coalesce(sum(t.free_quantity), 0)) * b.purchase_rate)) as pnl,
+  coalesce(-sum(t.quantity) filter (where lower(coalesce(t.type, '')) = 'return'), 0) as returned_quantity,
+  coalesce(sum(t.free_quantity), 0) as free_quantity
+from batches b
+left join transactions t on t.batch_id = b.id
+group by b.id, b.name, b.total_quantity, b.remaining_quantity, b.purchase_rate
+order by pnl desc;
+
+alter view batch_pnl set (security_invoker = true);
+
+-- analytics_summary as in 0007, with free tea counted in total_pnl
+drop view if exists analytics_summary;
+create or replace view analytics_summary as
+with sales as (
+  -- Returns carry negative amounts, so total_sales is net of returns
+  select
+    coalesce(sum(amount), 0) as total_sales,
+    count(*) filter (where lower(coalesce(type, '')) <> 'return')                 as sales_count,
+    coalesce(avg(amount) filter (where lower(coalesce(type, '')) <> 'return'), 0) as avg_sale_value,
+    max(created_at) filter (where lower(coalesce(type, '')) <> 'return')          as last_sale_at
+  from transactions
+  where lower(coalesce(type, '')) not in ('payment', 'charge')
+),
+returns as (
+  select
+    coalesce(-sum(amount), 0) as total_returns,
+    count(*)                  as returns_count
+  from transactions
+  where lower(coalesce(type, '')) = 'return'
+),
+payments as (
+  select
+    coalesce(sum(amount), 0) as total_collections,
+    count(*)                 as payments_count,
+    max(created_at)          as last_payment_at
+  from transactions
+  where lower(coalesce(type, '')) = 'payment'
+),
+balances as (
+  select coalesce(sum(balance), 0) as outstanding_balance from transactions
+),
+pnl as (
+  select coalesce(sum(
+    t.amount - ((t.quantity + coalesce(t.free_quantity, 0)) * coalesce(b.purchase_rate, 0))
+  ), 0) as total_pnl
+  from transactions t
+  left join batches b on t.batch_id = b.id
+  where lower(coalesce(t.type, '')) not in ('payment', 'charge')
+),
+today_collections as (
+  select coalesce(sum(coalesce(t.paid_amount, 0)), 0) as amount
+  from transactions t
+  where date_trunc('day', t.created_at) = date_trunc('day', now())
+)
+select
+  sales.total_sales,
+  payments.total_collections,
+  greatest(balances.outstanding_balance, 0) as outstanding,
+  sales.sales_count,
+  payments.payments_count,
+  sales.avg_sale_value,
+  sales.last_sale_at,
+  payments.last_payment_at,
+  coalesce((select count(*) from customers), 0)    as total_customers,
+  coalesce((select count(*) from transactions), 0) as transactions_count,
+  pnl.total_pnl,
+  today_collections.amount as today_collections,
+  returns.total_returns,
+  returns.returns_count
+from sales
+cross join payments
+cross join returns
+cross join balances
+cross join pnl
+cross join today_collections;
+
+alter view analytics_summary set (security_invoker = true);
+
+-- reset_today_metrics as in 0009, with free tea returned to stock along with the billed
+-- quantity; discounts and free tea of a reset sale are zeroed so the P&L no longer charges them
+drop function if exists reset_today_metrics();
+create or replace function reset_today_metrics()
+returns json as $$
+declare
+  v_ids uuid[];
+  v_customer_ids uuid[];
+  v_allocation record;
+  v_reset resets%rowtype;
+  v_customers_reset integer;
+begin
+  if current_app_role() is distinct from 'admin' then
+    raise exception 'only admins can reset metrics';
+  end if;
+
+  select coalesce(array_agg(id), '{}') into v_ids
+    from transactions
+   where created_at >= date_trunc('day', now())
+     and created_at < date_trunc('day', now()) + interval '1 day';
+
+  select coalesce(array_agg(distinct customer_id), '{}') into v_customer_ids
+    from transactions
+   where id = any(v_ids)
+     and customer_id is not null;
+
+  insert into resets (kind, created_by, snapshot, undo_until)
+  values (
+    'today',
+    current_app_user_id(),
+    jsonb_build_object(
+      'transactions', (
+        select coalesce(jsonb_agg(to_jsonb(t)), '[]'::jsonb)
+          from transactions t
+         where t.id = any(v_ids)
+            or t.id in (
+              select a.sale_id from payment_allocations a where a.payment_id = any(v_ids)
+              union
+              select a.payment_id from payment_allocations a where a.sale_id = any(v_ids)
+            )
+      ),
+      'payment_allocations', (
+        select coalesce(jsonb_agg(to_jsonb(a)), '[]'::jsonb)
+          from payment_allocations a
+         where a.payment_id = any(v_ids) or a.sale_id = any(v_ids)
+      ),
+      'cheques', (
+        select coalesce(jsonb_agg(to_jsonb(c)), '[]'::jsonb) from cheques c where c.payment_id = any(v_ids)
+      ),
+      'batches', (
+        select coalesce(jsonb_agg(to_jsonb(b)), '[]'::jsonb)
+          from batches b
+         where b.id in (select batch_id from transactions where id = any(v_ids))
+      ),
+      'customers', (
+        select coalesce(jsonb_agg(to_jsonb(c)), '[]'::jsonb) from customers c where c.id = any(v_customer_ids)
+      )
+    ),
+    now() + interval '24 hours'
+  )
+  returning * into v_reset;
+
+  -- Older sales paid by today's payments owe again; older payments and credit notes used by
+  -- today's sales get their credit back
+  for v_allocation in
+    select * from payment_allocations where payment_id = any(v_ids) or sale_id = any(v_ids)
+  loop
+    if not (v_allocation.sale_id = any(v_ids)) then
+      update transactions
+         set balance = coalesce(balance, 0) + v_allocation.amount,
+             status = 'partial'
+       where id = v_allocation.sale_id;
+    elsif not (v_allocation.payment_id = any(v_ids)) then
+      update transactions
+         set balance = coalesce(balance, 0) - v_allocation.amount
+       where id = v_allocation.payment_id;
+    end if;
+  end loop;
+
+  delete from payment_allocations where payment_id = any(v_ids) or sale_id = any(v_ids);
+  delete from cheques where payment_id = any(v_ids);
+
+  update batches b
+     set remaining_quantity = b.remaining_quantity + sold.quantity
+    from (
+      select batch_id, sum(coalesce(quantity, 0) + coalesce(free_quantity, 0)) as quantity
+        from transactions
+       where id = any(v_ids) and batch_id is not null
+       group by batch_id
+    ) sold
+   where b.id = sold.batch_id;
+
+  update transactions
+     set amount = 0,
+         quantity = 0,
+         paid_amount = 0,
+         balance = 0,
+         discount_amount = 0,
+         free_quantity = 0,
+         status = 'reset'
+   where id = any(v_ids);
+
+  update customers c
+     set outstanding_balance = greatest(
+       coalesce((select sum(t.balance) from transactions t where t.customer_id = c.id), 0),
+       0
+     )
+   where c.id = any(v_customer_ids);
+  get diagnostics v_customers_reset = row_count;
+
+  update resets
+     set summary = jsonb_build_object(
+       'tx_reset_count', coalesce(array_length(v_ids, 1), 0),
+       'customers_reset_count', v_customers_reset
+     )
+   where id = v_reset.id
+  returning * into v_reset;
+
+  return json_build_object(
+    'reset_id', v_reset.id,
+    'tx_reset_count', coalesce(array_length(v_ids, 1), 0),
+    'customers_reset_count', v_customers_reset,
+    'undo_until', v_reset.undo_until
+  );
+end;
+$$ language plpgsql;
+
+-- reset_all and undo_last_reset as in 0014, with customer schemes kept in the reset snapshot and
+-- the scheme columns of today's sales put back by an undo
+drop function if exists reset_all();
+create or replace function reset_all()
+returns json as $$
+declare
+  v_reset resets%rowtype;
+  v_tx_deleted integer;
+  v_customers_deleted integer;
+  v_seeded_customers uuid[];
+  v_seeded_transactions uuid[];
+begin
+  if current_app_role() is distinct from 'admin' then
+    raise exception 'only admins can reset all data';
+  end if;
+
+  insert into resets (kind, created_by, snapshot, undo_until)
+  values (
+    'all',
+    current_app_user_id(),
+    jsonb_build_object(
+      'customers', (select coalesce(jsonb_agg(to_jsonb(c)), '[]'::jsonb) from customers c),
+      'orders', (select coalesce(jsonb_agg(to_jsonb(o)), '[]'::jsonb) from orders o),
+      'transactions', (select coalesce(jsonb_agg(to_jsonb(t)), '[]'::jsonb) from transactions t),
+      'payment_allocations', (select coalesce(jsonb_agg(to_jsonb(a)), '[]'::jsonb) from payment_allocations a),
+      'cheques', (select coalesce(jsonb_agg(to_jsonb(c)), '[]'::jsonb) from cheques c),
+      'credit_overrides', (select coalesce(jsonb_agg(to_jsonb(o)), '[]'::jsonb) from credit_overrides o),
+      'price_rules', (
+        select coalesce(jsonb_agg(to_jsonb(r)), '[]'::jsonb) from price_rules r where r.customer_id is not null
+      ),
+      'schemes', (
+        select coalesce(jsonb_agg(to_jsonb(s)), '[]'::jsonb) from schemes s where s.customer_id is not null
+      )
+    ),
+    now() + interval '24 hours'
+  )
+  returning * into v_reset;
+
+  delete from transactions;
+  get diagnostics v_tx_deleted = row_count;
+  delete from orders;
+  delete from customers;
+  get diagnostics v_customers_deleted = row_count;
+
+  with seeded as (
+    insert into customers (full_name, shop_name, address, contact, outstanding_balance, partner_id)
+    values
+      ('Rajesh Kumar', 'Kumar Tea Shop', 'MG Road, Bangalore', '+91 9876543210', 5000,
+        (select id from app_users where lower(role) = 'partner' order by created_at limit 1)),
+      ('Priya Sharma', 'Sharma General Store', 'Park Street, Kolkata', '+91 9876543211', 2500,
+        (select id from app_users where lower(role) = 'partner' order by created_at limit 1))
+    returning id
+  )
+  select array_agg(id) into v_seeded_customers from seeded;
+
+  with seeded as (
+    insert into transactions (customer_id, amount, quantity, type, paid_amount, balance, status)
+    select c.id, 4000, 50, 'sale', 2000, 2000, 'partial'
+      from customers c
+     where c.id = any(v_seeded_customers)
+       and c.full_name = 'Rajesh Kumar'
+    returning id
+  )
+  select coalesce(array_agg(id), '{}') into v_seeded_transactions from seeded;
+
+  update resets
+     set snapshot = snapshot || jsonb_build_object(
+           'seeded_customers', to_jsonb(v_seeded_customers),
+           'seeded_transactions', to_jsonb(v_seeded_transactions)
+         ),
+         summary = jsonb_build_object(
+           'tx_deleted', v_tx_deleted,
+           'customers_deleted', v_customers_deleted,
+           'customers_inserted', coalesce(array_length(v_seeded_customers, 1), 0),
+           'transactions_inserted', coalesce(array_length(v_seeded_transactions, 1), 0)
+         )
+   where id = v_reset.id
+  returning * into v_reset;
+
+  return json_build_object(
+    'reset_id', v_reset.id,
+    'tx_deleted', v_tx_deleted,
+    'customers_deleted', v_customers_deleted,
+    'customers_inserted', coalesce(array_length(v_seeded_customers, 1), 0),
+    'transactions_inserted', coalesce(array_length(v_seeded_transactions, 1), 0),
+    'undo_until', v_reset.undo_until
+  );
+end;
+$$ language plpgsql;
+
+create or replace function undo_last_reset()
+returns json as $$
+declare
+  v_reset resets%rowtype;
+  v_snapshot jsonb;
+begin
+  if current_app_role() is distinct from 'admin' then
+    raise exception 'only admins can undo a reset';
+  end if;
+
+  select * into v_reset from resets order by created_at desc limit 1 for update;
+  if not found or v_reset.undone_at is not null then
+    raise exception 'there is no reset to undo';
+  end if;
+  if v_reset.undo_until < now() then
+    raise exception 'the last reset can no longer be undone (undo window ended %)', v_reset.undo_until;
+  end if;
+  v_snapshot := v_reset.snapshot;
+
+  if v_reset.kind = 'today' then
+    update transactions t
+       set amount = s.amount,
+           quantity = s.quantity,
+           paid_amount = s.paid_amount,
+           balance = s.balance,
+           status = s.status,
+           discount_amount = s.discount_amount,
+           free_quantity = s.free_quantity
+      from jsonb_populate_recordset(null::transactions, v_snapshot->'transactions') s
+     where t.id = s.id;
+
+    update batches b
+       set remaining_quantity = s.remaining_quantity
+      from jsonb_populate_recordset(null::batches, v_snapshot->'batches') s
+     where b.id = s.id;
+
+    update customers c
+       set outstanding_balance = s.outstanding_balance
+      from jsonb_populate_recordset(null::customers, v_snapshot->'customers') s
+     where c.id = s.id;
+  else
+    delete from transactions
+     where id in (select jsonb_array_elements_text(coalesce(v_snapshot->'seeded_transactions', '[]'::jsonb))::uuid);
+    delete from customers
+     where id in (select jsonb_array_elements_text(coalesce(v_snapshot->'seeded_customers', '[]'::jsonb))::uuid);
+
+    insert into customers
+    select * from jsonb_populate_recordset(null::customers, v_snapshot->'customers')
+    on conflict (id) do nothing;
+
+    insert into orders
+    select * from jsonb_populate_recordset(null::orders, v_snapshot->'orders')
+    on conflict (id) do nothing;
+
+    -- Before the transactions, whose scheme_id refers to them
+    insert into schemes
+    select * from jsonb_populate_recordset(null::schemes, coalesce(v_snapshot->'schemes', '[]'::jsonb))
+    on conflict (id) do nothing;
+
+    insert into transactions
+    select * from jsonb_populate_recordset(null::transactions, v_snapshot->'transactions')
+    on conflict (id) do nothing;
+
+    perform restore_credit_overrides(v_snapshot->'credit_overrides');
+
+    insert into price_rules
+    select * from jsonb_populate_recordset(null::price_rules, coalesce(v_snapshot->'price_rules', '[]'::jsonb))
+    on conflict (id) do nothing;
+  end if;
+
+  insert into payment_allocations
+  select * from jsonb_populate_recordset(null::payment_allocations, v_snapshot->'payment_allocations')
+  on conflict (id) do nothing;
+
+  insert into cheques
+  select * from jsonb_populate_recordset(null::cheques, v_snapshot->'cheques')
+  on conflict (id) do nothing;
+
+  update resets set undone_at = now() where id = v_reset.id returning * into v_reset;
+
+  return json_build_object('reset_id', v_reset.id, 'kind', v_reset.kind, 'undone_at', v_reset.undone_at);
+end;
+$$ language plpgsql;
@@ -0,0 +1,877 @@
+-- GST tax invoicing: HSN codes and GST rates per batch, customer GSTINs and CGST/SGST or IGST
+-- on every sale
+
+-- Each batch carries the HSN code and GST rate its tea is sold under. Batches that existed
+-- before GST invoicing keep a rate of 0 until it is set, so stock already priced is not taxed
+-- by surprise; new batches are created with tea's 5% from the app.
+alter table batches
+  add column if not exists hsn_code text default '0902' check (hsn_code ~ '^[0-9]{4,8}$'),
+  add column if not exists gst_rate numeric not null default 0 check (gst_rate >= 0 and gst_rate <= 28);
+
+-- Registered customers give their GSTIN; its first two digits are their state code. Customers
+-- without a GSTIN may still give a state so inter-state sales to them are taxed as IGST.
+alter table customers
+  add column if not exists gstin text
+    check (gstin ~ '^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$'),
+  add column if not exists state_code text check (state_code ~ '^[0-9]{2}$');
+
+create or replace function normalise_customer_gstin()
+returns trigger as $$
+begin
+  new.gstin := nullif(upper(trim(new.gstin)), '');
+  if new.gstin is not null then
+    new.state_code := left(new.gstin, 2);
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_trigger where tgname = 'customers_normalise_gstin'
+  ) then
+    create trigger customers_normalise_gstin
+    before insert or update on customers
+    for each row
+    execute function normalise_customer_gstin();
+  end if;
+end;
+$$;
+
+-- Sale and return lines keep the tax they were invoiced with. `amount` is the tax-inclusive
+-- total the customer owes; `taxable_value` is the value before tax (net of any scheme
+-- discount). Intra-state sales split the tax into CGST and SGST, inter-state sales charge IGST.
+-- Sales recorded before GST invoicing had no tax, so their taxable value is their amount.
+alter table transactions
+  add column if not exists hsn_code text,
+  add column if not exists gst_rate numeric not null default 0,
+  add column if not exists taxable_value numeric,
+  add column if not exists cgst_amount numeric not null default 0,
+  add column if not exists sgst_amount numeric not null default 0,
+  add column if not exists igst_amount numeric not null default 0,
+  add column if not exists place_of_supply text;
+
+update transactions
+   set taxable_value = amount
+ where taxable_value is null
+   and lower(coalesce(type, '')) not in ('payment', 'charge');
+
+-- The business's own GSTIN is the 'business_gstin' app setting; its state decides whether a
+-- sale is intra-state. Without it every sale is treated as intra-state.
+create or replace function business_state_code()
+returns text as $$
+  select nullif(left(trim(value), 2), '') from app_settings where key = 'business_gstin';
+$$ language sql stable;
+
+-- Tax on a sale line of p_taxable rupees at p_gst_rate percent to the given customer. The place
+-- of supply is the customer's state, or the business's own state when the customer gave none.
+create or replace function gst_split(
+  p_taxable numeric,
+  p_gst_rate numeric,
+  p_customer_id uuid,
+  out place_of_supply text,
+  out cgst_amount numeric,
+  out sgst_amount numeric,
+  out igst_amount numeric
+) as $$
+declare
+  v_home text := business_state_code();
+begin
+  select coalesce(c.state_code, left(c.gstin, 2)) into place_of_supply from customers c where c.id = p_customer_id;
+  place_of_supply := coalesce(place_of_supply, v_home);
+  cgst_amount := 0;
+  sgst_amount := 0;
+  igst_amount := 0;
+
+  if v_home is not null and place_of_supply is distinct from v_home then
+    igst_amount := round(p_taxable * coalesce(p_gst_rate, 0) / 100, 2);
+  else
+    cgst_amount := round(p_taxable * coalesce(p_gst_rate, 0) / 200, 2);
+    sgst_amount := cgst_amount;
+  end if;
+end;
+$$ language plpgsql stable;
+
+-- record_sale as in 0015, with GST on top of the taxable value
+create or replace function record_sale(
+  p_batch_id uuid,
+  p_customer_id uuid,
+  p_quantity numeric,
+  p_price_per_kg numeric,
+  p_paid_amount numeric,
+  p_tx_type text,
+  p_due_date date default null,
+  p_scheme_id uuid default null
+) returns json as $$
+declare
+  v_batch record;
+  v_benefit record;
+  v_tax record;
+  v_taxable numeric;
+  v_total numeric;
+  v_inserted record;
+  v_order_id uuid;
+begin
+  select *
+    into v_batch
+    from batches
+   where id = p_batch_id
+   for update;
+
+  if not found then
+    raise exception 'batch not found';
+  end if;
+
+  select * into v_benefit
+    from scheme_benefit(p_scheme_id, p_customer_id, v_batch.name, p_quantity, p_price_per_kg, current_date);
+
+  if coalesce(v_batch.remaining_quantity, 0) < p_quantity + v_benefit.free_quantity then
+    raise exception 'insufficient stock';
+  end if;
+
+  v_taxable := round(p_quantity * p_price_per_kg, 2) - v_benefit.discount_amount;
+  select * into v_tax from gst_split(v_taxable, v_batch.gst_rate, p_customer_id);
+  v_total := v_taxable + v_tax.cgst_amount + v_tax.sgst_amount + v_tax.igst_amount;
+
+  -- Every sale belongs to an order so that it has an invoice number (see orders below)
+  insert into orders (customer_id, due_date)
+  values (p_customer_id, p_due_date)
+  returning id into v_order_id;
+
+  insert into transactions (
+    customer_id,
+    order_id,
+    amount,
+    quantity,
+    rate,
+    type,
+    paid_amount,
+    balance,
+    status,
+    batch_id,
+    tea_name,
+    due_date,
+    scheme_id,
+    discount_amount,
+    free_quantity,
+    hsn_code,
+    gst_rate,
+    taxable_value,
+    cgst_amount,
+    sgst_amount,
+    igst_amount,
+    place_of_supply,
+    created_at
+  )
+  values (
+    p_customer_id,
+    v_order_id,
+    v_total,
+    p_quantity,
+    p_price_per_kg,
+    coalesce(p_tx_type, 'sale'),
+    p_paid_amount,
+    v_total - coalesce(p_paid_amount, v_total),
+    case when v_total - coalesce(p_paid_amount, v_total) <= 0 then 'paid' else 'partial' end,
+    p_batch_id,
+    v_batch.name,
+    p_due_date,
+    p_scheme_id,
+    v_benefit.discount_amount,
+    v_benefit.free_quantity,
+    v_batch.hsn_code,
+    v_batch.gst_rate,
+    v_taxable,
+    v_tax.cgst_amount,
+    v_tax.sgst_amount,
+    v_tax.igst_amount,
+    v_tax.place_of_supply,
+    now()
+  )
+  returning * into v_inserted;
+
+  update batches
+     set remaining_quantity = remaining_quantity - p_quantity - v_benefit.free_quantity
+   where id = p_batch_id;
+
+  perform enforce_credit_limit(p_customer_id, v_order_id, v_inserted.balance);
+
+  return json_build_object('transaction', row_to_json(v_inserted), 'batch_id', p_batch_id);
+end;
+$$ language plpgsql;
+
+-- record_order as in 0015; line totals and the order total include GST
+create or replace function record_order(
+  p_customer_id uuid,
+  p_items json,
+  p_paid_amount numeric default null,
+  p_due_date date default null,
+  p_payment_method text default 'cash',
+  p_payment_reference text default null,
+  p_cheque_bank text default null,
+  p_cheque_date date default null,
+  p_apply_credit boolean default false,
+  p_client_id uuid default null,
+  p_recorded_at timestamptz default null
+) returns json as $$
+declare
+  v_order orders%rowtype;
+  v_item json;
+  v_batch record;
+  v_benefit record;
+  v_tax record;
+  v_scheme_id uuid;
+  v_sold_on date := least(coalesce(p_recorded_at, now()), now())::date;
+  v_quantity numeric;
+  v_rate numeric;
+  v_taxable numeric;
+  v_line_total numeric;
+  v_line_paid numeric;
+  v_total numeric := 0;
+  v_paid numeric;
+  v_remaining_paid numeric;
+  v_inserted record;
+  v_lines json[] := '{}';
+  v_by_cheque boolean;
+  v_cheque_share numeric;
+  v_cheque_allocations json[] := '{}';
+  v_cheque_payment json;
+  v_line_ids uuid[] := '{}';
+  v_credit_applied numeric := 0;
+begin
+  if p_client_id is not null then
+    select * into v_order from orders where client_id = p_client_id;
+    if found then
+      return json_build_object(
+        'order', row_to_json(v_order),
+        'lines', (select coalesce(json_agg(t order by t.created_at, t.id), '[]'::json) from transactions t where t.order_id = v_order.id),
+        'total', (select coalesce(sum(amount), 0) from transactions where order_id = v_order.id),
+        'paid', (select coalesce(sum(paid_amount), 0) from transactions where order_id = v_order.id),
+        'balance', (select coalesce(sum(balance), 0) from transactions where order_id = v_order.id),
+        'duplicate', true
+      );
+    end if;
+  end if;
+
+  if p_items is null or json_typeof(p_items) <> 'array' or json_array_length(p_items) = 0 then
+    raise exception 'order must contain at least one line';
+  end if;
+
+  if not exists (select 1 from customers where id = p_customer_id) then
+    raise exception 'customer not found';
+  end if;
+  if exists (select 1 from customers where id = p_customer_id and archived_at is not null) then
+    raise exception 'customer is archived; restore it before recording a sale';
+  end if;
+
+  -- Lock every batch in a stable order so concurrent orders cannot deadlock
+  perform 1
+     from batches
+    where id in (select (value->>'batch_id')::uuid from json_array_elements(p_items))
+    order by id
+      for update;
+
+  for v_item in select value from json_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::numeric;
+    v_rate := (v_item->>'rate')::numeric;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'line quantity must be greater than zero';
+    end if;
+    if v_rate is null or v_rate < 0 then
+      raise exception 'line rate cannot be negative';
+    end if;
+    select * into v_batch from batches where id = (v_item->>'batch_id')::uuid;
+    select * into v_benefit
+      from scheme_benefit(
+        nullif(v_item->>'scheme_id', '')::uuid,
+        p_customer_id,
+        v_batch.name,
+        v_quantity,
+        v_rate,
+        v_sold_on
+      );
+    v_taxable := round(v_quantity * v_rate, 2) - v_benefit.discount_amount;
+    select * into v_tax from gst_split(v_taxable, v_batch.gst_rate, p_customer_id);
+    v_total := v_total + v_taxable + v_tax.cgst_amount + v_tax.sgst_amount + v_tax.igst_amount;
+  end loop;
+
+  v_paid := coalesce(p_paid_amount, v_total);
+  if v_paid < 0 then
+    raise exception 'paid amount cannot be negative';
+  end if;
+  if v_paid > v_total then
+    raise exception 'paid amount (%) exceeds the order total (%)', v_paid, v_total;
+  end if;
+  v_remaining_paid := v_paid;
+  v_by_cheque := p_payment_method = 'cheque' and v_paid > 0;
+
+  insert into orders (customer_id, due_date, client_id, created_at)
+  values (
+    p_customer_id,
+    case when v_paid < v_total then p_due_date else null end,
+    p_client_id,
+    least(coalesce(p_recorded_at, now()), now())
+  )
+  returning * into v_order;
+
+  for v_item in select value from json_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::numeric;
+    v_rate := (v_item->>'rate')::numeric;
+    v_scheme_id := nullif(v_item->>'scheme_id', '')::uuid;
+    select * into v_benefit
+      from scheme_benefit(
+        v_scheme_id,
+        p_customer_id,
+        (select name from batches where id = (v_item->>'batch_id')::uuid),
+        v_quantity,
+        v_rate,
+        v_sold_on
+      );
+
+    update batches
+       set remaining_quantity = remaining_quantity - v_quantity - v_benefit.free_quantity
+     where id = (v_item->>'batch_id')::uuid
+    returning * into v_batch;
+
+    if not found then
+      raise exception 'batch % not found', v_item->>'batch_id';
+    end if;
+    if v_batch.archived_at is not null then
+      raise exception 'batch % is archived', v_batch.name;
+    end if;
+    if v_batch.remaining_quantity < 0 then
+      raise exception 'insufficient stock for %', v_batch.name;
+    end if;
+
+    v_taxable := round(v_quantity * v_rate, 2) - v_benefit.discount_amount;
+    select * into v_tax from gst_split(v_taxable, v_batch.gst_rate, p_customer_id);
+    v_line_total := v_taxable + v_tax.cgst_amount + v_tax.sgst_amount + v_tax.igst_amount;
+    v_line_paid := least(v_remaining_paid, v_line_total);
+    v_remaining_paid := v_remaining_paid - v_line_paid;
+    v_cheque_share := 0;
+    if v_by_cheque then
+      -- The cheque payment below settles this share of the line
+      v_cheque_share := v_line_paid;
+      v_line_paid := 0;
+    end if;
+
+    insert into transactions (
+      customer_id,
+      order_id,
+      amount,
+      quantity,
+      rate,
+      type,
+      paid_amount,
+      balance,
+      status,
+      payment_method,
+      payment_reference,
+      batch_id,
+      tea_name,
+      due_date,
+      scheme_id,
+      discount_amount,
+      free_quantity,
+      hsn_code,
+      gst_rate,
+      taxable_value,
+      cgst_amount,
+      sgst_amount,
+      igst_amount,
+      place_of_supply,
+      created_at
+    )
+    values (
+      p_customer_id,
+      v_order.id,
+      v_line_total,
+      v_quantity,
+      v_rate,
+      'sale',
+      v_line_paid,
+      v_line_total - v_line_paid,
+      case when v_line_total - v_line_paid <= 0 then 'paid' else 'partial' end,
+      case when v_line_paid > 0 then coalesce(p_payment_method, 'cash') end,
+      case when v_line_paid > 0 then nullif(trim(p_payment_reference), '') end,
+      v_batch.id,
+      v_batch.name,
+      v_order.due_date,
+      v_scheme_id,
+      v_benefit.discount_amount,
+      v_benefit.free_quantity,
+      v_batch.hsn_code,
+      v_batch.gst_rate,
+      v_taxable,
+      v_tax.cgst_amount,
+      v_tax.sgst_amount,
+      v_tax.igst_amount,
+      v_tax.place_of_supply,
+      v_order.created_at
+    )
+    returning * into v_inserted;
+
+    if v_cheque_share > 0 then
+      v_cheque_allocations := v_cheque_allocations || json_build_object('sale_id', v_inserted.id, 'amount', v_cheque_share);
+    end if;
+
+    v_line_ids := v_line_ids || v_inserted.id;
+    v_lines := v_lines || row_to_json(v_inserted);
+  end loop;
+
+  if v_by_cheque then
+    v_cheque_payment := record_payment(
+      p_customer_id,
+      v_paid,
+      to_json(v_cheque_allocations),
+      'cheque',
+      p_payment_reference,
+      p_cheque_bank,
+      p_cheque_date,
+      null,
+      v_order.created_at
+    );
+  end if;
+
+  if p_apply_credit then
+    v_credit_applied := apply_credit_notes(p_customer_id, v_line_ids);
+  end if;
+
+  perform enforce_credit_limit(p_customer_id, v_order.id, v_total - v_paid - v_credit_applied);
+
+  return json_build_object(
+    'order', row_to_json(v_order),
+    'lines', to_json(v_lines),
+    'payment', v_cheque_payment->'payment',
+    'total', v_total,
+    'paid', v_paid,
+    'credit_applied', v_credit_applied,
+    'balance', v_total - v_paid - v_credit_applied
+  );
+end;
+$$ language plpgsql;
+
+-- record_return as in 0015. The credit note reverses the returned share of the sale's taxable
+-- value and of each tax, so it is credited at what the customer was charged including GST.
+create or replace function record_return(p_sale_id uuid, p_quantity numeric, p_reason text default null)
+returns json as $$
+declare
+  v_sale transactions%rowtype;
+  v_return transactions%rowtype;
+  v_returned numeric;
+  v_share numeric;
+  v_taxable numeric;
+  v_cgst numeric;
+  v_sgst numeric;
+  v_igst numeric;
+  v_value numeric;
+  v_applied numeric;
+begin
+  select * into v_sale from transactions where id = p_sale_id for update;
+  if not found then
+    raise exception 'sale not found';
+  end if;
+  if lower(coalesce(v_sale.type, '')) in ('payment', 'charge', 'return') then
+    raise exception 'only tea sales can be returned';
+  end if;
+  if p_quantity is null or p_quantity <= 0 then
+    raise exception 'return quantity must be greater than zero';
+  end if;
+
+  select coalesce(sum(-quantity), 0) into v_returned from transactions where return_of = p_sale_id;
+  if p_quantity > coalesce(v_sale.quantity, 0) - v_returned then
+    raise exception 'only % kg of this sale can still be returned', coalesce(v_sale.quantity, 0) - v_returned;
+  end if;
+
+  v_share := p_quantity / v_sale.quantity;
+  v_taxable := round(coalesce(v_sale.taxable_value, v_sale.amount, 0) * v_share, 2);
+  v_cgst := round(v_sale.cgst_amount * v_share, 2);
+  v_sgst := round(v_sale.sgst_amount * v_share, 2);
+  v_igst := round(v_sale.igst_amount * v_share, 2);
+  v_value := v_taxable + v_cgst + v_sgst + v_igst;
+  v_applied := least(greatest(coalesce(v_sale.balance, 0), 0), v_value);
+
+  if v_sale.batch_id is not null then
+    update batches
+       set remaining_quantity = remaining_quantity + p_quantity
+     where id = v_sale.batch_id;
+  end if;
+
+  insert into transactions (
+    customer_id,
+    return_of,
+    return_reason,
+    credit_note_number,
+    amount,
+    quantity,
+    rate,
+    type,
+    paid_amount,
+    balance,
+    status,
+    batch_id,
+    tea_name,
+    hsn_code,
+    gst_rate,
+    taxable_value,
+    cgst_amount,
+    sgst_amount,
+    igst_amount,
+    place_of_supply
+  )
+  values (
+    v_sale.customer_id,
+    v_sale.id,
+    nullif(trim(p_reason), ''),
+    nextval('credit_note_number_seq'),
+    -v_value,
+    -p_quantity,
+    round(v_taxable / p_quantity, 2),
+    'return',
+    0,
+    -(v_value - v_applied),
+    'returned',
+    v_sale.batch_id,
+    v_sale.tea_name,
+    v_sale.hsn_code,
+    v_sale.gst_rate,
+    -v_taxable,
+    -v_cgst,
+    -v_sgst,
+    -v_igst,
+    v_sale.place_of_supply
+  )
+  returning * into v_return;
+
+  if v_applied > 0 then
+    update transactions
+       set balance = balance - v_applied,
+           status = case when balance - v_applied <= 0 then 'paid' else 'partial' end
+     where id = v_sale.id;
+
+    insert into payment_allocations (payment_id, sale_id, amount)
+    values (v_return.id, v_sale.id, v_applied);
+  end if;
+
+  return json_build_object(
+    'return', row_to_json(v_return),
+    'applied', v_applied,
+    'credit', v_value - v_applied
+  );
+end;
+$$ language plpgsql;
+
+-- GST collected is owed to the government, not earned, so the P&L views count revenue before
+-- tax. batch_pnl as in 0015 with sold_revenue taken from the taxable value.
+drop view if exists batch_pnl;
+create or replace view batch_pnl as
+select
+  b.id as batch_id,
+  b.name as batch_name,
+  b.total_quantity,
+  b.remaining_quantity,
+  b.purchase_rate,
+  coalesce(sum(t.quantity), 0) as sold_quantity,
+  coalesce(sum(coalesce(t.taxable_value, t.amount)), 0) as sold_revenue,
+  ((coalesce(sum(t.quantity), 0) + coalesce(sum(t.free_quantity), 0)) * b.purchase_rate) as purchase_cost_for_sold,
+  (coalesce(sum(coalesce(t.taxable_value, t.amount)), 0) - ((coalesce(sum(t.quantity), 0) + coalesce(sum(t.free_quantity), 0)) * b.purchase_rate)) as pnl,
+  coalesce(-sum(t.quantity) filter (where lower(coalesce(t.type, '')) = 'return'), 0) as returned_quantity,
+  coalesce(sum(t.free_quantity), 0) as free_quantity
+from batches b
+left join transactions t on t.batch_id = b.id
+group by b.id, b.name, b.total_quantity, b.remaining_quantity, b.purchase_rate
+order by pnl desc;
+
+alter view batch_pnl set (security_invoker = true);
+
+-- analytics_summary as in 0015, with total_pnl before tax
+drop view if exists analytics_summary;
+create or replace view analytics_summary as
+with sales as (
+  -- Returns carry negative amounts, so total_sales is net of returns
+  select
+    coalesce(sum(amount), 0) as total_sales,
+    count(*) filter (where lower(coalesce(type, '')) <> 'return')                 as sales_count,
+    coalesce(avg(amount) filter (where lower(coalesce(type, '')) <> 'return'), 0) as avg_sale_value,
+    max(created_at) filter (where lower(coalesce(type, '')) <> 'return')          as last_sale_at
+  from transactions
+  where lower(coalesce(type, '')) not in ('payment', 'charge')
+),
+returns as (
+  select
+    coalesce(-sum(amount), 0) as total_returns,
+    count(*)                  as returns_count
+  from transactions
+  where lower(coalesce(type, '')) = 'return'
+),
+payments as (
+  select
+    coalesce(sum(amount), 0) as total_collections,
+    count(*)                 as payments_count,
+    max(created_at)          as last_payment_at
+  from transactions
+  where lower(coalesce(type, '')) = 'payment'
+),
+balances as (
+  select coalesce(sum(balance), 0) as outstanding_balance from transactions
+),
+pnl as (
+  select coalesce(sum(
+    coalesce(t.taxable_value, t.amount) - ((t.quantity + coalesce(t.free_quantity, 0)) * coalesce(b.purchase_rate, 0))
+  ), 0) as total_pnl
+  from transactions t
+  left join batches b on t.batch_id = b.id
+  where lower(coalesce(t.type, '')) not in ('payment', 'charge')
+),
+today_collections as (
+  select coalesce(sum(coalesce(t.paid_amount, 0)), 0) as amount
+  from transactions t
+  where date_trunc('day', t.created_at) = date_trunc('day', now())
+)
+select
+  sales.total_sales,
+  payments.total_collections,
+  greatest(balances.outstanding_balance, 0) as outstanding,
+  sales.sales_count,
+  payments.payments_count,
+  sales.avg_sale_value,
+  sales.last_sale_at,
+  payments.last_payment_at,
+  coalesce((select count(*) from customers), 0)    as total_customers,
+  coalesce((select count(*) from transactions), 0) as transactions_count,
+  pnl.total_pnl,
+  today_collections.amount as today_collections,
+  returns.total_returns,
+  returns.returns_count
+from sales
+cross join payments
+cross join returns
+cross join balances
+cross join pnl
+cross join today_collections;
+
+alter view analytics_summary set (security_invoker = true);
+
+-- reset_today_metrics as in 0015, with the taxable value and the tax of a reset sale zeroed too:
+-- batch_pnl and analytics_summary count revenue from the taxable value, so a reset sale would
+-- otherwise stay in the P&L
+drop function if exists reset_today_metrics();
+create or replace function reset_today_metrics()
+returns json as $$
+declare
+  v_ids uuid[];
+  v_customer_ids uuid[];
+  v_allocation record;
+  v_reset resets%rowtype;
+  v_customers_reset integer;
+begin
+  if current_app_role() is distinct from 'admin' then
+    raise exception 'only admins can reset metrics';
+  end if;
+
+  select coalesce(array_agg(id), '{}') into v_ids
+    from transactions
+   where created_at >= date_trunc('day', now())
+     and created_at < date_trunc('day', now()) + interval '1 day';
+
+  select coalesce(array_agg(distinct customer_id), '{}') into v_customer_ids
+    from transactions
+   where id = any(v_ids)
+     and customer_id is not null;
+
+  insert into resets (kind, created_by, snapshot, undo_until)
+  values (
+    'today',
+    current_app_user_id(),
+    jsonb_build_object(
+      'transactions', (
+        select coalesce(jsonb_agg(to_jsonb(t)), '[]'::jsonb)
+          from transactions t
+         where t.id = any(v_ids)
+            or t.id in (
+              select a.sale_id from payment_allocations a where a.payment_id = any(v_ids)
+              union
+              select a.payment_id from payment_allocations a where a.sale_id = any(v_ids)
+            )
+      ),
+      'payment_allocations', (
+        select coalesce(jsonb_agg(to_jsonb(a)), '[]'::jsonb)
+          from payment_allocations a
+         where a.payment_id = any(v_ids) or a.sale_id = any(v_ids)
+      ),
+      'cheques', (
+        select coalesce(jsonb_agg(to_jsonb(c)), '[]'::jsonb) from cheques c where c.payment_id = any(v_ids)
+      ),
+      'batches', (
+        select coalesce(jsonb_agg(to_jsonb(b)), '[]'::jsonb)
+          from batches b
+         where b.id in (select batch_id from transactions where id = any(v_ids))
+      ),
+      'customers', (
+        select coalesce(jsonb_agg(to_jsonb(c)), '[]'::jsonb) from customers c where c.id = any(v_customer_ids)
+      )
+    ),
+    now() + interval '24 hours'
+  )
+  returning * into v_reset;
+
+  -- Older sales paid by today's payments owe again; older payments and credit notes used by
+  -- today's sales get their credit back
+  for v_allocation in
+    select * from payment_allocations where payment_id = any(v_ids) or sale_id = any(v_ids)
+  loop
+    if not (v_allocation.sale_id = any(v_ids)) then
+      update transactions
+         set balance = coalesce(balance, 0) + v_allocation.amount,
+             status = 'partial'
+       where id = v_allocation.sale_id;
+    elsif not (v_allocation.payment_id = any(v_ids)) then
+      update transactions
+         set balance = coalesce(balance, 0) - v_allocation.amount
+       where id = v_allocation.payment_id;
+    end if;
+  end loop;
+
+  delete from payment_allocations where payment_id = any(v_ids) or sale_id = any(v_ids);
+  delete from cheques where payment_id = any(v_ids);
+
+  update batches b
+     set remaining_quantity = b.remaining_quantity + sold.quantity
+    from (
+      select batch_id, sum(coalesce(quantity, 0) + coalesce(free_quantity, 0)) as quantity
+        from transactions
+       where id = any(v_ids) and batch_id is not null
+       group by batch_id
+    ) sold
+   where b.id = sold.batch_id;
+
+  update transactions
+     set amount = 0,
+         quantity = 0,
+         paid_amount = 0,
+         balance = 0,
+         discount_amount = 0,
+         free_quantity = 0,
+         taxable_value = 0,
+         cgst_amount = 0,
+         sgst_amount = 0,
+         igst_amount = 0,
+         status = 'reset'
+   where id = any(v_ids);
+
+  update customers c
+     set outstanding_balance = greatest(
+       coalesce((select sum(t.balance) from transactions t where t.customer_id = c.id), 0),
+       0
+     )
+   where c.id = any(v_customer_ids);
+  get diagnostics v_customers_reset = row_count;
+
+  update resets
+     set summary = jsonb_build_object(
+       'tx_reset_count', coalesce(array_length(v_ids, 1), 0),
+       'customers_reset_count', v_customers_reset
+     )
+   where id = v_reset.id
+  returning * into v_reset;
+
+  return json_build_object(
+    'reset_id', v_reset.id,
+    'tx_reset_count', coalesce(array_length(v_ids, 1), 0),
+    'customers_reset_count', v_customers_reset,
+    'undo_until', v_reset.undo_until
+  );
+end;
+$$ language plpgsql;
+
+-- undo_last_reset as in 0015, with the taxable value and the tax of today's sales put back
+create or replace function undo_last_reset()
+returns json as $$
+declare
+  v_reset resets%rowtype;
+  v_snapshot jsonb;
+begin
+  if current_app_role() is distinct from 'admin' then
+    raise exception 'only admins can undo a reset';
+  end if;
+
+  select * into v_reset from resets order by created_at desc limit 1 for update;
+  if not found or v_reset.undone_at is not null then
+    raise exception 'there is no reset to undo';
+  end if;
+  if v_reset.undo_until < now() then
+    raise exception 'the last reset can no longer be undone (undo window ended %)', v_reset.undo_until;
+  end if;
+  v_snapshot := v_reset.snapshot;
+
+  if v_reset.kind = 'today' then
+    update transactions t
+       set amount = s.amount,
+           quantity = s.quantity,
+           paid_amount = s.paid_amount,
+           balance = s.balance,
+           status = s.status,
+           discount_amount = s.discount_amount,
+           free_quantity = s.free_quantity,
+           taxable_value = s.taxable_value,
+           cgst_amount = s.cgst_amount,
+           sgst_amount = s.sgst_amount,
+           igst_amount = s.igst_amount
+      from jsonb_populate_recordset(null::transactions, v_snapshot->'transactions') s
+     where t.id = s.id;
+
+    update batches b
+       set remaining_quantity = s.remaining_quantity
+      from jsonb_populate_recordset(null::batches, v_snapshot->'batches') s
+     where b.id = s.id;
+
+    update customers c
+       set outstanding_balance = s.outstanding_balance
+      from jsonb_populate_recordset(null::customers, v_snapshot->'customers') s
+     where c.id = s.id;
+  else
+    delete from transactions
+     where id in (select jsonb_array_elements_text(coalesce(v_snapshot->'seeded_transactions', '[]'::jsonb))::uuid);
+    delete from customers
+     where id in (select jsonb_array_elements_text(coalesce(v_snapshot->'seeded_customers', '[]'::jsonb))::uuid);
+
+    insert into customers
+    select * from jsonb_populate_recordset(null::customers, v_snapshot->'customers')
+    on conflict (id) do nothing;
+
+    insert into orders
+    select * from jsonb_populate_recordset(null::orders, v_snapshot->'orders')
+    on conflict (id) do nothing;
+
+    -- Before the transactions, whose scheme_id refers to them
+    insert into schemes
+    select * from jsonb_populate_recordset(null::schemes, coalesce(v_snapshot->'schemes', '[]'::jsonb))
+    on conflict (id) do nothing;
+
+    insert into transactions
+    select * from jsonb_populate_recordset(null::transactions, v_snapshot->'transactions')
+    on conflict (id) do nothing;
+
+    perform restore_credit_overrides(v_snapshot->'credit_overrides');
+
+    insert into price_rules
+    select * from jsonb_populate_recordset(null::price_rules, coalesce(v_snapshot->'price_rules', '[]'::jsonb))
+    on conflict (id) do nothing;
+  end if;
+
+  insert into payment_allocations
+  select * from jsonb_populate_recordset(null::payment_allocations, v_snapshot->'payment_allocations')
+  on conflict (id) do nothing;
+
+  insert into cheques
+  select * from jsonb_populate_recordset(null::cheques, v_snapshot->'cheques')
+  on conflict (id) do nothing;
+
+  update resets set undone_at = now() where id = v_reset.id returning * into v_reset;
+
+  return json_build_object('reset_id', v_reset.id, 'kind', v_reset.kind, 'undone_at', v_reset.undone_at);
+end;
+$$ language plpgsql;
@@ -0,0 +1,244 @@
+-- Suppliers, purchases and supplier payments: who each batch was bought from, what it cost to
+-- land and what is still owed
+
+create table if not exists suppliers (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(trim(name)) > 0),
+  contact text,
+  gstin text check (gstin ~ '^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$'),
+  address text,
+  archived_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+-- One purchase per batch: the supplier's invoice for the tea, and the freight and other costs
+-- (handling, cess, brokerage) paid to get it into stock. `invoice_amount` is what is owed to the
+-- supplier for the tea. Freight and other costs are paid to carriers and agents, not to the
+-- supplier, so they only go into the landed cost: `total_cost` is what the batch cost in all
+-- and `landed_rate` what each kilogram cost once landed.
+create table if not exists purchases (
+  id uuid primary key default gen_random_uuid(),
+  supplier_id uuid not null references suppliers(id) on delete restrict,
+  batch_id uuid unique references batches(id) on delete set null,
+  invoice_number text,
+  invoice_date date not null default current_date,
+  due_date date,
+  quantity numeric not null check (quantity > 0),
+  rate numeric not null check (rate >= 0),
+  freight numeric not null default 0 check (freight >= 0),
+  other_costs numeric not null default 0 check (other_costs >= 0),
+  invoice_amount numeric generated always as (round(quantity * rate, 2)) stored,
+  total_cost numeric generated always as (round(quantity * rate, 2) + freight + other_costs) stored,
+  landed_rate numeric generated always as (round((round(quantity * rate, 2) + freight + other_costs) / quantity, 2)) stored,
+  created_at timestamptz not null default now(),
+  check (due_date is null or due_date >= invoice_date)
+);
+
+create index if not exists purchases_supplier_id_idx on purchases (supplier_id);
+
+-- Money paid to a supplier, optionally against one of their invoices
+create table if not exists supplier_payments (
+  id uuid primary key default gen_random_uuid(),
+  supplier_id uuid not null references suppliers(id) on delete restrict,
+  purchase_id uuid references purchases(id) on delete set null,
+  amount numeric not null check (amount > 0),
+  payment_method text not null default 'cash' check (payment_method in ('cash', 'upi', 'cheque', 'bank_transfer')),
+  payment_reference text,
+  paid_on date not null default current_date,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists supplier_payments_supplier_id_idx on supplier_payments (supplier_id);
+
+-- A payment against an invoice must be to the supplier who sent it
+create or replace function check_supplier_payment_purchase()
+returns trigger as $$
+begin
+  if new.purchase_id is not null and not exists (
+    select 1 from purchases where id = new.purchase_id and supplier_id = new.supplier_id
+  ) then
+    raise exception 'the purchase belongs to another supplier';
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_trigger where tgname = 'supplier_payments_check_purchase'
+  ) then
+    create trigger supplier_payments_check_purchase
+    before insert or update of supplier_id, purchase_id on supplier_payments
+    for each row
+    execute function check_supplier_payment_purchase();
+  end if;
+end;
+$$;
+
+-- A batch bought through a purchase is costed at its landed rate, and is re-costed when freight
+-- or other costs are added to the purchase later
+create or replace function apply_purchase_landed_rate()
+returns trigger as $$
+begin
+  if new.batch_id is not null then
+    update batches
+       set purchase_rate = new.landed_rate
+     where id = new.batch_id
+       and purchase_rate is distinct from new.landed_rate;
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_trigger where tgname = 'purchases_apply_landed_rate'
+  ) then
+    create trigger purchases_apply_landed_rate
+    after insert or update on purchases
+    for each row
+    execute function apply_purchase_landed_rate();
+  end if;
+end;
+$$;
+
+-- Supplier, purchase and payment changes go to the audit log like batch changes
+do $$
+declare
+  v_table text;
+begin
+  foreach v_table in array array['suppliers', 'purchases', 'supplier_payments']
+  loop
+    if not exists (
+      select 1 from pg_trigger where tgname = v_table || '_write_audit_log'
+    ) then
+      execute format(
+        'create trigger %I after insert or update or delete on %I for each row execute function write_audit_log()',
+        v_table || '_write_audit_log',
+        v_table
+      );
+    end if;
+  end loop;
+end;
+$$;
+
+-- Batches are shared by every partner, and so are the suppliers and purchases behind them
+alter table suppliers enable row level security;
+alter table purchases enable row level security;
+alter table supplier_payments enable row level security;
+
+drop policy if exists suppliers_staff_access on suppliers;
+create policy suppliers_staff_access on suppliers
+  for all using (current_app_role() in ('admin', 'partner'))
+  with check (current_app_role() in ('admin', 'partner'));
+
+drop policy if exists purchases_staff_access on purchases;
+create policy purchases_staff_access on purchases
+  for all using (current_app_role() in ('admin', 'partner'))
+  with check (current_app_role() in ('admin', 'partner'));
+
+drop policy if exists supplier_payments_staff_access on supplier_payments;
+create policy supplier_payments_staff_access on supplier_payments
+  for all using (current_app_role() in ('admin', 'partner'))
+  with check (current_app_role() in ('admin', 'partner'));
+
+-- Adds a purchased batch to stock together with its purchase, costed at the landed rate
+create or replace function record_purchase(
+  p_supplier_id uuid,
+  p_batch_name text,
+  p_quantity numeric,
+  p_rate numeric,
+  p_freight numeric default 0,
+  p_other_costs numeric default 0,
+  p_invoice_number text default null,
+  p_invoice_date date default null,
+  p_due_date date default null,
+  p_selling_rate numeric default null,
+  p_hsn_code text default '0902',
+  p_gst_rate numeric default 5
+) returns json as $$
+declare
+  v_batch batches%rowtype;
+  v_purchase purchases%rowtype;
+begin
+  if not exists (select 1 from suppliers where id = p_supplier_id and archived_at is null) then
+    raise exception 'supplier not found';
+  end if;
+
+  insert into batches (name, total_quantity, remaining_quantity, purchase_rate, selling_rate, hsn_code, gst_rate)
+  values (
+    trim(p_batch_name),
+    p_quantity,
+    p_quantity,
+    round((round(p_quantity * p_rate, 2) + coalesce(p_freight, 0) + coalesce(p_other_costs, 0)) / nullif(p_quantity, 0), 2),
+    p_selling_rate,
+    coalesce(p_hsn_code, '0902'),
+    coalesce(p_gst_rate, 5)
+  )
+  returning * into v_batch;
+
+  insert into purchases (
+    supplier_id,
+    batch_id,
+    invoice_number,
+    invoice_date,
+    due_date,
+    quantity,
+    rate,
+    freight,
+    other_costs
+  )
+  values (
+    p_supplier_id,
+    v_batch.id,
+    nullif(trim(p_invoice_number), ''),
+    coalesce(p_invoice_date, current_date),
+    p_due_date,
+    p_quantity,
+    p_rate,
+    coalesce(p_freight, 0),
+    coalesce(p_other_costs, 0)
+  )
+  returning * into v_purchase;
+
+  return json_build_object('batch', row_to_json(v_batch), 'purchase', row_to_json(v_purchase));
+end;
+$$ language plpgsql;
+
+-- What is owed to each supplier: their invoices for everything bought from them less everything
+-- paid. Freight and other costs are not owed to the supplier.
+drop view if exists supplier_payables;
+create or replace view supplier_payables as
+with bought as (
+  select
+    supplier_id,
+    count(*)                         as purchase_count,
+    coalesce(sum(invoice_amount), 0) as total_purchased,
+    max(invoice_date)                as last_purchase_on
+  from purchases
+  group by supplier_id
+),
+paid as (
+  select
+    supplier_id,
+    coalesce(sum(amount), 0) as total_paid,
+    max(paid_on)             as last_paid_on
+  from supplier_payments
+  group by supplier_id
+)
+select
+  s.id as supplier_id,
+  s.name as supplier_name,
+  coalesce(bought.purchase_count, 0) as purchase_count,
+  coalesce(bought.total_purchased, 0) as total_purchased,
+  coalesce(paid.total_paid, 0) as total_paid,
+  coalesce(bought.total_purchased, 0) - coalesce(paid.total_paid, 0) as outstanding,
+  bought.last_purchase_on,
+  paid.last_paid_on
+from suppliers s
+left join bought on bought.supplier_id = s.id
+left join paid on paid.supplier_id = s.id;
+
+alter view supplier_payables set (security_invoker = true);
@@ -0,0 +1,52 @@
+-- Demo data for local/dev databases. Apply it after the migrations (`npm run db:seed`); rows that
+-- already exist are skipped, so it can be re-run safely.
+-- WARNING: This approach is for demo/dev only. For production, use proper password handling and secrets.
+
+-- Partner user
+insert into app_users (email, password_hash, role, must_change_password)
+values (
+  'skkabirali07@gmail.com',
+  crypt('partner123', gen_salt('bf')),
+  'partner',
+  true
+)
+on conflict (email) do nothing;
+
+-- Admin user
+insert into app_users (email, password_hash, role, must_change_password)
+values (
+  'mk1125709@gmail.com',
+  crypt('admin123', gen_salt('bf')),
+  'admin',
+  true
+)
+on conflict (email) do nothing;
+
+-- Sample customers in the first partner's book, and one partly paid sale with its order
+insert into customers (full_name, shop_name, address, contact, outstanding_balance, partner_id)
+select v.full_name, v.shop_name, v.address, v.contact, v.outstanding_balance,
+       (select id from app_users where lower(role) = 'partner' order by created_at limit 1)
+  from (values
+    ('Rajesh Kumar', 'Kumar Tea Shop', 'MG Road, Bangalore', '+91 9876543210', 5000),
+    ('Priya Sharma', 'Sharma General Store', 'Park Street, Kolkata', '+91 9876543211', 2500)
+  ) as v(full_name, shop_name, address, contact, outstanding_balance)
+ where not exists (select 1 from customers c where c.full_name = v.full_name);
+
+do $$
+declare
+  v_customer customers%rowtype;
+  v_order_id uuid;
+begin
+  select * into v_customer from customers where full_name = 'Rajesh Kumar' order by created_at limit 1;
+  if v_customer.id is null or exists (select 1 from transactions where customer_id = v_customer.id) then
+    return;
+  end if;
+
+  insert into orders (customer_id, partner_id)
+  values (v_customer.id, v_customer.partner_id)
+  returning id into v_order_id;
+
+  insert into transactions (customer_id, order_id, partner_id, amount, quantity, type, paid_amount, balance, status)
+  values (v_customer.id, v_order_id, v_customer.partner_id, 4000, 50, 'sale', 2000, 2000, 'partial');
+end;
+$$;
@@ -0,0 +1,25 @@
+#!/usr/bin/env sh
+# Runs the SQL tests in db/tests against the database in $DATABASE_URL. Point it at a local
+# database with the migrations applied; each test file rolls back its own changes.
+set -eu
+
+: "${DATABASE_URL:?Set DATABASE_URL to the Postgres connection string}"
+
+TESTS_DIR="$(dirname "$0")/tests"
+
+failed=0
+for file in "$TESTS_DIR"/*.sql; do
+  [ -e "$file" ] || continue
+  name="$(basename "$file" .sql)"
+  if psql "$DATABASE_URL" -X -q -v ON_ERROR_STOP=1 -f "$file" >/dev/null; then
+    echo "ok   $name"
+  else
+    echo "FAIL $name" >&2
+    failed=$((failed + 1))
+  fi
+done
+
+if [ "$failed" -gt 0 ]; then
+  echo "$failed SQL test file(s) failed." >&2
+  exit 1
+fi
@@ -0,0 +1,43 @@
+-- Cheques: a bounced cheque reopens the invoices it paid and its bounce charge is owed by the
+-- customer without counting as a sale. Everything runs inside a transaction that is rolled
+-- back, so the database is left as it was.
+begin;
+
+insert into batches (id, name, total_quantity, remaining_quantity, purchase_rate, gst_rate)
+values ('00000000-0000-4000-8000-00000000b401', 'Test Dooars', 100, 100, 80, 0);
+
+insert into customers (id, full_name)
+values ('00000000-0000-4000-8000-00000000c401', 'Cheque Customer');
+
+do $$
+declare
+  v_summary_before analytics_summary%rowtype;
+  v_summary analytics_summary%rowtype;
+  v_sale_id uuid;
+  v_cheque_id uuid;
+  v_sale transactions%rowtype;
+begin
+  v_sale_id := (record_sale(
+    '00000000-0000-4000-8000-00000000b401', '00000000-0000-4000-8000-00000000c401', 10, 100, 0, 'sale'
+  )->'transaction'->>'id')::uuid;
+  select * into v_summary_before from analytics_summary;
+
+  perform record_payment('00000000-0000-4000-8000-00000000c401', 600, null, 'cheque', 'CHQ-401');
+  select id into v_cheque_id from cheques where cheque_number = 'CHQ-401';
+  assert (select balance from transactions where id = v_sale_id) = 400, 'the cheque is applied to the sale';
+
+  perform bounce_cheque(v_cheque_id, 250);
+
+  select * into v_sale from transactions where id = v_sale_id;
+  assert v_sale.balance = 1000, 'the bounced cheque reopens the sale';
+  assert v_sale.status = 'partial', format('a reopened sale with a balance is partial, got %s', v_sale.status);
+
+  select * into v_summary from analytics_summary;
+  assert v_summary.total_sales = v_summary_before.total_sales, 'the bounce charge is not a sale';
+  assert v_summary.sales_count = v_summary_before.sales_count, 'the bounce charge is not counted as a sale';
+  assert v_summary.total_pnl = v_summary_before.total_pnl, 'the bounce charge is not profit';
+  assert v_summary.outstanding = v_summary_before.outstanding + 250, 'the bounce charge is owed by the customer';
+end;
+$$;
+
+rollback;
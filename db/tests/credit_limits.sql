@@ -0,0 +1,184 @@
+-- Credit limits: record_sale and record_order refuse credit beyond the customer's limit or while
+-- an invoice is overdue for too long, unless an admin granted an override. Everything runs
+-- inside a transaction that is rolled back, so the database is left as it was.
+begin;
+
+insert into batches (id, name, total_quantity, remaining_quantity, purchase_rate)
+values ('00000000-0000-4000-8000-00000000b101', 'Test Nilgiri', 500, 500, 80);
+
+insert into customers (id, full_name, credit_limit)
+values ('00000000-0000-4000-8000-00000000c101', 'Limited Customer', 1000);
+
+insert into customers (id, full_name, max_overdue_days)
+values ('00000000-0000-4000-8000-00000000c102', 'Slow Payer', 30);
+
+insert into app_users (id, email, password_hash, role)
+values
+  ('00000000-0000-4000-8000-00000000a101', 'credit-admin@test.local', 'x', 'admin'),
+  ('00000000-0000-4000-8000-00000000a102', 'credit-partner@test.local', 'x', 'partner');
+
+insert into app_sessions (token, user_id, expires_at)
+values
+  ('credit-admin-token', '00000000-0000-4000-8000-00000000a101', now() + interval '1 hour'),
+  ('credit-partner-token', '00000000-0000-4000-8000-00000000a102', now() + interval '1 hour');
+
+-- Sales are recorded from the partner's session; credit checks refuse callers without one
+select set_config('request.headers', '{"x-session-token": "credit-partner-token"}', true);
+
+-- Credit up to the limit is allowed, and sales paid in full always are
+do $$
+begin
+  perform record_sale('00000000-0000-4000-8000-00000000b101', '00000000-0000-4000-8000-00000000c101', 10, 100, 0, 'sale');
+  assert (select sum(balance) from transactions where customer_id = '00000000-0000-4000-8000-00000000c101') = 1000,
+    'a sale up to the credit limit is recorded';
+
+  perform record_order(
+    '00000000-0000-4000-8000-00000000c101',
+    json_build_array(json_build_object('batch_id', '00000000-0000-4000-8000-00000000b101', 'quantity', 5, 'rate', 100))
+  );
+  assert (select count(*) from transactions where customer_id = '00000000-0000-4000-8000-00000000c101') = 2,
+    'a fully paid order is recorded for a customer at the limit';
+end;
+$$;
+
+-- Credit beyond the limit is refused and leaves nothing behind
+do $$
+declare
+  v_orders_before bigint;
+begin
+  select count(*) into v_orders_before from orders;
+
+  begin
+    perform record_sale('00000000-0000-4000-8000-00000000b101', '00000000-0000-4000-8000-00000000c101', 1, 100, 50, 'sale');
+    raise exception 'expected an error';
+  exception when others then
+    assert sqlerrm like 'credit hold: outstanding of 1050.00 would exceed the credit limit of 1000.00%',
+      format('record_sale beyond the limit fails with a credit hold, got %s', sqlerrm);
+  end;
+
+  begin
+    perform record_order(
+      '00000000-0000-4000-8000-00000000c101',
+      json_build_array(json_build_object('batch_id', '00000000-0000-4000-8000-00000000b101', 'quantity', 1, 'rate', 100)),
+      0
+    );
+    raise exception 'expected an error';
+  exception when others then
+    assert sqlerrm like 'credit hold:%', format('record_order beyond the limit fails with a credit hold, got %s', sqlerrm);
+  end;
+
+  assert (select count(*) from orders) = v_orders_before, 'refused sales insert no orders';
+  assert (select remaining_quantity from batches where id = '00000000-0000-4000-8000-00000000b101') = 485,
+    'refused sales leave stock unchanged';
+end;
+$$;
+
+-- Only admins can grant an override, and only with a reason
+do $$
+begin
+  perform set_config('request.headers', '{"x-session-token": "credit-partner-token"}', true);
+  begin
+    perform grant_credit_override('00000000-0000-4000-8000-00000000c101', 'Festival order');
+    raise exception 'expected an error';
+  exception when others then
+    assert sqlerrm = 'only admins can override a credit hold', format('partners cannot override, got %s', sqlerrm);
+  end;
+
+  perform set_config('request.headers', '{"x-session-token": "credit-admin-token"}', true);
+  begin
+    perform grant_credit_override('00000000-0000-4000-8000-00000000c101', '   ');
+    raise exception 'expected an error';
+  exception when others then
+    assert sqlerrm = 'a reason is required to override a credit hold', format('an override needs a reason, got %s', sqlerrm);
+  end;
+end;
+$$;
+
+-- An override lets one sale through and records the order that used it
+do $$
+declare
+  v_override credit_overrides%rowtype;
+  v_result json;
+begin
+  perform set_config('request.headers', '{"x-session-token": "credit-admin-token"}', true);
+  v_override := grant_credit_override('00000000-0000-4000-8000-00000000c101', ' Festival order ');
+  assert v_override.reason = 'Festival order', 'the reason is stored trimmed';
+  assert v_override.granted_by = '00000000-0000-4000-8000-00000000a101', 'the granting admin is stored';
+  perform set_config('request.headers', '{"x-session-token": "credit-partner-token"}', true);
+
+  v_result := record_order(
+    '00000000-0000-4000-8000-00000000c101',
+    json_build_array(json_build_object('batch_id', '00000000-0000-4000-8000-00000000b101', 'quantity', 2, 'rate', 100)),
+    0
+  );
+
+  select * into v_override from credit_overrides where id = v_override.id;
+  assert v_override.used_at is not null, 'the override is used up';
+  assert v_override.order_id = (v_result->'order'->>'id')::uuid, 'the override records the order';
+
+  begin
+    perform record_sale('00000000-0000-4000-8000-00000000b101', '00000000-0000-4000-8000-00000000c101', 1, 100, 0, 'sale');
+    raise exception 'expected an error';
+  exception when others then
+    assert sqlerrm like 'credit hold:%', format('a used override does not cover the next sale, got %s', sqlerrm);
+  end;
+end;
+$$;
+
+-- Overdue invoices hold further credit once they are older than max_overdue_days
+do $$
+begin
+  perform record_sale(
+    '00000000-0000-4000-8000-00000000b101', '00000000-0000-4000-8000-00000000c102', 1, 100, 0, 'sale', current_date - 30
+  );
+  perform record_sale('00000000-0000-4000-8000-00000000b101', '00000000-0000-4000-8000-00000000c102', 1, 100, 0, 'sale');
+
+  update transactions
+     set due_date = current_date - 31
+   where customer_id = '00000000-0000-4000-8000-00000000c102'
+     and due_date = current_date - 30;
+
+  begin
+    perform record_sale('00000000-0000-4000-8000-00000000b101', '00000000-0000-4000-8000-00000000c102', 1, 100, 0, 'sale');
+    raise exception 'expected an error';
+  exception when others then
+    assert sqlerrm like 'credit hold: an invoice is 31 days overdue (allowed 30)%',
+      format('an invoice past max_overdue_days holds credit, got %s', sqlerrm);
+  end;
+
+  perform record_sale('00000000-0000-4000-8000-00000000b101', '00000000-0000-4000-8000-00000000c102', 1, 100, 100, 'sale');
+end;
+$$;
+
+-- Without a staff session the credit check refuses before it reads any balance
+do $$
+begin
+  perform set_config('request.headers', '{}', true);
+  begin
+    perform enforce_credit_limit('00000000-0000-4000-8000-00000000c101', null, 1000000);
+    raise exception 'expected an error';
+  exception when others then
+    assert sqlerrm = 'not signed in', format('anonymous credit checks are refused, got %s', sqlerrm);
+  end;
+end;
+$$;
+
+-- Overrides deleted with their customers by reset_all come back with undo_last_reset
+do $$
+declare
+  v_override credit_overrides%rowtype;
+begin
+  perform set_config('request.headers', '{"x-session-token": "credit-admin-token"}', true);
+  v_override := grant_credit_override('00000000-0000-4000-8000-00000000c102', 'Pending cheque');
+
+  perform reset_all();
+  assert not exists (select 1 from credit_overrides where id = v_override.id), 'reset_all removes the overrides';
+
+  perform undo_last_reset();
+  assert exists (
+    select 1 from credit_overrides where id = v_override.id and reason = 'Pending cheque' and used_at is null
+  ), 'undo_last_reset restores the overrides';
+end;
+$$;
+
+rollback;
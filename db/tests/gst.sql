@@ -0,0 +1,103 @@
+-- GST: sales are taxed at the batch rate as CGST/SGST within the business's state and IGST
+-- across states, the customer owes the tax-inclusive total, returns reverse their share of the
+-- tax and batch_pnl counts revenue before tax. Everything runs inside a transaction that is
+-- rolled back, so the database is left as it was.
+begin;
+
+insert into app_settings (key, value)
+values ('business_gstin', '27ABCDE1234F1Z5')
+on conflict (key) do update set value = excluded.value;
+
+insert into batches (id, name, total_quantity, remaining_quantity, purchase_rate, hsn_code, gst_rate)
+values ('00000000-0000-4000-8000-00000000b301', 'Test Assam', 100, 100, 100, '0902', 5);
+
+insert into customers (id, full_name, gstin, state_code)
+values
+  ('00000000-0000-4000-8000-00000000c301', 'Local Customer', null, '27'),
+  ('00000000-0000-4000-8000-00000000c302', 'Bengaluru Traders', ' 29aaacb1234c1zq', null);
+
+-- A GSTIN is stored upper case and sets the customer's state
+do $$
+declare
+  v_customer customers%rowtype;
+begin
+  select * into v_customer from customers where id = '00000000-0000-4000-8000-00000000c302';
+  assert v_customer.gstin = '29AAACB1234C1ZQ', 'the GSTIN is normalised';
+  assert v_customer.state_code = '29', 'the state comes from the GSTIN';
+end;
+$$;
+
+-- A sale within the state splits the tax into CGST and SGST on top of the taxable value
+do $$
+declare
+  v_sale transactions%rowtype;
+begin
+  perform record_sale(
+    '00000000-0000-4000-8000-00000000b301', '00000000-0000-4000-8000-00000000c301', 10, 150, 0, 'sale'
+  );
+  select * into v_sale from transactions where customer_id = '00000000-0000-4000-8000-00000000c301';
+
+  assert v_sale.hsn_code = '0902' and v_sale.gst_rate = 5, 'the sale keeps the batch HSN code and rate';
+  assert v_sale.taxable_value = 1500, 'the taxable value is quantity times rate';
+  assert v_sale.cgst_amount = 37.5 and v_sale.sgst_amount = 37.5 and v_sale.igst_amount = 0,
+    'intra-state tax is half CGST, half SGST';
+  assert v_sale.place_of_supply = '27', 'the place of supply is the customer''s state';
+  assert v_sale.amount = 1575 and v_sale.balance = 1575, 'the customer owes the tax-inclusive total';
+end;
+$$;
+
+-- A sale to another state charges IGST, and paying the inclusive total settles the order
+do $$
+declare
+  v_sale transactions%rowtype;
+begin
+  perform record_order(
+    '00000000-0000-4000-8000-00000000c302',
+    json_build_array(json_build_object(
+      'batch_id', '00000000-0000-4000-8000-00000000b301',
+      'quantity', 10,
+      'rate', 150
+    )),
+    1575
+  );
+  select * into v_sale from transactions where customer_id = '00000000-0000-4000-8000-00000000c302';
+
+  assert v_sale.igst_amount = 75 and v_sale.cgst_amount = 0 and v_sale.sgst_amount = 0,
+    'inter-state tax is IGST at the full rate';
+  assert v_sale.place_of_supply = '29', 'the place of supply comes from the GSTIN';
+  assert v_sale.amount = 1575 and v_sale.balance = 0, 'the inclusive total is fully paid';
+end;
+$$;
+
+-- A return reverses its share of the taxable value and the tax
+do $$
+declare
+  v_sale_id uuid;
+  v_result json;
+begin
+  select id into v_sale_id from transactions where customer_id = '00000000-0000-4000-8000-00000000c301';
+
+  v_result := record_return(v_sale_id, 2, 'damaged');
+
+  assert (v_result->'return'->>'taxable_value')::numeric = -300, 'the return reverses the taxable value';
+  assert (v_result->'return'->>'cgst_amount')::numeric = -7.5 and (v_result->'return'->>'sgst_amount')::numeric = -7.5,
+    'the return reverses the tax';
+  assert (v_result->'return'->>'amount')::numeric = -315, 'the credit includes the tax';
+  assert (select balance from transactions where id = v_sale_id) = 1260, 'the credit comes off the sale balance';
+end;
+$$;
+
+-- batch_pnl counts revenue before tax
+do $$
+declare
+  v_pnl record;
+begin
+  select * into v_pnl from batch_pnl where batch_id = '00000000-0000-4000-8000-00000000b301';
+
+  assert v_pnl.sold_quantity = 18, 'sold quantity is net of the return';
+  assert v_pnl.sold_revenue = 2700, 'revenue is the taxable value, net of the return';
+  assert v_pnl.pnl = 900, 'GST is not counted as profit';
+end;
+$$;
+
+rollback;
@@ -0,0 +1,112 @@
+-- record_sale: stock is checked and decremented with the sale, the sale gets its own order,
+-- and the balance and status follow from the amount paid. Everything runs inside a
+-- transaction that is rolled back, so the database is left as it was.
+begin;
+
+insert into batches (id, name, total_quantity, remaining_quantity, purchase_rate)
+values ('00000000-0000-4000-8000-00000000b001', 'Test Assam', 100, 100, 80);
+
+insert into customers (id, full_name, shop_name)
+values ('00000000-0000-4000-8000-00000000c001', 'Test Customer', 'Test Shop');
+
+-- Partly paid sale
+do $$
+declare
+  v_result json;
+  v_sale transactions%rowtype;
+  v_order orders%rowtype;
+begin
+  v_result := record_sale(
+    p_batch_id => '00000000-0000-4000-8000-00000000b001',
+    p_customer_id => '00000000-0000-4000-8000-00000000c001',
+    p_quantity => 10,
+    p_price_per_kg => 120,
+    p_paid_amount => 500,
+    p_tx_type => 'sale',
+    p_due_date => '2030-01-31'
+  );
+
+  assert (v_result->>'batch_id')::uuid = '00000000-0000-4000-8000-00000000b001', 'result carries the batch id';
+
+  select * into v_sale from transactions where id = (v_result->'transaction'->>'id')::uuid;
+  assert found, 'sale row is inserted';
+  assert v_sale.amount = 1200, format('amount is quantity x rate, got %s', v_sale.amount);
+  assert v_sale.quantity = 10, 'quantity is stored';
+  assert v_sale.paid_amount = 500, 'amount paid up front is stored';
+  assert v_sale.balance = 700, format('balance is amount minus paid, got %s', v_sale.balance);
+  assert v_sale.status = 'partial', format('partly paid sale is partial, got %s', v_sale.status);
+  assert v_sale.tea_name = 'Test Assam', 'tea name comes from the batch';
+  assert v_sale.due_date = '2030-01-31', 'due date is stored';
+
+  select * into v_order from orders where id = v_sale.order_id;
+  assert found, 'sale belongs to a new order';
+  assert v_order.customer_id = v_sale.customer_id, 'order is for the same customer';
+  assert v_order.invoice_number is not null, 'order has an invoice number';
+
+  assert (select remaining_quantity from batches where id = '00000000-0000-4000-8000-00000000b001') = 90,
+    'stock is decremented';
+end;
+$$;
+
+-- Fully paid sale, and a sale without a paid amount (treated as paid in full)
+do $$
+declare
+  v_paid transactions%rowtype;
+  v_no_amount transactions%rowtype;
+begin
+  select * into v_paid from json_populate_record(null::transactions, record_sale(
+    '00000000-0000-4000-8000-00000000b001', '00000000-0000-4000-8000-00000000c001', 5, 100, 500, 'sale'
+  )->'transaction');
+  assert v_paid.balance = 0 and v_paid.status = 'paid', 'fully paid sale has no balance';
+
+  select * into v_no_amount from json_populate_record(null::transactions, record_sale(
+    '00000000-0000-4000-8000-00000000b001', '00000000-0000-4000-8000-00000000c001', 5, 100, null, null
+  )->'transaction');
+  assert v_no_amount.balance = 0 and v_no_amount.status = 'paid', 'missing paid amount counts as paid in full';
+  assert v_no_amount.type = 'sale', 'missing type defaults to sale';
+
+  assert (select remaining_quantity from batches where id = '00000000-0000-4000-8000-00000000b001') = 80,
+    'each sale decrements stock';
+end;
+$$;
+
+-- Selling exactly the remaining stock is allowed
+do $$
+begin
+  perform record_sale('00000000-0000-4000-8000-00000000b001', '00000000-0000-4000-8000-00000000c001', 80, 100, 8000, 'sale');
+  assert (select remaining_quantity from batches where id = '00000000-0000-4000-8000-00000000b001') = 0,
+    'remaining stock can be sold in full';
+end;
+$$;
+
+-- Overselling and unknown batches are rejected without side effects
+do $$
+declare
+  v_sales_before bigint;
+  v_orders_before bigint;
+begin
+  select count(*) into v_sales_before from transactions;
+  select count(*) into v_orders_before from orders;
+
+  begin
+    perform record_sale('00000000-0000-4000-8000-00000000b001', '00000000-0000-4000-8000-00000000c001', 1, 100, 0, 'sale');
+    raise exception 'expected an error';
+  exception when others then
+    assert sqlerrm = 'insufficient stock', format('overselling fails with insufficient stock, got %s', sqlerrm);
+  end;
+
+  begin
+    perform record_sale('00000000-0000-4000-8000-00000000b999', '00000000-0000-4000-8000-00000000c001', 1, 100, 0, 'sale');
+    raise exception 'expected an error';
+  exception when others then
+    assert sqlerrm = 'batch not found', format('unknown batch fails with batch not found, got %s', sqlerrm);
+  end;
+
+  assert (select count(*) from transactions) = v_sales_before, 'failed sales insert no transactions';
+  assert (select count(*) from orders) = v_orders_before, 'failed sales insert no orders';
+  assert (select remaining_quantity from batches where id = '00000000-0000-4000-8000-00000000b001') = 0,
+    'failed sales leave stock unchanged';
+end;
+$$;
+
+rollback;
@@ -0,0 +1,124 @@
+-- Resets: reset_all and reset_today_metrics save what they change, and undo_last_reset puts it
+-- back. Everything runs inside a transaction that is rolled back, so the database is left as
+-- it was.
+begin;
+
+insert into app_users (id, email, password_hash, role)
+values ('00000000-0000-4000-8000-00000000a501', 'reset-admin@test.local', 'x', 'admin');
+
+insert into app_sessions (token, user_id, expires_at)
+values ('reset-admin-token', '00000000-0000-4000-8000-00000000a501', now() + interval '1 hour');
+
+select set_config('request.headers', '{"x-session-token": "reset-admin-token"}', true);
+
+insert into customers (id, full_name)
+values ('00000000-0000-4000-8000-00000000c501', 'Reset Customer');
+
+insert into batches (id, name, total_quantity, remaining_quantity, purchase_rate, gst_rate)
+values
+  ('00000000-0000-4000-8000-00000000b501', 'Test Kangra', 100, 100, 100, 0),
+  ('00000000-0000-4000-8000-00000000b502', 'Test Dooars', 50, 50, 80, 5);
+
+insert into schemes (id, name, kind, buy_quantity, free_quantity, customer_id)
+values ('00000000-0000-4000-8000-00000000d511', 'Buy 10 get 1', 'free_quantity', 10, 1, '00000000-0000-4000-8000-00000000c501');
+
+insert into price_rules (id, tea_name, customer_id, rate)
+values
+  ('00000000-0000-4000-8000-00000000d501', 'Test Kangra', '00000000-0000-4000-8000-00000000c501', 140),
+  ('00000000-0000-4000-8000-00000000d502', 'Test Kangra', null, 150);
+
+-- Reset today returns the free tea of today's scheme sales to stock and zeroes their scheme
+-- columns, so the P&L no longer charges the free tea; undo puts the sale back as it was
+do $$
+declare
+  v_sale_id uuid;
+  v_sale transactions%rowtype;
+  v_pnl batch_pnl%rowtype;
+begin
+  v_sale_id := (record_sale(
+    '00000000-0000-4000-8000-00000000b501', '00000000-0000-4000-8000-00000000c501', 10, 150, 0, 'sale',
+    p_scheme_id => '00000000-0000-4000-8000-00000000d511'
+  )->'transaction'->>'id')::uuid;
+  assert (select remaining_quantity from batches where id = '00000000-0000-4000-8000-00000000b501') = 89,
+    'the sale takes the billed and the free tea';
+
+  perform reset_today_metrics();
+
+  select * into v_sale from transactions where id = v_sale_id;
+  assert v_sale.status = 'reset', 'the sale is reset';
+  assert v_sale.free_quantity = 0 and v_sale.discount_amount = 0, 'the reset sale gives nothing away';
+  assert (select remaining_quantity from batches where id = '00000000-0000-4000-8000-00000000b501') = 100,
+    'reset today returns the billed and the free tea to stock';
+  select * into v_pnl from batch_pnl where batch_id = '00000000-0000-4000-8000-00000000b501';
+  assert v_pnl.free_quantity = 0 and v_pnl.purchase_cost_for_sold = 0, 'the reset sale costs nothing in the P&L';
+
+  perform undo_last_reset();
+
+  select * into v_sale from transactions where id = v_sale_id;
+  assert v_sale.quantity = 10 and v_sale.free_quantity = 1, 'undo restores the billed and the free tea';
+  assert (select remaining_quantity from batches where id = '00000000-0000-4000-8000-00000000b501') = 89,
+    'undo takes the tea from stock again';
+
+  -- Every reset in this transaction has the same now(); keep the next one the most recent
+  update resets set created_at = created_at - interval '1 minute' where undone_at is not null;
+end;
+$$;
+
+-- Reset today zeroes the taxable value and the tax of today's sales, so they drop out of the
+-- P&L, which counts revenue before tax; undo puts the tax back
+do $$
+declare
+  v_sale_id uuid;
+  v_sale transactions%rowtype;
+begin
+  v_sale_id := (record_sale(
+    '00000000-0000-4000-8000-00000000b502', '00000000-0000-4000-8000-00000000c501', 10, 100, 0, 'sale'
+  )->'transaction'->>'id')::uuid;
+  assert (select taxable_value from transactions where id = v_sale_id) = 1000, 'the sale is taxed on 1000';
+
+  perform reset_today_metrics();
+
+  select * into v_sale from transactions where id = v_sale_id;
+  assert v_sale.taxable_value = 0, 'the reset sale has no taxable value';
+  assert v_sale.cgst_amount = 0 and v_sale.sgst_amount = 0 and v_sale.igst_amount = 0, 'the reset sale has no tax';
+  assert (select sold_revenue from batch_pnl where batch_id = '00000000-0000-4000-8000-00000000b502') = 0,
+    'the reset sale earns nothing in the batch P&L';
+  -- Every sale in this file was made today, so none of them is left in the total
+  assert (select total_pnl from analytics_summary) = 0, 'today''s reset sales are out of the total P&L';
+
+  perform undo_last_reset();
+
+  select * into v_sale from transactions where id = v_sale_id;
+  assert v_sale.taxable_value = 1000 and v_sale.cgst_amount + v_sale.sgst_amount + v_sale.igst_amount = 50,
+    'undo restores the taxable value and the tax';
+
+  update resets set created_at = created_at - interval '1 minute' where undone_at is not null;
+end;
+$$;
+
+-- Customer rates and schemes are deleted with their customers by reset_all and come back with
+-- the undo, together with the sales made under them
+do $$
+begin
+  perform reset_all();
+  assert not exists (select 1 from price_rules where id = '00000000-0000-4000-8000-00000000d501'),
+    'reset_all removes the customer rate with its customer';
+  assert not exists (select 1 from schemes where id = '00000000-0000-4000-8000-00000000d511'),
+    'reset_all removes the customer scheme with its customer';
+  assert exists (select 1 from price_rules where id = '00000000-0000-4000-8000-00000000d502'),
+    'reset_all leaves the general price list alone';
+
+  perform undo_last_reset();
+  assert (select rate from price_rules where id = '00000000-0000-4000-8000-00000000d501') = 140,
+    'undo_last_reset restores the customer rate';
+  assert exists (select 1 from schemes where id = '00000000-0000-4000-8000-00000000d511'),
+    'undo_last_reset restores the customer scheme';
+  assert exists (
+    select 1 from transactions
+     where customer_id = '00000000-0000-4000-8000-00000000c501'
+       and scheme_id = '00000000-0000-4000-8000-00000000d511'
+  ), 'sales keep the scheme they were made under';
+end;
+$$;
+
+rollback;
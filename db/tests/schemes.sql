@@ -0,0 +1,142 @@
+-- Schemes: record_sale and record_order apply a discount or give free tea, free tea leaves the
+-- batch like sold tea and is costed in batch_pnl, and schemes a line does not qualify for are
+-- refused. Everything runs inside a transaction that is rolled back, so the database is left as it was.
+begin;
+
+insert into batches (id, name, total_quantity, remaining_quantity, purchase_rate)
+values ('00000000-0000-4000-8000-00000000b201', 'Test Assam', 100, 100, 100);
+
+insert into customers (id, full_name)
+values
+  ('00000000-0000-4000-8000-00000000c201', 'Scheme Customer'),
+  ('00000000-0000-4000-8000-00000000c202', 'Other Customer');
+
+insert into schemes (id, name, kind, discount_percent, valid_from, valid_to)
+values ('00000000-0000-4000-8000-00000000d201', 'Festival 5%', 'discount', 5, current_date - 1, current_date + 30);
+
+insert into schemes (id, name, kind, buy_quantity, free_quantity, tea_name)
+values ('00000000-0000-4000-8000-00000000d202', 'Buy 10 get 1', 'free_quantity', 10, 1, 'test assam');
+
+insert into schemes (id, name, kind, discount_percent, customer_id, valid_from, valid_to)
+values
+  ('00000000-0000-4000-8000-00000000d203', 'Loyalty 10%', 'discount', 10, '00000000-0000-4000-8000-00000000c202', current_date, null),
+  ('00000000-0000-4000-8000-00000000d204', 'Last year', 'discount', 10, null, current_date - 400, current_date - 300);
+
+-- A discount scheme bills the full quantity at the net amount
+do $$
+declare
+  v_sale transactions%rowtype;
+begin
+  perform record_sale(
+    '00000000-0000-4000-8000-00000000b201', '00000000-0000-4000-8000-00000000c201', 10, 150, 0, 'sale',
+    p_scheme_id => '00000000-0000-4000-8000-00000000d201'
+  );
+  select * into v_sale from transactions
+   where customer_id = '00000000-0000-4000-8000-00000000c201' and scheme_id = '00000000-0000-4000-8000-00000000d201';
+
+  assert v_sale.discount_amount = 75, 'the discount is 5% of the line value';
+  assert v_sale.amount = 1425, 'the sale amount is net of the discount';
+  assert v_sale.balance = 1425, 'the customer owes the net amount';
+  assert (select remaining_quantity from batches where id = '00000000-0000-4000-8000-00000000b201') = 90,
+    'a discount does not change the stock taken';
+end;
+$$;
+
+-- A free-quantity scheme takes the free tea from the batch without charging for it
+do $$
+declare
+  v_sale transactions%rowtype;
+begin
+  perform record_order(
+    '00000000-0000-4000-8000-00000000c201',
+    json_build_array(json_build_object(
+      'batch_id', '00000000-0000-4000-8000-00000000b201',
+      'quantity', 25,
+      'rate', 150,
+      'scheme_id', '00000000-0000-4000-8000-00000000d202'
+    ))
+  );
+  select * into v_sale from transactions
+   where customer_id = '00000000-0000-4000-8000-00000000c201' and scheme_id = '00000000-0000-4000-8000-00000000d202';
+
+  assert v_sale.quantity = 25 and v_sale.free_quantity = 2, 'two whole lots of 10 kg earn 2 kg free';
+  assert v_sale.amount = 3750 and v_sale.discount_amount = 0, 'only the billed quantity is charged';
+  assert (select remaining_quantity from batches where id = '00000000-0000-4000-8000-00000000b201') = 63,
+    'billed and free tea both leave the batch';
+end;
+$$;
+
+-- batch_pnl charges free tea at the purchase rate
+do $$
+declare
+  v_pnl record;
+begin
+  select * into v_pnl from batch_pnl where batch_id = '00000000-0000-4000-8000-00000000b201';
+
+  assert v_pnl.sold_quantity = 35, 'sold quantity stays the billed quantity';
+  assert v_pnl.free_quantity = 2, 'free tea is reported on its own';
+  assert v_pnl.sold_revenue = 5175, 'revenue is net of discounts';
+  assert v_pnl.purchase_cost_for_sold = 3700, 'cost covers billed and free tea';
+  assert v_pnl.pnl = 1475, 'profit is revenue less the cost of all tea given out';
+end;
+$$;
+
+-- Returning discounted tea credits what the customer paid per kg
+do $$
+declare
+  v_sale_id uuid;
+  v_result json;
+begin
+  select id into v_sale_id from transactions
+   where customer_id = '00000000-0000-4000-8000-00000000c201' and scheme_id = '00000000-0000-4000-8000-00000000d201';
+
+  v_result := record_return(v_sale_id, 2, 'damaged');
+
+  assert (v_result->'return'->>'amount')::numeric = -285, 'the return is valued at the discounted rate';
+  assert (select balance from transactions where id = v_sale_id) = 1140, 'the credit comes off the sale balance';
+end;
+$$;
+
+-- Schemes the line does not qualify for are refused and leave nothing behind
+do $$
+declare
+  v_case record;
+  v_transactions_before bigint;
+begin
+  select count(*) into v_transactions_before from transactions;
+
+  for v_case in
+    select * from (values
+      ('00000000-0000-4000-8000-00000000d202'::uuid, 5::numeric, 'scheme Buy 10 get 1 needs at least 10 kg'),
+      ('00000000-0000-4000-8000-00000000d203'::uuid, 5::numeric, 'scheme Loyalty 10% is for another customer'),
+      ('00000000-0000-4000-8000-00000000d204'::uuid, 5::numeric, 'scheme Last year is not valid on%'),
+      ('00000000-0000-4000-8000-00000000b201'::uuid, 5::numeric, 'scheme not found')
+    ) as cases(scheme_id, quantity, message)
+  loop
+    begin
+      perform record_sale(
+        '00000000-0000-4000-8000-00000000b201', '00000000-0000-4000-8000-00000000c201', v_case.quantity, 150, 0, 'sale',
+        p_scheme_id => v_case.scheme_id
+      );
+      raise exception 'expected an error';
+    exception when others then
+      assert sqlerrm like v_case.message, format('expected %s, got %s', v_case.message, sqlerrm);
+    end;
+  end loop;
+
+  assert (select count(*) from transactions) = v_transactions_before, 'refused sales leave no transactions';
+end;
+$$;
+
+-- Without a scheme nothing changes
+do $$
+declare
+  v_benefit record;
+begin
+  select * into v_benefit
+    from scheme_benefit(null, '00000000-0000-4000-8000-00000000c201', 'Test Assam', 10, 150, current_date);
+  assert v_benefit.discount_amount = 0 and v_benefit.free_quantity = 0, 'no scheme gives no benefit';
+end;
+$$;
+
+rollback;
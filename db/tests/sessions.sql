@@ -0,0 +1,25 @@
+-- Sessions: an account that must change its password gets no role until it has done so, so
+-- row-level security and the admin functions refuse it. Everything runs inside a transaction
+-- that is rolled back, so the database is left as it was.
+begin;
+
+insert into app_users (id, email, password_hash, role, must_change_password)
+values ('00000000-0000-4000-8000-00000000a201', 'reset-partner@test.local', crypt('temporary-pass', gen_salt('bf')), 'partner', true);
+
+insert into app_sessions (token, user_id, expires_at)
+values ('reset-partner-token', '00000000-0000-4000-8000-00000000a201', now() + interval '1 hour');
+
+do $$
+begin
+  perform set_config('request.headers', '{"x-session-token": "reset-partner-token"}', true);
+
+  assert current_app_user_id() = '00000000-0000-4000-8000-00000000a201', 'the session still identifies the user';
+  assert current_app_role() is null, 'a session that must change its password has no role';
+
+  perform change_own_password('temporary-pass', 'chosen-password');
+
+  assert current_app_role() = 'partner', 'the role applies once the password is changed';
+end;
+$$;
+
+rollback;
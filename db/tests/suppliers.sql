@@ -0,0 +1,124 @@
+-- Suppliers: record_purchase adds the batch costed at its landed rate, later freight re-costs
+-- it, and supplier_payables nets the supplier's invoices against payments. Everything runs inside a
+-- transaction that is rolled back, so the database is left as it was.
+begin;
+
+insert into suppliers (id, name)
+values
+  ('00000000-0000-4000-8000-00000000e301', 'Jorhat Tea Estates'),
+  ('00000000-0000-4000-8000-00000000e302', 'Closed Supplier');
+
+update suppliers set archived_at = now() where id = '00000000-0000-4000-8000-00000000e302';
+
+-- The batch is costed at the invoice rate plus freight and other costs per kg
+do $$
+declare
+  v_result json;
+  v_batch batches%rowtype;
+  v_purchase purchases%rowtype;
+begin
+  v_result := record_purchase(
+    '00000000-0000-4000-8000-00000000e301', ' Test Assam ', 120, 180,
+    p_freight => 1500,
+    p_other_costs => 300,
+    p_invoice_number => 'JTE/118',
+    p_invoice_date => current_date - 10,
+    p_due_date => current_date + 20
+  );
+  select * into v_batch from batches where id = (v_result->'batch'->>'id')::uuid;
+  select * into v_purchase from purchases where id = (v_result->'purchase'->>'id')::uuid;
+
+  assert v_batch.name = 'Test Assam', 'the batch name is trimmed';
+  assert v_batch.total_quantity = 120 and v_batch.remaining_quantity = 120, 'the whole purchase goes into stock';
+  assert v_batch.purchase_rate = 195, 'the batch is costed at the landed rate';
+  assert v_purchase.batch_id = v_batch.id, 'the purchase is linked to its batch';
+  assert v_purchase.total_cost = 23400, 'the landed cost includes freight and other costs';
+  assert v_purchase.invoice_amount = 21600, 'the supplier is owed for the tea only';
+  assert v_purchase.invoice_number = 'JTE/118', 'the supplier invoice number is kept';
+end;
+$$;
+
+-- Freight billed later re-costs the batch
+do $$
+begin
+  update purchases set freight = 2700 where invoice_number = 'JTE/118';
+
+  assert (select purchase_rate from batches where name = 'Test Assam') = 205,
+    'the batch follows the purchase''s landed rate';
+end;
+$$;
+
+-- Payments reduce what is owed to the supplier
+do $$
+declare
+  v_payable record;
+begin
+  insert into supplier_payments (supplier_id, purchase_id, amount, payment_method, payment_reference)
+  select supplier_id, id, 10000, 'bank_transfer', 'NEFT-1' from purchases where invoice_number = 'JTE/118';
+
+  insert into supplier_payments (supplier_id, amount)
+  values ('00000000-0000-4000-8000-00000000e301', 2000);
+
+  select * into v_payable from supplier_payables where supplier_id = '00000000-0000-4000-8000-00000000e301';
+
+  assert v_payable.purchase_count = 1, 'one purchase from the supplier';
+  assert v_payable.total_purchased = 21600, 'purchases are counted at the supplier''s invoice, without freight';
+  assert v_payable.total_paid = 12000, 'every payment counts, with or without an invoice';
+  assert v_payable.outstanding = 9600, 'outstanding is purchases less payments';
+
+  select * into v_payable from supplier_payables where supplier_id = '00000000-0000-4000-8000-00000000e302';
+  assert v_payable.outstanding = 0, 'suppliers without purchases owe nothing';
+end;
+$$;
+
+-- A payment against an invoice must go to the supplier who sent it
+do $$
+begin
+  insert into suppliers (id, name) values ('00000000-0000-4000-8000-00000000e303', 'Other Supplier');
+
+  begin
+    insert into supplier_payments (supplier_id, purchase_id, amount)
+    select '00000000-0000-4000-8000-00000000e303', id, 500 from purchases where invoice_number = 'JTE/118';
+    raise exception 'expected an error';
+  exception when others then
+    assert sqlerrm = 'the purchase belongs to another supplier',
+      format('expected the purchase belongs to another supplier, got %s', sqlerrm);
+  end;
+
+  begin
+    update supplier_payments
+       set supplier_id = '00000000-0000-4000-8000-00000000e303'
+     where payment_reference = 'NEFT-1';
+    raise exception 'expected an error';
+  exception when others then
+    assert sqlerrm = 'the purchase belongs to another supplier', 'a payment cannot move to another supplier''s invoice';
+  end;
+end;
+$$;
+
+-- Archived suppliers and bad quantities are refused and leave no batch behind
+do $$
+declare
+  v_batches_before bigint;
+begin
+  select count(*) into v_batches_before from batches;
+
+  begin
+    perform record_purchase('00000000-0000-4000-8000-00000000e302', 'Closed Tea', 10, 100);
+    raise exception 'expected an error';
+  exception when others then
+    assert sqlerrm = 'supplier not found', format('expected supplier not found, got %s', sqlerrm);
+  end;
+
+  begin
+    perform record_purchase('00000000-0000-4000-8000-00000000e301', 'Empty Tea', 0, 100);
+    raise exception 'expected an error';
+  exception when others then
+    assert sqlerrm <> 'expected an error', 'a purchase needs a quantity';
+  end;
+
+  assert (select count(*) from batches) = v_batches_before, 'refused purchases add no batches';
+end;
+$$;
+
+rollback;
@@ -0,0 +1,70 @@
+// Service worker for the installable app. It caches the app shell so the partner dashboard
+// opens without a connection; business data is not cached here (React Query persists it in
+// IndexedDB) and requests to Supabase always go to the network.
+const CACHE_NAME = "kadak-chah-shell-v1";
+const SHELL_URLS = ["/", "/index.html", "/manifest.webmanifest", "/leaf-favicon.svg", "/icons/icon.svg"];
+
+// The built index.html references hashed bundles under /assets/; cache them with the shell
+const assetUrlsFrom = (html) => Array.from(html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g), (match) => match[1]);
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(CACHE_NAME);
+      await cache.addAll(SHELL_URLS);
+      const response = await cache.match("/index.html");
+      if (response) {
+        await cache.addAll(assetUrlsFrom(await response.text()));
+      }
+      await self.skipWaiting();
+    })(),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(names.filter((name) => name !== CACHE_NAME).map((name) => caches.delete(name)));
+      await self.clients.claim();
+    })(),
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  // Pages: network first so a new deploy is picked up, falling back to the cached shell
+  if (request.mode === "navigate") {
+    event.respondWith(
+      (async () => {
+        try {
+          const response = await fetch(request);
+          const cache = await caches.open(CACHE_NAME);
+          await cache.put("/index.html", response.clone());
+          return response;
+        } catch {
+          return (await caches.match("/index.html")) || Response.error();
+        }
+      })(),
+    );
+    return;
+  }
+
+  // Static files: cache first; hashed bundles never change under the same name
+  event.respondWith(
+    (async () => {
+      const cached = await caches.match(request);
+      if (cached) return cached;
+      const response = await fetch(request);
+      if (response.ok) {
+        const cache = await caches.open(CACHE_NAME);
+        await cache.put(request, response.clone());
+      }
+      return response;
+    })(),
+  );
+});
@@ -2,7 +2,9 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { useRealtimeSubscriptions } from "@/lib/hooks";
+import { useEffect, useState } from "react";
+import { usePeriodicRefresh } from "@/lib/hooks";
+import { persistQueryCache, restoreQueryCache } from "@/lib/query-persistence";
 import useAutoReminder from "@/hooks/use-auto-reminder";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
@@ -17,24 +19,43 @@ import CollectPayment from "@/components/partner/CollectPayment";
 import DownloadReports from "@/components/partner/DownloadReports";
 import ManageCustomers from "@/components/partner/ManageCustomers";
 import CreateBatch from "@/components/partner/CreateBatch";
+import ChequeRegister from "@/components/partner/ChequeRegister";
+import RecordReturn from "@/components/partner/RecordReturn";
 import ManageBatches from "@/components/common/ManageBatches";
+import PriceList from "@/components/common/PriceList";
+import Suppliers from "@/components/common/Suppliers";
 import RequireRole from "@/components/auth/RequireRole";
 import SiteFooter from "@/components/common/SiteFooter";
 
 const queryClient = new QueryClient();
 
-const RealtimeManager = () => {
+const BackgroundRefresh = () => {
   // must be called inside QueryClientProvider so useQueryClient() can find the client
-  useRealtimeSubscriptions(true);
+  usePeriodicRefresh(true);
   useAutoReminder();
   return null;
 };
 
 const App = () => {
+  // Last-known data is restored from the device before the first render so offline visits
+  // start with it instead of empty lists
+  const [restoringCache, setRestoringCache] = useState(true);
+
+  useEffect(() => {
+    let stopPersisting = () => undefined;
+    restoreQueryCache(queryClient).finally(() => {
+      stopPersisting = persistQueryCache(queryClient);
+      setRestoringCache(false);
+    });
+    return () => stopPersisting();
+  }, []);
+
+  if (restoringCache) return null;
+
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
-        <RealtimeManager />
+        <BackgroundRefresh />
         <Toaster />
         <Sonner />
         <BrowserRouter>
@@ -60,6 +81,10 @@ const App = () => {
                   <Route path="manage" element={<ManageCustomers />} />
                   <Route path="create-batch" element={<CreateBatch />} />
                   <Route path="manage-batches" element={<ManageBatches />} />
+                  <Route path="price-list" element={<PriceList />} />
+                  <Route path="suppliers" element={<Suppliers />} />
+                  <Route path="cheques" element={<ChequeRegister />} />
+                  <Route path="returns" element={<RecordReturn />} />
                 </Route>
                 <Route
                   path="/admin/dashboard"
@@ -0,0 +1,221 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuditLog } from "@/lib/hooks";
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_TABLE_LABELS,
+  describeAuditRecord,
+  diffAuditEntry,
+  formatAuditValue,
+  type AuditAction,
+  type AuditLogEntry,
+  type AuditTable,
+} from "@/lib/audit";
+
+const ALL = "all";
+
+const ACTION_VARIANTS: Record<AuditAction, "default" | "secondary" | "destructive"> = {
+  insert: "secondary",
+  update: "default",
+  delete: "destructive",
+};
+
+const ActivityLog = () => {
+  const [table, setTable] = useState<string>(ALL);
+  const [action, setAction] = useState<string>(ALL);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<AuditLogEntry | null>(null);
+
+  const { data: entries, isLoading, isError, error, refetch, isFetching } = useAuditLog({
+    table: table === ALL ? null : table,
+    action: action === ALL ? null : action,
+    from: from || null,
+    to: to || null,
+  });
+
+  const rows = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return (entries || [])
+      .map((entry) => ({
+        ...entry,
+        description: describeAuditRecord(entry.table_name, entry.after_data ?? entry.before_data),
+        changes: diffAuditEntry(entry.before_data, entry.after_data),
+      }))
+      .filter(
+        (entry) =>
+          !term ||
+          entry.description.toLowerCase().includes(term) ||
+          String(entry.actor_email || "").toLowerCase().includes(term) ||
+          String(entry.record_id || "").toLowerCase().includes(term),
+      );
+  }, [entries, search]);
+
+  const selectedChanges = selected ? diffAuditEntry(selected.before_data, selected.after_data) : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle>Activity</CardTitle>
+            <CardDescription>
+              Every change to customers, transactions, batches and settings, newest first (latest 500 entries)
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+            {isFetching ? "Refreshing…" : "Refresh"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 md:grid-cols-5">
+          <div className="space-y-1">
+            <Label htmlFor="activity-table">Table</Label>
+            <Select value={table} onValueChange={setTable}>
+              <SelectTrigger id="activity-table">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All tables</SelectItem>
+                {(Object.keys(AUDIT_TABLE_LABELS) as AuditTable[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {AUDIT_TABLE_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="activity-action">Action</Label>
+            <Select value={action} onValueChange={setAction}>
+              <SelectTrigger id="activity-action">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All actions</SelectItem>
+                {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {AUDIT_ACTION_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="activity-from">From</Label>
+            <Input id="activity-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="activity-to">To</Label>
+            <Input id="activity-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="activity-search">Search</Label>
+            <Input
+              id="activity-search"
+              placeholder="User, record or ID"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div>Loading activity...</div>
+        ) : isError ? (
+          <div className="text-destructive">Error loading activity: {error?.message}</div>
+        ) : rows.length === 0 ? (
+          <div className="text-sm text-muted-foreground">No activity matches these filters.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table className="min-w-[860px]">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Table</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Record</TableHead>
+                  <TableHead>Changed Fields</TableHead>
+                  <TableHead className="text-right">Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap">{new Date(entry.occurred_at).toLocaleString()}</TableCell>
+                    <TableCell>{entry.actor_email || <span className="text-muted-foreground">System</span>}</TableCell>
+                    <TableCell>{AUDIT_TABLE_LABELS[entry.table_name as AuditTable] ?? entry.table_name}</TableCell>
+                    <TableCell>
+                      <Badge variant={ACTION_VARIANTS[entry.action as AuditAction] ?? "secondary"}>
+                        {AUDIT_ACTION_LABELS[entry.action as AuditAction] ?? entry.action}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="max-w-[220px] truncate">{entry.description}</TableCell>
+                    <TableCell className="max-w-[240px] truncate text-xs text-muted-foreground">
+                      {entry.action === "update" ? entry.changes.map((change) => change.field).join(", ") : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="outline" onClick={() => setSelected(entry)}>
+                        View
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={selected !== null} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>
+              {selected ? `${AUDIT_ACTION_LABELS[selected.action as AuditAction] ?? selected.action} · ${AUDIT_TABLE_LABELS[selected.table_name as AuditTable] ?? selected.table_name}` : ""}
+            </DialogTitle>
+            <DialogDescription>
+              {selected
+                ? `${new Date(selected.occurred_at).toLocaleString()} by ${selected.actor_email || "system"}${
+                    selected.actor_role ? ` (${selected.actor_role})` : ""
+                  } · record ${selected.record_id || "—"}`
+                : ""}
+            </DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="max-h-[60vh]">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Field</TableHead>
+                  <TableHead>Before</TableHead>
+                  <TableHead>After</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {selectedChanges.map((change) => (
+                  <TableRow key={change.field}>
+                    <TableCell className="font-medium">{change.field}</TableCell>
+                    <TableCell className="break-all text-muted-foreground">{formatAuditValue(change.before)}</TableCell>
+                    <TableCell className="break-all">{formatAuditValue(change.after)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ActivityLog;
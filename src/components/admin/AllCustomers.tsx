@@ -1,22 +1,40 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { Users, Edit, Trash } from "lucide-react";
-import { useCustomers, useUpdateCustomer, useDeleteCustomer, useTransactions } from "@/lib/hooks";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Users, Edit, Archive, FileText, ShieldCheck } from "lucide-react";
+import {
+  useCustomers,
+  useUpdateCustomer,
+  useArchiveCustomer,
+  useTransactions,
+  useCreditOverrides,
+  useGrantCreditOverride,
+} from "@/lib/hooks";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { useMemo, useState } from "react";
 import { computeTransactionSummary } from "@/lib/utils";
+import StatementDialog from "@/components/common/StatementDialog";
+import CreditHoldBadge from "@/components/common/CreditHoldBadge";
+import { findPendingOverride, getCreditStatus } from "@/lib/credit";
+import type { Customer } from "@/lib/schemas";
 
 const AllCustomers = () => {
-  const { data, isLoading, isError, error } = useCustomers();
+  const { data, isLoading, isError, error } = useCustomers(undefined, { activeOnly: true });
   const { data: transactions } = useTransactions();
   const updateCustomer = useUpdateCustomer();
-  const deleteCustomer = useDeleteCustomer();
+  const archiveCustomer = useArchiveCustomer();
+  const { data: creditOverrides } = useCreditOverrides();
+  const grantOverride = useGrantCreditOverride();
   const { toast } = useToast();
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editValues, setEditValues] = useState<any>({});
+  const [statementCustomer, setStatementCustomer] = useState<Customer | null>(null);
+  const [overrideCustomer, setOverrideCustomer] = useState<Customer | null>(null);
+  const [overrideReason, setOverrideReason] = useState("");
 
   const transactionSummary = useMemo(() => computeTransactionSummary(transactions), [transactions]);
 
@@ -35,6 +53,8 @@ const AllCustomers = () => {
         ...customer,
         totalSales: aggregates.totalSales,
         totalCollections: aggregates.totalCollections,
+        creditStatus: getCreditStatus(customer, transactions),
+        pendingOverride: findPendingOverride(creditOverrides, customer.id),
         outstandingCalculated: Math.max(
           Number(customer.outstanding_balance ?? 0) || 0,
           Number(aggregates.outstanding ?? 0) || 0,
@@ -42,7 +62,27 @@ const AllCustomers = () => {
         ),
       };
     });
-  }, [data, transactionSummary]);
+  }, [data, transactions, transactionSummary, creditOverrides]);
+
+  const handleGrantOverride = async () => {
+    if (!overrideCustomer) return;
+    if (!overrideReason.trim()) {
+      toast({ title: "Reason required", description: "Say why this customer may buy on credit.", variant: "destructive" });
+      return;
+    }
+
+    try {
+      await grantOverride.mutateAsync({ customerId: overrideCustomer.id, reason: overrideReason });
+      toast({
+        title: "Override granted",
+        description: `The next sale to ${overrideCustomer.full_name || overrideCustomer.shop_name} may go past the credit hold.`,
+      });
+      setOverrideCustomer(null);
+      setOverrideReason("");
+    } catch (err: any) {
+      toast({ title: "Unable to grant override", description: err?.message || "Please try again.", variant: "destructive" });
+    }
+  };
 
   return (
     <Card>
@@ -102,10 +142,18 @@ const AllCustomers = () => {
                     </span>
                   </TableCell>
                   <TableCell>
-                    {Number(customer.outstandingCalculated || 0) > 0 ? (
-                      <Badge variant="destructive">Pending</Badge>
-                    ) : (
-                      <Badge variant="default" className="bg-success">Clear</Badge>
+                    <div className="flex flex-wrap gap-1">
+                      {Number(customer.outstandingCalculated || 0) > 0 ? (
+                        <Badge variant="destructive">Pending</Badge>
+                      ) : (
+                        <Badge variant="default" className="bg-success">Clear</Badge>
+                      )}
+                      <CreditHoldBadge status={customer.creditStatus} overridden={Boolean(customer.pendingOverride)} />
+                    </div>
+                    {customer.creditStatus.creditLimit !== null && (
+                      <div className="mt-1 text-xs text-muted-foreground">
+                        Limit ₹{customer.creditStatus.creditLimit.toFixed(2)}
+                      </div>
                     )}
                   </TableCell>
                   <TableCell className="w-40">
@@ -128,16 +176,24 @@ const AllCustomers = () => {
                         <Button size="sm" variant="ghost" onClick={() => { setEditingId(customer.id); setEditValues({ full_name: customer.full_name, shop_name: customer.shop_name, contact: customer.contact }); }}>
                           <Edit className="h-4 w-4" />
                         </Button>
-                        <Button size="sm" variant="destructive" onClick={async () => {
-                          if (!confirm('Delete this customer? This cannot be undone.')) return;
+                        <Button size="sm" variant="ghost" title="Statement of account" onClick={() => setStatementCustomer(customer)}>
+                          <FileText className="h-4 w-4" />
+                        </Button>
+                        {customer.creditStatus.onHold && !customer.pendingOverride && (
+                          <Button size="sm" variant="ghost" title="Override credit hold" onClick={() => { setOverrideCustomer(customer); setOverrideReason(""); }}>
+                            <ShieldCheck className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button size="sm" variant="destructive" title="Archive customer" onClick={async () => {
+                          if (!confirm('Archive this customer? They can be restored from the Archive tab.')) return;
                           try {
-                            await deleteCustomer.mutateAsync(customer.id);
-                            toast({ title: 'Deleted', description: 'Customer removed' });
+                            await archiveCustomer.mutateAsync(customer.id);
+                            toast({ title: 'Archived', description: 'Customer moved to the archive' });
                           } catch (err: any) {
-                            toast({ title: 'Error', description: err?.message || 'Failed to delete' });
+                            toast({ title: 'Error', description: err?.message || 'Failed to archive' });
                           }
                         }}>
-                          <Trash className="h-4 w-4" />
+                          <Archive className="h-4 w-4" />
                         </Button>
                       </div>
                     )}
@@ -149,6 +205,43 @@ const AllCustomers = () => {
           </div>
         )}
       </CardContent>
+      <StatementDialog customer={statementCustomer} onClose={() => setStatementCustomer(null)} />
+      <Dialog
+        open={overrideCustomer !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setOverrideCustomer(null);
+            setOverrideReason("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Override Credit Hold</DialogTitle>
+            <DialogDescription>
+              Let the next sale to {overrideCustomer?.full_name || overrideCustomer?.shop_name} go on credit despite the hold. The
+              override is used up by that sale and kept with its reason.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="override-reason">Reason</Label>
+            <Input
+              id="override-reason"
+              placeholder="e.g. Festival order, payment promised Friday"
+              value={overrideReason}
+              onChange={(e) => setOverrideReason(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOverrideCustomer(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleGrantOverride} disabled={grantOverride.status === "pending"}>
+              {grantOverride.status === "pending" ? "Granting…" : "Grant Override"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 };
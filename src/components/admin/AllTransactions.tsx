@@ -3,6 +3,8 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { Receipt } from "lucide-react";
 import { useTransactions } from "@/lib/hooks";
+import InvoiceActions from "@/components/common/InvoiceActions";
+import ReceiptActions from "@/components/common/ReceiptActions";
 
 const AllTransactions = () => {
   const { data, isLoading, isError, error } = useTransactions();
@@ -23,7 +25,7 @@ const AllTransactions = () => {
           <div className="text-destructive">Error: {(error as any)?.message}</div>
         ) : (
           <div className="overflow-x-auto">
-            <Table className="min-w-[720px]">
+            <Table className="min-w-[800px]">
               <TableHeader>
                 <TableRow>
                   <TableHead>Date & Time</TableHead>
@@ -33,6 +35,7 @@ const AllTransactions = () => {
                   <TableHead className="text-right">Paid</TableHead>
                   <TableHead className="text-right">Balance</TableHead>
                   <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Invoice / Receipt</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -64,6 +67,13 @@ const AllTransactions = () => {
                       <Badge variant="destructive">Due</Badge>
                     )}
                   </TableCell>
+                  <TableCell>
+                    {String(transaction.type || "").toLowerCase() === "payment" ? (
+                      <ReceiptActions paymentId={transaction.id} compact />
+                    ) : (
+                      <InvoiceActions orderId={transaction.order_id} compact />
+                    )}
+                  </TableCell>
                 </TableRow>
               ))}
             </TableBody>
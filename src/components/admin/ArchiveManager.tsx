@@ -0,0 +1,165 @@
+import { useMemo } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useBatches, useCustomers, usePurgeArchived, useRestoreArchived, useTransactions, type ArchivedRecordRef } from "@/lib/hooks";
+import { useToast } from "@/hooks/use-toast";
+import { formatReadableDate } from "@/lib/utils";
+
+const ArchiveManager = () => {
+  const { toast } = useToast();
+  const { data: customers, isLoading: customersLoading } = useCustomers(null);
+  const { data: batches, isLoading: batchesLoading } = useBatches();
+  const { data: transactions } = useTransactions(null);
+  const restore = useRestoreArchived();
+  const purge = usePurgeArchived();
+
+  const archivedCustomers = useMemo(() => (customers || []).filter((customer) => customer.archived_at), [customers]);
+  const archivedBatches = useMemo(() => (batches || []).filter((batch) => batch.archived_at), [batches]);
+
+  const transactionCounts = useMemo(() => {
+    const counts = { customers: new Map<string, number>(), batches: new Map<string, number>() };
+    (transactions || []).forEach((txn) => {
+      if (txn.customer_id) counts.customers.set(txn.customer_id, (counts.customers.get(txn.customer_id) || 0) + 1);
+      if (txn.batch_id) counts.batches.set(txn.batch_id, (counts.batches.get(txn.batch_id) || 0) + 1);
+    });
+    return counts;
+  }, [transactions]);
+
+  const handleRestore = async (ref: ArchivedRecordRef, label: string) => {
+    try {
+      await restore.mutateAsync(ref);
+      toast({ title: "Restored", description: `${label} is active again.` });
+    } catch (err: any) {
+      toast({ title: "Restore failed", description: err?.message || "Could not restore the record.", variant: "destructive" });
+    }
+  };
+
+  const handlePurge = async (ref: ArchivedRecordRef, label: string) => {
+    const count = transactionCounts[ref.table].get(ref.id) || 0;
+    const consequence =
+      ref.table === "customers"
+        ? `This also deletes their ${count} transaction(s) and removes them from every report.`
+        : `Its ${count} sale(s) keep their amounts but lose the batch link, so batch P&L no longer includes them.`;
+    if (!window.confirm(`Permanently delete ${label}? ${consequence} This cannot be undone.`)) return;
+
+    try {
+      await purge.mutateAsync(ref);
+      toast({ title: "Purged", description: `${label} was permanently deleted.` });
+    } catch (err: any) {
+      toast({ title: "Purge failed", description: err?.message || "Could not purge the record.", variant: "destructive" });
+    }
+  };
+
+  const busy = restore.status === "pending" || purge.status === "pending";
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Archived Customers</CardTitle>
+          <CardDescription>Hidden from sales and payments; still counted in reports and analytics</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {customersLoading ? (
+            <div>Loading archive...</div>
+          ) : archivedCustomers.length === 0 ? (
+            <div className="text-sm text-muted-foreground">No archived customers.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table className="min-w-[640px]">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Shop</TableHead>
+                    <TableHead className="text-right">Transactions</TableHead>
+                    <TableHead>Archived</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {archivedCustomers.map((customer) => {
+                    const label = customer.full_name || customer.shop_name || "Customer";
+                    const ref: ArchivedRecordRef = { table: "customers", id: customer.id };
+                    return (
+                      <TableRow key={customer.id}>
+                        <TableCell className="font-medium">{customer.full_name || "—"}</TableCell>
+                        <TableCell>{customer.shop_name || "—"}</TableCell>
+                        <TableCell className="text-right">{transactionCounts.customers.get(customer.id) || 0}</TableCell>
+                        <TableCell>{formatReadableDate(customer.archived_at)}</TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-2">
+                            <Button size="sm" variant="outline" disabled={busy} onClick={() => handleRestore(ref, label)}>
+                              Restore
+                            </Button>
+                            <Button size="sm" variant="destructive" disabled={busy} onClick={() => handlePurge(ref, label)}>
+                              Purge
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Archived Batches</CardTitle>
+          <CardDescription>Hidden from new sales; their sales still count in batch P&L</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {batchesLoading ? (
+            <div>Loading archive...</div>
+          ) : archivedBatches.length === 0 ? (
+            <div className="text-sm text-muted-foreground">No archived batches.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table className="min-w-[640px]">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Batch</TableHead>
+                    <TableHead className="text-right">Remaining (kg)</TableHead>
+                    <TableHead className="text-right">Sales</TableHead>
+                    <TableHead>Archived</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {archivedBatches.map((batch) => {
+                    const label = batch.name || "Batch";
+                    const ref: ArchivedRecordRef = { table: "batches", id: batch.id };
+                    return (
+                      <TableRow key={batch.id}>
+                        <TableCell className="font-medium">{label}</TableCell>
+                        <TableCell className="text-right">{Number(batch.remaining_quantity || 0).toFixed(2)}</TableCell>
+                        <TableCell className="text-right">{transactionCounts.batches.get(batch.id) || 0}</TableCell>
+                        <TableCell>{formatReadableDate(batch.archived_at)}</TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-2">
+                            <Button size="sm" variant="outline" disabled={busy} onClick={() => handleRestore(ref, label)}>
+                              Restore
+                            </Button>
+                            <Button size="sm" variant="destructive" disabled={busy} onClick={() => handlePurge(ref, label)}>
+                              Purge
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ArchiveManager;
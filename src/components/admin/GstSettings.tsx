@@ -0,0 +1,82 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useBusinessGstin, useSaveBusinessGstin } from "@/lib/hooks";
+import { getStateFromGstin, getStateName, isValidGstin, normaliseGstin } from "@/lib/gst";
+import { useToast } from "@/hooks/use-toast";
+
+const GstSettings = () => {
+  const { data: savedGstin, isLoading } = useBusinessGstin();
+  const saveGstin = useSaveBusinessGstin();
+  const { toast } = useToast();
+  const [gstin, setGstin] = useState("");
+
+  useEffect(() => {
+    setGstin(savedGstin ?? "");
+  }, [savedGstin]);
+
+  const saving = saveGstin.status === "pending";
+  const changed = (normaliseGstin(gstin) ?? "") !== (savedGstin ?? "");
+  const stateName = isValidGstin(gstin) ? getStateName(getStateFromGstin(gstin)) : null;
+
+  const handleSave = async (value: string) => {
+    try {
+      const stored = await saveGstin.mutateAsync(value);
+      setGstin(stored ?? "");
+      toast({
+        title: stored ? "GSTIN saved" : "GSTIN cleared",
+        description: stored
+          ? "New sales are taxed from this state and invoices are issued as tax invoices."
+          : "Sales are taxed as CGST/SGST until a GSTIN is saved.",
+      });
+    } catch (err: any) {
+      toast({
+        title: "Unable to save",
+        description: err?.message || "Failed to store the business GSTIN.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>GST Registration</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          The business GSTIN is printed on tax invoices. Sales to customers in the same state are charged CGST and SGST;
+          sales to other states are charged IGST.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col gap-4 md:flex-row md:items-end">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="business-gstin-input">Business GSTIN</Label>
+            <Input
+              id="business-gstin-input"
+              placeholder="e.g. 27ABCDE1234F1Z5"
+              value={gstin}
+              onChange={(event) => setGstin(event.target.value.toUpperCase().replace(/[^0-9A-Z]/g, "").slice(0, 15))}
+              maxLength={15}
+              disabled={isLoading || saving}
+            />
+            <p className="text-xs text-muted-foreground">
+              {stateName ? `Registered in ${stateName}.` : "15 characters; the first two digits are the state code."}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={() => handleSave(gstin)} disabled={!gstin.trim() || !changed || saving}>
+              {saving ? "Saving…" : "Save"}
+            </Button>
+            <Button variant="outline" onClick={() => handleSave("")} disabled={(!savedGstin && !gstin) || saving}>
+              {saving ? "Please wait…" : "Clear"}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GstSettings;
@@ -0,0 +1,125 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { UsersRound } from "lucide-react";
+import { useCustomers, usePartnerContactSetting, usePartners, useSavePartnerContactSetting, useTransactions } from "@/lib/hooks";
+import { useToast } from "@/hooks/use-toast";
+import { buildPartnerComparison } from "@/lib/analytics-breakdown";
+import { formatPhoneForDisplay } from "@/lib/utils";
+
+const PartnerContactCell = ({ partnerId }: { partnerId: string }) => {
+  const { toast } = useToast();
+  const { data: savedContact } = usePartnerContactSetting(partnerId);
+  const saveContact = useSavePartnerContactSetting(partnerId);
+  const [value, setValue] = useState("");
+
+  useEffect(() => {
+    const display = savedContact ? formatPhoneForDisplay(savedContact) ?? savedContact : "";
+    setValue(display.replace(/[^0-9]/g, ""));
+  }, [savedContact]);
+
+  const handleSave = async () => {
+    try {
+      await saveContact.mutateAsync(value);
+      toast({
+        title: value ? "Partner contact saved" : "Partner contact cleared",
+        description: value
+          ? "Reminders for this partner's customers will use this number."
+          : "Reminders will fall back to the default WhatsApp number.",
+      });
+    } catch (err: any) {
+      toast({ title: "Unable to save", description: err?.message || "Failed to store the contact number.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        className="w-36"
+        placeholder="Default number"
+        value={value}
+        onChange={(e) => setValue(e.target.value.replace(/[^0-9]/g, "").slice(0, 15))}
+        inputMode="numeric"
+        maxLength={15}
+      />
+      <Button size="sm" variant="outline" onClick={handleSave} disabled={saveContact.status === "pending"}>
+        {saveContact.status === "pending" ? "Saving…" : "Save"}
+      </Button>
+    </div>
+  );
+};
+
+const PartnerComparison = () => {
+  const { data: partners, isLoading, isError, error } = usePartners();
+  const { data: transactions } = useTransactions(null);
+  const { data: customers } = useCustomers(null);
+
+  const rows = useMemo(
+    () => buildPartnerComparison(partners, transactions, customers),
+    [partners, transactions, customers],
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <UsersRound className="h-5 w-5" />
+          <CardTitle>Partner Comparison</CardTitle>
+        </div>
+        <CardDescription>Sales, collections and outstanding dues for each field partner's customer book</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div>Loading partners...</div>
+        ) : isError ? (
+          <div className="text-destructive">Error loading partners: {error?.message}</div>
+        ) : rows.length === 0 ? (
+          <div className="text-sm text-muted-foreground">No partner accounts found.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table className="min-w-[860px]">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Partner</TableHead>
+                  <TableHead className="text-right">Customers</TableHead>
+                  <TableHead className="text-right">Sales</TableHead>
+                  <TableHead className="text-right">Total Sales</TableHead>
+                  <TableHead className="text-right">Collections</TableHead>
+                  <TableHead className="text-right">Outstanding</TableHead>
+                  <TableHead className="text-right">Collected</TableHead>
+                  <TableHead>Reminder Number</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.partnerId}>
+                    <TableCell className="font-medium">{row.partnerLabel}</TableCell>
+                    <TableCell className="text-right">{row.customersCount}</TableCell>
+                    <TableCell className="text-right">{row.salesCount}</TableCell>
+                    <TableCell className="text-right">₹{row.totalSales.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">₹{row.totalCollections.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">
+                      <span className={row.outstanding > 0 ? "text-destructive font-semibold" : ""}>
+                        ₹{row.outstanding.toFixed(2)}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {row.collectionRate != null ? `${(row.collectionRate * 100).toFixed(0)}%` : "—"}
+                    </TableCell>
+                    <TableCell>
+                      {row.partnerId !== "__unassigned" ? <PartnerContactCell partnerId={row.partnerId} /> : "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PartnerComparison;
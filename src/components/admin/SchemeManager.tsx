@@ -0,0 +1,326 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useBatches, useCustomers, useSaveScheme, useSchemes } from "@/lib/hooks";
+import { describeScheme, getSchemeMinimum, type SchemeKind } from "@/lib/schemes";
+import type { Scheme } from "@/lib/schemas";
+import { useToast } from "@/hooks/use-toast";
+
+const emptyForm = {
+  name: "",
+  kind: "discount" as SchemeKind,
+  discountPercent: "",
+  buyQuantity: "",
+  freeQuantity: "",
+  teaName: "",
+  customerId: "",
+  minQuantity: "",
+  validFrom: "",
+  validTo: "",
+};
+
+const formatDay = (value: string | null) => (value ? new Date(`${value}T00:00:00`).toLocaleDateString() : "");
+
+const SchemeManager = () => {
+  const { data: schemes, isLoading } = useSchemes();
+  const { data: batches } = useBatches({ activeOnly: true });
+  const { data: customers } = useCustomers(undefined, { activeOnly: true });
+  const saveScheme = useSaveScheme();
+  const { toast } = useToast();
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+
+  const teaNames = useMemo(
+    () => Array.from(new Set((batches || []).map((batch) => batch.name.trim()))).sort((a, b) => a.localeCompare(b)),
+    [batches],
+  );
+
+  const customerName = (customerId: string) => {
+    const customer = (customers || []).find((c) => c.id === customerId);
+    return customer?.full_name || customer?.shop_name || "Customer";
+  };
+
+  const startEdit = (scheme: Scheme) => {
+    setEditingId(scheme.id);
+    setForm({
+      name: scheme.name,
+      kind: scheme.kind as SchemeKind,
+      discountPercent: scheme.discount_percent != null ? String(scheme.discount_percent) : "",
+      buyQuantity: scheme.buy_quantity != null ? String(scheme.buy_quantity) : "",
+      freeQuantity: scheme.free_quantity != null ? String(scheme.free_quantity) : "",
+      teaName: scheme.tea_name || "",
+      customerId: scheme.customer_id || "",
+      minQuantity: Number(scheme.min_quantity) > 0 ? String(scheme.min_quantity) : "",
+      validFrom: scheme.valid_from,
+      validTo: scheme.valid_to || "",
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const handleSave = async () => {
+    const discountPercent = Number(form.discountPercent);
+    const buyQuantity = Number(form.buyQuantity);
+    const freeQuantity = Number(form.freeQuantity);
+    const minQuantity = form.minQuantity.trim() ? Number(form.minQuantity) : 0;
+    if (!form.name.trim()) {
+      toast({ title: "Name required", description: "Give the scheme a name customers will recognise.", variant: "destructive" });
+      return;
+    }
+    if (form.kind === "discount" && !(discountPercent > 0 && discountPercent <= 100)) {
+      toast({ title: "Invalid discount", description: "Enter a discount between 0 and 100%.", variant: "destructive" });
+      return;
+    }
+    if (form.kind === "free_quantity" && !(buyQuantity > 0 && freeQuantity > 0)) {
+      toast({ title: "Invalid offer", description: "Enter the kg to buy and the kg given free.", variant: "destructive" });
+      return;
+    }
+    if (!(minQuantity >= 0)) {
+      toast({ title: "Invalid quantity", description: "Enter a minimum quantity of zero or more.", variant: "destructive" });
+      return;
+    }
+    if (form.validFrom && form.validTo && form.validTo < form.validFrom) {
+      toast({ title: "Invalid dates", description: "The scheme must end on or after its start date.", variant: "destructive" });
+      return;
+    }
+
+    try {
+      await saveScheme.mutateAsync({
+        id: editingId,
+        scheme: {
+          name: form.name.trim(),
+          kind: form.kind,
+          discount_percent: form.kind === "discount" ? discountPercent : null,
+          buy_quantity: form.kind === "free_quantity" ? buyQuantity : null,
+          free_quantity: form.kind === "free_quantity" ? freeQuantity : null,
+          tea_name: form.teaName.trim() || null,
+          customer_id: form.customerId || null,
+          min_quantity: minQuantity,
+          ...(form.validFrom ? { valid_from: form.validFrom } : {}),
+          valid_to: form.validTo || null,
+        },
+      });
+      toast({ title: editingId ? "Scheme updated" : "Scheme added" });
+      cancelEdit();
+    } catch (err: any) {
+      toast({ title: "Error", description: err?.message || "Failed to save scheme", variant: "destructive" });
+    }
+  };
+
+  const handleEnd = async (scheme: Scheme) => {
+    if (!confirm(`End the ${scheme.name} scheme? Sales already made keep it.`)) return;
+    try {
+      await saveScheme.mutateAsync({ id: scheme.id, scheme: { active: false } });
+      if (editingId === scheme.id) cancelEdit();
+      toast({ title: "Scheme ended" });
+    } catch (err: any) {
+      toast({ title: "Error", description: err?.message || "Failed to end scheme", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Schemes</CardTitle>
+        <CardDescription>
+          Discounts and free-quantity offers that New Sale applies to lines that qualify. Leave the tea or customer empty
+          to offer the scheme on every tea or to every customer. Free tea is taken from the same batch and counted as cost
+          in P&amp;L.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="grid gap-2 md:grid-cols-4">
+            <div className="space-y-1">
+              <Label htmlFor="scheme-name">Name</Label>
+              <Input
+                id="scheme-name"
+                placeholder="Diwali 5% off"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="scheme-kind">Offer</Label>
+              <select
+                id="scheme-kind"
+                className="w-full px-3 py-2 border rounded-md"
+                value={form.kind}
+                onChange={(e) => setForm({ ...form, kind: e.target.value as SchemeKind })}
+              >
+                <option value="discount">Discount</option>
+                <option value="free_quantity">Free quantity</option>
+              </select>
+            </div>
+            {form.kind === "discount" ? (
+              <div className="space-y-1 md:col-span-2">
+                <Label htmlFor="scheme-discount">Discount (%)</Label>
+                <Input
+                  id="scheme-discount"
+                  type="number"
+                  step="0.01"
+                  value={form.discountPercent}
+                  onChange={(e) => setForm({ ...form, discountPercent: e.target.value })}
+                />
+              </div>
+            ) : (
+              <>
+                <div className="space-y-1">
+                  <Label htmlFor="scheme-buy">Buy (kg)</Label>
+                  <Input
+                    id="scheme-buy"
+                    type="number"
+                    step="0.01"
+                    value={form.buyQuantity}
+                    onChange={(e) => setForm({ ...form, buyQuantity: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="scheme-free">Get free (kg)</Label>
+                  <Input
+                    id="scheme-free"
+                    type="number"
+                    step="0.01"
+                    value={form.freeQuantity}
+                    onChange={(e) => setForm({ ...form, freeQuantity: e.target.value })}
+                  />
+                </div>
+              </>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="scheme-tea">Tea</Label>
+              <Input
+                id="scheme-tea"
+                list="scheme-tea-names"
+                placeholder="All teas"
+                value={form.teaName}
+                onChange={(e) => setForm({ ...form, teaName: e.target.value })}
+              />
+              <datalist id="scheme-tea-names">
+                {teaNames.map((name) => (
+                  <option key={name} value={name} />
+                ))}
+              </datalist>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="scheme-customer">Customer</Label>
+              <select
+                id="scheme-customer"
+                className="w-full px-3 py-2 border rounded-md"
+                value={form.customerId}
+                onChange={(e) => setForm({ ...form, customerId: e.target.value })}
+              >
+                <option value="">Everyone</option>
+                {(customers || []).map((customer) => (
+                  <option key={customer.id} value={customer.id}>
+                    {customer.full_name || customer.shop_name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="scheme-min-quantity">Minimum line (kg)</Label>
+              <Input
+                id="scheme-min-quantity"
+                type="number"
+                step="0.01"
+                placeholder="0"
+                value={form.minQuantity}
+                onChange={(e) => setForm({ ...form, minQuantity: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="scheme-valid-from">Valid from</Label>
+              <Input
+                id="scheme-valid-from"
+                type="date"
+                value={form.validFrom}
+                onChange={(e) => setForm({ ...form, validFrom: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="scheme-valid-to">Valid to</Label>
+              <Input
+                id="scheme-valid-to"
+                type="date"
+                value={form.validTo}
+                onChange={(e) => setForm({ ...form, validTo: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={saveScheme.status === "pending"}>
+              {editingId ? "Save" : "Add Scheme"}
+            </Button>
+            {editingId && <Button variant="outline" onClick={cancelEdit}>Cancel</Button>}
+          </div>
+
+          {isLoading ? (
+            <div>Loading...</div>
+          ) : (schemes || []).length === 0 ? (
+            <p className="text-sm text-muted-foreground">No schemes yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table className="min-w-[720px]">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Scheme</TableHead>
+                    <TableHead>Offer</TableHead>
+                    <TableHead>Applies to</TableHead>
+                    <TableHead>Valid</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(schemes || []).map((scheme) => {
+                    const minimum = getSchemeMinimum(scheme);
+                    return (
+                      <TableRow key={scheme.id}>
+                        <TableCell className="font-medium">{scheme.name}</TableCell>
+                        <TableCell>
+                          {describeScheme(scheme)}
+                          {minimum > 0 && <div className="text-xs text-muted-foreground">On lines of {minimum} kg+</div>}
+                        </TableCell>
+                        <TableCell>
+                          {scheme.tea_name || "All teas"}
+                          <div className="text-xs text-muted-foreground">
+                            {scheme.customer_id ? customerName(scheme.customer_id) : "Everyone"}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {formatDay(scheme.valid_from)} – {scheme.valid_to ? formatDay(scheme.valid_to) : "no end"}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={scheme.active ? "default" : "secondary"}>{scheme.active ? "Active" : "Ended"}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {scheme.active && (
+                            <div className="flex justify-end gap-2">
+                              <Button size="sm" variant="ghost" onClick={() => startEdit(scheme)}>Edit</Button>
+                              <Button size="sm" variant="destructive" onClick={() => handleEnd(scheme)}>End</Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SchemeManager;
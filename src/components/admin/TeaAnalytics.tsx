@@ -2,15 +2,16 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { useQuery } from "@tanstack/react-query";
 import supabase from "@/lib/supabase";
 import { useMemo } from "react";
+import { parseRows, teaAnalyticsSchema, type TeaAnalyticsRow } from "@/lib/schemas";
 
 const fetchTeaAnalytics = async () => {
   const { data, error } = await supabase.from("tea_analytics").select("*");
   if (error) throw error;
-  return data as any[];
+  return parseRows(teaAnalyticsSchema, data, "tea analytics");
 };
 
 const TeaAnalytics = () => {
-  const { data, isLoading } = useQuery<any[]>({ queryKey: ["tea_analytics"], queryFn: fetchTeaAnalytics });
+  const { data, isLoading } = useQuery<TeaAnalyticsRow[]>({ queryKey: ["tea_analytics"], queryFn: fetchTeaAnalytics });
 
   const rows = data || [];
   const summary = useMemo(() => {
@@ -0,0 +1,293 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ShieldCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  useAppUsers,
+  useCreateAppUser,
+  useDeleteAppUser,
+  useResetAppUserPassword,
+  useSetAppUserDisabled,
+  type AppUserAccount,
+} from "@/lib/hooks";
+import { getStoredUser } from "@/lib/utils";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const UserManagement = () => {
+  const { toast } = useToast();
+  const { data: users, isLoading, isError, error } = useAppUsers();
+  const createUser = useCreateAppUser();
+  const setDisabled = useSetAppUserDisabled();
+  const deleteUser = useDeleteAppUser();
+  const resetPassword = useResetAppUserPassword();
+  const currentUserId = getStoredUser()?.id;
+
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<"admin" | "partner">("partner");
+  const [resetTarget, setResetTarget] = useState<AppUserAccount | null>(null);
+  const [resetValue, setResetValue] = useState("");
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) {
+      toast({ title: "Email required", description: "Enter the login email for the new account.", variant: "destructive" });
+      return;
+    }
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      toast({ title: "Password too short", description: `Use at least ${MIN_PASSWORD_LENGTH} characters.`, variant: "destructive" });
+      return;
+    }
+
+    try {
+      await createUser.mutateAsync({ email: email.trim(), password, role });
+      toast({
+        title: "Account created",
+        description: `${email.trim()} will be asked to choose a new password on first login.`,
+      });
+      setEmail("");
+      setPassword("");
+      setRole("partner");
+    } catch (err: any) {
+      toast({ title: "Unable to create account", description: err?.message || "Please try again.", variant: "destructive" });
+    }
+  };
+
+  const handleToggleDisabled = async (user: AppUserAccount) => {
+    const disable = !user.disabled_at;
+    try {
+      await setDisabled.mutateAsync({ id: user.id, disabled: disable });
+      toast({
+        title: disable ? "Account disabled" : "Account enabled",
+        description: disable ? `${user.email} has been signed out and can no longer log in.` : `${user.email} can log in again.`,
+      });
+    } catch (err: any) {
+      toast({ title: "Unable to update account", description: err?.message || "Please try again.", variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async (user: AppUserAccount) => {
+    const message =
+      user.role === "partner"
+        ? `Delete ${user.email}? Their customers and transactions are kept but become unassigned. This cannot be undone.`
+        : `Delete ${user.email}? This cannot be undone.`;
+    if (!window.confirm(message)) return;
+
+    try {
+      await deleteUser.mutateAsync({ id: user.id });
+      toast({ title: "Account deleted", description: `${user.email} has been removed.` });
+    } catch (err: any) {
+      toast({ title: "Unable to delete account", description: err?.message || "Please try again.", variant: "destructive" });
+    }
+  };
+
+  const handleResetPassword = async () => {
+    if (!resetTarget) return;
+    if (resetValue.length < MIN_PASSWORD_LENGTH) {
+      toast({ title: "Password too short", description: `Use at least ${MIN_PASSWORD_LENGTH} characters.`, variant: "destructive" });
+      return;
+    }
+
+    try {
+      await resetPassword.mutateAsync({ id: resetTarget.id, password: resetValue });
+      toast({
+        title: "Password reset",
+        description: `${resetTarget.email} must choose a new password at their next login.`,
+      });
+      setResetTarget(null);
+      setResetValue("");
+    } catch (err: any) {
+      toast({ title: "Unable to reset password", description: err?.message || "Please try again.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            <CardTitle>Create Account</CardTitle>
+          </div>
+          <CardDescription>New accounts start with a temporary password that must be changed on first login</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreate} className="grid gap-4 md:grid-cols-4 md:items-end">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="new-user-email">Email</Label>
+              <Input
+                id="new-user-email"
+                type="email"
+                placeholder="name@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-user-password">Temporary Password</Label>
+              <Input
+                id="new-user-password"
+                type="password"
+                placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={role} onValueChange={(value) => setRole(value as "admin" | "partner")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="partner">Partner</SelectItem>
+                  <SelectItem value="admin">Admin</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="md:col-span-4">
+              <Button type="submit" disabled={createUser.status === "pending"}>
+                {createUser.status === "pending" ? "Creating…" : "Create Account"}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Accounts</CardTitle>
+          <CardDescription>Disable, delete or reset the password of admin and partner logins</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div>Loading accounts...</div>
+          ) : isError ? (
+            <div className="text-destructive">Error loading accounts: {error?.message}</div>
+          ) : !users || users.length === 0 ? (
+            <div className="text-sm text-muted-foreground">No accounts found.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table className="min-w-[760px]">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Created</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {users.map((user) => {
+                    const isSelf = user.id === currentUserId;
+                    return (
+                      <TableRow key={user.id}>
+                        <TableCell className="font-medium">
+                          {user.email}
+                          {isSelf && <span className="ml-2 text-xs text-muted-foreground">(you)</span>}
+                        </TableCell>
+                        <TableCell className="capitalize">{user.role}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {user.disabled_at ? (
+                              <Badge variant="destructive">Disabled</Badge>
+                            ) : (
+                              <Badge variant="secondary">Active</Badge>
+                            )}
+                            {user.must_change_password && <Badge variant="outline">Password change pending</Badge>}
+                          </div>
+                        </TableCell>
+                        <TableCell>{user.created_at ? new Date(user.created_at).toLocaleDateString() : "—"}</TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => {
+                                setResetTarget(user);
+                                setResetValue("");
+                              }}
+                            >
+                              Reset Password
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={isSelf || setDisabled.status === "pending"}
+                              onClick={() => handleToggleDisabled(user)}
+                            >
+                              {user.disabled_at ? "Enable" : "Disable"}
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="destructive"
+                              disabled={isSelf || deleteUser.status === "pending"}
+                              onClick={() => handleDelete(user)}
+                            >
+                              Delete
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog
+        open={resetTarget !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setResetTarget(null);
+            setResetValue("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reset Password</DialogTitle>
+            <DialogDescription>
+              Set a temporary password for {resetTarget?.email}. They will be signed out and asked to choose a new password
+              at their next login.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reset-password">Temporary Password</Label>
+            <Input
+              id="reset-password"
+              type="password"
+              placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+              value={resetValue}
+              onChange={(e) => setResetValue(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResetTarget(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleResetPassword} disabled={resetPassword.status === "pending"}>
+              {resetPassword.status === "pending" ? "Resetting…" : "Reset Password"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default UserManagement;
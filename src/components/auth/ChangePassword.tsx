@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { KeyRound } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useChangeOwnPassword } from "@/lib/hooks";
+import { signOut } from "@/lib/auth";
+
+interface ChangePasswordProps {
+  email?: string | null;
+  loginPath: string;
+}
+
+// Shown instead of the dashboard until an account created or reset by an admin picks its own password
+const ChangePassword = ({ email, loginPath }: ChangePasswordProps) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const changePassword = useChangeOwnPassword();
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword.length < 8) {
+      toast({ title: "Password too short", description: "Use at least 8 characters.", variant: "destructive" });
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      toast({ title: "Passwords do not match", description: "Re-enter the new password.", variant: "destructive" });
+      return;
+    }
+
+    try {
+      await changePassword.mutateAsync({ currentPassword, newPassword });
+      toast({ title: "Password updated", description: "Your new password is active." });
+    } catch (err: any) {
+      toast({ title: "Unable to change password", description: err?.message || "Please try again.", variant: "destructive" });
+    }
+  };
+
+  const handleSignOut = async () => {
+    await signOut();
+    navigate(loginPath, { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-2 text-center">
+          <div className="mx-auto w-16 h-16 bg-primary rounded-full flex items-center justify-center mb-2">
+            <KeyRound className="h-8 w-8 text-primary-foreground" />
+          </div>
+          <CardTitle className="text-2xl">Choose a New Password</CardTitle>
+          <CardDescription>
+            {email ? `${email} is using a temporary password.` : "Your account is using a temporary password."} Set your
+            own password to continue.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="current-password">Current Password</Label>
+              <Input
+                id="current-password"
+                type="password"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-password">New Password</Label>
+              <Input
+                id="new-password"
+                type="password"
+                placeholder="At least 8 characters"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirm-password">Confirm New Password</Label>
+              <Input
+                id="confirm-password"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={changePassword.status === "pending"}>
+              {changePassword.status === "pending" ? "Saving…" : "Update Password"}
+            </Button>
+            <Button type="button" variant="ghost" className="w-full" onClick={handleSignOut}>
+              Sign out
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ChangePassword;
@@ -1,6 +1,9 @@
 import { ReactNode, useEffect, useState } from "react";
 import { Navigate, useLocation } from "react-router-dom";
-import { getStoredUser, SessionUser } from "@/lib/utils";
+import { useVerifiedSession } from "@/lib/hooks";
+import { getStoredUser } from "@/lib/utils";
+import { isNetworkError } from "@/lib/outbox";
+import ChangePassword from "./ChangePassword";
 
 type Role = "admin" | "partner";
 
@@ -11,35 +14,40 @@ interface RequireRoleProps {
 
 const RequireRole = ({ role, children }: RequireRoleProps) => {
   const location = useLocation();
-  const [session, setSession] = useState<SessionUser | null>(() => {
-    const stored = getStoredUser();
-    if (!stored) return null;
-    const normalizedRole = typeof stored.role === "string" ? stored.role.toLowerCase() : stored.role;
-    return { ...stored, role: normalizedRole };
-  });
+  const [token, setToken] = useState<string | null>(() => getStoredUser()?.token ?? null);
 
   useEffect(() => {
-    const syncSession = () => {
-      const stored = getStoredUser();
-      if (!stored) {
-        setSession(null);
-        return;
-      }
-      const normalizedRole = typeof stored.role === "string" ? stored.role.toLowerCase() : stored.role;
-      setSession({ ...stored, role: normalizedRole });
+    const syncToken = () => {
+      setToken(getStoredUser()?.token ?? null);
     };
 
     // Update on storage events (other tabs) and navigation changes
-    window.addEventListener("storage", syncSession);
+    window.addEventListener("storage", syncToken);
     // Always resync on mount in case of late writes
-    syncSession();
+    syncToken();
 
     return () => {
-      window.removeEventListener("storage", syncSession);
+      window.removeEventListener("storage", syncToken);
     };
   }, []);
 
-  if (!session) {
+  // The role always comes from the server; the stored copy is only used to find the token
+  const { data: session, isLoading, isError, error } = useVerifiedSession(token);
+
+  if (!token) {
+    return <Navigate to={`/${role}/login`} replace state={{ from: location }} />;
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-[50vh] items-center justify-center text-sm text-muted-foreground">
+        Checking your session…
+      </div>
+    );
+  }
+
+  // Offline, the last verified session restored from the device cache is kept until the server can be asked again
+  if (!session || (isError && !isNetworkError(error))) {
     return <Navigate to={`/${role}/login`} replace state={{ from: location }} />;
   }
 
@@ -48,6 +56,10 @@ const RequireRole = ({ role, children }: RequireRoleProps) => {
     return <Navigate to={fallback} replace />;
   }
 
+  if (session.mustChangePassword) {
+    return <ChangePassword email={session.email} loginPath={`/${role}/login`} />;
+  }
+
   return <>{children}</>;
 };
 
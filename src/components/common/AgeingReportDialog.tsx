@@ -0,0 +1,118 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AGEING_BUCKETS, type AgeingInvoice, type AgeingReport } from "@/lib/analytics-breakdown";
+import { formatPhoneForDisplay, formatReadableDate } from "@/lib/utils";
+
+interface AgeingReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  report: AgeingReport;
+}
+
+const formatAmount = (value: number) => (value > 0 ? `₹${value.toFixed(2)}` : "—");
+
+const describeAge = (invoice: AgeingInvoice) => {
+  if (invoice.daysPastDue < 0) return `due in ${-invoice.daysPastDue} days`;
+  if (invoice.daysPastDue === 0) return invoice.dueDate ? "due today" : "sold today";
+  return `${invoice.daysPastDue} days ${invoice.dueDate ? "overdue" : "since sale"}`;
+};
+
+const AgeingReportDialog = ({ open, onOpenChange, report }: AgeingReportDialogProps) => {
+  const { details, summary } = report;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl sm:max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Receivables Ageing</DialogTitle>
+          <DialogDescription>
+            Open invoice balances by days past their due date, or past the sale date when no due date was set.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid gap-4 text-sm grid-cols-2 sm:grid-cols-5">
+            {AGEING_BUCKETS.map((bucket) => (
+              <div key={bucket.key}>
+                <p className="text-muted-foreground">{bucket.label}</p>
+                <p className={`font-semibold ${bucket.key === "over90" && summary.buckets.over90 > 0 ? "text-destructive" : ""}`}>
+                  ₹{summary.buckets[bucket.key].toFixed(2)}
+                </p>
+              </div>
+            ))}
+            <div>
+              <p className="text-muted-foreground">Total receivable</p>
+              <p className="font-semibold">₹{summary.total.toFixed(2)}</p>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {summary.invoiceCount} open invoices across {summary.customersCount} customers. Invoices that are not yet due are
+            counted under 0–30 days.
+          </p>
+
+          {details.length > 0 ? (
+            <ScrollArea className="h-[60vh] pr-2">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Customer</TableHead>
+                    {AGEING_BUCKETS.map((bucket) => (
+                      <TableHead key={bucket.key} className="text-right">
+                        {bucket.label}
+                      </TableHead>
+                    ))}
+                    <TableHead className="text-right">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {details.map((entry) => (
+                    <TableRow key={entry.customerId}>
+                      <TableCell className="align-top">
+                        <div className="space-y-1">
+                          <p className="font-medium leading-tight">{entry.customerName}</p>
+                          {entry.phone && (
+                            <p className="text-xs text-muted-foreground">WhatsApp: {formatPhoneForDisplay(entry.phone) || entry.phone}</p>
+                          )}
+                          {entry.invoices.map((invoice) => (
+                            <p key={invoice.id} className="text-xs text-muted-foreground">
+                              {invoice.teaName || "Tea sale"} ({formatReadableDate(invoice.createdAt)}): ₹{invoice.balance.toFixed(2)},{" "}
+                              {describeAge(invoice)}
+                            </p>
+                          ))}
+                        </div>
+                      </TableCell>
+                      {AGEING_BUCKETS.map((bucket) => (
+                        <TableCell
+                          key={bucket.key}
+                          className={`text-right align-top ${bucket.key === "over90" && entry.buckets.over90 > 0 ? "font-semibold text-destructive" : ""}`}
+                        >
+                          {formatAmount(entry.buckets[bucket.key])}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right align-top font-semibold">₹{entry.total.toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell>Total</TableCell>
+                    {AGEING_BUCKETS.map((bucket) => (
+                      <TableCell key={bucket.key} className="text-right">
+                        {formatAmount(summary.buckets[bucket.key])}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right">₹{summary.total.toFixed(2)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </ScrollArea>
+          ) : (
+            <p className="text-sm text-muted-foreground">No open invoices right now.</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AgeingReportDialog;
@@ -0,0 +1,34 @@
+import { Badge } from "@/components/ui/badge";
+import type { CreditStatus } from "@/lib/credit";
+
+interface CreditHoldBadgeProps {
+  status: CreditStatus | null | undefined;
+  // An admin override is waiting for this customer's next sale
+  overridden?: boolean;
+}
+
+const describeHold = (status: CreditStatus) =>
+  [
+    status.overLimit ? `Owes ₹${status.outstanding.toFixed(2)} of a ₹${status.creditLimit?.toFixed(2)} limit` : null,
+    status.overdue ? `Invoice ${status.oldestOverdueDays} days overdue (allowed ${status.maxOverdueDays})` : null,
+  ]
+    .filter(Boolean)
+    .join("; ");
+
+const CreditHoldBadge = ({ status, overridden = false }: CreditHoldBadgeProps) => {
+  if (!status?.onHold) return null;
+  if (overridden) {
+    return (
+      <Badge variant="secondary" title={`${describeHold(status)}. An admin override allows the next sale.`}>
+        Override granted
+      </Badge>
+    );
+  }
+  return (
+    <Badge variant="destructive" title={describeHold(status)}>
+      Credit hold
+    </Badge>
+  );
+};
+
+export default CreditHoldBadge;
@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { FileText, Loader2, MessageCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { formatInvoiceNumber } from "@/lib/document-numbers";
+import { downloadInvoicePdf, fetchInvoice, shareInvoiceOnWhatsApp } from "@/lib/invoice";
+
+interface InvoiceActionsProps {
+  orderId?: string | null;
+  // Compact mode renders icon-sized buttons for table rows and always attaches the PDF link
+  compact?: boolean;
+}
+
+const InvoiceActions = ({ orderId, compact = false }: InvoiceActionsProps) => {
+  const { toast } = useToast();
+  const [busy, setBusy] = useState<"download" | "share" | null>(null);
+  const [attachLink, setAttachLink] = useState(true);
+
+  if (!orderId) return null;
+
+  const handleDownload = async () => {
+    setBusy("download");
+    try {
+      const invoice = await fetchInvoice(orderId);
+      await downloadInvoicePdf(invoice);
+      toast({ title: "Invoice downloaded", description: `Saved invoice ${formatInvoiceNumber(invoice.invoiceNumber)}.` });
+    } catch (err: any) {
+      toast({ title: "Invoice failed", description: err?.message || "Unable to build the invoice.", variant: "destructive" });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleShare = async () => {
+    setBusy("share");
+    try {
+      const invoice = await fetchInvoice(orderId);
+      const result = await shareInvoiceOnWhatsApp(invoice, { attachLink: compact || attachLink });
+      if (!result.ok) {
+        toast({
+          title: "Invoice not sent",
+          description:
+            result.reason === "missing-recipient"
+              ? "Add a WhatsApp number to this customer before sharing invoices."
+              : "WhatsApp could not be opened. Please try again.",
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({ title: "Invoice shared", description: `Opened WhatsApp with invoice ${formatInvoiceNumber(invoice.invoiceNumber)}.` });
+    } catch (err: any) {
+      toast({ title: "Invoice not sent", description: err?.message || "Unable to share the invoice.", variant: "destructive" });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (compact) {
+    return (
+      <div className="flex justify-end gap-1">
+        <Button size="sm" variant="ghost" onClick={handleDownload} disabled={busy !== null} title="Download invoice">
+          {busy === "download" ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileText className="h-4 w-4" />}
+        </Button>
+        <Button size="sm" variant="ghost" onClick={handleShare} disabled={busy !== null} title="Send invoice on WhatsApp">
+          {busy === "share" ? <Loader2 className="h-4 w-4 animate-spin" /> : <MessageCircle className="h-4 w-4" />}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" variant="outline" onClick={handleDownload} disabled={busy !== null}>
+          {busy === "download" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileText className="mr-2 h-4 w-4" />}
+          Download Invoice
+        </Button>
+        <Button type="button" variant="outline" onClick={handleShare} disabled={busy !== null}>
+          {busy === "share" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <MessageCircle className="mr-2 h-4 w-4" />}
+          Send on WhatsApp
+        </Button>
+      </div>
+      <div className="flex items-center space-x-2">
+        <Checkbox id={`attach-invoice-${orderId}`} checked={attachLink} onCheckedChange={(value) => setAttachLink(value === true)} />
+        <Label htmlFor={`attach-invoice-${orderId}`} className="font-normal cursor-pointer">
+          Attach a link to the invoice PDF in the WhatsApp message
+        </Label>
+      </div>
+    </div>
+  );
+};
+
+export default InvoiceActions;
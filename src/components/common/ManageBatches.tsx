@@ -1,16 +1,18 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { useBatches, useCreateBatch, useUpdateBatch, useDeleteBatch } from "@/lib/hooks";
+import { useBatches, useCreateBatch, useUpdateBatch, useArchiveBatch, usePurchases } from "@/lib/hooks";
+import { DEFAULT_GST_RATE, DEFAULT_HSN_CODE, GST_RATES } from "@/lib/gst";
 import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
 
 const ManageBatches = ({ onBack }: { onBack?: () => void }) => {
-  const { data: batches, isLoading } = useBatches();
+  const { data: batches, isLoading } = useBatches({ activeOnly: true });
   const create = useCreateBatch();
   const update = useUpdateBatch();
-  const del = useDeleteBatch();
+  const archive = useArchiveBatch();
+  const { data: purchases } = usePurchases();
   const { toast } = useToast();
   const navigate = useNavigate();
 
@@ -18,39 +20,79 @@ const ManageBatches = ({ onBack }: { onBack?: () => void }) => {
   const [name, setName] = useState("");
   const [qty, setQty] = useState("");
   const [rate, setRate] = useState("");
+  const [sellingRate, setSellingRate] = useState("");
+  const [hsnCode, setHsnCode] = useState(DEFAULT_HSN_CODE);
+  const [gstRate, setGstRate] = useState(String(DEFAULT_GST_RATE));
+
+  // Batches bought through a purchase are costed at its landed rate; change the purchase instead
+  const purchasedBatchIds = useMemo(
+    () => new Set((purchases || []).map((purchase) => purchase.batch_id).filter(Boolean)),
+    [purchases],
+  );
+  const editingPurchased = editingId !== null && purchasedBatchIds.has(editingId);
 
   const startEdit = (b: any) => {
     setEditingId(b.id);
     setName(b.name);
     setQty(String(b.total_quantity || b.remaining_quantity || ""));
     setRate(String(b.purchase_rate || ""));
+    setSellingRate(b.selling_rate === null || b.selling_rate === undefined ? "" : String(b.selling_rate));
+    setHsnCode(b.hsn_code || DEFAULT_HSN_CODE);
+    setGstRate(String(b.gst_rate ?? 0));
+  };
+
+  const resetForm = () => {
+    setName(""); setQty(""); setRate(""); setSellingRate(""); setHsnCode(DEFAULT_HSN_CODE); setGstRate(String(DEFAULT_GST_RATE));
   };
 
-  const cancelEdit = () => { setEditingId(null); setName(""); setQty(""); setRate(""); };
+  const cancelEdit = () => { setEditingId(null); resetForm(); };
 
   const handleSave = async () => {
+    // Blank selling rate leaves the batch priced by the price list only
+    const selling_rate = sellingRate.trim() ? Number(sellingRate) : null;
+    if (selling_rate !== null && !(selling_rate >= 0)) {
+      toast({ title: "Invalid selling rate", description: "Enter a selling rate of zero or more, or leave it blank.", variant: "destructive" });
+      return;
+    }
+    if (!/^[0-9]{4,8}$/.test(hsnCode.trim())) {
+      toast({ title: "Invalid HSN code", description: "Enter the 4 to 8 digit HSN code of the tea.", variant: "destructive" });
+      return;
+    }
+    const hsn_code = hsnCode.trim();
+    const gst_rate = Number(gstRate);
     try {
       if (editingId) {
-        await update.mutateAsync({ id: editingId, changes: { name, total_quantity: Number(qty), remaining_quantity: Number(qty), purchase_rate: Number(rate) } });
+        await update.mutateAsync({
+          id: editingId,
+          changes: {
+            name,
+            total_quantity: Number(qty),
+            remaining_quantity: Number(qty),
+            ...(editingPurchased ? {} : { purchase_rate: Number(rate) }),
+            selling_rate,
+            hsn_code,
+            gst_rate,
+          },
+        });
         toast({ title: "Batch updated" });
         cancelEdit();
         return;
       }
-      await create.mutateAsync({ name, total_quantity: Number(qty), purchase_rate: Number(rate) });
+      await create.mutateAsync({ name, total_quantity: Number(qty), purchase_rate: Number(rate), selling_rate, hsn_code, gst_rate });
       toast({ title: "Batch created" });
-      setName(""); setQty(""); setRate("");
+      resetForm();
     } catch (err: any) {
       toast({ title: "Error", description: err?.message || "Failed" });
     }
   };
 
-  const handleDelete = async (id: string) => {
-    if (!confirm('Delete batch? This will orphan related transactions.')) return;
+  const handleArchive = async (id: string) => {
+    if (!confirm('Archive batch? It will be hidden from new sales but kept in reports and P&L.')) return;
     try {
-      await del.mutateAsync(id);
-      toast({ title: 'Deleted' });
+      await archive.mutateAsync(id);
+      toast({ title: 'Archived' });
     } catch (err: any) {
-      toast({ title: 'Error', description: err?.message || 'Failed to delete' });
+      toast({ title: 'Error', description: err?.message || 'Failed to archive' });
     }
   };
 
@@ -73,10 +115,28 @@ const ManageBatches = ({ onBack }: { onBack?: () => void }) => {
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
-          <div className="grid grid-cols-3 gap-2">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
             <Input placeholder="Tea name" value={name} onChange={(e) => setName(e.target.value)} />
             <Input placeholder="Quantity" value={qty} onChange={(e) => setQty(e.target.value)} />
-            <Input placeholder="Purchase rate" value={rate} onChange={(e) => setRate(e.target.value)} />
+            <Input
+              placeholder="Purchase rate"
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+              disabled={editingPurchased}
+              title={editingPurchased ? "Landed cost from the supplier purchase" : undefined}
+            />
+            <Input placeholder="Selling rate (optional)" value={sellingRate} onChange={(e) => setSellingRate(e.target.value)} />
+            <Input placeholder="HSN code" value={hsnCode} onChange={(e) => setHsnCode(e.target.value.replace(/[^0-9]/g, ""))} maxLength={8} />
+            <select
+              aria-label="GST rate"
+              className="w-full px-3 py-2 border rounded-md"
+              value={gstRate}
+              onChange={(e) => setGstRate(e.target.value)}
+            >
+              {GST_RATES.map((option) => (
+                <option key={option} value={option}>GST {option}%</option>
+              ))}
+            </select>
           </div>
           <div className="flex gap-2">
             <Button onClick={handleSave}>{editingId ? 'Save' : 'Create'}</Button>
@@ -88,11 +148,15 @@ const ManageBatches = ({ onBack }: { onBack?: () => void }) => {
               <div key={b.id} className="flex items-center justify-between border rounded-md p-2">
                 <div>
                   <div className="font-medium">{b.name}</div>
-                  <div className="text-xs text-muted-foreground">Remaining: {b.remaining_quantity} kg • Rate: ₹{Number(b.purchase_rate).toFixed(2)}</div>
+                  <div className="text-xs text-muted-foreground">Remaining: {b.remaining_quantity} kg • Rate: ₹{Number(b.purchase_rate).toFixed(2)}
+                    {purchasedBatchIds.has(b.id) && " (landed)"}
+                    {b.selling_rate !== null && b.selling_rate !== undefined && ` • Sells at ₹${Number(b.selling_rate).toFixed(2)}`}
+                    {` • HSN ${b.hsn_code || "—"} @ ${Number(b.gst_rate ?? 0)}% GST`}
+                  </div>
                 </div>
                 <div className="flex gap-2">
                   <Button variant="ghost" onClick={() => startEdit(b)}>Edit</Button>
-                  <Button variant="destructive" onClick={() => handleDelete(b.id)}>Delete</Button>
+                  <Button variant="destructive" onClick={() => handleArchive(b.id)}>Archive</Button>
                 </div>
               </div>
             ))}
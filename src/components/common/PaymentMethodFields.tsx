@@ -0,0 +1,80 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getPaymentMethodOption, PAYMENT_METHODS, type PaymentDetails, type PaymentMethod } from "@/lib/payment-methods";
+
+interface PaymentMethodFieldsProps {
+  idPrefix: string;
+  value: PaymentDetails;
+  onChange: (value: PaymentDetails) => void;
+}
+
+const PaymentMethodFields = ({ idPrefix, value, onChange }: PaymentMethodFieldsProps) => {
+  const option = getPaymentMethodOption(value.method);
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-method`}>Payment Method *</Label>
+        <Select
+          value={value.method}
+          onValueChange={(method) => onChange({ ...value, method: method as PaymentMethod, reference: "", chequeBank: "", chequeDate: "" })}
+        >
+          <SelectTrigger id={`${idPrefix}-method`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PAYMENT_METHODS.map((item) => (
+              <SelectItem key={item.value} value={item.value}>
+                {item.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {option?.referenceLabel && (
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-reference`}>
+            {option.referenceLabel}
+            {option.referenceRequired ? " *" : ""}
+          </Label>
+          <Input
+            id={`${idPrefix}-reference`}
+            value={value.reference}
+            onChange={(e) => onChange({ ...value, reference: e.target.value })}
+            placeholder={option.referenceRequired ? `Enter ${option.referenceLabel.toLowerCase()}` : "Optional"}
+            maxLength={64}
+          />
+        </div>
+      )}
+
+      {value.method === "cheque" && (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-cheque-bank`}>Bank</Label>
+            <Input
+              id={`${idPrefix}-cheque-bank`}
+              value={value.chequeBank}
+              onChange={(e) => onChange({ ...value, chequeBank: e.target.value })}
+              placeholder="Issuing bank"
+              maxLength={64}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-cheque-date`}>Cheque Date *</Label>
+            <Input
+              id={`${idPrefix}-cheque-date`}
+              type="date"
+              value={value.chequeDate}
+              onChange={(e) => onChange({ ...value, chequeDate: e.target.value })}
+            />
+            <p className="text-xs text-muted-foreground">Post-dated cheques are tracked in the cheque register.</p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PaymentMethodFields;
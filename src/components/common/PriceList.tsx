@@ -0,0 +1,243 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useBatches, useCustomers, useDeletePriceRule, usePriceRules, useSavePriceRule } from "@/lib/hooks";
+import { normaliseTeaName, sortPriceRules } from "@/lib/pricing";
+import type { PriceRule } from "@/lib/schemas";
+import { useToast } from "@/hooks/use-toast";
+import { useNavigate } from "react-router-dom";
+
+const emptyForm = { teaName: "", customerId: "", minQuantity: "", rate: "" };
+
+const PriceList = ({ onBack }: { onBack?: () => void }) => {
+  const { data: rules, isLoading } = usePriceRules();
+  const { data: batches } = useBatches({ activeOnly: true });
+  const { data: customers } = useCustomers(undefined, { activeOnly: true });
+  const saveRule = useSavePriceRule();
+  const deleteRule = useDeletePriceRule();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+
+  const teaNames = useMemo(
+    () => Array.from(new Set((batches || []).map((batch) => batch.name.trim()))).sort((a, b) => a.localeCompare(b)),
+    [batches],
+  );
+
+  // Highest purchase rate among the tea's batches in stock, to flag rates that sell at a loss
+  const costByTea = useMemo(() => {
+    const costs = new Map<string, number>();
+    (batches || []).forEach((batch) => {
+      const tea = normaliseTeaName(batch.name);
+      costs.set(tea, Math.max(costs.get(tea) ?? 0, Number(batch.purchase_rate || 0)));
+    });
+    return costs;
+  }, [batches]);
+
+  const customerName = (customerId: string) => {
+    const customer = (customers || []).find((c) => c.id === customerId);
+    return customer?.full_name || customer?.shop_name || "Customer";
+  };
+
+  const startEdit = (rule: PriceRule) => {
+    setEditingId(rule.id);
+    setForm({
+      teaName: rule.tea_name,
+      customerId: rule.customer_id || "",
+      minQuantity: Number(rule.min_quantity) > 0 ? String(rule.min_quantity) : "",
+      rate: String(rule.rate),
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const handleSave = async () => {
+    const rate = Number(form.rate);
+    const minQuantity = form.minQuantity.trim() ? Number(form.minQuantity) : 0;
+    if (!form.teaName.trim()) {
+      toast({ title: "Tea required", description: "Choose the tea this rate is for.", variant: "destructive" });
+      return;
+    }
+    if (!form.rate.trim() || !(rate >= 0)) {
+      toast({ title: "Invalid rate", description: "Enter a rate per kg of zero or more.", variant: "destructive" });
+      return;
+    }
+    if (!(minQuantity >= 0)) {
+      toast({ title: "Invalid quantity", description: "Enter a minimum quantity of zero or more.", variant: "destructive" });
+      return;
+    }
+
+    try {
+      await saveRule.mutateAsync({
+        id: editingId,
+        rule: { tea_name: form.teaName.trim(), customer_id: form.customerId || null, min_quantity: minQuantity, rate },
+      });
+      toast({ title: editingId ? "Price updated" : "Price added" });
+      cancelEdit();
+    } catch (err: any) {
+      const duplicate = String(err?.message || "").includes("price_rules_unique_idx");
+      toast({
+        title: "Error",
+        description: duplicate
+          ? "There is already a rate for this tea, customer and quantity. Edit that one instead."
+          : err?.message || "Failed to save price",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (rule: PriceRule) => {
+    if (!confirm(`Delete the ${rule.tea_name} rate of ₹${Number(rule.rate).toFixed(2)}/kg?`)) return;
+    try {
+      await deleteRule.mutateAsync(rule.id);
+      if (editingId === rule.id) cancelEdit();
+      toast({ title: "Price deleted" });
+    } catch (err: any) {
+      toast({ title: "Error", description: err?.message || "Failed to delete price", variant: "destructive" });
+    }
+  };
+
+  const handleBack = () => {
+    if (onBack) onBack();
+    else navigate(-1);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Price List</CardTitle>
+          {onBack && (
+            <Button variant="ghost" onClick={handleBack}>Back</Button>
+          )}
+        </div>
+        <CardDescription>
+          Selling rates per tea that New Sale fills in. A customer rate wins over the general rate, and a minimum quantity
+          turns a rate into a quantity break. Teas without a rate here use the batch selling rate.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="grid gap-2 md:grid-cols-4">
+            <div className="space-y-1">
+              <Label htmlFor="price-tea">Tea</Label>
+              <Input
+                id="price-tea"
+                list="price-tea-names"
+                placeholder="Tea name"
+                value={form.teaName}
+                onChange={(e) => setForm({ ...form, teaName: e.target.value })}
+              />
+              <datalist id="price-tea-names">
+                {teaNames.map((name) => (
+                  <option key={name} value={name} />
+                ))}
+              </datalist>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="price-customer">Customer</Label>
+              <select
+                id="price-customer"
+                className="w-full px-3 py-2 border rounded-md"
+                value={form.customerId}
+                onChange={(e) => setForm({ ...form, customerId: e.target.value })}
+              >
+                <option value="">Everyone</option>
+                {(customers || []).map((customer) => (
+                  <option key={customer.id} value={customer.id}>
+                    {customer.full_name || customer.shop_name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="price-min-quantity">From quantity (kg)</Label>
+              <Input
+                id="price-min-quantity"
+                type="number"
+                step="0.01"
+                placeholder="0"
+                value={form.minQuantity}
+                onChange={(e) => setForm({ ...form, minQuantity: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="price-rate">Rate (₹/kg)</Label>
+              <Input
+                id="price-rate"
+                type="number"
+                step="0.01"
+                value={form.rate}
+                onChange={(e) => setForm({ ...form, rate: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={saveRule.status === "pending"}>
+              {editingId ? "Save" : "Add Price"}
+            </Button>
+            {editingId && <Button variant="outline" onClick={cancelEdit}>Cancel</Button>}
+          </div>
+
+          {isLoading ? (
+            <div>Loading...</div>
+          ) : (rules || []).length === 0 ? (
+            <p className="text-sm text-muted-foreground">No prices yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table className="min-w-[640px]">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tea</TableHead>
+                    <TableHead>Customer</TableHead>
+                    <TableHead className="text-right">From qty</TableHead>
+                    <TableHead className="text-right">Rate</TableHead>
+                    <TableHead className="text-right">Cost</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sortPriceRules(rules || [], customerName).map((rule) => {
+                    const cost = costByTea.get(normaliseTeaName(rule.tea_name));
+                    const belowCost = cost !== undefined && Number(rule.rate) < cost;
+                    return (
+                      <TableRow key={rule.id}>
+                        <TableCell className="font-medium">{rule.tea_name}</TableCell>
+                        <TableCell>{rule.customer_id ? customerName(rule.customer_id) : "Everyone"}</TableCell>
+                        <TableCell className="text-right">
+                          {Number(rule.min_quantity) > 0 ? `${rule.min_quantity} kg+` : "Any"}
+                        </TableCell>
+                        <TableCell className={`text-right ${belowCost ? "text-destructive font-semibold" : ""}`}>
+                          ₹{Number(rule.rate).toFixed(2)}
+                        </TableCell>
+                        <TableCell className="text-right text-muted-foreground">
+                          {cost !== undefined ? `₹${cost.toFixed(2)}` : "—"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button size="sm" variant="ghost" onClick={() => startEdit(rule)}>Edit</Button>
+                            <Button size="sm" variant="destructive" onClick={() => handleDelete(rule)}>Delete</Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PriceList;
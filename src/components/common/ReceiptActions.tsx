@@ -0,0 +1,84 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { FileText, Loader2, MessageCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { downloadReceiptPdf, fetchReceipt, sendReceiptOnWhatsApp } from "@/lib/receipt";
+import { formatReceiptNumber } from "@/lib/document-numbers";
+
+interface ReceiptActionsProps {
+  paymentId?: string | null;
+  // Compact mode renders icon-sized buttons for table rows
+  compact?: boolean;
+}
+
+const ReceiptActions = ({ paymentId, compact = false }: ReceiptActionsProps) => {
+  const { toast } = useToast();
+  const [busy, setBusy] = useState<"download" | "share" | null>(null);
+
+  if (!paymentId) return null;
+
+  const handleDownload = async () => {
+    setBusy("download");
+    try {
+      const receipt = await fetchReceipt(paymentId);
+      await downloadReceiptPdf(receipt);
+      toast({ title: "Receipt downloaded", description: `Saved receipt ${formatReceiptNumber(receipt.receiptNumber)}.` });
+    } catch (err: any) {
+      toast({ title: "Receipt failed", description: err?.message || "Unable to build the receipt.", variant: "destructive" });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleShare = async () => {
+    setBusy("share");
+    try {
+      const receipt = await fetchReceipt(paymentId);
+      const result = await sendReceiptOnWhatsApp(receipt);
+      if (!result.ok) {
+        toast({
+          title: "Receipt not sent",
+          description:
+            result.reason === "missing-recipient"
+              ? "Add a WhatsApp number to this customer before sending receipts."
+              : "WhatsApp could not be opened. Please try again.",
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({ title: "Receipt sent", description: `Opened WhatsApp with receipt ${formatReceiptNumber(receipt.receiptNumber)}.` });
+    } catch (err: any) {
+      toast({ title: "Receipt not sent", description: err?.message || "Unable to send the receipt.", variant: "destructive" });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (compact) {
+    return (
+      <div className="flex justify-end gap-1">
+        <Button size="sm" variant="ghost" onClick={handleDownload} disabled={busy !== null} title="Download receipt">
+          {busy === "download" ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileText className="h-4 w-4" />}
+        </Button>
+        <Button size="sm" variant="ghost" onClick={handleShare} disabled={busy !== null} title="Send receipt on WhatsApp">
+          {busy === "share" ? <Loader2 className="h-4 w-4 animate-spin" /> : <MessageCircle className="h-4 w-4" />}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Button type="button" variant="outline" onClick={handleDownload} disabled={busy !== null}>
+        {busy === "download" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileText className="mr-2 h-4 w-4" />}
+        Download Receipt
+      </Button>
+      <Button type="button" variant="outline" onClick={handleShare} disabled={busy !== null}>
+        {busy === "share" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <MessageCircle className="mr-2 h-4 w-4" />}
+        Send receipt on WhatsApp
+      </Button>
+    </div>
+  );
+};
+
+export default ReceiptActions;
@@ -0,0 +1,34 @@
+import { CloudOff } from "lucide-react";
+import { useBatches, useCustomers, useTransactions } from "@/lib/hooks";
+import useOnlineStatus from "@/hooks/use-online-status";
+
+// Shown while the partner dashboard runs on cached data: the device is offline or the last
+// refresh failed. The time is the oldest of the customer, batch and transaction fetches.
+const StaleDataNotice = () => {
+  const online = useOnlineStatus();
+  const customers = useCustomers();
+  const batches = useBatches();
+  const transactions = useTransactions();
+  const queries = [customers, batches, transactions];
+
+  const refreshFailed = queries.some((query) => query.isError);
+  if (online && !refreshFailed) return null;
+
+  const syncedTimes = queries.map((query) => query.dataUpdatedAt).filter((time) => time > 0);
+  const lastSynced = syncedTimes.length > 0 ? new Date(Math.min(...syncedTimes)) : null;
+
+  return (
+    <div className="flex items-center gap-2 rounded-md border border-amber-500 bg-amber-50 px-4 py-2 text-sm text-amber-900">
+      <CloudOff className="h-4 w-4 shrink-0" />
+      <span>
+        {online ? "Could not refresh data." : "You are offline."}{" "}
+        {lastSynced
+          ? `Showing data last synced ${lastSynced.toLocaleString()}.`
+          : "No saved data is available on this device yet."}{" "}
+        New sales and payments are queued until you reconnect.
+      </span>
+    </div>
+  );
+};
+
+export default StaleDataNotice;
@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FileText, Loader2, MessageCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { formatReadableDate } from "@/lib/utils";
+import { formatStatementPeriod, getDefaultStatementRange, type StatementRange } from "@/lib/statement";
+import { downloadStatementPdf, fetchStatement, shareStatementOnWhatsApp } from "@/lib/statement-actions";
+
+interface StatementDialogProps {
+  customer: { id: string; full_name?: string | null; shop_name?: string | null } | null;
+  onClose: () => void;
+}
+
+const formatBalance = (value: number) => (value < 0 ? `₹${(-value).toFixed(2)} Cr` : `₹${value.toFixed(2)}`);
+
+const StatementDialog = ({ customer, onClose }: StatementDialogProps) => {
+  const { toast } = useToast();
+  const [range, setRange] = useState<StatementRange>(() => getDefaultStatementRange());
+  const [busy, setBusy] = useState<"download" | "share" | null>(null);
+  const [attachLink, setAttachLink] = useState(true);
+
+  const invalidRange = Boolean(range.from && range.to && range.from > range.to);
+  const { data: statement, isLoading, error } = useQuery({
+    queryKey: ["statement", customer?.id, range.from, range.to],
+    queryFn: () => fetchStatement(customer!.id, range),
+    enabled: Boolean(customer) && !invalidRange,
+  });
+
+  const handleDownload = async () => {
+    if (!statement) return;
+    setBusy("download");
+    try {
+      await downloadStatementPdf(statement);
+      toast({ title: "Statement downloaded", description: `Saved the statement for ${formatStatementPeriod(statement.range)}.` });
+    } catch (err: any) {
+      toast({ title: "Statement failed", description: err?.message || "Unable to build the statement.", variant: "destructive" });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleShare = async () => {
+    if (!statement) return;
+    setBusy("share");
+    try {
+      const result = await shareStatementOnWhatsApp(statement, { attachLink });
+      if (!result.ok) {
+        toast({
+          title: "Statement not sent",
+          description:
+            result.reason === "missing-recipient"
+              ? "Add a WhatsApp number to this customer before sharing statements."
+              : "WhatsApp could not be opened. Please try again.",
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({ title: "Statement shared", description: `Opened WhatsApp with the statement for ${statement.customer.name}.` });
+    } catch (err: any) {
+      toast({ title: "Statement not sent", description: err?.message || "Unable to share the statement.", variant: "destructive" });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Dialog open={customer !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Statement of Account</DialogTitle>
+          <DialogDescription>
+            {customer?.full_name || customer?.shop_name || "Customer"}: opening balance, every transaction in the period
+            with the running balance, and the closing balance.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="statement-from">From</Label>
+            <Input
+              id="statement-from"
+              type="date"
+              value={range.from ?? ""}
+              onChange={(e) => setRange((prev) => ({ ...prev, from: e.target.value || null }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="statement-to">To</Label>
+            <Input
+              id="statement-to"
+              type="date"
+              value={range.to ?? ""}
+              onChange={(e) => setRange((prev) => ({ ...prev, to: e.target.value || null }))}
+            />
+          </div>
+        </div>
+
+        {invalidRange ? (
+          <p className="text-sm text-destructive">The start date must be on or before the end date.</p>
+        ) : isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" /> Loading statement…
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error?.message || "Unable to load the statement."}</p>
+        ) : statement ? (
+          <div className="max-h-[50vh] overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Particulars</TableHead>
+                  <TableHead className="text-right">Debit</TableHead>
+                  <TableHead className="text-right">Credit</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TableRow>
+                  <TableCell>{statement.range.from ? formatReadableDate(statement.range.from) : "—"}</TableCell>
+                  <TableCell className="font-medium">Opening balance</TableCell>
+                  <TableCell />
+                  <TableCell />
+                  <TableCell className="text-right">{formatBalance(statement.openingBalance)}</TableCell>
+                </TableRow>
+                {statement.entries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell>{formatReadableDate(entry.date)}</TableCell>
+                    <TableCell>{entry.particulars}</TableCell>
+                    <TableCell className="text-right">{entry.debit ? `₹${entry.debit.toFixed(2)}` : ""}</TableCell>
+                    <TableCell className="text-right">{entry.credit ? `₹${entry.credit.toFixed(2)}` : ""}</TableCell>
+                    <TableCell className="text-right">{formatBalance(entry.balance)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell />
+                  <TableCell>Closing balance</TableCell>
+                  <TableCell className="text-right">₹{statement.totalDebit.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">₹{statement.totalCredit.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">{formatBalance(statement.closingBalance)}</TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </div>
+        ) : null}
+
+        <div className="flex items-center space-x-2">
+          <Checkbox id="statement-attach" checked={attachLink} onCheckedChange={(value) => setAttachLink(value === true)} />
+          <Label htmlFor="statement-attach" className="font-normal cursor-pointer">
+            Attach a link to the statement PDF in the WhatsApp message
+          </Label>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={handleDownload} disabled={!statement || busy !== null}>
+            {busy === "download" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileText className="mr-2 h-4 w-4" />}
+            Download PDF
+          </Button>
+          <Button type="button" onClick={handleShare} disabled={!statement || busy !== null}>
+            {busy === "share" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <MessageCircle className="mr-2 h-4 w-4" />}
+            Send on WhatsApp
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StatementDialog;
@@ -0,0 +1,505 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  useBatches,
+  usePurchases,
+  useRecordSupplierPayment,
+  useSaveSupplier,
+  useSupplierPayables,
+  useSupplierPayments,
+  useSuppliers,
+  useUpdatePurchase,
+} from "@/lib/hooks";
+import { buildSupplierAccount } from "@/lib/suppliers";
+import { getPaymentMethodLabel, getPaymentMethodOption, PAYMENT_METHODS, type PaymentMethod } from "@/lib/payment-methods";
+import { formatReadableDate } from "@/lib/utils";
+import type { Purchase, Supplier } from "@/lib/schemas";
+import { useToast } from "@/hooks/use-toast";
+import { useNavigate } from "react-router-dom";
+
+const emptyForm = { name: "", contact: "", gstin: "", address: "" };
+const emptyPayment = { amount: "", method: "cash" as PaymentMethod, reference: "", paidOn: "", purchaseId: "" };
+const emptyCosts = { invoiceNumber: "", dueDate: "", freight: "", otherCosts: "" };
+
+const formatMoney = (value?: number | null) => `₹${Number(value || 0).toFixed(2)}`;
+
+// Invoices, payments and the open balance of one supplier
+const SupplierAccountPanel = ({ supplier }: { supplier: Supplier }) => {
+  const { data: purchases } = usePurchases(supplier.id);
+  const { data: payments } = useSupplierPayments(supplier.id);
+  const { data: batches } = useBatches();
+  const recordPayment = useRecordSupplierPayment();
+  const updatePurchase = useUpdatePurchase();
+  const { toast } = useToast();
+
+  const [payment, setPayment] = useState(emptyPayment);
+  const [editingPurchaseId, setEditingPurchaseId] = useState<string | null>(null);
+  const [costs, setCosts] = useState(emptyCosts);
+
+  const account = useMemo(() => buildSupplierAccount(purchases, payments), [purchases, payments]);
+  const batchName = (batchId: string | null) => (batches || []).find((batch) => batch.id === batchId)?.name || "—";
+  const methodOption = getPaymentMethodOption(payment.method);
+
+  const startCostEdit = (purchase: Purchase) => {
+    setEditingPurchaseId(purchase.id);
+    setCosts({
+      invoiceNumber: purchase.invoice_number || "",
+      dueDate: purchase.due_date || "",
+      freight: String(purchase.freight ?? ""),
+      otherCosts: String(purchase.other_costs ?? ""),
+    });
+  };
+
+  const handleSaveCosts = async () => {
+    if (!editingPurchaseId) return;
+    const freight = Number(costs.freight || 0);
+    const otherCosts = Number(costs.otherCosts || 0);
+    if (!(freight >= 0) || !(otherCosts >= 0)) {
+      toast({ title: "Invalid costs", description: "Enter freight and other costs of zero or more.", variant: "destructive" });
+      return;
+    }
+    try {
+      await updatePurchase.mutateAsync({
+        id: editingPurchaseId,
+        changes: {
+          invoice_number: costs.invoiceNumber.trim() || null,
+          due_date: costs.dueDate || null,
+          freight,
+          other_costs: otherCosts,
+        },
+      });
+      toast({ title: "Purchase updated", description: "The batch is re-costed at the new landed rate." });
+      setEditingPurchaseId(null);
+      setCosts(emptyCosts);
+    } catch (err: any) {
+      toast({ title: "Error", description: err?.message || "Failed to update purchase", variant: "destructive" });
+    }
+  };
+
+  const handleRecordPayment = async () => {
+    const amount = Number(payment.amount);
+    if (!(amount > 0)) {
+      toast({ title: "Invalid amount", description: "Enter an amount above zero.", variant: "destructive" });
+      return;
+    }
+    if (methodOption?.referenceRequired && !payment.reference.trim()) {
+      toast({
+        title: "Reference required",
+        description: `Enter the ${methodOption.referenceLabel?.toLowerCase()} for ${methodOption.label.toLowerCase()} payments.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (amount > account.outstanding && !confirm("This is more than is owed to the supplier. Record it as an advance?")) {
+      return;
+    }
+    try {
+      await recordPayment.mutateAsync({
+        supplier_id: supplier.id,
+        purchase_id: payment.purchaseId || null,
+        amount,
+        payment_method: payment.method,
+        payment_reference: payment.reference.trim() || null,
+        paid_on: payment.paidOn || undefined,
+      });
+      toast({ title: "Payment recorded", description: `${formatMoney(amount)} paid to ${supplier.name}.` });
+      setPayment(emptyPayment);
+    } catch (err: any) {
+      toast({ title: "Error", description: err?.message || "Failed to record payment", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <h3 className="text-lg font-semibold">{supplier.name}</h3>
+        <div className="text-sm text-muted-foreground">
+          Bought {formatMoney(account.totalPurchased)} • Paid {formatMoney(account.totalPaid)} •{" "}
+          <span className="font-medium text-foreground">Payable {formatMoney(account.outstanding)}</span>
+          {account.advance > 0 && ` • Advance ${formatMoney(account.advance)}`}
+        </div>
+      </div>
+
+      {account.purchases.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No purchases yet. Purchases are recorded from Create Batch.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table className="min-w-[860px]">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Invoice</TableHead>
+                <TableHead>Batch</TableHead>
+                <TableHead className="text-right">Qty (kg)</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead className="text-right">Invoice amount</TableHead>
+                <TableHead className="text-right">Freight + other</TableHead>
+                <TableHead className="text-right">Landed (₹/kg)</TableHead>
+                <TableHead className="text-right">Landed total</TableHead>
+                <TableHead className="text-right">Outstanding</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {account.purchases.map(({ purchase, outstanding, daysPastDue }) => (
+                <TableRow key={purchase.id}>
+                  <TableCell>
+                    <div className="font-medium">{purchase.invoice_number || "—"}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {formatReadableDate(purchase.invoice_date)}
+                      {purchase.due_date && ` • due ${formatReadableDate(purchase.due_date)}`}
+                    </div>
+                  </TableCell>
+                  <TableCell>{batchName(purchase.batch_id)}</TableCell>
+                  <TableCell className="text-right">{Number(purchase.quantity)}</TableCell>
+                  <TableCell className="text-right">{formatMoney(purchase.rate)}</TableCell>
+                  <TableCell className="text-right">{formatMoney(purchase.invoice_amount)}</TableCell>
+                  <TableCell className="text-right">{formatMoney(Number(purchase.freight) + Number(purchase.other_costs))}</TableCell>
+                  <TableCell className="text-right">{formatMoney(purchase.landed_rate)}</TableCell>
+                  <TableCell className="text-right">{formatMoney(purchase.total_cost)}</TableCell>
+                  <TableCell className="text-right">
+                    {outstanding > 0 ? formatMoney(outstanding) : <Badge variant="secondary">Paid</Badge>}
+                    {outstanding > 0 && purchase.due_date && daysPastDue > 0 && (
+                      <div>
+                        <Badge variant="destructive">{daysPastDue} days overdue</Badge>
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => startCostEdit(purchase)}>Edit</Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {editingPurchaseId && (
+        <div className="space-y-2">
+          <div className="grid gap-2 md:grid-cols-4">
+            <div className="space-y-1">
+              <Label htmlFor="purchase-invoice">Invoice No</Label>
+              <Input
+                id="purchase-invoice"
+                value={costs.invoiceNumber}
+                onChange={(e) => setCosts({ ...costs, invoiceNumber: e.target.value })}
+                maxLength={40}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="purchase-due">Payment Due</Label>
+              <Input
+                id="purchase-due"
+                type="date"
+                value={costs.dueDate}
+                onChange={(e) => setCosts({ ...costs, dueDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="purchase-freight">Freight (₹)</Label>
+              <Input
+                id="purchase-freight"
+                type="number"
+                step="0.01"
+                value={costs.freight}
+                onChange={(e) => setCosts({ ...costs, freight: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="purchase-other">Other Costs (₹)</Label>
+              <Input
+                id="purchase-other"
+                type="number"
+                step="0.01"
+                value={costs.otherCosts}
+                onChange={(e) => setCosts({ ...costs, otherCosts: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleSaveCosts} disabled={updatePurchase.status === "pending"}>Save Purchase</Button>
+            <Button variant="outline" onClick={() => setEditingPurchaseId(null)}>Cancel</Button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h4 className="font-medium">Record Payment</h4>
+        <div className="grid gap-2 md:grid-cols-5">
+          <div className="space-y-1">
+            <Label htmlFor="supplier-payment-amount">Amount (₹)</Label>
+            <Input
+              id="supplier-payment-amount"
+              type="number"
+              step="0.01"
+              value={payment.amount}
+              onChange={(e) => setPayment({ ...payment, amount: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="supplier-payment-method">Method</Label>
+            <select
+              id="supplier-payment-method"
+              className="w-full px-3 py-2 border rounded-md"
+              value={payment.method}
+              onChange={(e) => setPayment({ ...payment, method: e.target.value as PaymentMethod, reference: "" })}
+            >
+              {PAYMENT_METHODS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="supplier-payment-reference">{methodOption?.referenceLabel || "Reference"}</Label>
+            <Input
+              id="supplier-payment-reference"
+              value={payment.reference}
+              onChange={(e) => setPayment({ ...payment, reference: e.target.value })}
+              disabled={!methodOption?.referenceLabel}
+              maxLength={64}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="supplier-payment-date">Paid On</Label>
+            <Input
+              id="supplier-payment-date"
+              type="date"
+              value={payment.paidOn}
+              onChange={(e) => setPayment({ ...payment, paidOn: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="supplier-payment-invoice">Against</Label>
+            <select
+              id="supplier-payment-invoice"
+              className="w-full px-3 py-2 border rounded-md"
+              value={payment.purchaseId}
+              onChange={(e) => setPayment({ ...payment, purchaseId: e.target.value })}
+            >
+              <option value="">Oldest invoices first</option>
+              {account.purchases
+                .filter((entry) => entry.outstanding > 0)
+                .map(({ purchase, outstanding }) => (
+                  <option key={purchase.id} value={purchase.id}>
+                    {purchase.invoice_number || formatReadableDate(purchase.invoice_date)} ({formatMoney(outstanding)})
+                  </option>
+                ))}
+            </select>
+          </div>
+        </div>
+        <Button onClick={handleRecordPayment} disabled={recordPayment.status === "pending"}>Record Payment</Button>
+      </div>
+
+      {(payments || []).length > 0 && (
+        <div className="space-y-1">
+          <h4 className="font-medium">Payments</h4>
+          {(payments || []).map((entry) => (
+            <div key={entry.id} className="flex justify-between text-sm">
+              <span>
+                {formatReadableDate(entry.paid_on)} • {getPaymentMethodLabel(entry.payment_method)}
+                {entry.payment_reference && ` • ${entry.payment_reference}`}
+              </span>
+              <span>{formatMoney(entry.amount)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const Suppliers = ({ onBack }: { onBack?: () => void }) => {
+  const { data: suppliers, isLoading } = useSuppliers({ activeOnly: true });
+  const { data: payables } = useSupplierPayables();
+  const saveSupplier = useSaveSupplier();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+
+  const payableById = useMemo(
+    () => new Map((payables || []).map((row) => [row.supplier_id, row])),
+    [payables],
+  );
+  const totalPayable = (suppliers || []).reduce(
+    (sum, supplier) => sum + Math.max(Number(payableById.get(supplier.id)?.outstanding || 0), 0),
+    0,
+  );
+  const selectedSupplier = (suppliers || []).find((supplier) => supplier.id === selectedId) ?? null;
+
+  const startEdit = (supplier: Supplier) => {
+    setEditingId(supplier.id);
+    setForm({
+      name: supplier.name,
+      contact: supplier.contact || "",
+      gstin: supplier.gstin || "",
+      address: supplier.address || "",
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast({ title: "Name required", description: "Enter the supplier's name.", variant: "destructive" });
+      return;
+    }
+    try {
+      await saveSupplier.mutateAsync({
+        id: editingId,
+        supplier: {
+          name: form.name.trim(),
+          contact: form.contact.trim() || null,
+          gstin: form.gstin.trim() || null,
+          address: form.address.trim() || null,
+        },
+      });
+      toast({ title: editingId ? "Supplier updated" : "Supplier added" });
+      cancelEdit();
+    } catch (err: any) {
+      toast({ title: "Error", description: err?.message || "Failed to save supplier", variant: "destructive" });
+    }
+  };
+
+  const handleArchive = async (supplier: Supplier) => {
+    const outstanding = Number(payableById.get(supplier.id)?.outstanding || 0);
+    const warning = outstanding > 0 ? ` ${formatMoney(outstanding)} is still owed to them.` : "";
+    if (!confirm(`Archive ${supplier.name}?${warning} Their purchases and payments stay on record.`)) return;
+    try {
+      await saveSupplier.mutateAsync({ id: supplier.id, supplier: { archived_at: new Date().toISOString() } });
+      if (selectedId === supplier.id) setSelectedId(null);
+      if (editingId === supplier.id) cancelEdit();
+      toast({ title: "Supplier archived" });
+    } catch (err: any) {
+      toast({ title: "Error", description: err?.message || "Failed to archive supplier", variant: "destructive" });
+    }
+  };
+
+  const handleBack = () => {
+    if (onBack) onBack();
+    else navigate(-1);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Suppliers</CardTitle>
+          {onBack && (
+            <Button variant="ghost" onClick={handleBack}>Back</Button>
+          )}
+        </div>
+        <CardDescription>
+          Who the tea is bought from and what is owed to them for it. Batches created with a supplier record the purchase,
+          and are costed at the landed rate including freight and other costs, which are not owed to the supplier. Total
+          payable: {formatMoney(totalPayable)}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="grid gap-2 md:grid-cols-4">
+            <div className="space-y-1">
+              <Label htmlFor="supplier-name">Name</Label>
+              <Input id="supplier-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="supplier-contact">Contact</Label>
+              <Input
+                id="supplier-contact"
+                value={form.contact}
+                onChange={(e) => setForm({ ...form, contact: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="supplier-gstin">GSTIN</Label>
+              <Input
+                id="supplier-gstin"
+                placeholder="Optional"
+                value={form.gstin}
+                onChange={(e) => setForm({ ...form, gstin: e.target.value.toUpperCase().replace(/[^0-9A-Z]/g, "").slice(0, 15) })}
+                maxLength={15}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="supplier-address">Address</Label>
+              <Input
+                id="supplier-address"
+                value={form.address}
+                onChange={(e) => setForm({ ...form, address: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={saveSupplier.status === "pending"}>
+              {editingId ? "Save" : "Add Supplier"}
+            </Button>
+            {editingId && <Button variant="outline" onClick={cancelEdit}>Cancel</Button>}
+          </div>
+
+          {isLoading ? (
+            <div>Loading...</div>
+          ) : (suppliers || []).length === 0 ? (
+            <p className="text-sm text-muted-foreground">No suppliers yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table className="min-w-[640px]">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Supplier</TableHead>
+                    <TableHead>GSTIN</TableHead>
+                    <TableHead className="text-right">Purchased</TableHead>
+                    <TableHead className="text-right">Paid</TableHead>
+                    <TableHead className="text-right">Payable</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(suppliers || []).map((supplier) => {
+                    const payable = payableById.get(supplier.id);
+                    return (
+                      <TableRow key={supplier.id} className={selectedId === supplier.id ? "bg-muted/50" : undefined}>
+                        <TableCell>
+                          <div className="font-medium">{supplier.name}</div>
+                          {supplier.contact && <div className="text-xs text-muted-foreground">{supplier.contact}</div>}
+                        </TableCell>
+                        <TableCell>{supplier.gstin || "—"}</TableCell>
+                        <TableCell className="text-right">{formatMoney(payable?.total_purchased)}</TableCell>
+                        <TableCell className="text-right">{formatMoney(payable?.total_paid)}</TableCell>
+                        <TableCell className="text-right font-medium">{formatMoney(payable?.outstanding)}</TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setSelectedId(selectedId === supplier.id ? null : supplier.id)}
+                          >
+                            {selectedId === supplier.id ? "Hide" : "Account"}
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => startEdit(supplier)}>Edit</Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleArchive(supplier)}>Archive</Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {selectedSupplier && <SupplierAccountPanel key={selectedSupplier.id} supplier={selectedSupplier} />}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default Suppliers;
@@ -0,0 +1,309 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { useToast } from "@/hooks/use-toast";
+import { useBounceCheque, useCheques, useCustomers, useUpdateChequeStatus } from "@/lib/hooks";
+import { sendReminderForCustomer } from "@/lib/reminder-actions";
+import type { Tables } from "@/lib/database.types";
+import type { Customer } from "@/lib/schemas";
+import { formatReadableDate } from "@/lib/utils";
+import supabase from "@/lib/supabase";
+
+interface ChequeRegisterProps {
+  onBack?: () => void;
+}
+
+type Cheque = Tables<"cheques">;
+type ChequeStatus = "received" | "deposited" | "cleared" | "bounced";
+
+const STATUS_LABELS: Record<ChequeStatus, string> = {
+  received: "Received",
+  deposited: "Deposited",
+  cleared: "Cleared",
+  bounced: "Bounced",
+};
+
+const STATUS_VARIANTS: Record<ChequeStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  received: "outline",
+  deposited: "secondary",
+  cleared: "default",
+  bounced: "destructive",
+};
+
+const ChequeRegister = ({ onBack }: ChequeRegisterProps) => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { data: cheques, isLoading, isError, error } = useCheques();
+  const { data: customers } = useCustomers();
+  const updateStatus = useUpdateChequeStatus();
+  const bounceCheque = useBounceCheque();
+  const [statusFilter, setStatusFilter] = useState<"open" | "all" | ChequeStatus>("open");
+  const [bounceTarget, setBounceTarget] = useState<Cheque | null>(null);
+  const [bounceCharge, setBounceCharge] = useState("");
+  const [remindOnBounce, setRemindOnBounce] = useState(true);
+
+  const customerById = useMemo(() => {
+    const map = new Map<string, Customer>();
+    (customers || []).forEach((customer) => map.set(customer.id, customer));
+    return map;
+  }, [customers]);
+
+  const filteredCheques = useMemo(() => {
+    const rows = cheques || [];
+    if (statusFilter === "all") return rows;
+    if (statusFilter === "open") return rows.filter((cheque) => cheque.status === "received" || cheque.status === "deposited");
+    return rows.filter((cheque) => cheque.status === statusFilter);
+  }, [cheques, statusFilter]);
+
+  const openTotal = useMemo(
+    () =>
+      (cheques || [])
+        .filter((cheque) => cheque.status === "received" || cheque.status === "deposited")
+        .reduce((sum, cheque) => sum + Number(cheque.amount || 0), 0),
+    [cheques],
+  );
+
+  const handleBack = () => {
+    if (onBack) onBack();
+    else navigate(-1);
+  };
+
+  const customerLabel = (customerId?: string | null) => {
+    const customer = customerId ? customerById.get(customerId) : null;
+    return customer?.full_name || customer?.shop_name || "Unknown customer";
+  };
+
+  const handleStatusChange = async (cheque: Cheque, status: "deposited" | "cleared") => {
+    try {
+      await updateStatus.mutateAsync({ id: cheque.id, status });
+      toast({
+        title: status === "deposited" ? "Cheque deposited" : "Cheque cleared",
+        description: `Cheque ${cheque.cheque_number} marked as ${status}.`,
+      });
+    } catch (err: any) {
+      toast({ title: "Update failed", description: err?.message || "Unable to update the cheque.", variant: "destructive" });
+    }
+  };
+
+  const handleBounce = async () => {
+    if (!bounceTarget) return;
+    const charge = bounceCharge.trim() ? Number(bounceCharge) : 0;
+    if (!Number.isFinite(charge) || charge < 0) {
+      toast({ title: "Invalid charge", description: "Enter a bounce charge of zero or more.", variant: "destructive" });
+      return;
+    }
+
+    try {
+      await bounceCheque.mutateAsync({ id: bounceTarget.id, bounceCharge: charge });
+    } catch (err: any) {
+      toast({ title: "Bounce failed", description: err?.message || "Unable to reverse the cheque payment.", variant: "destructive" });
+      return;
+    }
+
+    const target = bounceTarget;
+    toast({
+      title: "Cheque bounced",
+      description: `Payment for cheque ${target.cheque_number} was reversed${charge > 0 ? ` and a ₹${charge.toFixed(2)} charge added` : ""}.`,
+    });
+    setBounceTarget(null);
+    setBounceCharge("");
+
+    if (!remindOnBounce) return;
+    try {
+      const customer = customerById.get(target.customer_id);
+      // Re-read balances so the reminder includes the re-opened invoices and any bounce charge
+      const { data: balances, error: balanceErr } = await supabase
+        .from("transactions")
+        .select("balance")
+        .eq("customer_id", target.customer_id);
+      if (balanceErr) throw balanceErr;
+      const outstandingAmount = (balances || []).reduce((sum, row) => sum + Number(row.balance || 0), 0);
+      await sendReminderForCustomer({ customer, outstandingAmount, toast });
+    } catch (err) {
+      const message = (err as { message?: unknown } | null)?.message;
+      toast({ title: "Reminder failed", description: String(message || "Unable to send the payment reminder."), variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Button variant="ghost" onClick={handleBack}>
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Back
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <CardTitle>Cheque Register</CardTitle>
+              <CardDescription>
+                Track cheques from receipt to clearing. Open cheques total ₹{openTotal.toFixed(2)}.
+              </CardDescription>
+            </div>
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as typeof statusFilter)}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Open cheques</SelectItem>
+                <SelectItem value="all">All cheques</SelectItem>
+                {(Object.keys(STATUS_LABELS) as ChequeStatus[]).map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {STATUS_LABELS[status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div>Loading cheques...</div>
+          ) : isError ? (
+            <div className="text-destructive">Error loading cheques: {error?.message}</div>
+          ) : filteredCheques.length === 0 ? (
+            <div className="text-sm text-muted-foreground">No cheques to show.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table className="min-w-[860px]">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Cheque No.</TableHead>
+                    <TableHead>Bank</TableHead>
+                    <TableHead>Cheque Date</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredCheques.map((cheque) => {
+                    const status = cheque.status as ChequeStatus;
+                    const isOpen = status === "received" || status === "deposited";
+                    return (
+                      <TableRow key={cheque.id}>
+                        <TableCell className="font-medium">{customerLabel(cheque.customer_id)}</TableCell>
+                        <TableCell>{cheque.cheque_number}</TableCell>
+                        <TableCell>{cheque.bank_name || "—"}</TableCell>
+                        <TableCell>{formatReadableDate(cheque.cheque_date)}</TableCell>
+                        <TableCell className="text-right">₹{Number(cheque.amount || 0).toFixed(2)}</TableCell>
+                        <TableCell>
+                          <Badge variant={STATUS_VARIANTS[status] ?? "outline"}>{STATUS_LABELS[status] ?? cheque.status}</Badge>
+                          {status === "bounced" && Number(cheque.bounce_charge || 0) > 0 && (
+                            <div className="mt-1 text-xs text-muted-foreground">
+                              Charge ₹{Number(cheque.bounce_charge).toFixed(2)}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {isOpen ? (
+                            <div className="flex justify-end gap-2">
+                              {status === "received" && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  disabled={updateStatus.status === "pending"}
+                                  onClick={() => handleStatusChange(cheque, "deposited")}
+                                >
+                                  Mark Deposited
+                                </Button>
+                              )}
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={updateStatus.status === "pending"}
+                                onClick={() => handleStatusChange(cheque, "cleared")}
+                              >
+                                Mark Cleared
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="destructive"
+                                onClick={() => {
+                                  setBounceTarget(cheque);
+                                  setBounceCharge("");
+                                  setRemindOnBounce(true);
+                                }}
+                              >
+                                Bounce
+                              </Button>
+                            </div>
+                          ) : (
+                            <div className="text-right text-xs text-muted-foreground">
+                              {formatReadableDate(status === "cleared" ? cheque.cleared_at : cheque.bounced_at)}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog
+        open={bounceTarget !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setBounceTarget(null);
+            setBounceCharge("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Bounce Cheque {bounceTarget?.cheque_number}</DialogTitle>
+            <DialogDescription>
+              The ₹{Number(bounceTarget?.amount || 0).toFixed(2)} payment from {customerLabel(bounceTarget?.customer_id)} will be
+              reversed and the invoices it settled will be due again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="bounce-charge">Bounce Charge (₹)</Label>
+              <Input
+                id="bounce-charge"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="0.00"
+                value={bounceCharge}
+                onChange={(e) => setBounceCharge(e.target.value)}
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox id="bounce-remind" checked={remindOnBounce} onCheckedChange={(value) => setRemindOnBounce(value === true)} />
+              <Label htmlFor="bounce-remind" className="font-normal cursor-pointer">
+                Send a payment reminder on WhatsApp
+              </Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setBounceTarget(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleBounce} disabled={bounceCheque.status === "pending"}>
+              {bounceCheque.status === "pending" ? "Reversing…" : "Bounce Cheque"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ChequeRegister;
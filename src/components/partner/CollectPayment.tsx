@@ -1,13 +1,23 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { ArrowLeft, AlertCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { useCustomers, useTransactions } from "@/lib/hooks";
+import { useCustomers, useRecordPayment, useTransactions, type RecordPaymentPayload, type RecordPaymentResult } from "@/lib/hooks";
+import { getOpenInvoices, planOldestDueAllocation, validateAllocations, type PaymentAllocation } from "@/lib/payment-allocation";
+import { formatReadableDate, getStoredUser } from "@/lib/utils";
+import { addOutboxEntry, isNetworkError, newClientId } from "@/lib/outbox";
 import supabase from "@/lib/supabase";
 import { useQueryClient } from "@tanstack/react-query";
+import ReceiptActions from "@/components/common/ReceiptActions";
+import PaymentMethodFields from "@/components/common/PaymentMethodFields";
+import CreditHoldBadge from "@/components/common/CreditHoldBadge";
+import { getCreditStatus } from "@/lib/credit";
+import { emptyPaymentDetails, validatePaymentDetails, type PaymentDetails } from "@/lib/payment-methods";
+import { formatReceiptNumber } from "@/lib/document-numbers";
 
 interface CollectPaymentProps {
   onBack?: () => void;
@@ -17,14 +27,37 @@ interface CollectPaymentProps {
 
 const CollectPayment = ({ onBack }: CollectPaymentProps) => {
   const { toast } = useToast();
-  const { data: customers, isLoading: customersLoading, refetch } = useCustomers();
+  const { data: customers, isLoading: customersLoading, refetch } = useCustomers(undefined, { activeOnly: true });
   const qc = useQueryClient();
   const [selectedCustomer, setSelectedCustomer] = useState<any | null>(null);
   const [paymentAmount, setPaymentAmount] = useState("");
   const [customerTransactions, setCustomerTransactions] = useState<any[]>([]);
   const [transactionSums, setTransactionSums] = useState<Record<string, number>>({});
   const { data: allTransactions } = useTransactions();
+  const recordPayment = useRecordPayment();
+  const [allocationMode, setAllocationMode] = useState<"auto" | "manual">("auto");
+  const [manualAllocations, setManualAllocations] = useState<Record<string, string>>({});
+  const [paymentDetails, setPaymentDetails] = useState<PaymentDetails>(emptyPaymentDetails);
   const lastLoadRef = useRef<number>(Date.now());
+  const [lastReceipt, setLastReceipt] = useState<{
+    paymentId: string;
+    receiptNumber: number | null;
+    customerName: string;
+    amount: number;
+  } | null>(null);
+
+  const openInvoices = useMemo(() => getOpenInvoices(customerTransactions), [customerTransactions]);
+  const parsedPaymentAmount = parseFloat(paymentAmount) || 0;
+  const plannedAllocations = useMemo<PaymentAllocation[]>(() => {
+    if (allocationMode === "auto") {
+      return planOldestDueAllocation(openInvoices, parsedPaymentAmount);
+    }
+    return openInvoices
+      .map((invoice) => ({ sale_id: invoice.id, amount: parseFloat(manualAllocations[invoice.id] || "0") || 0 }))
+      .filter((allocation) => allocation.amount > 0);
+  }, [allocationMode, openInvoices, parsedPaymentAmount, manualAllocations]);
+  const allocatedTotal = plannedAllocations.reduce((sum, allocation) => sum + allocation.amount, 0);
+  const unallocatedAmount = Math.max(parsedPaymentAmount - allocatedTotal, 0);
 
   const loadCustomerTransactions = async (customerId: string) => {
     try {
@@ -85,27 +118,81 @@ const CollectPayment = ({ onBack }: CollectPaymentProps) => {
     console.debug("CollectPayment: customerTransactions length", customerTransactions.length);
   }, [customers, transactionSums]);
 
+  const resetForm = () => {
+    setPaymentAmount("");
+    setPaymentDetails(emptyPaymentDetails());
+    setManualAllocations({});
+    setAllocationMode("auto");
+    setSelectedCustomer(null);
+  };
+
   const handlePayment = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!selectedCustomer) return;
 
     const amount = parseFloat(paymentAmount);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      toast({ title: "Invalid amount", description: "Enter a payment amount greater than zero.", variant: "destructive" });
+      return;
+    }
+
+    const referenceError = validatePaymentDetails(paymentDetails);
+    if (referenceError) {
+      toast({ title: "Payment reference", description: referenceError, variant: "destructive" });
+      return;
+    }
+
+    if (allocationMode === "manual") {
+      const allocationError = validateAllocations(openInvoices, plannedAllocations, amount);
+      if (allocationError) {
+        toast({ title: "Check allocation", description: allocationError, variant: "destructive" });
+        return;
+      }
+    }
+
+    const customerName = selectedCustomer.full_name || selectedCustomer.name;
+    const payload: RecordPaymentPayload = {
+      customer_id: selectedCustomer.id,
+      amount,
+      allocations: allocationMode === "manual" ? plannedAllocations : null,
+      payment: paymentDetails,
+      client_id: newClientId(),
+    };
+
+    // No connection: keep the payment on the device and replay it from the dashboard later
+    const queueOffline = async () => {
+      await addOutboxEntry({
+        id: payload.client_id,
+        kind: "payment",
+        userId: getStoredUser()?.id ?? null,
+        payload: { ...payload, recorded_at: new Date().toISOString() },
+        summary: `${customerName} · ₹${amount.toFixed(2)}`,
+      });
+      toast({
+        title: "Saved offline",
+        description: `Payment from ${customerName} is queued and will sync when you are back online.`,
+      });
+      setLastReceipt(null);
+      resetForm();
+    };
+
     try {
-      // insert a payment transaction
-      // record a payment transaction - balance is negative to reduce outstanding
-      const { data: insertedPayment, error } = await supabase
-        .from("transactions")
-        .insert({
-          customer_id: selectedCustomer.id,
-          amount: amount,
-          type: "payment",
-          paid_amount: amount,
-          balance: -Math.abs(amount),
-        })
-        .select()
-        .single();
-      if (error) throw error;
+      if (navigator.onLine === false) {
+        await queueOffline();
+        return;
+      }
+
+      // The RPC applies the payment to the chosen sales (or oldest-due first) and updates their balances atomically
+      let result: RecordPaymentResult;
+      try {
+        result = await recordPayment.mutateAsync(payload);
+      } catch (err) {
+        if (!isNetworkError(err)) throw err;
+        await queueOffline();
+        return;
+      }
+      const allocated = Number(result?.allocated ?? allocatedTotal);
 
       // Optionally update customer outstanding balance in customers table if you store it
       await supabase.from("customers").update({ outstanding_balance: Math.max((selectedCustomer.outstanding_balance || 0) - amount, 0) }).eq("id", selectedCustomer.id);
@@ -116,11 +203,21 @@ const CollectPayment = ({ onBack }: CollectPaymentProps) => {
 
       toast({
         title: "Payment Collected",
-        description: `₹${amount.toFixed(2)} collected from ${selectedCustomer.full_name || selectedCustomer.name}`,
+        description: `₹${amount.toFixed(2)} collected from ${customerName}. ₹${allocated.toFixed(2)} applied to open invoices.`,
       });
 
-      setPaymentAmount("");
-      setSelectedCustomer(null);
+      setLastReceipt(
+        result?.payment?.id
+          ? {
+              paymentId: result.payment.id,
+              receiptNumber: result.payment.receipt_number ?? null,
+              customerName,
+              amount,
+            }
+          : null,
+      );
+
+      resetForm();
     } catch (err: any) {
       toast({ title: "Error", description: err?.message || "Failed to record payment" });
     }
@@ -144,6 +241,23 @@ const CollectPayment = ({ onBack }: CollectPaymentProps) => {
         </Button>
       )}
 
+      {lastReceipt && !selectedCustomer && (
+        <Card className="border-success">
+          <CardHeader>
+            <CardTitle>Payment Recorded — Receipt {formatReceiptNumber(lastReceipt.receiptNumber)}</CardTitle>
+            <CardDescription>
+              {lastReceipt.customerName} · ₹{lastReceipt.amount.toFixed(2)}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <ReceiptActions paymentId={lastReceipt.paymentId} />
+            <Button type="button" variant="ghost" size="sm" onClick={() => setLastReceipt(null)}>
+              Dismiss
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       {!selectedCustomer ? (
         <Card>
           <CardHeader>
@@ -169,13 +283,14 @@ const CollectPayment = ({ onBack }: CollectPaymentProps) => {
                   <Card
                     key={customer.id}
                     className="cursor-pointer hover:bg-accent transition-colors"
-                    onClick={() => { setSelectedCustomer(customer); loadCustomerTransactions(customer.id); }}
+                    onClick={() => { setSelectedCustomer(customer); setAllocationMode("auto"); setManualAllocations({}); loadCustomerTransactions(customer.id); }}
                   >
                     <CardContent className="p-4">
                       <div className="flex justify-between items-start">
                         <div>
                           <div className="font-medium">{customer.full_name || customer.name}</div>
                           <div className="text-sm text-muted-foreground">{customer.shop_name || customer.shop}</div>
+                          <CreditHoldBadge status={getCreditStatus(customer, allTransactions)} />
                         </div>
                         <div className="text-right">
                           <div className="font-semibold text-destructive">₹{displayOutstanding.toFixed(2)}</div>
@@ -271,6 +386,82 @@ const CollectPayment = ({ onBack }: CollectPaymentProps) => {
                   />
                 </div>
 
+                <PaymentMethodFields
+                  idPrefix="collect-payment"
+                  value={paymentDetails}
+                  onChange={setPaymentDetails}
+                />
+
+                {openInvoices.length > 0 && (
+                  <div className="space-y-3">
+                    <Label>Apply Payment To</Label>
+                    <RadioGroup
+                      value={allocationMode}
+                      onValueChange={(value) => {
+                        const next = value as "auto" | "manual";
+                        setAllocationMode(next);
+                        if (next === "manual") {
+                          const seeded: Record<string, string> = {};
+                          planOldestDueAllocation(openInvoices, parsedPaymentAmount).forEach((allocation) => {
+                            seeded[allocation.sale_id] = allocation.amount.toString();
+                          });
+                          setManualAllocations(seeded);
+                        }
+                      }}
+                    >
+                      <div className="flex items-center space-x-2">
+                        <RadioGroupItem value="auto" id="allocation-auto" />
+                        <Label htmlFor="allocation-auto" className="font-normal cursor-pointer">
+                          Oldest due first
+                        </Label>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <RadioGroupItem value="manual" id="allocation-manual" />
+                        <Label htmlFor="allocation-manual" className="font-normal cursor-pointer">
+                          Choose invoices
+                        </Label>
+                      </div>
+                    </RadioGroup>
+
+                    <div className="space-y-2">
+                      {openInvoices.map((invoice) => {
+                        const planned = plannedAllocations.find((allocation) => allocation.sale_id === invoice.id);
+                        return (
+                          <div key={invoice.id} className="flex flex-wrap items-center justify-between gap-3 rounded-lg border p-3">
+                            <div className="text-sm">
+                              <div className="font-medium">{invoice.teaName || "Tea sale"} — {formatReadableDate(invoice.createdAt)}</div>
+                              <div className="text-xs text-muted-foreground">
+                                Remaining ₹{invoice.balance.toFixed(2)} of ₹{invoice.amount.toFixed(2)}
+                                {invoice.dueDate ? ` • Due ${formatReadableDate(invoice.dueDate)}` : ""}
+                              </div>
+                            </div>
+                            {allocationMode === "manual" ? (
+                              <Input
+                                type="number"
+                                step="0.01"
+                                min={0}
+                                max={invoice.balance}
+                                className="w-32"
+                                value={manualAllocations[invoice.id] ?? ""}
+                                onChange={(e) => setManualAllocations({ ...manualAllocations, [invoice.id]: e.target.value })}
+                                placeholder="0.00"
+                              />
+                            ) : (
+                              <span className="text-sm font-semibold">₹{(planned?.amount ?? 0).toFixed(2)}</span>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+
+                    {unallocatedAmount > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        ₹{unallocatedAmount.toFixed(2)} will be kept as customer credit.
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 <div className="flex gap-2">
                   <Button
                     type="button"
@@ -283,8 +474,8 @@ const CollectPayment = ({ onBack }: CollectPaymentProps) => {
                   <Button type="button" variant="secondary" onClick={() => setPaymentAmount(outstandingAmount.toString())} className="flex-1">
                     Pay Full Balance
                   </Button>
-                  <Button type="submit" className="flex-1">
-                    Record Payment
+                  <Button type="submit" className="flex-1" disabled={recordPayment.status === "pending"}>
+                    {recordPayment.status === "pending" ? "Recording…" : "Record Payment"}
                   </Button>
                 </div>
               </form>
@@ -3,7 +3,9 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
-import { useCreateBatch } from "@/lib/hooks";
+import { useCreateBatch, useRecordPurchase, useSuppliers } from "@/lib/hooks";
+import { DEFAULT_GST_RATE, DEFAULT_HSN_CODE, GST_RATES } from "@/lib/gst";
+import { getLandedCost } from "@/lib/suppliers";
 import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
 
@@ -15,19 +17,78 @@ const CreateBatch = ({ onBack }: CreateBatchProps) => {
   const [name, setName] = useState("");
   const [quantity, setQuantity] = useState("");
   const [rate, setRate] = useState("");
+  const [sellingRate, setSellingRate] = useState("");
+  const [hsnCode, setHsnCode] = useState(DEFAULT_HSN_CODE);
+  const [gstRate, setGstRate] = useState(String(DEFAULT_GST_RATE));
+  const [supplierId, setSupplierId] = useState("");
+  const [invoiceNumber, setInvoiceNumber] = useState("");
+  const [invoiceDate, setInvoiceDate] = useState("");
+  const [dueDate, setDueDate] = useState("");
+  const [freight, setFreight] = useState("");
+  const [otherCosts, setOtherCosts] = useState("");
+  const { data: suppliers } = useSuppliers({ activeOnly: true });
   const create = useCreateBatch();
+  const recordPurchase = useRecordPurchase();
   const { toast } = useToast();
   const navigate = useNavigate();
 
+  const landed = getLandedCost({
+    quantity: Number(quantity),
+    rate: Number(rate),
+    freight: Number(freight),
+    otherCosts: Number(otherCosts),
+  });
+  const hasExtraCosts = Number(freight) > 0 || Number(otherCosts) > 0;
+
   const handleCreate = async () => {
     if (!name || !quantity || !rate) {
       toast({ title: "Missing fields", description: "Please fill all fields", variant: "destructive" });
       return;
     }
+    if (!/^[0-9]{4,8}$/.test(hsnCode.trim())) {
+      toast({ title: "Invalid HSN code", description: "Enter the 4 to 8 digit HSN code of the tea.", variant: "destructive" });
+      return;
+    }
+    if (!(Number(quantity) > 0) || !(Number(freight || 0) >= 0) || !(Number(otherCosts || 0) >= 0)) {
+      toast({ title: "Invalid amounts", description: "Enter a quantity above zero and costs of zero or more.", variant: "destructive" });
+      return;
+    }
+    if (dueDate && invoiceDate && dueDate < invoiceDate) {
+      toast({ title: "Invalid due date", description: "The due date cannot be before the invoice date.", variant: "destructive" });
+      return;
+    }
+    if (sellingRate && landed.landedRate !== null && Number(sellingRate) < landed.landedRate) {
+      if (!confirm("The selling rate is below the landed cost. Create the batch anyway?")) return;
+    }
     try {
-      await create.mutateAsync({ name, total_quantity: Number(quantity), purchase_rate: Number(rate) });
+      if (supplierId) {
+        await recordPurchase.mutateAsync({
+          supplier_id: supplierId,
+          name,
+          quantity: Number(quantity),
+          rate: Number(rate),
+          freight: Number(freight || 0),
+          other_costs: Number(otherCosts || 0),
+          invoice_number: invoiceNumber.trim() || null,
+          invoice_date: invoiceDate || null,
+          due_date: dueDate || null,
+          selling_rate: sellingRate ? Number(sellingRate) : null,
+          hsn_code: hsnCode.trim(),
+          gst_rate: Number(gstRate),
+        });
+      } else {
+        await create.mutateAsync({
+          name,
+          total_quantity: Number(quantity),
+          purchase_rate: landed.landedRate ?? Number(rate),
+          selling_rate: sellingRate ? Number(sellingRate) : null,
+          hsn_code: hsnCode.trim(),
+          gst_rate: Number(gstRate),
+        });
+      }
       toast({ title: "Batch Created", description: `${name} added with ${quantity}kg` });
-      setName(""); setQuantity(""); setRate("");
+      setName(""); setQuantity(""); setRate(""); setSellingRate(""); setHsnCode(DEFAULT_HSN_CODE); setGstRate(String(DEFAULT_GST_RATE));
+      setSupplierId(""); setInvoiceNumber(""); setInvoiceDate(""); setDueDate(""); setFreight(""); setOtherCosts("");
       if (onBack) {
         onBack();
       } else {
@@ -54,9 +115,86 @@ const CreateBatch = ({ onBack }: CreateBatchProps) => {
             <Label>Total Quantity (kg)</Label>
             <Input type="number" value={quantity} onChange={(e) => setQuantity(e.target.value)} />
           </div>
+          <div>
+            <Label>Supplier</Label>
+            <select
+              className="w-full px-3 py-2 border rounded-md"
+              value={supplierId}
+              onChange={(e) => setSupplierId(e.target.value)}
+            >
+              <option value="">No supplier (own stock)</option>
+              {(suppliers || []).map((supplier) => (
+                <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+              ))}
+            </select>
+          </div>
+          {supplierId && (
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <Label>Invoice No</Label>
+                <Input value={invoiceNumber} onChange={(e) => setInvoiceNumber(e.target.value)} maxLength={40} />
+              </div>
+              <div>
+                <Label>Invoice Date</Label>
+                <Input type="date" value={invoiceDate} onChange={(e) => setInvoiceDate(e.target.value)} />
+              </div>
+              <div>
+                <Label>Payment Due</Label>
+                <Input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+              </div>
+            </div>
+          )}
           <div>
             <Label>Purchase Rate (₹/kg)</Label>
-            <Input type="number" value={rate} onChange={(e) => setRate(e.target.value)} />
+            <Input type="number" value={rate} onChange={(e) => setRate(e.target.value)} placeholder="As invoiced by the supplier" />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>Freight (₹)</Label>
+              <Input type="number" value={freight} onChange={(e) => setFreight(e.target.value)} placeholder="0" />
+            </div>
+            <div>
+              <Label>Other Costs (₹)</Label>
+              <Input
+                type="number"
+                value={otherCosts}
+                onChange={(e) => setOtherCosts(e.target.value)}
+                placeholder="Handling, brokerage…"
+              />
+            </div>
+          </div>
+          {landed.landedRate !== null && rate && (
+            <p className="text-sm text-muted-foreground">
+              Landed cost: ₹{landed.landedRate.toFixed(2)}/kg
+              {hasExtraCosts && ` (₹${landed.totalCost.toFixed(2)} in all)`} — the batch is costed at this rate.
+            </p>
+          )}
+          <div>
+            <Label>Selling Rate (₹/kg)</Label>
+            <Input
+              type="number"
+              value={sellingRate}
+              onChange={(e) => setSellingRate(e.target.value)}
+              placeholder="Optional default price for new sales, before GST"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>HSN Code</Label>
+              <Input value={hsnCode} onChange={(e) => setHsnCode(e.target.value.replace(/[^0-9]/g, ""))} maxLength={8} />
+            </div>
+            <div>
+              <Label>GST Rate</Label>
+              <select
+                className="w-full px-3 py-2 border rounded-md"
+                value={gstRate}
+                onChange={(e) => setGstRate(e.target.value)}
+              >
+                {GST_RATES.map((option) => (
+                  <option key={option} value={option}>{option}%</option>
+                ))}
+              </select>
+            </div>
           </div>
 
           <div className="flex gap-2 mt-4">
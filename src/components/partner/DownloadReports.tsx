@@ -3,11 +3,26 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { ArrowLeft, Download, FileText, FileSpreadsheet, Loader2, Trash2 } from "lucide-react";
+import { Archive, ArrowLeft, Download, FileText, FileSpreadsheet, Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { useBatches, useCustomers, useDeleteBatch, useTransactions } from "@/lib/hooks";
+import {
+  useArchiveBatch,
+  useBatches,
+  useBusinessGstin,
+  useCustomers,
+  useOrderSummaries,
+  useTransactions,
+} from "@/lib/hooks";
 import { formatReadableDate } from "@/lib/utils";
+import { loadPdfTools, PDF_HEAD_STYLES } from "@/lib/pdf";
+import { getPaymentMethodOption, PAYMENT_METHODS, UNRECORDED_METHOD_LABEL } from "@/lib/payment-methods";
+import { formatCreditNoteNumber } from "@/lib/returns";
+import { getLedgerAmounts } from "@/lib/statement";
+import { AGEING_BUCKETS, buildAgeingReport } from "@/lib/analytics-breakdown";
+import { formatPlaceOfSupply, getStateFromGstin } from "@/lib/gst";
+import { buildGstr1Report, type Gstr1Report } from "@/lib/gstr1";
 
 const currencyFormatter = new Intl.NumberFormat("en-IN", {
   style: "currency",
@@ -25,6 +40,13 @@ const dayFormatter = new Intl.DateTimeFormat("en-IN", {
   weekday: "long",
 });
 
+// Daily collections are split by payment method, plus a column for payments recorded before
+// methods were captured
+const collectionMethodColumns = [
+  ...PAYMENT_METHODS.map((option) => ({ key: option.value as string, label: option.label })),
+  { key: "unrecorded", label: UNRECORDED_METHOD_LABEL },
+];
+
 const formatCurrencyValue = (value?: number | null) =>
   value != null ? currencyFormatter.format(value) : "—";
 
@@ -57,6 +79,16 @@ const excelTemplateOptions = [
     label: "Customer Ledger",
     description: "Transaction-level ledger with running balances.",
   },
+  {
+    value: "ageing",
+    label: "Receivables Ageing",
+    description: "Open invoice balances bucketed into 0–30, 31–60, 61–90 and 90+ days past due.",
+  },
+  {
+    value: "gstr1",
+    label: "GST Summary (GSTR-1)",
+    description: "B2B, B2CL and B2CS sales, credit notes and the HSN summary for one month.",
+  },
 ] as const;
 
 type ExcelTemplateOption = (typeof excelTemplateOptions)[number]["value"];
@@ -69,6 +101,97 @@ const asExcelNumber = (value: number | null | undefined) =>
     ? Number(value.toFixed(2))
     : "";
 
+const toMonthValue = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+
+// The GSTR-1 tables, shared by the Excel sheets and the PDF sections; amounts go through
+// `formatAmount` so Excel keeps numbers and the PDF shows rupees
+const buildGstr1Sections = (report: Gstr1Report, formatAmount: (value: number) => string | number) => {
+  const formatDate = (value: string | null) => (value ? formatReadableDate(value) : "—");
+  const formatRate = (rate: number) => `${rate}%`;
+  return [
+    {
+      title: "B2B",
+      headers: ["GSTIN", "Customer", "Invoice No", "Invoice Date", "Invoice Value (₹)", "Place of Supply", "Rate", "Taxable Value (₹)", "IGST (₹)", "CGST (₹)", "SGST (₹)"],
+      rows: report.b2b.map((row) => [
+        row.gstin ?? "—",
+        row.customerName,
+        row.documentNumber,
+        formatDate(row.documentDate),
+        formatAmount(row.documentValue),
+        formatPlaceOfSupply(row.placeOfSupply),
+        formatRate(row.rate),
+        formatAmount(row.taxableValue),
+        formatAmount(row.igst),
+        formatAmount(row.cgst),
+        formatAmount(row.sgst),
+      ]),
+      emptyMessage: "No sales to registered customers",
+    },
+    {
+      title: "B2CL",
+      headers: ["Invoice No", "Invoice Date", "Invoice Value (₹)", "Place of Supply", "Rate", "Taxable Value (₹)", "IGST (₹)"],
+      rows: report.b2cl.map((row) => [
+        row.documentNumber,
+        formatDate(row.documentDate),
+        formatAmount(row.documentValue),
+        formatPlaceOfSupply(row.placeOfSupply),
+        formatRate(row.rate),
+        formatAmount(row.taxableValue),
+        formatAmount(row.igst),
+      ]),
+      emptyMessage: "No large inter-state invoices",
+    },
+    {
+      title: "B2CS",
+      headers: ["Place of Supply", "Rate", "Taxable Value (₹)", "IGST (₹)", "CGST (₹)", "SGST (₹)"],
+      rows: report.b2cs.map((row) => [
+        formatPlaceOfSupply(row.placeOfSupply),
+        formatRate(row.rate),
+        formatAmount(row.taxableValue),
+        formatAmount(row.igst),
+        formatAmount(row.cgst),
+        formatAmount(row.sgst),
+      ]),
+      emptyMessage: "No sales to unregistered customers",
+    },
+    {
+      title: "Credit Notes",
+      headers: ["GSTIN", "Customer", "Note No", "Note Date", "Invoice No", "Note Value (₹)", "Place of Supply", "Rate", "Taxable Value (₹)", "IGST (₹)", "CGST (₹)", "SGST (₹)"],
+      rows: report.creditNotes.map((row) => [
+        row.gstin ?? "—",
+        row.customerName,
+        row.documentNumber,
+        formatDate(row.documentDate),
+        row.originalInvoiceNumber ?? "—",
+        formatAmount(row.documentValue),
+        formatPlaceOfSupply(row.placeOfSupply),
+        formatRate(row.rate),
+        formatAmount(row.taxableValue),
+        formatAmount(row.igst),
+        formatAmount(row.cgst),
+        formatAmount(row.sgst),
+      ]),
+      emptyMessage: "No credit notes to registered customers",
+    },
+    {
+      title: "HSN Summary",
+      headers: ["HSN", "Rate", "Quantity (kg)", "Total Value (₹)", "Taxable Value (₹)", "IGST (₹)", "CGST (₹)", "SGST (₹)"],
+      rows: report.hsn.map((row) => [
+        row.hsnCode,
+        formatRate(row.rate),
+        formatQuantityValue(row.quantity),
+        formatAmount(row.totalValue),
+        formatAmount(row.taxableValue),
+        formatAmount(row.igst),
+        formatAmount(row.cgst),
+        formatAmount(row.sgst),
+      ]),
+      emptyMessage: "No taxable sales",
+    },
+  ];
+};
+
 const sanitizeSheetName = (value: string) =>
   value.replace(/[\/?*\[\]:]/g, "").slice(0, 28) || "Sheet";
 
@@ -198,14 +321,17 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
   const { data: customers } = useCustomers();
   const { data: transactions } = useTransactions();
   const { data: batches } = useBatches();
-  const deleteBatchMutation = useDeleteBatch();
+  const { data: orderSummaries } = useOrderSummaries();
+  const { data: businessGstin } = useBusinessGstin();
+  const archiveBatchMutation = useArchiveBatch();
   const [reportType, setReportType] = useState<"all" | "specific">("all");
   const [selectedCustomer, setSelectedCustomer] = useState("");
   const [format, setFormat] = useState<"pdf" | "excel">("excel");
   const [excelTemplate, setExcelTemplate] = useState<ExcelTemplateOption>("comprehensive");
+  const [gstMonth, setGstMonth] = useState(() => toMonthValue(new Date()));
   const [isDownloading, setIsDownloading] = useState(false);
   const [activeBatchDownloadId, setActiveBatchDownloadId] = useState<string | null>(null);
-  const [activeBatchDeleteId, setActiveBatchDeleteId] = useState<string | null>(null);
+  const [activeBatchArchiveId, setActiveBatchArchiveId] = useState<string | null>(null);
 
   const allCustomers = useMemo(() => (customers as any[]) || [], [customers]);
   const allTransactions = useMemo(() => (transactions as any[]) || [], [transactions]);
@@ -299,6 +425,7 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
     date: string;
     dayLabel: string;
     amountCollected: number;
+    methodAmounts: Record<string, number>;
     entries: number;
   };
 
@@ -324,7 +451,13 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
 
     const dailyCollectionMap = new Map<
       string,
-      { amountCollected: number; entries: number; dateISO: string; dayLabel: string }
+      {
+        amountCollected: number;
+        methodAmounts: Record<string, number>;
+        entries: number;
+        dateISO: string;
+        dayLabel: string;
+      }
     >();
 
     targetTransactions.forEach((txn: any) => {
@@ -346,9 +479,11 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
 
       if (!credit || credit <= 0) return;
 
+      const methodKey = getPaymentMethodOption(txn?.payment_method)?.value ?? "unrecorded";
       const existing = dailyCollectionMap.get(key);
       if (existing) {
         existing.amountCollected += credit;
+        existing.methodAmounts[methodKey] = (existing.methodAmounts[methodKey] || 0) + credit;
         existing.entries += 1;
         if (txnDate > new Date(existing.dateISO)) {
           existing.dateISO = txnDate.toISOString();
@@ -357,6 +492,7 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
       } else {
         dailyCollectionMap.set(key, {
           amountCollected: credit,
+          methodAmounts: { [methodKey]: credit },
           entries: 1,
           dateISO: txnDate.toISOString(),
           dayLabel: dayFormatter.format(txnDate),
@@ -372,6 +508,7 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
         date: entry.dateISO,
         dayLabel: entry.dayLabel,
         amountCollected: entry.amountCollected,
+        methodAmounts: entry.methodAmounts,
         entries: entry.entries,
       }));
 
@@ -532,11 +669,11 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
       txnsForCustomer.forEach((txn: any) => {
         const type = (txn?.type || "").toString().toLowerCase();
         const isPayment = type === "payment";
+        // Returns store a negative amount and quantity; they credit the account like a payment
+        const isReturn = type === "return";
         const amount = Number(txn?.amount ?? 0);
-        const paidAmount = Number(txn?.paid_amount ?? 0);
         const quantity = !isPayment ? Number(txn?.quantity ?? 0) : null;
-        const debit = isPayment ? 0 : amount;
-        const credit = isPayment ? Math.abs(amount || paidAmount) : Math.max(paidAmount, 0);
+        const { debit, credit } = getLedgerAmounts(txn);
         const rate =
           quantity && quantity !== 0 ? amount / quantity : null;
         const perTxnBalance = Math.max(Number(txn?.balance ?? 0), 0);
@@ -547,6 +684,8 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
 
         const statusLabel = isPayment
           ? `Payment Received ₹${credit.toFixed(2)}`
+          : isReturn
+          ? `Credit Note ${formatCreditNoteNumber(txn?.credit_note_number)} ₹${credit.toFixed(2)}`
           : positiveOutstanding > 0
           ? `Partial – Due ₹${positiveOutstanding.toFixed(2)}`
           : "Full Payment";
@@ -559,6 +698,8 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
           teaName: txn?.tea_name || "—",
           typeLabel: isPayment
             ? "Payment"
+            : isReturn
+            ? "Return"
             : type === "partial"
             ? "Sale (Partial)"
             : "Sale",
@@ -567,7 +708,7 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
           debit,
           credit,
           totalAmount: amount,
-          paidAmount: credit,
+          paidAmount: isReturn ? 0 : credit,
           balance: perTxnBalance,
           runningBalance: nextRunning,
           statusLabel,
@@ -590,6 +731,12 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
       ledgerRows,
       ledgerByCustomer,
       dailyCollectionRows,
+      ageingReport: buildAgeingReport(targetTransactions, targetCustomers),
+      gstr1Report: buildGstr1Report(targetTransactions, targetCustomers, {
+        month: gstMonth,
+        businessState: getStateFromGstin(businessGstin),
+        invoiceNumbers: new Map((orderSummaries || []).map((order) => [order.order_id, order.invoice_number])),
+      }),
     };
   };
 
@@ -858,30 +1005,30 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
     }
   };
 
-  const handleDeleteBatch = async (batch: any) => {
+  const handleArchiveBatch = async (batch: any) => {
     if (!batch?.id) return;
 
-    const confirmDelete = window.confirm(
-      `Delete batch “${batch.name || batch.label || "Unnamed Batch"}”? This will detach related transactions. This action cannot be undone.`
+    const confirmArchive = window.confirm(
+      `Archive batch “${batch.name || batch.label || "Unnamed Batch"}”? It will be hidden from new sales but kept in reports and P&L.`
     );
-    if (!confirmDelete) return;
+    if (!confirmArchive) return;
 
-    setActiveBatchDeleteId(batch.id);
+    setActiveBatchArchiveId(batch.id);
     try {
-      await deleteBatchMutation.mutateAsync(batch.id);
+      await archiveBatchMutation.mutateAsync(batch.id);
       toast({
-        title: "Batch removed",
-        description: `${batch.name || batch.label || "Batch"} has been deleted.`,
+        title: "Batch archived",
+        description: `${batch.name || batch.label || "Batch"} has been archived.`,
       });
     } catch (error: any) {
-      console.error("Failed to delete batch", error);
+      console.error("Failed to archive batch", error);
       toast({
-        title: "Delete failed",
-        description: error?.message || "We couldn't delete the batch. Please retry.",
+        title: "Archive failed",
+        description: error?.message || "We couldn't archive the batch. Please retry.",
         variant: "destructive",
       });
     } finally {
-      setActiveBatchDeleteId(null);
+      setActiveBatchArchiveId(null);
     }
   };
 
@@ -911,6 +1058,8 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
       ledgerRows,
       ledgerByCustomer,
       dailyCollectionRows,
+      ageingReport,
+      gstr1Report,
     } = buildReportData();
 
     if (targetCustomers.length === 0) {
@@ -947,6 +1096,8 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
       const includeDailyCollections =
         excelTemplate === "comprehensive" || excelTemplate === "dailyCollections";
       const includeLedger = excelTemplate === "comprehensive" || excelTemplate === "ledger";
+      const includeAgeing = excelTemplate === "ageing";
+      const includeGstr1 = excelTemplate === "gstr1";
 
       if (format === "excel") {
         const XLSX = await import("xlsx");
@@ -979,7 +1130,13 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
           "Total Paid (₹)",
           "Outstanding (₹)",
         ];
-        const dailyCollectionsHeader = ["Date", "Day", "Collections (₹)", "Entries"];
+        const dailyCollectionsHeader = [
+          "Date",
+          "Day",
+          "Collections (₹)",
+          ...collectionMethodColumns.map((column) => `${column.label} (₹)`),
+          "Entries",
+        ];
         const ledgerHeader = [
           "Customer",
           "Shop",
@@ -990,10 +1147,19 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
           "Rate (₹/kg)",
           "Debit (₹)",
           "Credit (₹)",
+          "Invoice Balance (₹)",
           "Running Balance (₹)",
           "Status",
           "Due Date",
         ];
+        const ageingHeader = [
+          "Customer",
+          "Shop",
+          "Open Invoices",
+          ...AGEING_BUCKETS.map((bucket) => `${bucket.label} (₹)`),
+          "Total (₹)",
+          "Oldest (days past due)",
+        ];
 
         if (includeTeaStock) {
           const rows = teaStockRows.map((row) => [
@@ -1040,11 +1206,12 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
             formatReadableDate(row.date),
             row.dayLabel,
             asExcelNumber(row.amountCollected),
+            ...collectionMethodColumns.map((column) => asExcelNumber(row.methodAmounts[column.key] || 0)),
             row.entries,
           ]);
 
           const sheet = createStyledSheet("Daily Collections", dailyCollectionsHeader, rows, {
-            columnWidths: [20, 20, 20, 14],
+            columnWidths: [20, 20, 20, ...collectionMethodColumns.map(() => 16), 14],
             emptyMessage: "No collections recorded",
           });
           XLSX.utils.book_append_sheet(workbook, sheet, "Daily Collections");
@@ -1062,13 +1229,14 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
             row.rate != null ? asExcelNumber(row.rate) : "",
             asExcelNumber(row.debit),
             asExcelNumber(row.credit),
+            row.typeLabel !== "Payment" ? asExcelNumber(row.balance) : "",
             asExcelNumber(row.runningBalance),
             row.statusLabel,
             row.dueDate ? formatReadableDate(row.dueDate) : "—",
           ]);
 
           const sheet = createStyledSheet("Customer Ledger", ledgerHeader, rows, {
-            columnWidths: [26, 24, 20, 22, 18, 18, 18, 18, 18, 22, 22, 18],
+            columnWidths: [26, 24, 20, 22, 18, 18, 18, 18, 18, 20, 22, 22, 18],
             emptyMessage: "No ledger entries available",
           });
           XLSX.utils.book_append_sheet(workbook, sheet, "Customer Ledger");
@@ -1086,6 +1254,7 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
               row.rate != null ? asExcelNumber(row.rate) : "",
               asExcelNumber(row.debit),
               asExcelNumber(row.credit),
+              row.typeLabel !== "Payment" ? asExcelNumber(row.balance) : "",
               asExcelNumber(row.runningBalance),
               row.statusLabel,
               row.dueDate ? formatReadableDate(row.dueDate) : "—",
@@ -1096,7 +1265,7 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
               ledgerHeader,
               focusRows,
               {
-                columnWidths: [26, 24, 20, 22, 18, 18, 18, 18, 18, 22, 22, 18],
+                columnWidths: [26, 24, 20, 22, 18, 18, 18, 18, 18, 20, 22, 22, 18],
                 emptyMessage: "No ledger entries available",
               }
             );
@@ -1106,6 +1275,45 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
           }
         }
 
+        if (includeAgeing) {
+          const rows = ageingReport.details.map((entry) => [
+            entry.customerName,
+            entry.customer?.shop_name || "—",
+            entry.invoices.length,
+            ...AGEING_BUCKETS.map((bucket) => asExcelNumber(entry.buckets[bucket.key])),
+            asExcelNumber(entry.total),
+            Math.max(entry.oldestDaysPastDue, 0),
+          ]);
+          if (rows.length > 0) {
+            rows.push([
+              "Total",
+              "",
+              ageingReport.summary.invoiceCount,
+              ...AGEING_BUCKETS.map((bucket) => asExcelNumber(ageingReport.summary.buckets[bucket.key])),
+              asExcelNumber(ageingReport.summary.total),
+              "",
+            ]);
+          }
+
+          const sheet = createStyledSheet("Receivables Ageing", ageingHeader, rows, {
+            columnWidths: [26, 24, 14, ...AGEING_BUCKETS.map(() => 18), 18, 20],
+            emptyMessage: "No open invoices",
+          });
+          XLSX.utils.book_append_sheet(workbook, sheet, "Receivables Ageing");
+          appendedSheets.push("Receivables Ageing");
+        }
+
+        if (includeGstr1) {
+          buildGstr1Sections(gstr1Report, asExcelNumber).forEach((section) => {
+            const sheet = createStyledSheet(`${section.title} — ${gstMonth}`, section.headers, section.rows, {
+              columnWidths: section.headers.map((header) => Math.max(header.length + 4, 14)),
+              emptyMessage: section.emptyMessage,
+            });
+            XLSX.utils.book_append_sheet(workbook, sheet, section.title);
+            appendedSheets.push(section.title);
+          });
+        }
+
         if (appendedSheets.length === 0) {
           const fallbackSheet = createStyledSheet(
             "Summary",
@@ -1130,20 +1338,7 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
           description: `Saved ${filename} using the ${templateLabel} template (${sheetSummary}).`,
         });
       } else {
-        const [jsPDFModule, autoTableModule] = await Promise.all([
-          import("jspdf"),
-          import("jspdf-autotable"),
-        ]);
-
-        const jsPDFConstructor = jsPDFModule.jsPDF || (jsPDFModule as any).default;
-        const autoTableFn = (autoTableModule as any).default || (autoTableModule as any).autoTable;
-
-        if (!jsPDFConstructor) {
-          throw new Error("PDF generator failed to load.");
-        }
-        if (!autoTableFn) {
-          throw new Error("PDF table helper failed to load.");
-        }
+        const { jsPDFConstructor, autoTableFn } = await loadPdfTools();
 
         const doc = new jsPDFConstructor({ orientation: "landscape" });
         const pageHeight = doc.internal.pageSize.getHeight();
@@ -1163,7 +1358,7 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
         );
 
         let cursorY = 42;
-        const headStyles = { fillColor: [33, 37, 41], textColor: 255 };
+        const headStyles = PDF_HEAD_STYLES;
 
         const ensureSpace = (height: number) => {
           if (cursorY + height > pageHeight - 20) {
@@ -1275,16 +1470,23 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
 
           autoTableFn(doc, {
             startY: cursorY,
-            head: [["Date", "Day", "Collections (₹)", "Entries"]],
+            head: [[
+              "Date",
+              "Day",
+              "Collections (₹)",
+              ...collectionMethodColumns.map((column) => `${column.label} (₹)`),
+              "Entries",
+            ]],
             body:
               dailyCollectionRows.length > 0
                 ? dailyCollectionRows.map((row) => [
                     formatReadableDate(row.date),
                     row.dayLabel,
                     formatCurrencyValue(row.amountCollected),
+                    ...collectionMethodColumns.map((column) => formatCurrencyValue(row.methodAmounts[column.key] || 0)),
                     row.entries.toString(),
                   ])
-                : [["—", "—", "—", "—"]],
+                : [["—", "—", "—", ...collectionMethodColumns.map(() => "—"), "—"]],
             styles: { fontSize: 8, cellPadding: 2 },
             headStyles,
           });
@@ -1323,11 +1525,12 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
                       : "—",
                     formatCurrencyValue(row.debit),
                     formatCurrencyValue(row.credit),
+                    row.typeLabel !== "Payment" ? formatCurrencyValue(row.balance) : "—",
                     formatCurrencyValue(row.runningBalance),
                     row.statusLabel,
                     row.dueDate ? formatReadableDate(row.dueDate) : "—",
                   ])
-                : [["—", "—", "—", "—", "—", "—", "—", "—", "—", "—"]];
+                : [["—", "—", "—", "—", "—", "—", "—", "—", "—", "—", "—"]];
 
             autoTableFn(doc, {
               startY: cursorY,
@@ -1340,6 +1543,7 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
                   "Rate (₹/kg)",
                   "Debit (₹)",
                   "Credit (₹)",
+                  "Invoice Bal. (₹)",
                   "Running Balance (₹)",
                   "Status",
                   "Due Date",
@@ -1374,7 +1578,78 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
           }
         }
 
-        if (!includeTeaStock && !includeCustomerSummary && !includeDailyCollections && !includeLedger) {
+        if (includeAgeing) {
+          ensureSpace(30);
+
+          doc.setFontSize(13);
+          doc.text("Receivables Ageing", 14, cursorY);
+          cursorY += 4;
+
+          autoTableFn(doc, {
+            startY: cursorY,
+            head: [["Customer", "Shop", "Invoices", ...AGEING_BUCKETS.map((bucket) => `${bucket.label} (₹)`), "Total (₹)"]],
+            body:
+              ageingReport.details.length > 0
+                ? ageingReport.details.map((entry) => [
+                    entry.customerName,
+                    entry.customer?.shop_name || "—",
+                    String(entry.invoices.length),
+                    ...AGEING_BUCKETS.map((bucket) => formatCurrencyValue(entry.buckets[bucket.key])),
+                    formatCurrencyValue(entry.total),
+                  ])
+                : [["—", "—", "—", ...AGEING_BUCKETS.map(() => "—"), "—"]],
+            foot:
+              ageingReport.details.length > 0
+                ? [[
+                    "Total",
+                    "",
+                    String(ageingReport.summary.invoiceCount),
+                    ...AGEING_BUCKETS.map((bucket) => formatCurrencyValue(ageingReport.summary.buckets[bucket.key])),
+                    formatCurrencyValue(ageingReport.summary.total),
+                  ]]
+                : undefined,
+            styles: { fontSize: 8, cellPadding: 2 },
+            headStyles,
+            footStyles: headStyles,
+          });
+
+          pdfSectionsRendered.push("Receivables Ageing");
+
+          cursorY = (doc as any).lastAutoTable?.finalY ?? cursorY + 10;
+          cursorY += 10;
+        }
+
+        if (includeGstr1) {
+          buildGstr1Sections(gstr1Report, formatCurrencyValue).forEach((section) => {
+            ensureSpace(30);
+
+            doc.setFontSize(13);
+            doc.text(`${section.title} — ${gstMonth}`, 14, cursorY);
+            cursorY += 4;
+
+            autoTableFn(doc, {
+              startY: cursorY,
+              head: [section.headers],
+              body: section.rows.length > 0 ? section.rows : [[section.emptyMessage, ...section.headers.slice(1).map(() => "")]],
+              styles: { fontSize: 8, cellPadding: 2 },
+              headStyles,
+            });
+
+            pdfSectionsRendered.push(section.title);
+
+            cursorY = (doc as any).lastAutoTable?.finalY ?? cursorY + 10;
+            cursorY += 10;
+          });
+        }
+
+        if (
+          !includeTeaStock &&
+          !includeCustomerSummary &&
+          !includeDailyCollections &&
+          !includeLedger &&
+          !includeAgeing &&
+          !includeGstr1
+        ) {
           doc.setFontSize(12);
           doc.text("No sections selected for this template.", 14, cursorY);
           pdfSectionsRendered.push("Summary");
@@ -1532,6 +1807,21 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
             </p>
           </div>
 
+          {excelTemplate === "gstr1" && (
+            <div className="space-y-2">
+              <Label htmlFor="gst-month">Return Period</Label>
+              <Input
+                id="gst-month"
+                type="month"
+                value={gstMonth}
+                onChange={(event) => setGstMonth(event.target.value || toMonthValue(new Date()))}
+              />
+              <p className="text-xs text-muted-foreground">
+                Sales and returns made in this month, split as GSTR-1 reports them.
+              </p>
+            </div>
+          )}
+
           <Button onClick={handleDownload} className="w-full" size="lg" disabled={isDownloading}>
             {isDownloading ? "Preparing report…" : "Download Report"}
           </Button>
@@ -1547,7 +1837,7 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
               {sortedBatches.length > 0 ? (
                 sortedBatches.map((batch: any) => {
                   const isDownloadingBatch = activeBatchDownloadId === batch.id;
-                  const isDeletingBatch = activeBatchDeleteId === batch.id;
+                  const isArchivingBatch = activeBatchArchiveId === batch.id;
                   const purchaseDate = batch?.created_at
                     ? formatReadableDate(batch.created_at)
                     : null;
@@ -1573,6 +1863,7 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
                           </span>
                           <span>Sold {soldQuantity.toFixed(2)} kg</span>
                           <span>Added {purchaseDate || "—"}</span>
+                          {batch?.archived_at && <span>Archived {formatReadableDate(batch.archived_at)}</span>}
                         </div>
                       </div>
                       <div className="flex w-full flex-col gap-2 sm:w-auto sm:flex-row sm:justify-end">
@@ -1590,20 +1881,22 @@ const DownloadReports = ({ onBack }: DownloadReportsProps) => {
                           )}
                           Download
                         </Button>
-                        <Button
-                          variant="destructive"
-                          size="sm"
-                          onClick={() => handleDeleteBatch(batch)}
-                          disabled={isDeletingBatch}
-                          className="w-full sm:w-auto"
-                        >
-                          {isDeletingBatch ? (
-                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                          ) : (
-                            <Trash2 className="mr-2 h-4 w-4" />
-                          )}
-                          Delete
-                        </Button>
+                        {!batch?.archived_at && (
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            onClick={() => handleArchiveBatch(batch)}
+                            disabled={isArchivingBatch}
+                            className="w-full sm:w-auto"
+                          >
+                            {isArchivingBatch ? (
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            ) : (
+                              <Archive className="mr-2 h-4 w-4" />
+                            )}
+                            Archive
+                          </Button>
+                        )}
                       </div>
                     </div>
                   );
@@ -14,8 +14,12 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { useCustomers, useDeleteCustomer, usePartnerContactSetting, useTransactions } from "@/lib/hooks";
+import { useCustomers, useArchiveCustomer, usePartnerContactSetting, useTransactions } from "@/lib/hooks";
 import RegisterCustomer from "./RegisterCustomer";
+import StatementDialog from "@/components/common/StatementDialog";
+import CreditHoldBadge from "@/components/common/CreditHoldBadge";
+import { getCreditStatus } from "@/lib/credit";
+import type { Customer } from "@/lib/schemas";
 import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
 import supabase from "@/lib/supabase";
@@ -28,14 +32,15 @@ import {
 } from "@/lib/utils";
 
 const ManageCustomers = ({ onBack }: { onBack?: () => void }) => {
-  const { data: customers, isLoading } = useCustomers();
+  const { data: customers, isLoading } = useCustomers(undefined, { activeOnly: true });
   const { data: transactions } = useTransactions();
   const [editing, setEditing] = useState<any | null>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
-  const deleteCustomer = useDeleteCustomer();
+  const archiveCustomer = useArchiveCustomer();
   const [reminderLoading, setReminderLoading] = useState<string | null>(null);
-  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [archivingId, setArchivingId] = useState<string | null>(null);
+  const [statementCustomer, setStatementCustomer] = useState<Customer | null>(null);
   const { data: partnerContactSetting } = usePartnerContactSetting();
 
   const outstandingMap = useMemo(() => {
@@ -87,28 +92,31 @@ const ManageCustomers = ({ onBack }: { onBack?: () => void }) => {
     else navigate(-1);
   };
 
-  const handleDelete = async (customer: any) => {
+  const handleArchive = async (customer: Customer) => {
     if (!customer?.id) return;
+    const outstanding = getOutstanding(customer);
     const confirmed = window.confirm(
-      `Delete ${customer.full_name || customer.shop_name || "this customer"}? This will also remove their transactions.`
+      `Archive ${customer.full_name || customer.shop_name || "this customer"}? They will be hidden from sales and payments but kept in reports.${
+        outstanding > 0 ? ` They still owe ₹${outstanding.toFixed(2)}.` : ""
+      }`
     );
     if (!confirmed) return;
 
     try {
-      setDeletingId(customer.id);
-      await deleteCustomer.mutateAsync(customer.id);
+      setArchivingId(customer.id);
+      await archiveCustomer.mutateAsync(customer.id);
       toast({
-        title: "Customer deleted",
-        description: `${customer.full_name || customer.shop_name} removed successfully.`,
+        title: "Customer archived",
+        description: `${customer.full_name || customer.shop_name} archived. An admin can restore them from the Archive tab.`,
       });
     } catch (err: any) {
       toast({
-        title: "Delete failed",
-        description: err?.message || "Could not delete customer",
+        title: "Archive failed",
+        description: err?.message || "Could not archive customer",
         variant: "destructive",
       });
     } finally {
-      setDeletingId(null);
+      setArchivingId(null);
     }
   };
 
@@ -144,7 +152,7 @@ const ManageCustomers = ({ onBack }: { onBack?: () => void }) => {
             <div>Loading...</div>
           ) : (
             <div className="overflow-x-auto">
-              <Table className="min-w-[720px]">
+              <Table className="min-w-[800px]">
                 <TableHeader>
                   <TableRow>
                     <TableHead>Name</TableHead>
@@ -152,7 +160,7 @@ const ManageCustomers = ({ onBack }: { onBack?: () => void }) => {
                     <TableHead>Contact</TableHead>
                     <TableHead>WhatsApp</TableHead>
                     <TableHead>Outstanding</TableHead>
-                    <TableHead className="w-[260px]">Actions</TableHead>
+                    <TableHead className="w-[340px]">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -165,7 +173,13 @@ const ManageCustomers = ({ onBack }: { onBack?: () => void }) => {
                       {formatDisplayNumber(customer.whatsapp_number || customer.contact)}
                     </TableCell>
                     <TableCell>
-                      ₹{getOutstanding(customer).toFixed(2)}
+                      <div>₹{getOutstanding(customer).toFixed(2)}</div>
+                      {customer.credit_limit !== null && customer.credit_limit !== undefined && (
+                        <div className="text-xs text-muted-foreground">
+                          Limit ₹{Number(customer.credit_limit).toFixed(2)}
+                        </div>
+                      )}
+                      <CreditHoldBadge status={getCreditStatus(customer, transactions)} />
                     </TableCell>
                     <TableCell>
                       <div className="flex flex-wrap gap-2">
@@ -182,13 +196,16 @@ const ManageCustomers = ({ onBack }: { onBack?: () => void }) => {
                             ? "Sending…"
                             : "Reminder"}
                         </Button>
+                        <Button size="sm" variant="outline" onClick={() => setStatementCustomer(customer)}>
+                          Statement
+                        </Button>
                         <Button
                           size="sm"
                           variant="destructive"
-                          onClick={() => handleDelete(customer)}
-                          disabled={deletingId === customer.id}
+                          onClick={() => handleArchive(customer)}
+                          disabled={archivingId === customer.id}
                         >
-                          {deletingId === customer.id ? "Deleting…" : "Delete"}
+                          {archivingId === customer.id ? "Archiving…" : "Archive"}
                         </Button>
                       </div>
                     </TableCell>
@@ -200,6 +217,7 @@ const ManageCustomers = ({ onBack }: { onBack?: () => void }) => {
           )}
         </CardContent>
       </Card>
+      <StatementDialog customer={statementCustomer} onClose={() => setStatementCustomer(null)} />
     </div>
   );
 };
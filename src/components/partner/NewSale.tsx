@@ -1,14 +1,37 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { ArrowLeft, Search } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ArrowLeft, Plus, Search, Trash2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { useCustomers, useBatches, useRecordSale } from "@/lib/hooks";
-import supabase from "@/lib/supabase";
+import {
+  useBatches,
+  useBusinessGstin,
+  useCreditOverrides,
+  useCustomers,
+  usePriceRules,
+  useRecordOrder,
+  useSchemes,
+  useTransactions,
+  type RecordOrderPayload,
+  type RecordOrderResult,
+} from "@/lib/hooks";
 import { useQueryClient } from "@tanstack/react-query";
+import InvoiceActions from "@/components/common/InvoiceActions";
+import PaymentMethodFields from "@/components/common/PaymentMethodFields";
+import CreditHoldBadge from "@/components/common/CreditHoldBadge";
+import { emptyPaymentDetails, validatePaymentDetails, type PaymentDetails } from "@/lib/payment-methods";
+import { formatInvoiceNumber } from "@/lib/document-numbers";
+import { getAvailableCredit } from "@/lib/returns";
+import { addOutboxEntry, isNetworkError, newClientId } from "@/lib/outbox";
+import { findPendingOverride, getCreditHoldReason, getCreditStatus, isCreditHoldError } from "@/lib/credit";
+import { describeListPrice, isBelowPurchaseRate, resolveListPrice } from "@/lib/pricing";
+import { describeScheme, findEligibleSchemes, getSchemeBenefit, pickBestScheme } from "@/lib/schemes";
+import { computeGst, getCustomerStateCode, getStateFromGstin } from "@/lib/gst";
+import { getStoredUser } from "@/lib/utils";
 
 interface NewSaleProps {
   onBack?: () => void;
@@ -16,20 +39,52 @@ interface NewSaleProps {
 
 // customers will be loaded from Supabase
 
+type SaleLine = {
+  key: number;
+  batchId: string;
+  quantity: string;
+  pricePerKg: string;
+  // Set once the partner types a price; until then the line follows the price list
+  manualPrice: boolean;
+  // "auto" applies the best scheme the line qualifies for, "none" skips schemes, or a scheme id
+  schemeChoice: string;
+};
+
+let nextLineKey = 1;
+const createLine = (): SaleLine => ({
+  key: nextLineKey++,
+  batchId: "",
+  quantity: "",
+  pricePerKg: "",
+  manualPrice: false,
+  schemeChoice: "auto",
+});
+
 const NewSale = ({ onBack }: NewSaleProps) => {
   const { toast } = useToast();
-  const { data: customers, isLoading } = useCustomers();
+  const { data: customers, isLoading } = useCustomers(undefined, { activeOnly: true });
   const qc = useQueryClient();
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCustomer, setSelectedCustomer] = useState<any | null>(null);
-  const { data: batches } = useBatches();
-  const [selectedBatchId, setSelectedBatchId] = useState("");
-  const recordSale = useRecordSale();
-  const [quantity, setQuantity] = useState("");
-  const [pricePerKg, setPricePerKg] = useState("");
+  const { data: batches } = useBatches({ activeOnly: true });
+  const recordOrder = useRecordOrder();
+  const { data: transactions } = useTransactions();
+  const { data: creditOverrides } = useCreditOverrides();
+  const { data: priceRules } = usePriceRules();
+  const { data: schemes } = useSchemes({ activeOnly: true });
+  const { data: businessGstin } = useBusinessGstin();
+  const [lines, setLines] = useState<SaleLine[]>(() => [createLine()]);
   const [paymentType, setPaymentType] = useState<"full" | "partial">("full");
   const [amountPaid, setAmountPaid] = useState("");
+  const [paymentDetails, setPaymentDetails] = useState<PaymentDetails>(emptyPaymentDetails);
   const [dueDate, setDueDate] = useState<string>("");
+  const [applyCredit, setApplyCredit] = useState(true);
+  const [lastSale, setLastSale] = useState<{
+    orderId: string;
+    invoiceNumber: number | null;
+    customerName: string;
+    total: number;
+  } | null>(null);
 
   const getDefaultDueDate = () => {
     const d = new Date();
@@ -37,10 +92,82 @@ const NewSale = ({ onBack }: NewSaleProps) => {
     return d.toISOString().slice(0, 10);
   };
 
-  const totalAmount = quantity && pricePerKg ? parseFloat(quantity) * parseFloat(pricePerKg) : 0;
+  const findBatch = (batchId: string) => (batches || []).find((b) => b.id === batchId);
+
+  const listPrice = (line: SaleLine) =>
+    resolveListPrice(findBatch(line.batchId), priceRules, {
+      customerId: selectedCustomer?.id,
+      quantity: parseFloat(line.quantity),
+    });
+
+  // Lines follow the price list until a price is typed; with no list price the partner must enter one
+  const lineRate = (line: SaleLine) => {
+    if (line.manualPrice) return line.pricePerKg ? parseFloat(line.pricePerKg) : NaN;
+    return listPrice(line)?.rate ?? NaN;
+  };
+
+  const schemeLine = (line: SaleLine) => ({
+    customerId: selectedCustomer?.id,
+    teaName: findBatch(line.batchId)?.name,
+    quantity: parseFloat(line.quantity),
+    rate: lineRate(line),
+  });
+
+  const lineScheme = (line: SaleLine) => {
+    if (line.schemeChoice === "none") return null;
+    if (line.schemeChoice === "auto") return pickBestScheme(schemes, schemeLine(line));
+    return findEligibleSchemes(schemes, schemeLine(line)).find((scheme) => scheme.id === line.schemeChoice) ?? null;
+  };
+
+  const lineBenefit = (line: SaleLine) => {
+    const scheme = lineScheme(line);
+    return scheme
+      ? getSchemeBenefit(scheme, parseFloat(line.quantity), lineRate(line))
+      : { discountAmount: 0, freeQuantity: 0 };
+  };
+
+  // Value before GST, net of any scheme discount, as record_order charges it
+  const lineTaxable = (line: SaleLine) => {
+    const qty = parseFloat(line.quantity);
+    const rate = lineRate(line);
+    if (!Number.isFinite(qty) || !Number.isFinite(rate)) return 0;
+    return Math.round((qty * rate - lineBenefit(line).discountAmount) * 100) / 100;
+  };
+
+  const lineGst = (line: SaleLine) =>
+    computeGst(lineTaxable(line), Number(findBatch(line.batchId)?.gst_rate ?? 0), {
+      placeOfSupply: getCustomerStateCode(selectedCustomer),
+      businessState: getStateFromGstin(businessGstin),
+    });
+
+  const lineTotal = (line: SaleLine) => Math.round((lineTaxable(line) + lineGst(line).tax) * 100) / 100;
+
+  const gstTotals = lines.reduce(
+    (sum, line) => {
+      const gst = lineGst(line);
+      return { taxable: sum.taxable + gst.taxableValue, cgst: sum.cgst + gst.cgst, sgst: sum.sgst + gst.sgst, igst: sum.igst + gst.igst };
+    },
+    { taxable: 0, cgst: 0, sgst: 0, igst: 0 },
+  );
+  const totalAmount = lines.reduce((sum, line) => sum + lineTotal(line), 0);
   const balanceDue = paymentType === "partial" && amountPaid 
     ? totalAmount - parseFloat(amountPaid)
     : 0;
+  const receivesPayment = paymentType === "full" || parseFloat(amountPaid || "0") > 0;
+  // Credit notes from earlier returns can settle the part of a partial payment still owed
+  const availableCredit = selectedCustomer ? getAvailableCredit(transactions, selectedCustomer.id) : 0;
+  const creditToApply = paymentType === "partial" && applyCredit ? Math.min(availableCredit, Math.max(balanceDue, 0)) : 0;
+
+  const creditStatusById = useMemo(
+    () => new Map((customers || []).map((customer) => [customer.id, getCreditStatus(customer, transactions)])),
+    [customers, transactions],
+  );
+  const creditStatus = selectedCustomer ? creditStatusById.get(selectedCustomer.id) ?? null : null;
+  const pendingOverride = selectedCustomer ? findPendingOverride(creditOverrides, selectedCustomer.id) : null;
+  // record_order checks the balance left after the payment and any credit notes
+  const creditHoldReason = creditStatus
+    ? getCreditHoldReason(creditStatus, paymentType === "partial" ? Math.max(balanceDue - creditToApply, 0) : 0)
+    : null;
 
   const filteredCustomers = (customers || []).filter(
     (customer: any) =>
@@ -48,6 +175,24 @@ const NewSale = ({ onBack }: NewSaleProps) => {
       (customer.shop_name || "").toLowerCase().includes(searchTerm.toLowerCase())
   );
 
+  const updateLine = (key: number, patch: Partial<SaleLine>) => {
+    setLines((prev) => prev.map((line) => (line.key === key ? { ...line, ...patch } : line)));
+  };
+
+  const removeLine = (key: number) => {
+    setLines((prev) => (prev.length > 1 ? prev.filter((line) => line.key !== key) : prev));
+  };
+
+  const resetForm = () => {
+    setSelectedCustomer(null);
+    setLines([createLine()]);
+    setPaymentType("full");
+    setAmountPaid("");
+    setPaymentDetails(emptyPaymentDetails());
+    setDueDate("");
+    setApplyCredit(true);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -61,18 +206,57 @@ const NewSale = ({ onBack }: NewSaleProps) => {
     }
 
       try {
-        if (!selectedBatchId) {
-          toast({ title: "Select Batch", description: "Please select a tea batch for this sale.", variant: "destructive" });
+        if (lines.some((line) => !line.batchId)) {
+          toast({ title: "Select Batch", description: "Please select a tea batch for every line.", variant: "destructive" });
+          return;
+        }
+
+        if (lines.some((line) => !(parseFloat(line.quantity) > 0))) {
+          toast({ title: "Quantity Required", description: "Enter a quantity above zero for every line.", variant: "destructive" });
           return;
         }
 
-        // Ensure pricePerKg is set; otherwise use batch purchase rate as default
-        const batch = (batches || []).find((b: any) => b.id === selectedBatchId);
-        if (!batch) {
-          toast({ title: "Batch not found", description: "Selected batch not found.", variant: "destructive" });
+        if (lines.some((line) => !(lineRate(line) >= 0))) {
+          toast({
+            title: "Price Required",
+            description: "Enter a price per kg for every line without a price list rate.",
+            variant: "destructive",
+          });
           return;
         }
 
+        const belowCost = lines.filter((line) => isBelowPurchaseRate(lineRate(line), findBatch(line.batchId)));
+        if (
+          belowCost.length > 0 &&
+          !confirm(
+            `${belowCost.map((line) => findBatch(line.batchId)?.name).join(", ")} would sell below the purchase rate. Save the sale anyway?`,
+          )
+        ) {
+          return;
+        }
+
+        // Check stock per batch, adding up lines that draw from the same batch and free tea from schemes
+        const requested = new Map<string, number>();
+        lines.forEach((line) => {
+          const quantity = parseFloat(line.quantity) + lineBenefit(line).freeQuantity;
+          requested.set(line.batchId, (requested.get(line.batchId) || 0) + quantity);
+        });
+        for (const [batchId, qty] of requested) {
+          const batch = findBatch(batchId);
+          if (!batch) {
+            toast({ title: "Batch not found", description: "Selected batch not found.", variant: "destructive" });
+            return;
+          }
+          if (Number(batch.remaining_quantity || 0) < qty) {
+            toast({
+              title: "Insufficient Stock",
+              description: `${batch.name} has only ${batch.remaining_quantity} kg remaining.`,
+              variant: "destructive",
+            });
+            return;
+          }
+        }
+
         if (paymentType === "partial") {
           if (!amountPaid) {
             toast({ title: "Amount Paid", description: "Enter the amount received for partial payments.", variant: "destructive" });
@@ -98,17 +282,69 @@ const NewSale = ({ onBack }: NewSaleProps) => {
           }
         }
 
-        const salePayload = {
-          batch_id: selectedBatchId,
+        if (creditHoldReason && !pendingOverride) {
+          toast({
+            title: "Credit hold",
+            description: `${creditHoldReason} Take full payment or ask an admin for a credit override.`,
+            variant: "destructive",
+          });
+          return;
+        }
+
+        if (receivesPayment) {
+          const referenceError = validatePaymentDetails(paymentDetails);
+          if (referenceError) {
+            toast({ title: "Payment Reference", description: referenceError, variant: "destructive" });
+            return;
+          }
+        }
+
+        const customerName = selectedCustomer.full_name || selectedCustomer.name;
+        const payload: RecordOrderPayload = {
           customer_id: selectedCustomer.id,
-          quantity: Number(quantity || 0),
-          price_per_kg: Number(pricePerKg || batch.purchase_rate || 0),
-          type: paymentType === "partial" ? "partial" : "sale",
-          paid_amount: paymentType === "partial" ? Number(amountPaid || 0) : undefined,
+          items: lines.map((line) => ({
+            batch_id: line.batchId,
+            quantity: Number(line.quantity || 0),
+            rate: lineRate(line),
+            scheme_id: lineScheme(line)?.id ?? null,
+          })),
+          paid_amount: paymentType === "partial" ? Number(amountPaid || 0) : null,
           due_date: paymentType === "partial" ? dueDate : null,
+          payment: receivesPayment ? paymentDetails : null,
+          apply_credit: creditToApply > 0,
+          client_id: newClientId(),
+        };
+
+        // No connection: keep the sale on the device and replay it from the dashboard later
+        const queueOffline = async () => {
+          await addOutboxEntry({
+            id: payload.client_id,
+            kind: "order",
+            userId: getStoredUser()?.id ?? null,
+            payload: { ...payload, recorded_at: new Date().toISOString() },
+            summary: `${customerName} · ₹${totalAmount.toFixed(2)}`,
+          });
+          toast({
+            title: "Saved offline",
+            description: `Sale for ${customerName} is queued and will sync when you are back online.`,
+          });
+          setLastSale(null);
+          resetForm();
         };
 
-        await recordSale.mutateAsync(salePayload);
+        if (navigator.onLine === false) {
+          await queueOffline();
+          return;
+        }
+
+        let result: RecordOrderResult;
+        try {
+          result = await recordOrder.mutateAsync(payload);
+        } catch (err) {
+          if (!isNetworkError(err)) throw err;
+          await queueOffline();
+          return;
+        }
 
         // refresh lists
         await qc.invalidateQueries({ queryKey: ["transactions"] });
@@ -117,18 +353,30 @@ const NewSale = ({ onBack }: NewSaleProps) => {
 
         toast({
           title: "Transaction Saved",
-          description: `Sale recorded for ${selectedCustomer.full_name || selectedCustomer.name}. Amount: ₹${totalAmount.toFixed(2)}`,
+          description: `Sale recorded for ${customerName}. ${
+            lines.length > 1 ? `${lines.length} items, ` : ""
+          }Amount: ₹${totalAmount.toFixed(2)}${
+            Number(result?.credit_applied || 0) > 0 ? `, credit applied: ₹${Number(result.credit_applied).toFixed(2)}` : ""
+          }`,
         });
 
-        // Reset form
-        setSelectedCustomer(null);
-        setSelectedBatchId("");
-        setQuantity("");
-        setPricePerKg("");
-        setPaymentType("full");
-        setAmountPaid("");
-        setDueDate("");
+        setLastSale(
+          result?.order?.id
+            ? {
+                orderId: result.order.id,
+                invoiceNumber: result.order.invoice_number ?? null,
+                customerName,
+                total: Number(result.total ?? totalAmount),
+              }
+            : null,
+        );
+
+        resetForm();
       } catch (err: any) {
+        if (isCreditHoldError(err)) {
+          toast({ title: "Credit hold", description: err.message.replace(/^credit hold:\s*/i, ""), variant: "destructive" });
+          return;
+        }
         toast({ title: "Error", description: err?.message || "Failed to save transaction" });
       }
   };
@@ -142,6 +390,23 @@ const NewSale = ({ onBack }: NewSaleProps) => {
         </Button>
       )}
 
+      {lastSale && !selectedCustomer && (
+        <Card className="border-success">
+          <CardHeader>
+            <CardTitle>Sale Saved — Invoice {formatInvoiceNumber(lastSale.invoiceNumber)}</CardTitle>
+            <CardDescription>
+              {lastSale.customerName} · ₹{lastSale.total.toFixed(2)}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <InvoiceActions orderId={lastSale.orderId} />
+            <Button type="button" variant="ghost" size="sm" onClick={() => setLastSale(null)}>
+              Dismiss
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       {!selectedCustomer ? (
         <Card>
           <CardHeader>
@@ -168,8 +433,16 @@ const NewSale = ({ onBack }: NewSaleProps) => {
                     onClick={() => setSelectedCustomer(customer)}
                   >
                     <CardContent className="p-4">
-                      <div className="font-medium">{customer.full_name || customer.name}</div>
-                      <div className="text-sm text-muted-foreground">{customer.shop_name || customer.shop}</div>
+                      <div className="flex items-start justify-between gap-2">
+                        <div>
+                          <div className="font-medium">{customer.full_name}</div>
+                          <div className="text-sm text-muted-foreground">{customer.shop_name}</div>
+                        </div>
+                        <CreditHoldBadge
+                          status={creditStatusById.get(customer.id)}
+                          overridden={Boolean(findPendingOverride(creditOverrides, customer.id))}
+                        />
+                      </div>
                     </CardContent>
                   </Card>
                 ))}
@@ -187,53 +460,159 @@ const NewSale = ({ onBack }: NewSaleProps) => {
           </CardHeader>
           <CardContent>
             <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="grid gap-4 md:grid-cols-2">
-                <div className="space-y-2">
-                  <Label htmlFor="batch">Tea Batch *</Label>
-                  <select
-                    id="batch"
-                    className="w-full px-3 py-2 border rounded-md"
-                    value={selectedBatchId}
-                    onChange={(e) => setSelectedBatchId(e.target.value)}
-                    required
-                  >
-                    <option value="">Select tea batch</option>
-                    {(batches || []).map((b: any) => (
-                      <option key={b.id} value={b.id}>
-                        {b.name} — remaining: {b.remaining_quantity} kg @ ₹{b.purchase_rate}
-                      </option>
-                    ))}
-                  </select>
-                </div>
+              <div className="space-y-3">
+                {lines.map((line, index) => {
+                  const total = lineTotal(line);
+                  const batch = findBatch(line.batchId);
+                  const price = listPrice(line);
+                  const rate = lineRate(line);
+                  const eligibleSchemes = findEligibleSchemes(schemes, schemeLine(line));
+                  const scheme = lineScheme(line);
+                  const benefit = lineBenefit(line);
+                  return (
+                    <div key={line.key} className="rounded-lg border p-3 space-y-3">
+                      <div className="flex items-center justify-between">
+                        <div className="text-sm font-medium">Item {index + 1}</div>
+                        {lines.length > 1 && (
+                          <Button type="button" variant="ghost" size="sm" onClick={() => removeLine(line.key)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                      <div className="grid gap-4 md:grid-cols-3">
+                        <div className="space-y-2">
+                          <Label htmlFor={`batch-${line.key}`}>Tea Batch *</Label>
+                          <select
+                            id={`batch-${line.key}`}
+                            className="w-full px-3 py-2 border rounded-md"
+                            value={line.batchId}
+                            onChange={(e) => updateLine(line.key, { batchId: e.target.value })}
+                            required
+                          >
+                            <option value="">Select tea batch</option>
+                            {(batches || []).map((b) => (
+                              <option key={b.id} value={b.id}>
+                                {b.name} — remaining: {b.remaining_quantity} kg @ ₹{b.purchase_rate}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="quantity">Quantity (kg) *</Label>
-                  <Input
-                    id="quantity"
-                    type="number"
-                    step="0.01"
-                    value={quantity}
-                    onChange={(e) => setQuantity(e.target.value)}
-                    placeholder="Enter quantity in kg"
-                    required
-                  />
-                </div>
+                        <div className="space-y-2">
+                          <Label htmlFor={`quantity-${line.key}`}>Quantity (kg) *</Label>
+                          <Input
+                            id={`quantity-${line.key}`}
+                            type="number"
+                            step="0.01"
+                            value={line.quantity}
+                            onChange={(e) => updateLine(line.key, { quantity: e.target.value })}
+                            placeholder="Enter quantity in kg"
+                            required
+                          />
+                        </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="pricePerKg">Price per kg (₹) (leave empty to use purchase rate)</Label>
-                  <Input
-                    id="pricePerKg"
-                    type="number"
-                    step="0.01"
-                    value={pricePerKg}
-                    onChange={(e) => setPricePerKg(e.target.value)}
-                    placeholder="Enter price per kg or leave blank"
-                  />
-                </div>
+                        <div className="space-y-2">
+                          <Label htmlFor={`price-${line.key}`}>Price per kg (₹)</Label>
+                          <Input
+                            id={`price-${line.key}`}
+                            type="number"
+                            step="0.01"
+                            value={line.manualPrice ? line.pricePerKg : price ? String(price.rate) : ""}
+                            onChange={(e) => updateLine(line.key, { pricePerKg: e.target.value, manualPrice: true })}
+                            placeholder={batch ? "No list price, enter a rate" : "Select a batch first"}
+                          />
+                          {!line.manualPrice && price && (
+                            <p className="text-xs text-muted-foreground">{describeListPrice(price)}</p>
+                          )}
+                          {line.manualPrice && price && rate !== price.rate && (
+                            <Button
+                              type="button"
+                              variant="link"
+                              size="sm"
+                              className="h-auto p-0 text-xs"
+                              onClick={() => updateLine(line.key, { pricePerKg: "", manualPrice: false })}
+                            >
+                              Use {describeListPrice(price).toLowerCase()} (₹{price.rate.toFixed(2)})
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                      {(eligibleSchemes.length > 0 || line.schemeChoice !== "auto") && (
+                        <div className="space-y-2">
+                          <Label htmlFor={`scheme-${line.key}`}>Scheme</Label>
+                          <select
+                            id={`scheme-${line.key}`}
+                            className="w-full px-3 py-2 border rounded-md"
+                            value={line.schemeChoice}
+                            onChange={(e) => updateLine(line.key, { schemeChoice: e.target.value })}
+                          >
+                            <option value="auto">Best available</option>
+                            <option value="none">No scheme</option>
+                            {eligibleSchemes.map((option) => (
+                              <option key={option.id} value={option.id}>
+                                {option.name} — {describeScheme(option)}
+                              </option>
+                            ))}
+                          </select>
+                          {scheme && (
+                            <p className="text-xs text-muted-foreground">
+                              {scheme.name}:{" "}
+                              {benefit.freeQuantity > 0
+                                ? `${benefit.freeQuantity} kg free, taken from the same batch`
+                                : `₹${benefit.discountAmount.toFixed(2)} off`}
+                            </p>
+                          )}
+                        </div>
+                      )}
+                      {isBelowPurchaseRate(rate, batch) && (
+                        <div className="text-sm text-destructive">
+                          Below the purchase rate of ₹{Number(batch.purchase_rate).toFixed(2)}/kg for {batch.name}.
+                        </div>
+                      )}
+                      {total > 0 && (
+                        <div className="text-sm text-muted-foreground text-right">
+                          Line total: ₹{total.toFixed(2)}
+                          {Number(batch?.gst_rate ?? 0) > 0 && ` incl. ${Number(batch.gst_rate)}% GST`}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+
+                <Button type="button" variant="outline" size="sm" onClick={() => setLines((prev) => [...prev, createLine()])}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Another Tea
+                </Button>
               </div>
 
+              {creditStatus?.onHold && (
+                <div className="p-4 border border-destructive/50 rounded-lg space-y-1">
+                  <div className="flex items-center gap-2 font-semibold">
+                    <CreditHoldBadge status={creditStatus} overridden={Boolean(pendingOverride)} />
+                    Owes ₹{creditStatus.outstanding.toFixed(2)}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {pendingOverride
+                      ? `An admin allowed the next sale on credit: ${pendingOverride.reason}`
+                      : "New sales must be paid in full until the customer pays down their balance or an admin grants an override."}
+                  </p>
+                </div>
+              )}
+
               {totalAmount > 0 && (
-                <div className="p-4 bg-muted rounded-lg">
+                <div className="p-4 bg-muted rounded-lg space-y-1">
+                  {gstTotals.cgst + gstTotals.sgst + gstTotals.igst > 0 && (
+                    <div className="text-sm text-muted-foreground space-y-0.5">
+                      <div>Taxable value: ₹{gstTotals.taxable.toFixed(2)}</div>
+                      {gstTotals.igst > 0 ? (
+                        <div>IGST: ₹{gstTotals.igst.toFixed(2)}</div>
+                      ) : (
+                        <div>
+                          CGST: ₹{gstTotals.cgst.toFixed(2)} · SGST: ₹{gstTotals.sgst.toFixed(2)}
+                        </div>
+                      )}
+                    </div>
+                  )}
                   <div className="text-lg font-semibold">
                     Total Amount: ₹{totalAmount.toFixed(2)}
                   </div>
@@ -297,16 +676,41 @@ const NewSale = ({ onBack }: NewSaleProps) => {
                     </p>
                   </div>
 
+                  {availableCredit > 0 && (
+                    <div className="flex items-center space-x-2">
+                      <Checkbox id="applyCredit" checked={applyCredit} onCheckedChange={(value) => setApplyCredit(value === true)} />
+                      <Label htmlFor="applyCredit" className="font-normal cursor-pointer">
+                        Apply available credit notes (₹{availableCredit.toFixed(2)})
+                      </Label>
+                    </div>
+                  )}
+
                   {amountPaid && (
                     <div className="p-4 bg-warning/10 border border-warning rounded-lg">
                       <div className="font-semibold text-warning">
-                        Balance Due: ₹{balanceDue.toFixed(2)}
+                        Balance Due: ₹{Math.max(balanceDue - creditToApply, 0).toFixed(2)}
                       </div>
+                      {creditToApply > 0 && (
+                        <div className="text-sm text-muted-foreground">Includes ₹{creditToApply.toFixed(2)} of credit notes applied</div>
+                      )}
+                      {creditHoldReason && (
+                        <div className={`text-sm ${pendingOverride ? "text-muted-foreground" : "text-destructive"}`}>
+                          {creditHoldReason} {pendingOverride ? "Allowed by the admin override." : "Take full payment instead."}
+                        </div>
+                      )}
                     </div>
                   )}
                 </>
               )}
 
+              {receivesPayment && (
+                <PaymentMethodFields
+                  idPrefix="sale-payment"
+                  value={paymentDetails}
+                  onChange={setPaymentDetails}
+                />
+              )}
+
               <div className="flex gap-2">
                 <Button
                   type="button"
@@ -316,8 +720,8 @@ const NewSale = ({ onBack }: NewSaleProps) => {
                 >
                   Change Customer
                 </Button>
-                <Button type="submit" className="flex-1">
-                  Save Transaction
+                <Button type="submit" className="flex-1" disabled={recordOrder.status === "pending"}>
+                  {recordOrder.status === "pending" ? "Saving…" : "Save Transaction"}
                 </Button>
               </div>
             </form>
@@ -0,0 +1,103 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CloudOff } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useOutbox, useResolveOutboxEntry, useSyncOutbox } from "@/lib/hooks";
+import type { OutboxEntry } from "@/lib/outbox";
+
+const KIND_LABELS: Record<OutboxEntry["kind"], string> = {
+  order: "Sale",
+  payment: "Payment",
+};
+
+// Sales and payments captured offline that have not reached the server yet. Conflicts need a
+// decision: retry once the cause is fixed (e.g. stock added) or discard the entry.
+const OutboxPanel = () => {
+  const { toast } = useToast();
+  const { data: entries } = useOutbox();
+  const sync = useSyncOutbox();
+  const resolve = useResolveOutboxEntry();
+
+  if (!entries || entries.length === 0) return null;
+
+  const pendingCount = entries.filter((entry) => entry.status === "pending").length;
+  const conflictCount = entries.length - pendingCount;
+  const busy = sync.status === "pending" || resolve.status === "pending";
+
+  const handleSync = async () => {
+    try {
+      const result = await sync.mutateAsync();
+      if (result.pending > 0) {
+        toast({ title: "Still offline", description: "The server could not be reached. Entries stay queued.", variant: "destructive" });
+      } else {
+        toast({
+          title: "Sync finished",
+          description: `${result.synced} saved${result.conflicts > 0 ? `, ${result.conflicts} rejected` : ""}.`,
+        });
+      }
+    } catch (err: any) {
+      toast({ title: "Sync failed", description: err?.message || "Unable to sync queued entries.", variant: "destructive" });
+    }
+  };
+
+  const handleRetry = async (entry: OutboxEntry) => {
+    await resolve.mutateAsync({ id: entry.id, action: "retry" });
+    await handleSync();
+  };
+
+  const handleDiscard = async (entry: OutboxEntry) => {
+    if (!window.confirm(`Discard this queued ${KIND_LABELS[entry.kind].toLowerCase()} (${entry.summary})? It will not be recorded.`)) return;
+    await resolve.mutateAsync({ id: entry.id, action: "discard" });
+    toast({ title: "Discarded", description: entry.summary });
+  };
+
+  return (
+    <Card className={conflictCount > 0 ? "border-destructive" : "border-amber-500"}>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="flex items-center space-x-3">
+            <CloudOff className="h-5 w-5 text-muted-foreground" />
+            <div>
+              <CardTitle>Waiting to Sync</CardTitle>
+              <CardDescription>
+                {pendingCount} pending{conflictCount > 0 ? ` · ${conflictCount} need attention` : ""}
+              </CardDescription>
+            </div>
+          </div>
+          <Button size="sm" variant="outline" onClick={handleSync} disabled={busy || pendingCount === 0}>
+            {sync.status === "pending" ? "Syncing…" : "Sync now"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {entries.map((entry) => (
+          <div key={entry.id} className="flex flex-wrap items-start justify-between gap-3 rounded-md border p-3 text-sm">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary">{KIND_LABELS[entry.kind]}</Badge>
+                <span className="font-medium">{entry.summary}</span>
+              </div>
+              <div className="text-xs text-muted-foreground">Captured {new Date(entry.createdAt).toLocaleString()}</div>
+              {entry.status === "conflict" && <div className="text-xs text-destructive">{entry.error}</div>}
+            </div>
+            {entry.status === "conflict" ? (
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" disabled={busy} onClick={() => handleRetry(entry)}>
+                  Retry
+                </Button>
+                <Button size="sm" variant="destructive" disabled={busy} onClick={() => handleDiscard(entry)}>
+                  Discard
+                </Button>
+              </div>
+            ) : (
+              <Badge variant="outline">Pending</Badge>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OutboxPanel;
@@ -0,0 +1,318 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Search } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { useToast } from "@/hooks/use-toast";
+import { useCustomers, useRecordReturn, useTransactions } from "@/lib/hooks";
+import { formatCreditNoteNumber, getAvailableCredit, getReturnableQuantity, isReturnableSale, isReturnTransaction } from "@/lib/returns";
+import type { Customer, Transaction } from "@/lib/schemas";
+import { formatReadableDate } from "@/lib/utils";
+
+type ReturnableSale = Transaction & { returnable: number };
+
+interface RecordReturnProps {
+  onBack?: () => void;
+}
+
+const RecordReturn = ({ onBack }: RecordReturnProps) => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { data: customers, isLoading } = useCustomers(undefined, { activeOnly: true });
+  const { data: transactions } = useTransactions();
+  const recordReturn = useRecordReturn();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+  const [selectedSale, setSelectedSale] = useState<ReturnableSale | null>(null);
+  const [quantity, setQuantity] = useState("");
+  const [reason, setReason] = useState("");
+  const [lastCreditNote, setLastCreditNote] = useState<{
+    creditNoteNumber: number | null;
+    customerName: string;
+    value: number;
+    applied: number;
+    credit: number;
+  } | null>(null);
+
+  const filteredCustomers = (customers || []).filter(
+    (customer) =>
+      (customer.full_name || "").toLowerCase().includes(searchTerm.toLowerCase()) ||
+      (customer.shop_name || "").toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const customerTransactions = useMemo(
+    () => (transactions || []).filter((txn) => selectedCustomer && txn.customer_id === selectedCustomer.id),
+    [transactions, selectedCustomer],
+  );
+
+  const returnableSales = useMemo(
+    () =>
+      customerTransactions
+        .filter((txn) => isReturnableSale(txn))
+        .map((txn): ReturnableSale => ({ ...txn, returnable: getReturnableQuantity(txn, customerTransactions) }))
+        .filter((txn) => txn.returnable > 0),
+    [customerTransactions],
+  );
+
+  const pastReturns = customerTransactions.filter((txn) => isReturnTransaction(txn));
+  const availableCredit = selectedCustomer ? getAvailableCredit(customerTransactions, selectedCustomer.id) : 0;
+
+  const saleRate = (sale: Transaction) =>
+    Number(sale?.rate ?? (Number(sale?.quantity) ? Number(sale.amount || 0) / Number(sale.quantity) : 0));
+  const returnValue = selectedSale ? Math.round(parseFloat(quantity || "0") * saleRate(selectedSale) * 100) / 100 : 0;
+
+  const handleBack = () => {
+    if (onBack) onBack();
+    else navigate(-1);
+  };
+
+  const resetSale = () => {
+    setSelectedSale(null);
+    setQuantity("");
+    setReason("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedSale) return;
+
+    const qty = parseFloat(quantity);
+    if (!(qty > 0)) {
+      toast({ title: "Quantity Required", description: "Enter the quantity being returned.", variant: "destructive" });
+      return;
+    }
+    if (qty > selectedSale.returnable) {
+      toast({
+        title: "Too much returned",
+        description: `Only ${selectedSale.returnable} kg of this sale can still be returned.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const result = await recordReturn.mutateAsync({ sale_id: selectedSale.id, quantity: qty, reason: reason.trim() || null });
+      const applied = Number(result?.applied || 0);
+      const credit = Number(result?.credit || 0);
+      toast({
+        title: "Return recorded",
+        description: `${qty} kg of ${selectedSale.tea_name || "tea"} restocked. Credit note ${formatCreditNoteNumber(
+          result?.return?.credit_note_number,
+        )} for ₹${(applied + credit).toFixed(2)}.`,
+      });
+      setLastCreditNote({
+        creditNoteNumber: result?.return?.credit_note_number ?? null,
+        customerName: selectedCustomer.full_name || selectedCustomer.shop_name || "Customer",
+        value: applied + credit,
+        applied,
+        credit,
+      });
+      resetSale();
+    } catch (err: any) {
+      toast({ title: "Return failed", description: err?.message || "Unable to record the return.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Button variant="ghost" onClick={handleBack}>
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Back
+      </Button>
+
+      {lastCreditNote && (
+        <Card className="border-success">
+          <CardHeader>
+            <CardTitle>Return Saved — Credit Note {formatCreditNoteNumber(lastCreditNote.creditNoteNumber)}</CardTitle>
+            <CardDescription>
+              {lastCreditNote.customerName} · ₹{lastCreditNote.value.toFixed(2)}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            {lastCreditNote.applied > 0 && <div>₹{lastCreditNote.applied.toFixed(2)} settled the balance on the original sale.</div>}
+            {lastCreditNote.credit > 0 && (
+              <div>₹{lastCreditNote.credit.toFixed(2)} is kept as credit and can be applied to the customer's next sale.</div>
+            )}
+            <Button type="button" variant="ghost" size="sm" onClick={() => setLastCreditNote(null)}>
+              Dismiss
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {!selectedCustomer ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Record Return</CardTitle>
+            <CardDescription>Select the customer returning tea</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by name or shop..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {isLoading ? (
+                <div>Loading customers...</div>
+              ) : (
+                filteredCustomers.map((customer) => (
+                  <Card
+                    key={customer.id}
+                    className="cursor-pointer hover:bg-accent transition-colors"
+                    onClick={() => {
+                      setSelectedCustomer(customer);
+                      setLastCreditNote(null);
+                      resetSale();
+                    }}
+                  >
+                    <CardContent className="p-4">
+                      <div className="font-medium">{customer.full_name || customer.shop_name}</div>
+                      <div className="text-sm text-muted-foreground">{customer.shop_name}</div>
+                    </CardContent>
+                  </Card>
+                ))
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>Return from {selectedCustomer.full_name || selectedCustomer.shop_name}</CardTitle>
+            <CardDescription>
+              Pick the sale being returned. Available credit: ₹{availableCredit.toFixed(2)}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {returnableSales.length === 0 ? (
+              <div className="text-sm text-muted-foreground">This customer has no sales that can be returned.</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table className="min-w-[640px]">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Tea</TableHead>
+                      <TableHead className="text-right">Sold (kg)</TableHead>
+                      <TableHead className="text-right">Returnable (kg)</TableHead>
+                      <TableHead className="text-right">Rate</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {returnableSales.map((sale) => (
+                      <TableRow key={sale.id} className={selectedSale?.id === sale.id ? "bg-accent" : undefined}>
+                        <TableCell>{formatReadableDate(sale.created_at)}</TableCell>
+                        <TableCell>{sale.tea_name || "—"}</TableCell>
+                        <TableCell className="text-right">{Number(sale.quantity || 0)}</TableCell>
+                        <TableCell className="text-right">{sale.returnable}</TableCell>
+                        <TableCell className="text-right">₹{saleRate(sale).toFixed(2)}</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            size="sm"
+                            variant={selectedSale?.id === sale.id ? "default" : "outline"}
+                            onClick={() => {
+                              setSelectedSale(sale);
+                              setQuantity("");
+                            }}
+                          >
+                            Select
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {selectedSale && (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="returnQuantity">Quantity Returned (kg) *</Label>
+                    <Input
+                      id="returnQuantity"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max={selectedSale.returnable}
+                      value={quantity}
+                      onChange={(e) => setQuantity(e.target.value)}
+                      placeholder={`Up to ${selectedSale.returnable} kg`}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Credit Value</Label>
+                    <div className="p-2 text-lg font-semibold">₹{returnValue.toFixed(2)}</div>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="returnReason">Reason</Label>
+                  <Textarea
+                    id="returnReason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Damaged packets, unsold stock…"
+                    rows={2}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  The quantity goes back into the batch stock. The credit first reduces what is still owed on this sale; the
+                  rest becomes a credit note for future sales.
+                </p>
+                <div className="flex gap-2">
+                  <Button type="button" variant="outline" className="flex-1" onClick={resetSale}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" className="flex-1" disabled={recordReturn.status === "pending"}>
+                    {recordReturn.status === "pending" ? "Saving…" : "Record Return"}
+                  </Button>
+                </div>
+              </form>
+            )}
+
+            {pastReturns.length > 0 && (
+              <div className="space-y-2">
+                <div className="text-sm font-medium">Earlier returns</div>
+                {pastReturns.map((txn) => (
+                  <div key={txn.id} className="flex justify-between rounded-md border p-2 text-sm">
+                    <div>
+                      {formatCreditNoteNumber(txn.credit_note_number)} · {txn.tea_name || "Tea"} · {Math.abs(Number(txn.quantity || 0))} kg
+                      <div className="text-xs text-muted-foreground">
+                        {formatReadableDate(txn.created_at)}
+                        {txn.return_reason ? ` · ${txn.return_reason}` : ""}
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      ₹{Math.abs(Number(txn.amount || 0)).toFixed(2)}
+                      {Number(txn.balance || 0) < 0 && (
+                        <div className="text-xs text-muted-foreground">₹{(-Number(txn.balance)).toFixed(2)} unused</div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <Button type="button" variant="outline" onClick={() => setSelectedCustomer(null)}>
+              Change Customer
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default RecordReturn;
@@ -7,6 +7,7 @@ import { ArrowLeft } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAddCustomer, useUpdateCustomer } from "@/lib/hooks";
 import { formatPhoneForDisplay, normalizePhoneNumber } from "@/lib/utils";
+import { GST_STATES, getStateFromGstin, isValidGstin, normaliseGstin } from "@/lib/gst";
 
 interface RegisterCustomerProps {
   onBack?: () => void;
@@ -23,6 +24,10 @@ const RegisterCustomer = ({ onBack, editingCustomer = null, onSaved }: RegisterC
     address: "",
     contactNumber: "",
     whatsappNumber: "",
+    creditLimit: "",
+    maxOverdueDays: "",
+    gstin: "",
+    stateCode: "",
   });
 
   const mutation = useAddCustomer();
@@ -55,6 +60,38 @@ const RegisterCustomer = ({ onBack, editingCustomer = null, onSaved }: RegisterC
         }
       }
 
+      // Blank credit fields mean no limit
+      const creditLimit = formData.creditLimit.trim() === "" ? null : Number(formData.creditLimit);
+      const maxOverdueDays = formData.maxOverdueDays.trim() === "" ? null : Number(formData.maxOverdueDays);
+      if (creditLimit !== null && (!Number.isFinite(creditLimit) || creditLimit < 0)) {
+        toast({
+          title: "Invalid credit limit",
+          description: "Enter the credit limit in rupees, 0 for cash only, or leave it blank for no limit.",
+          variant: "destructive",
+        });
+        return;
+      }
+      if (maxOverdueDays !== null && (!Number.isInteger(maxOverdueDays) || maxOverdueDays < 0)) {
+        toast({
+          title: "Invalid overdue days",
+          description: "Enter a whole number of days or leave it blank for no limit.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // A registered customer's state comes from their GSTIN; the database keeps the two in step
+      const gstin = normaliseGstin(formData.gstin);
+      if (gstin && !isValidGstin(gstin)) {
+        toast({
+          title: "Invalid GSTIN",
+          description: "Enter the customer's 15-character GSTIN, or leave it blank for an unregistered customer.",
+          variant: "destructive",
+        });
+        return;
+      }
+      const stateCode = getStateFromGstin(gstin) ?? (formData.stateCode || null);
+
       if (editingCustomer) {
         await updateMutation.mutateAsync({
           id: editingCustomer.id,
@@ -64,6 +101,10 @@ const RegisterCustomer = ({ onBack, editingCustomer = null, onSaved }: RegisterC
             address: formData.address,
             contact: normalizedContact,
             whatsapp_number: normalizedWhatsapp,
+            credit_limit: creditLimit,
+            max_overdue_days: maxOverdueDays,
+            gstin,
+            state_code: stateCode,
           },
         });
       } else {
@@ -73,12 +114,16 @@ const RegisterCustomer = ({ onBack, editingCustomer = null, onSaved }: RegisterC
           address: formData.address,
           contact: normalizedContact,
           whatsapp_number: normalizedWhatsapp,
+          credit_limit: creditLimit,
+          max_overdue_days: maxOverdueDays,
+          gstin,
+          state_code: stateCode,
         });
       }
 
       toast({ title: editingCustomer ? "Customer Updated" : "Customer Registered", description: `${formData.fullName} has been ${editingCustomer ? 'updated' : 'added'} to the system.` });
 
-  setFormData({ fullName: "", shopName: "", address: "", contactNumber: "", whatsappNumber: "" });
+  setFormData({ fullName: "", shopName: "", address: "", contactNumber: "", whatsappNumber: "", creditLimit: "", maxOverdueDays: "", gstin: "", stateCode: "" });
       if (onSaved) onSaved();
     } catch (err: any) {
       toast({
@@ -107,6 +152,10 @@ const RegisterCustomer = ({ onBack, editingCustomer = null, onSaved }: RegisterC
         address: editingCustomer.address ?? '',
         contactNumber: contactDisplay,
         whatsappNumber: whatsappDisplay,
+        creditLimit: editingCustomer.credit_limit != null ? String(editingCustomer.credit_limit) : "",
+        maxOverdueDays: editingCustomer.max_overdue_days != null ? String(editingCustomer.max_overdue_days) : "",
+        gstin: editingCustomer.gstin ?? "",
+        stateCode: editingCustomer.state_code ?? "",
       });
     }
   }, [editingCustomer]);
@@ -209,6 +258,73 @@ const RegisterCustomer = ({ onBack, editingCustomer = null, onSaved }: RegisterC
               />
             </div>
 
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="creditLimit">Credit Limit (₹, optional)</Label>
+                <Input
+                  id="creditLimit"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.creditLimit}
+                  onChange={(e) => setFormData({ ...formData, creditLimit: e.target.value })}
+                  placeholder="No limit"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="maxOverdueDays">Max Overdue Days (optional)</Label>
+                <Input
+                  id="maxOverdueDays"
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={formData.maxOverdueDays}
+                  onChange={(e) => setFormData({ ...formData, maxOverdueDays: e.target.value })}
+                  placeholder="No limit"
+                />
+              </div>
+              <p className="text-xs text-muted-foreground sm:col-span-2">
+                Sales on credit are refused once the customer would owe more than the limit, or while an invoice is
+                overdue by more than these days. Fully paid sales are always allowed.
+              </p>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="gstin">GSTIN (optional)</Label>
+                <Input
+                  id="gstin"
+                  value={formData.gstin}
+                  onChange={(e) => {
+                    const gstin = e.target.value.toUpperCase().replace(/[^0-9A-Z]/g, "").slice(0, 15);
+                    setFormData({ ...formData, gstin, stateCode: getStateFromGstin(gstin) ?? formData.stateCode });
+                  }}
+                  placeholder="Unregistered"
+                  maxLength={15}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="stateCode">State</Label>
+                <select
+                  id="stateCode"
+                  className="w-full px-3 py-2 border rounded-md"
+                  value={formData.stateCode}
+                  onChange={(e) => setFormData({ ...formData, stateCode: e.target.value })}
+                  disabled={isValidGstin(formData.gstin)}
+                >
+                  <option value="">Same as business</option>
+                  {GST_STATES.map((state) => (
+                    <option key={state.code} value={state.code}>
+                      {state.code} - {state.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <p className="text-xs text-muted-foreground sm:col-span-2">
+                Registered customers get B2B tax invoices. Sales to another state are charged IGST instead of CGST and SGST.
+              </p>
+            </div>
+
             <Button type="submit" className="w-full" disabled={mutation.status === "pending"}>
               {mutation.status === "pending" ? "Registering..." : "Register Customer"}
             </Button>
@@ -6,6 +6,7 @@ import {
   normalizePhoneNumber,
 } from "@/lib/utils";
 import { composeReminderMessage, sendReminderMessage } from "@/lib/reminders";
+import { fetchPartnerContactNumber } from "@/lib/reminder-actions";
 
 const STORAGE_PREFIX = "auto-reminder-sent-";
 
@@ -92,7 +93,7 @@ const useAutoReminder = () => {
       const { data, error } = await supabase
         .from("transactions")
         .select(
-          "id, customer_id, due_date, balance, amount, paid_amount, tea_name, created_at, customer:customers(full_name, shop_name, whatsapp_number, contact)"
+          "id, customer_id, partner_id, due_date, balance, amount, paid_amount, tea_name, created_at, customer:customers(full_name, shop_name, whatsapp_number, contact)"
         )
         .not("due_date", "is", null)
         .gt("balance", 0)
@@ -126,6 +127,7 @@ const useAutoReminder = () => {
         if (!normalized) continue;
 
         const lastPaymentDate = await fetchLastPaymentDate(transaction.customer_id);
+        const contactNumber = (await fetchPartnerContactNumber(transaction.partner_id)) ?? partnerNumber;
         const amountDue = Number(transaction.balance || 0);
 
         if (amountDue <= 0) {
@@ -153,12 +155,12 @@ const useAutoReminder = () => {
           totalOutstanding: Math.max(amountDue, invoiceBalance),
           dueDate: transaction.due_date,
           lastPaymentDate,
-          partnerNumber,
+          partnerNumber: contactNumber,
         });
         const result = await sendReminderMessage({
           toNumber: normalized,
           message,
-          partnerNumber,
+          partnerNumber: contactNumber,
           auto: true,
         });
 
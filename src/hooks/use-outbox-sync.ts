@@ -0,0 +1,39 @@
+import { useEffect } from "react";
+import { useSyncOutbox } from "@/lib/hooks";
+import { useToast } from "@/hooks/use-toast";
+
+// Replays the offline outbox when the partner portal opens and whenever the device comes back
+// online, and reports what happened
+export const useOutboxSync = (enabled = true) => {
+  const { mutateAsync } = useSyncOutbox();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const run = async () => {
+      if (typeof navigator !== "undefined" && navigator.onLine === false) return;
+      try {
+        const result = await mutateAsync();
+        if (result.synced > 0) {
+          toast({ title: "Offline entries synced", description: `${result.synced} queued sale(s)/payment(s) saved.` });
+        }
+        if (result.conflicts > 0) {
+          toast({
+            title: "Sync conflicts",
+            description: `${result.conflicts} queued entr${result.conflicts === 1 ? "y was" : "ies were"} rejected. Review them on the dashboard.`,
+            variant: "destructive",
+          });
+        }
+      } catch (err) {
+        console.error("Offline outbox sync failed", err);
+      }
+    };
+
+    run();
+    window.addEventListener("online", run);
+    return () => window.removeEventListener("online", run);
+  }, [enabled, mutateAsync, toast]);
+};
+
+export default useOutboxSync;
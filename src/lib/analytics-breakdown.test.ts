@@ -0,0 +1,522 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildAgeingReport,
+  buildCollectionBreakdown,
+  buildOutstandingBreakdown,
+  buildPartnerComparison,
+  buildPnlBreakdown,
+  getAgeingBucket,
+  getDaysPastDue,
+  summarizeByPaymentMethod,
+} from "./analytics-breakdown";
+import { computeTransactionSummary } from "./utils";
+import {
+  batchPnl,
+  customers,
+  fullDataset,
+  fullyPaidSale,
+  makeBatchPnl,
+  makeTransaction,
+  orphanedBatchSale,
+  partialPayment,
+  partialSale,
+  paymentsOnly,
+  unknownCustomerRows,
+} from "@/test/fixtures";
+
+describe("buildCollectionBreakdown", () => {
+  it("lists every amount received per customer, newest first", () => {
+    const { details, summary } = buildCollectionBreakdown(fullDataset, customers);
+
+    expect(details).toHaveLength(1);
+    expect(details[0].customerId).toBe("cust-asha");
+    expect(details[0].customerName).toBe("Asha Patel");
+    expect(details[0].customer?.id).toBe("cust-asha");
+    expect(details[0].totalPaid).toBe(2400);
+    expect(details[0].payments.map((payment) => payment.id)).toEqual([
+      partialPayment.id,
+      partialSale.id,
+      fullyPaidSale.id,
+    ]);
+
+    expect(summary).toEqual({
+      customersCount: 1,
+      paymentCount: 3,
+      totalAmount: 2400,
+      methodTotals: [
+        { method: "cash", label: "Cash", amount: 2100, count: 2 },
+        { method: "upi", label: "UPI", amount: 300, count: 1 },
+      ],
+    });
+  });
+
+  it("reports the amount paid up front on sales and the full amount on payments", () => {
+    const { details } = buildCollectionBreakdown(fullDataset, customers);
+    const [payment, partial, full] = details[0].payments;
+
+    expect(payment).toMatchObject({
+      amount: 1000,
+      type: "payment",
+      saleAmount: null,
+      balance: 0,
+      status: "full paid",
+      method: "cash",
+      teaName: null,
+    });
+    expect(partial).toMatchObject({
+      amount: 300,
+      type: "sale",
+      saleAmount: 3300,
+      balance: 2000,
+      quantity: 30,
+      status: "partial paid",
+      method: "upi",
+      reference: "UPI-1",
+      teaName: "Assam Gold",
+    });
+    expect(full).toMatchObject({ amount: 1100, saleAmount: 1100, balance: 0, status: "full paid", method: "cash" });
+  });
+
+  it("skips sales with nothing paid up front", () => {
+    const { details } = buildCollectionBreakdown([orphanedBatchSale], customers);
+    expect(details).toEqual([]);
+  });
+
+  it("handles a book with payments only", () => {
+    const { details, summary } = buildCollectionBreakdown(paymentsOnly, customers);
+
+    expect(details).toHaveLength(1);
+    expect(details[0].customerName).toBe("Corner Shop");
+    expect(details[0].totalPaid).toBe(750);
+    expect(details[0].payments.map((payment) => [payment.id, payment.status, payment.method])).toEqual([
+      ["payment-cheque", "full paid", "cheque"],
+      ["payment-unrecorded", "full paid", null],
+    ]);
+    expect(summary.methodTotals).toEqual([
+      { method: "cheque", label: "Cheque", amount: 500, count: 1 },
+      { method: null, label: "Not recorded", amount: 250, count: 1 },
+    ]);
+  });
+
+  it("groups rows without a known customer", () => {
+    const { details } = buildCollectionBreakdown(unknownCustomerRows, customers);
+
+    expect(details.map((entry) => [entry.customerId, entry.customerName, entry.customer, entry.totalPaid])).toEqual([
+      ["__unknown", "Unknown customer", null, 400],
+      ["cust-deleted", "Customer", null, 100],
+    ]);
+  });
+
+  describe("status derivation", () => {
+    const statusOf = (overrides: Parameters<typeof makeTransaction>[0]) =>
+      buildCollectionBreakdown([makeTransaction(overrides)], customers).details[0].payments[0];
+
+    it("marks anything with no balance left as fully paid", () => {
+      expect(statusOf({ id: "t", amount: 800, paid_amount: 800, balance: 0 }).status).toBe("full paid");
+      expect(statusOf({ id: "t", amount: 800, paid_amount: 200, balance: -50 }).status).toBe("full paid");
+    });
+
+    it("marks a payment that still carries a positive balance as partly paid", () => {
+      expect(statusOf({ id: "t", type: "payment", amount: 300, balance: 50 }).status).toBe("partial paid");
+    });
+
+    it("marks a sale paid in part as partly paid", () => {
+      expect(statusOf({ id: "t", amount: 800, paid_amount: 200, balance: 600 }).status).toBe("partial paid");
+    });
+
+    it("marks a sale paid in full but still owing (e.g. a bounce charge) as fully paid", () => {
+      expect(statusOf({ id: "t", amount: 800, paid_amount: 800, balance: 100 }).status).toBe("full paid");
+    });
+
+    it("marks a sale without an amount that still owes money as partly left", () => {
+      const payment = statusOf({ id: "t", amount: null, paid_amount: 100, balance: 50 });
+      expect(payment.status).toBe("partial left");
+      expect(payment.saleAmount).toBeNull();
+    });
+
+    it("derives the balance of a sale from its amount when the balance is missing", () => {
+      const payment = statusOf({ id: "t", amount: 1000, paid_amount: 400, balance: null });
+      expect(payment.balance).toBe(600);
+      expect(payment.status).toBe("partial paid");
+    });
+
+    it("treats a payment without a balance as fully allocated", () => {
+      const payment = statusOf({ id: "t", type: "payment", amount: 300, balance: null });
+      expect(payment.balance).toBe(0);
+      expect(payment.status).toBe("full paid");
+    });
+  });
+});
+
+describe("summarizeByPaymentMethod", () => {
+  it("orders methods like PAYMENT_METHODS and puts unrecorded ones last", () => {
+    expect(
+      summarizeByPaymentMethod([
+        { amount: 50, method: null },
+        { amount: 100, method: "bank_transfer" },
+        { amount: 25, method: "unknown" },
+        { amount: 10, method: "cash" },
+      ]),
+    ).toEqual([
+      { method: "cash", label: "Cash", amount: 10, count: 1 },
+      { method: "bank_transfer", label: "Bank transfer", amount: 100, count: 1 },
+      { method: null, label: "Not recorded", amount: 75, count: 2 },
+    ]);
+  });
+});
+
+describe("buildOutstandingBreakdown", () => {
+  // Newest first, as useTransactions returns them
+  const transactions = [...unknownCustomerRows].reverse().concat(orphanedBatchSale, fullDataset);
+  const breakdown = () => buildOutstandingBreakdown(computeTransactionSummary(transactions), transactions, customers);
+
+  it("lists customers who still owe money, largest balance first", () => {
+    expect(breakdown().map((entry) => [entry.customerId, entry.outstanding])).toEqual([
+      ["cust-asha", 2000],
+      ["cust-corner", 1500],
+      ["cust-deleted", 800],
+    ]);
+  });
+
+  it("leaves out rows without a customer", () => {
+    const rows = [makeTransaction({ id: "orphan-sale", customer_id: null, amount: 300, balance: 300 })];
+    expect(buildOutstandingBreakdown(computeTransactionSummary(rows), rows, customers)).toEqual([]);
+  });
+
+  it("fills in contact details, next due date, last activity and open invoices", () => {
+    const [asha, corner, deleted] = breakdown();
+
+    expect(asha).toMatchObject({
+      customerName: "Asha Patel",
+      phone: "98765 43210",
+      nextDue: "2024-03-20",
+      lastActivity: partialPayment.created_at,
+    });
+    expect(asha.openInvoices).toEqual([
+      {
+        id: partialSale.id,
+        teaName: "Assam Gold",
+        createdAt: partialSale.created_at,
+        dueDate: "2024-03-20",
+        amount: 3300,
+        balance: 2000,
+      },
+    ]);
+
+    expect(corner).toMatchObject({
+      customerName: "Corner Shop",
+      phone: "+91 91234 56789",
+      nextDue: "2024-04-15",
+      lastActivity: orphanedBatchSale.created_at,
+    });
+    expect(corner.openInvoices.map((invoice) => invoice.teaName)).toEqual(["Darjeeling First Flush"]);
+
+    expect(deleted).toMatchObject({ customer: null, customerName: "Customer", phone: null, nextDue: "2024-05-10" });
+  });
+
+  it("picks the earliest due date among sales that still owe money", () => {
+    const rows = [
+      makeTransaction({ id: "late", customer_id: "cust-asha", amount: 100, balance: 100, due_date: "2024-06-30" }),
+      makeTransaction({ id: "paid", customer_id: "cust-asha", amount: 100, balance: 0, due_date: "2024-06-01" }),
+      makeTransaction({ id: "early", customer_id: "cust-asha", amount: 100, balance: 100, due_date: "2024-06-10" }),
+    ];
+    const [entry] = buildOutstandingBreakdown(computeTransactionSummary(rows), rows, customers);
+    expect(entry.nextDue).toBe("2024-06-10");
+  });
+
+  it("has no next due date when no open sale has one", () => {
+    const rows = [makeTransaction({ id: "open", customer_id: "cust-asha", amount: 100, balance: 100 })];
+    const [entry] = buildOutstandingBreakdown(computeTransactionSummary(rows), rows, customers);
+    expect(entry.nextDue).toBeNull();
+  });
+
+  it("returns nothing when every customer is settled or in credit", () => {
+    expect(buildOutstandingBreakdown(computeTransactionSummary(paymentsOnly), paymentsOnly, customers)).toEqual([]);
+  });
+});
+
+describe("getDaysPastDue", () => {
+  const asOf = new Date(2024, 5, 20, 18, 30);
+
+  it("counts whole days past the due date", () => {
+    expect(getDaysPastDue({ dueDate: "2024-06-10", createdAt: "2024-05-01T10:00:00Z" }, asOf)).toBe(10);
+    expect(getDaysPastDue({ dueDate: "2024-06-20", createdAt: null }, asOf)).toBe(0);
+  });
+
+  it("is negative while the invoice is not yet due", () => {
+    expect(getDaysPastDue({ dueDate: "2024-07-01", createdAt: null }, asOf)).toBe(-11);
+  });
+
+  it("falls back to the sale date without a due date", () => {
+    expect(getDaysPastDue({ dueDate: null, createdAt: "2024-06-01T10:00:00Z" }, asOf)).toBe(19);
+  });
+});
+
+describe("getAgeingBucket", () => {
+  it("puts bucket boundaries in the lower bucket and not-yet-due invoices in the first", () => {
+    expect([-5, 0, 30, 31, 60, 61, 90, 91, 400].map(getAgeingBucket)).toEqual([
+      "days0to30",
+      "days0to30",
+      "days0to30",
+      "days31to60",
+      "days31to60",
+      "days61to90",
+      "days61to90",
+      "over90",
+      "over90",
+    ]);
+  });
+});
+
+describe("buildAgeingReport", () => {
+  const asOf = new Date(2024, 5, 20);
+  const transactions = [...unknownCustomerRows, orphanedBatchSale, ...fullDataset];
+
+  it("buckets each customer's open invoices by days past due, oldest debt first", () => {
+    const { details } = buildAgeingReport(transactions, customers, asOf);
+
+    expect(details.map((entry) => [entry.customerId, entry.buckets, entry.total, entry.oldestDaysPastDue])).toEqual([
+      ["cust-asha", { days0to30: 0, days31to60: 0, days61to90: 0, over90: 2000 }, 2000, 92],
+      ["cust-corner", { days0to30: 0, days31to60: 0, days61to90: 1500, over90: 0 }, 1500, 66],
+      ["cust-deleted", { days0to30: 0, days31to60: 800, days61to90: 0, over90: 0 }, 800, 41],
+    ]);
+    expect(details[0]).toMatchObject({ customerName: "Asha Patel", phone: "98765 43210" });
+    expect(details[0].invoices.map((invoice) => [invoice.id, invoice.bucket])).toEqual([[partialSale.id, "over90"]]);
+    expect(details[2]).toMatchObject({ customer: null, customerName: "Customer" });
+  });
+
+  it("totals every bucket across customers", () => {
+    expect(buildAgeingReport(transactions, customers, asOf).summary).toEqual({
+      customersCount: 3,
+      invoiceCount: 3,
+      buckets: { days0to30: 0, days31to60: 800, days61to90: 1500, over90: 2000 },
+      total: 4300,
+    });
+  });
+
+  it("splits one customer's invoices across buckets", () => {
+    const rows = [
+      makeTransaction({ id: "old", customer_id: "cust-asha", amount: 500, balance: 500, due_date: "2024-02-01" }),
+      makeTransaction({ id: "undated", customer_id: "cust-asha", amount: 200, balance: 200, created_at: "2024-06-01T10:00:00Z" }),
+      makeTransaction({ id: "upcoming", customer_id: "cust-asha", amount: 100, balance: 100, due_date: "2024-07-01" }),
+    ];
+    const [entry] = buildAgeingReport(rows, customers, asOf).details;
+
+    expect(entry.buckets).toEqual({ days0to30: 300, days31to60: 0, days61to90: 0, over90: 500 });
+    expect(entry.invoices.map((invoice) => [invoice.id, invoice.daysPastDue])).toEqual([
+      ["old", 140],
+      ["undated", 19],
+      ["upcoming", -11],
+    ]);
+  });
+
+  it("leaves out settled customers, credit and rows without a customer", () => {
+    const rows = [...paymentsOnly, fullyPaidSale, unknownCustomerRows[0]];
+    expect(buildAgeingReport(rows, customers, asOf)).toEqual({
+      details: [],
+      summary: { customersCount: 0, invoiceCount: 0, buckets: { days0to30: 0, days31to60: 0, days61to90: 0, over90: 0 }, total: 0 },
+    });
+  });
+});
+
+describe("buildPartnerComparison", () => {
+  it("leaves bounced cheque charges out of sales", () => {
+    const [row] = buildPartnerComparison(
+      [{ id: "partner-1", email: "partner@example.com" }],
+      [
+        ...fullDataset,
+        makeTransaction({ id: "charge", customer_id: "cust-asha", type: "charge", amount: 250, balance: 250 }),
+      ],
+      customers,
+    );
+
+    expect(row).toMatchObject({ salesCount: 2, totalSales: 4400, totalCollections: 2400, outstanding: 2250 });
+  });
+});
+
+describe("buildPnlBreakdown", () => {
+  it("computes P&L per sale from the batch purchase rate, newest first", () => {
+    const { rows, totals } = buildPnlBreakdown(batchPnl, fullDataset);
+
+    expect(rows).toEqual([
+      {
+        id: partialSale.id,
+        name: "Assam Gold",
+        soldQuantity: 30,
+        freeQuantity: 0,
+        remainingQuantity: 60,
+        purchaseRate: 80,
+        avgSellRate: 110,
+        totalSaleValue: 3300,
+        profitPerKg: 30,
+        pnl: 900,
+      },
+      {
+        id: fullyPaidSale.id,
+        name: "Assam Gold",
+        soldQuantity: 10,
+        freeQuantity: 0,
+        remainingQuantity: 60,
+        purchaseRate: 80,
+        avgSellRate: 110,
+        totalSaleValue: 1100,
+        profitPerKg: 30,
+        pnl: 300,
+      },
+    ]);
+    expect(totals).toEqual({ pnl: 1200, soldQuantity: 40, freeQuantity: 0, saleValue: 4400 });
+  });
+
+  it("nets returns out with a negative quantity and P&L", () => {
+    const returned = makeTransaction({
+      id: "return-1",
+      type: "return",
+      customer_id: "cust-asha",
+      batch_id: "batch-assam",
+      tea_name: "Assam Gold",
+      amount: -220,
+      quantity: -2,
+      return_of: fullyPaidSale.id,
+      created_at: "2024-03-12T10:00:00Z",
+    });
+    const { rows, totals } = buildPnlBreakdown(batchPnl, [returned, ...fullDataset]);
+
+    expect(rows[0]).toMatchObject({ id: "return-1", soldQuantity: -2, avgSellRate: 110, totalSaleValue: -220, pnl: -60 });
+    expect(totals).toEqual({ pnl: 1140, soldQuantity: 38, freeQuantity: 0, saleValue: 4180 });
+  });
+
+  it("charges free tea at the batch purchase rate", () => {
+    const schemeSale = makeTransaction({
+      id: "sale-scheme",
+      customer_id: "cust-asha",
+      batch_id: "batch-assam",
+      tea_name: "Assam Gold",
+      amount: 1100,
+      quantity: 10,
+      rate: 110,
+      free_quantity: 1,
+      created_at: "2024-03-15T10:00:00Z",
+    });
+    const { rows, totals } = buildPnlBreakdown(batchPnl, [schemeSale, fullyPaidSale]);
+
+    expect(rows[0]).toMatchObject({ id: "sale-scheme", soldQuantity: 10, freeQuantity: 1, avgSellRate: 110, pnl: 220 });
+    expect(rows[0].profitPerKg).toBeCloseTo(22);
+    expect(totals).toEqual({ pnl: 520, soldQuantity: 20, freeQuantity: 1, saleValue: 2200 });
+  });
+
+  it("leaves GST out of the sale value", () => {
+    const taxedSale = makeTransaction({
+      id: "sale-gst",
+      batch_id: "batch-assam",
+      amount: 1155,
+      quantity: 10,
+      rate: 110,
+      gst_rate: 5,
+      taxable_value: 1100,
+      cgst_amount: 27.5,
+      sgst_amount: 27.5,
+      created_at: "2024-03-15T10:00:00Z",
+    });
+    const { rows, totals } = buildPnlBreakdown(batchPnl, [taxedSale]);
+
+    expect(rows[0]).toMatchObject({ id: "sale-gst", avgSellRate: 110, totalSaleValue: 1100, profitPerKg: 30, pnl: 300 });
+    expect(totals).toEqual({ pnl: 300, soldQuantity: 10, freeQuantity: 0, saleValue: 1100 });
+  });
+
+  it("leaves bounced cheque charges out", () => {
+    const bounceCharge = makeTransaction({
+      id: "charge-1",
+      type: "charge",
+      customer_id: "cust-asha",
+      amount: 250,
+      balance: 250,
+      status: "due",
+      tea_name: "Cheque bounce charge (CHQ-1)",
+      created_at: "2024-03-20T10:00:00Z",
+    });
+    const { rows, totals } = buildPnlBreakdown(batchPnl, [bounceCharge, fullyPaidSale]);
+
+    expect(rows.map((row) => row.id)).toEqual([fullyPaidSale.id]);
+    expect(totals).toEqual({ pnl: 300, soldQuantity: 10, freeQuantity: 0, saleValue: 1100 });
+  });
+
+  it("treats a sale of an orphaned batch as having no purchase cost", () => {
+    const { rows } = buildPnlBreakdown(batchPnl, [orphanedBatchSale]);
+
+    expect(rows).toEqual([
+      {
+        id: orphanedBatchSale.id,
+        name: "Darjeeling First Flush",
+        soldQuantity: 5,
+        freeQuantity: 0,
+        remainingQuantity: 0,
+        purchaseRate: 0,
+        avgSellRate: 300,
+        totalSaleValue: 1500,
+        profitPerKg: 300,
+        pnl: 1500,
+      },
+    ]);
+  });
+
+  it("names a sale after its batch, then a generic label", () => {
+    const withBatch = makeTransaction({ id: "s1", batch_id: "batch-nilgiri", amount: 300, quantity: 2 });
+    const withoutBatch = makeTransaction({ id: "s2", amount: 100, quantity: 1, created_at: "2024-02-01T10:00:00Z" });
+    const { rows } = buildPnlBreakdown(batchPnl, [withBatch, withoutBatch]);
+
+    expect(rows.map((row) => [row.name, row.avgSellRate, row.profitPerKg, row.pnl])).toEqual([
+      ["Nilgiri Frost", 150, 30, 60],
+      ["Tea Sale", 100, 100, 100],
+    ]);
+  });
+
+  it("leaves out zeroed rows such as reset sales", () => {
+    const zeroed = makeTransaction({ id: "reset", batch_id: "batch-assam", amount: 0, quantity: 0, status: "reset" });
+    const { rows } = buildPnlBreakdown(batchPnl, [zeroed, fullyPaidSale]);
+    expect(rows.map((row) => row.id)).toEqual([fullyPaidSale.id]);
+  });
+
+  it("falls back to batch_pnl when there are no sales", () => {
+    const { rows, totals } = buildPnlBreakdown(batchPnl, paymentsOnly);
+
+    expect(rows).toEqual([
+      {
+        id: "batch-assam",
+        name: "Assam Gold",
+        soldQuantity: 40,
+        freeQuantity: 0,
+        remainingQuantity: 60,
+        purchaseRate: 80,
+        avgSellRate: 110,
+        totalSaleValue: 4400,
+        profitPerKg: 30,
+        pnl: 1200,
+      },
+      {
+        id: "batch-nilgiri",
+        name: "Nilgiri Frost",
+        soldQuantity: 0,
+        freeQuantity: 0,
+        remainingQuantity: 50,
+        purchaseRate: 120,
+        avgSellRate: 0,
+        totalSaleValue: 0,
+        profitPerKg: null,
+        pnl: 0,
+      },
+    ]);
+    expect(totals).toEqual({ pnl: 1200, soldQuantity: 40, freeQuantity: 0, saleValue: 4400 });
+  });
+
+  it("labels batch rows without an id or name by position", () => {
+    const { rows } = buildPnlBreakdown([makeBatchPnl({ sold_quantity: 2, sold_revenue: 200, pnl: -20 })], []);
+    expect(rows[0]).toMatchObject({ id: "0", name: "Batch 1", avgSellRate: 100, profitPerKg: -10, pnl: -20 });
+  });
+
+  it("returns empty totals without data", () => {
+    expect(buildPnlBreakdown(null, undefined)).toEqual({
+      rows: [],
+      totals: { pnl: 0, soldQuantity: 0, freeQuantity: 0, saleValue: 0 },
+    });
+  });
+});
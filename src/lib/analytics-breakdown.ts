@@ -1,10 +1,16 @@
-import type { TransactionSummaryResult } from "./utils";
+import { computeTransactionSummary, type TransactionSummaryResult } from "./utils";
+import { getOpenInvoices, type OpenInvoice } from "./payment-allocation";
+import { getPaymentMethodLabel, getPaymentMethodOption, PAYMENT_METHODS, type PaymentMethod } from "./payment-methods";
+import type { BatchPnlRow, Customer, Transaction } from "./schemas";
 
-type MaybeArray<T = any> = T[] | null | undefined;
+type MaybeArray<T> = T[] | null | undefined;
 
-const buildCustomerMap = (customers?: MaybeArray): Map<string, any> => {
-  const map = new Map<string, any>();
-  (customers || []).forEach((customer: any) => {
+// Only the fields the partner comparison needs, so callers can pass list_partners rows as-is
+type PartnerLike = { id: string; email?: string | null };
+
+const buildCustomerMap = (customers?: MaybeArray<Customer>): Map<string, Customer> => {
+  const map = new Map<string, Customer>();
+  (customers || []).forEach((customer) => {
     if (customer?.id) {
       map.set(customer.id, customer);
     }
@@ -12,9 +18,9 @@ const buildCustomerMap = (customers?: MaybeArray): Map<string, any> => {
   return map;
 };
 
-const buildTransactionMap = (transactions?: MaybeArray): Map<string, any[]> => {
-  const map = new Map<string, any[]>();
-  (transactions || []).forEach((txn: any) => {
+const buildTransactionMap = (transactions?: MaybeArray<Transaction>): Map<string, Transaction[]> => {
+  const map = new Map<string, Transaction[]>();
+  (transactions || []).forEach((txn) => {
     if (!txn) return;
     const customerId = txn.customer_id || "__unknown";
     if (!map.has(customerId)) {
@@ -25,18 +31,9 @@ const buildTransactionMap = (transactions?: MaybeArray): Map<string, any[]> => {
   return map;
 };
 
-const toFiniteNumber = (value: any): number | null => {
+const toFiniteNumber = (value: number | null | undefined): number | null => {
   if (value === null || value === undefined) return null;
-  const num = Number(value);
-  return Number.isFinite(num) ? num : null;
-};
-
-const pickFirstNumber = (...values: any[]): number | null => {
-  for (const value of values) {
-    const parsed = toFiniteNumber(value);
-    if (parsed !== null) return parsed;
-  }
-  return null;
+  return Number.isFinite(value) ? value : null;
 };
 
 export type CollectionPayment = {
@@ -49,12 +46,21 @@ export type CollectionPayment = {
   saleAmount: number | null;
   balance: number | null;
   status: "full paid" | "partial paid" | "partial left";
+  method: PaymentMethod | null;
+  reference: string | null;
+};
+
+export type PaymentMethodTotal = {
+  method: PaymentMethod | null;
+  label: string;
+  amount: number;
+  count: number;
 };
 
 export type CollectionEntry = {
   customerId: string;
   customerName: string;
-  customer: any | null;
+  customer: Customer | null;
   totalPaid: number;
   payments: CollectionPayment[];
 };
@@ -65,12 +71,32 @@ export type CollectionBreakdown = {
     customersCount: number;
     paymentCount: number;
     totalAmount: number;
+    methodTotals: PaymentMethodTotal[];
   };
 };
 
+// Totals per payment method in the fixed PAYMENT_METHODS order; money recorded before methods
+// were captured is grouped under "Not recorded". Methods with no payments are left out.
+export const summarizeByPaymentMethod = (
+  payments: Array<{ amount: number; method?: string | null }>,
+): PaymentMethodTotal[] => {
+  const totals = new Map<PaymentMethod | null, PaymentMethodTotal>();
+  payments.forEach((payment) => {
+    const method = getPaymentMethodOption(payment.method)?.value ?? null;
+    const existing = totals.get(method) ?? { method, label: getPaymentMethodLabel(method), amount: 0, count: 0 };
+    existing.amount += Number(payment.amount || 0);
+    existing.count += 1;
+    totals.set(method, existing);
+  });
+
+  return [...PAYMENT_METHODS.map((option) => option.value), null]
+    .map((method) => totals.get(method))
+    .filter((total): total is PaymentMethodTotal => Boolean(total));
+};
+
 export const buildCollectionBreakdown = (
-  transactions?: MaybeArray,
-  customers?: MaybeArray,
+  transactions?: MaybeArray<Transaction>,
+  customers?: MaybeArray<Customer>,
 ): CollectionBreakdown => {
   const customersById = buildCustomerMap(customers);
   const map = new Map<string, CollectionEntry>();
@@ -109,13 +135,16 @@ export const buildCollectionBreakdown = (
     return "partial left";
   };
 
-  (transactions || []).forEach((txn: any) => {
+  (transactions || []).forEach((txn) => {
     if (!txn) return;
     const customerId = txn.customer_id || "__unknown";
     const type = String(txn.type || "").toLowerCase();
     const amountPaid = type === "payment" ? Number(txn.amount || 0) : Number(txn.paid_amount || 0);
-    const saleAmount = type === "payment" ? Number(txn.sale_amount ?? txn.related_sale_amount ?? 0) : Number(txn.amount || 0);
-    const balance = Number.isFinite(Number(txn.balance)) ? Number(txn.balance) : type === "payment" ? Number(txn.remaining_balance ?? txn.balance_after ?? 0) : Number(txn.amount || 0) - Number(txn.paid_amount || 0);
+    // A payment row has no sale amount of its own; its balance is the part not yet allocated (stored negative)
+    const saleAmount = type === "payment" ? null : Number(txn.amount || 0);
+    const balance =
+      toFiniteNumber(txn.balance) ??
+      (type === "payment" ? 0 : Number(txn.amount || 0) - Number(txn.paid_amount || 0));
     if (!Number.isFinite(amountPaid) || amountPaid <= 0) return;
 
     if (!map.has(customerId)) {
@@ -123,8 +152,6 @@ export const buildCollectionBreakdown = (
       const name =
         customer?.full_name ||
         customer?.shop_name ||
-        txn.customer_name ||
-        txn.customer ||
         (customerId === "__unknown" ? "Unknown customer" : "Customer");
       map.set(customerId, {
         customerId,
@@ -138,23 +165,20 @@ export const buildCollectionBreakdown = (
     const entry = map.get(customerId)!;
     entry.totalPaid += amountPaid;
     entry.customer = entry.customer ?? customersById.get(customerId) ?? null;
-    entry.customerName =
-      entry.customer?.full_name ||
-      entry.customer?.shop_name ||
-      txn.customer_name ||
-      txn.customer ||
-      entry.customerName;
-    const quantity = Number.isFinite(Number(txn.quantity)) ? Number(txn.quantity) : null;
+    entry.customerName = entry.customer?.full_name || entry.customer?.shop_name || entry.customerName;
+    const quantity = toFiniteNumber(txn.quantity);
     entry.payments.push({
       id: txn.id || `${customerId}-${entry.payments.length}`,
       amount: amountPaid,
       createdAt: txn.created_at || null,
-      teaName: txn.tea_name || txn.batch_name || txn.tea || null,
+      teaName: txn.tea_name || null,
       quantity,
       type,
-      saleAmount: Number.isFinite(saleAmount) && saleAmount > 0 ? saleAmount : null,
+      saleAmount: saleAmount !== null && Number.isFinite(saleAmount) && saleAmount > 0 ? saleAmount : null,
       balance: Number.isFinite(balance) ? balance : null,
-      status: deriveStatus(type, Number.isFinite(saleAmount) ? saleAmount : null, amountPaid, Number.isFinite(balance) ? balance : 0),
+      status: deriveStatus(type, saleAmount !== null && Number.isFinite(saleAmount) ? saleAmount : null, amountPaid, Number.isFinite(balance) ? balance : 0),
+      method: getPaymentMethodOption(txn.payment_method)?.value ?? null,
+      reference: txn.payment_reference || null,
     });
   });
 
@@ -175,6 +199,7 @@ export const buildCollectionBreakdown = (
     customersCount: details.length,
     paymentCount: details.reduce((sum, entry) => sum + entry.payments.length, 0),
     totalAmount: details.reduce((sum, entry) => sum + entry.totalPaid, 0),
+    methodTotals: summarizeByPaymentMethod(details.flatMap((entry) => entry.payments)),
   };
 
   return { details, summary };
@@ -182,18 +207,19 @@ export const buildCollectionBreakdown = (
 
 export type OutstandingEntry = {
   customerId: string;
-  customer: any | null;
+  customer: Customer | null;
   customerName: string;
   outstanding: number;
   phone?: string | null;
   nextDue: string | null;
   lastActivity: string | null;
+  openInvoices: OpenInvoice[];
 };
 
 export const buildOutstandingBreakdown = (
   transactionSummary: TransactionSummaryResult,
-  transactions?: MaybeArray,
-  customers?: MaybeArray,
+  transactions?: MaybeArray<Transaction>,
+  customers?: MaybeArray<Customer>,
 ): OutstandingEntry[] => {
   const customersById = buildCustomerMap(customers);
   const transactionsByCustomer = buildTransactionMap(transactions);
@@ -206,41 +232,218 @@ export const buildOutstandingBreakdown = (
 
       const customer = customersById.get(customerId) ?? null;
       const txns = transactionsByCustomer.get(customerId) ?? [];
-      const fallbackTxn = txns[0];
       const dueCandidates = txns.filter(
-        (txn: any) => Number(txn.balance || 0) > 0 && Boolean(txn.due_date),
+        (txn) => Number(txn.balance || 0) > 0 && Boolean(txn.due_date),
       );
       const nextDue =
         dueCandidates
           .slice()
           .sort(
-            (a: any, b: any) =>
+            (a, b) =>
               new Date(a.due_date).getTime() - new Date(b.due_date).getTime(),
           )[0] || null;
 
       return {
         customerId,
         customer,
-        customerName:
-          customer?.full_name ||
-          customer?.shop_name ||
-          fallbackTxn?.customer_name ||
-          fallbackTxn?.customer ||
-          "Customer",
+        customerName: customer?.full_name || customer?.shop_name || "Customer",
         outstanding,
-        phone: customer?.whatsapp_number || customer?.contact || fallbackTxn?.customer_phone || null,
+        phone: customer?.whatsapp_number || customer?.contact || null,
         nextDue: nextDue?.due_date || null,
         lastActivity: txns.length > 0 ? txns[0]?.created_at || null : null,
+        openInvoices: getOpenInvoices(txns),
       } as OutstandingEntry;
     })
-    .filter(Boolean)
-    .sort((a: any, b: any) => b.outstanding - a.outstanding);
+    .filter((entry): entry is OutstandingEntry => Boolean(entry))
+    .sort((a, b) => b.outstanding - a.outstanding);
+};
+
+export const AGEING_BUCKETS = [
+  { key: "days0to30", label: "0–30 days", maxDays: 30 },
+  { key: "days31to60", label: "31–60 days", maxDays: 60 },
+  { key: "days61to90", label: "61–90 days", maxDays: 90 },
+  { key: "over90", label: "90+ days", maxDays: Infinity },
+] as const;
+
+export type AgeingBucketKey = (typeof AGEING_BUCKETS)[number]["key"];
+
+export type AgeingBuckets = Record<AgeingBucketKey, number>;
+
+const emptyAgeingBuckets = (): AgeingBuckets => ({ days0to30: 0, days31to60: 0, days61to90: 0, over90: 0 });
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Calendar day in local time; due dates are plain yyyy-mm-dd values, sale dates are timestamps
+const toLocalDay = (value: string | Date): number | null => {
+  const date =
+    typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00`) : new Date(value);
+  if (!Number.isFinite(date.getTime())) return null;
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+};
+
+// Days past the due date, or past the sale date when the sale has no due date. Negative while
+// the invoice is not yet due.
+export const getDaysPastDue = (invoice: Pick<OpenInvoice, "dueDate" | "createdAt">, asOf: Date = new Date()) => {
+  const source = invoice.dueDate || invoice.createdAt;
+  const from = source ? toLocalDay(source) : null;
+  const to = toLocalDay(asOf);
+  if (from === null || to === null) return 0;
+  return Math.round((to - from) / DAY_MS);
+};
+
+// Invoices that are not yet due count towards the first bucket
+export const getAgeingBucket = (daysPastDue: number): AgeingBucketKey =>
+  AGEING_BUCKETS.find((bucket) => daysPastDue <= bucket.maxDays)!.key;
+
+export type AgeingInvoice = OpenInvoice & {
+  daysPastDue: number;
+  bucket: AgeingBucketKey;
+};
+
+export type AgeingEntry = {
+  customerId: string;
+  customer: Customer | null;
+  customerName: string;
+  phone: string | null;
+  buckets: AgeingBuckets;
+  total: number;
+  oldestDaysPastDue: number;
+  invoices: AgeingInvoice[];
+};
+
+export type AgeingReport = {
+  details: AgeingEntry[];
+  summary: {
+    customersCount: number;
+    invoiceCount: number;
+    buckets: AgeingBuckets;
+    total: number;
+  };
+};
+
+// Receivables ageing: every open invoice's remaining balance, bucketed by how long it is overdue.
+// Credit a customer has not used yet is not netted off, so the total can exceed their outstanding.
+export const buildAgeingReport = (
+  transactions?: MaybeArray<Transaction>,
+  customers?: MaybeArray<Customer>,
+  asOf: Date = new Date(),
+): AgeingReport => {
+  const customersById = buildCustomerMap(customers);
+  const transactionsByCustomer = buildTransactionMap(transactions);
+
+  const details = Array.from(transactionsByCustomer.entries())
+    .filter(([customerId]) => customerId !== "__unknown")
+    .map(([customerId, txns]): AgeingEntry | null => {
+      const invoices = getOpenInvoices(txns).map((invoice): AgeingInvoice => {
+        const daysPastDue = getDaysPastDue(invoice, asOf);
+        return { ...invoice, daysPastDue, bucket: getAgeingBucket(daysPastDue) };
+      });
+      if (invoices.length === 0) return null;
+
+      const buckets = emptyAgeingBuckets();
+      invoices.forEach((invoice) => {
+        buckets[invoice.bucket] += invoice.balance;
+      });
+      const customer = customersById.get(customerId) ?? null;
+
+      return {
+        customerId,
+        customer,
+        customerName: customer?.full_name || customer?.shop_name || "Customer",
+        phone: customer?.whatsapp_number || customer?.contact || null,
+        buckets,
+        total: invoices.reduce((sum, invoice) => sum + invoice.balance, 0),
+        oldestDaysPastDue: Math.max(...invoices.map((invoice) => invoice.daysPastDue)),
+        invoices,
+      };
+    })
+    .filter((entry): entry is AgeingEntry => Boolean(entry))
+    .sort((a, b) => b.buckets.over90 - a.buckets.over90 || b.total - a.total);
+
+  const buckets = emptyAgeingBuckets();
+  details.forEach((entry) => {
+    AGEING_BUCKETS.forEach(({ key }) => {
+      buckets[key] += entry.buckets[key];
+    });
+  });
+
+  return {
+    details,
+    summary: {
+      customersCount: details.length,
+      invoiceCount: details.reduce((sum, entry) => sum + entry.invoices.length, 0),
+      buckets,
+      total: details.reduce((sum, entry) => sum + entry.total, 0),
+    },
+  };
+};
+
+export type PartnerComparisonRow = {
+  partnerId: string;
+  partnerLabel: string;
+  customersCount: number;
+  salesCount: number;
+  totalSales: number;
+  totalCollections: number;
+  outstanding: number;
+  collectionRate: number | null;
+};
+
+export const buildPartnerComparison = (
+  partners?: MaybeArray<PartnerLike>,
+  transactions?: MaybeArray<Transaction>,
+  customers?: MaybeArray<Customer>,
+): PartnerComparisonRow[] => {
+  const transactionsByPartner = new Map<string, Transaction[]>();
+  (transactions || []).forEach((txn) => {
+    if (!txn) return;
+    const partnerId = txn.partner_id || "__unassigned";
+    if (!transactionsByPartner.has(partnerId)) {
+      transactionsByPartner.set(partnerId, []);
+    }
+    transactionsByPartner.get(partnerId)!.push(txn);
+  });
+
+  const customerCounts = new Map<string, number>();
+  (customers || []).forEach((customer) => {
+    if (!customer) return;
+    const partnerId = customer.partner_id || "__unassigned";
+    customerCounts.set(partnerId, (customerCounts.get(partnerId) || 0) + 1);
+  });
+
+  const buildRow = (partnerId: string, partnerLabel: string): PartnerComparisonRow => {
+    const txns = transactionsByPartner.get(partnerId) ?? [];
+    const { totals } = computeTransactionSummary(txns);
+    return {
+      partnerId,
+      partnerLabel,
+      customersCount: customerCounts.get(partnerId) || 0,
+      // Bounced cheque charges are owed by the customer but are not sales
+      salesCount: txns.filter((txn) => !["payment", "return", "charge"].includes(String(txn.type || "").toLowerCase())).length,
+      totalSales: totals.totalSales,
+      totalCollections: totals.totalCollections,
+      outstanding: totals.outstanding,
+      collectionRate: totals.totalSales > 0 ? totals.totalCollections / totals.totalSales : null,
+    };
+  };
+
+  const rows = (partners || [])
+    .filter((partner) => partner?.id)
+    .map((partner) => buildRow(partner.id, partner.email || "Partner"));
+
+  if (transactionsByPartner.has("__unassigned") || customerCounts.has("__unassigned")) {
+    rows.push(buildRow("__unassigned", "Unassigned"));
+  }
+
+  return rows.sort((a, b) => b.totalSales - a.totalSales);
 };
 
 export type PnlBreakdownRow = {
   id: string;
   name: string;
   soldQuantity: number;
+  // Kilograms given free under a scheme; they cost the purchase rate but bring no revenue
+  freeQuantity: number;
   remainingQuantity: number;
   purchaseRate: number;
   avgSellRate: number;
@@ -255,76 +458,58 @@ export type PnlBreakdown = {
   totals: {
     pnl: number;
     soldQuantity: number;
+    freeQuantity: number;
     saleValue: number;
   };
 };
 
-export const buildPnlBreakdown = (batchPnl?: MaybeArray, transactions?: MaybeArray): PnlBreakdown => {
-  const batchMap = new Map<string, any>();
-  (batchPnl || []).forEach((batch: any) => {
-    const id = batch?.batch_id || batch?.id;
-    if (!id) return;
-    batchMap.set(id, batch);
+export const buildPnlBreakdown = (
+  batchPnl?: MaybeArray<BatchPnlRow>,
+  transactions?: MaybeArray<Transaction>,
+): PnlBreakdown => {
+  const batchMap = new Map<string, BatchPnlRow>();
+  (batchPnl || []).forEach((batch) => {
+    if (!batch?.batch_id) return;
+    batchMap.set(batch.batch_id, batch);
   });
 
   const saleRows: (PnlBreakdownRow & { soldAt?: string | null })[] = (transactions || [])
-    .filter((txn: any) => {
+    .filter((txn) => {
       if (!txn) return false;
       const type = String(txn.type || "").toLowerCase();
-      return type !== "payment";
+      // Bounced cheque charges are owed by the customer but are not sales
+      return type !== "payment" && type !== "charge";
     })
-    .map((txn: any, index: number) => {
+    .map((txn, index) => {
       const batchInfo = txn.batch_id ? batchMap.get(txn.batch_id) : null;
-      const quantity = pickFirstNumber(txn.quantity, txn.qty, txn.sold_quantity) ?? 0;
-      const saleAmount = pickFirstNumber(txn.amount, txn.sale_amount, txn.total_amount) ?? 0;
-      const saleRateFromTxn = pickFirstNumber(txn.sale_rate, txn.price_per_kg, txn.rate_per_kg);
-      const saleRate = quantity > 0 ? saleAmount / quantity : saleRateFromTxn;
-      const purchaseRate = pickFirstNumber(
-        txn.purchase_rate,
-        batchInfo?.purchase_rate,
-        batchInfo?.purchaseRate,
-      ) ?? 0;
-      const remainingQuantity = pickFirstNumber(
-        txn.remaining_quantity,
-        batchInfo?.remaining_quantity,
-        batchInfo?.remainingQuantity,
-      ) ?? 0;
-      const explicitProfit = pickFirstNumber(
-        txn.profit,
-        txn.pnl,
-        txn.profit_amount,
-        txn.total_profit,
-      );
+      const quantity = toFiniteNumber(txn.quantity) ?? 0;
+      const freeQuantity = toFiniteNumber(txn.free_quantity) ?? 0;
+      // GST collected is owed to the government, so P&L works from the value before tax
+      const saleAmount = toFiniteNumber(txn.taxable_value) ?? toFiniteNumber(txn.amount) ?? 0;
+      // Returns carry a negative quantity and amount, so their rate stays positive and their P&L negative
+      const saleRate = quantity !== 0 ? saleAmount / quantity : toFiniteNumber(txn.rate);
+      const purchaseRate = toFiniteNumber(batchInfo?.purchase_rate) ?? 0;
+      const remainingQuantity = toFiniteNumber(batchInfo?.remaining_quantity) ?? 0;
 
       let profitPerKg: number | null = null;
       let totalProfit: number = 0;
-      if (quantity > 0) {
-        if (explicitProfit !== null) {
-          totalProfit = explicitProfit;
-          profitPerKg = totalProfit / quantity;
-        } else if (saleRate !== null) {
-          profitPerKg = saleRate - purchaseRate;
-          totalProfit = profitPerKg * quantity;
-        }
-      } else if (explicitProfit !== null) {
-        totalProfit = explicitProfit;
-      }
-
-      if (profitPerKg === null && saleRate !== null) {
+      if (saleRate !== null) {
         profitPerKg = saleRate - purchaseRate;
+        totalProfit = profitPerKg * quantity;
+        if (freeQuantity !== 0) {
+          // Free tea is charged at cost and spread over the billed kilograms
+          totalProfit -= freeQuantity * purchaseRate;
+          profitPerKg = quantity !== 0 ? totalProfit / quantity : null;
+        }
       }
 
       const totalSaleValue = saleAmount || (saleRate !== null && quantity > 0 ? saleRate * quantity : 0);
 
       return {
         id: txn.id || `${txn.batch_id || "sale"}-${index}`,
-        name:
-          txn.tea_name ||
-          txn.batch_name ||
-          batchInfo?.batch_name ||
-          batchInfo?.name ||
-          "Tea Sale",
+        name: txn.tea_name || batchInfo?.batch_name || "Tea Sale",
         soldQuantity: quantity,
+        freeQuantity,
         remainingQuantity,
         purchaseRate,
         avgSellRate: saleRate ?? 0,
@@ -332,9 +517,9 @@ export const buildPnlBreakdown = (batchPnl?: MaybeArray, transactions?: MaybeArr
         profitPerKg,
         pnl: Number.isFinite(totalProfit) ? totalProfit : 0,
         soldAt: txn.created_at ?? null,
-      } as PnlBreakdownRow & { soldAt?: string | null };
+      };
     })
-    .filter((row) => row.soldQuantity > 0 || row.pnl !== 0);
+    .filter((row) => row.soldQuantity !== 0 || row.freeQuantity !== 0 || row.pnl !== 0);
 
   if (saleRows.length > 0) {
     saleRows.sort((a, b) => {
@@ -347,69 +532,46 @@ export const buildPnlBreakdown = (batchPnl?: MaybeArray, transactions?: MaybeArr
       (acc, row) => {
         acc.pnl += row.pnl;
         acc.soldQuantity += row.soldQuantity;
+        acc.freeQuantity += row.freeQuantity;
         acc.saleValue += row.totalSaleValue;
         return acc;
       },
-      { pnl: 0, soldQuantity: 0, saleValue: 0 },
+      { pnl: 0, soldQuantity: 0, freeQuantity: 0, saleValue: 0 },
     );
 
     const normalizedRows: PnlBreakdownRow[] = saleRows.map(({ soldAt: _soldAt, ...rest }) => rest);
     return { rows: normalizedRows, totals };
   }
 
-  // Fallback to batch-level aggregates if sale transactions aren't available
-  const rows = (batchPnl || []).map((batch: any, index: number) => {
-    const soldQuantity = pickFirstNumber(batch.sold_quantity, batch.soldQuantity) ?? 0;
-    const remainingQuantity = pickFirstNumber(batch.remaining_quantity, batch.remainingQuantity) ?? 0;
-    const purchaseRate = pickFirstNumber(batch.purchase_rate, batch.purchaseRate) ?? 0;
-    let avgSellRate = pickFirstNumber(
-      batch.avg_sale_rate,
-      batch.avg_sell_rate,
-      batch.avg_sale_price,
-      batch.avg_selling_rate,
-    );
-    const explicitSaleValue = pickFirstNumber(
-      batch.total_sale_value,
-      batch.total_sales_amount,
-      batch.total_sales_value,
-      batch.sales_amount,
-      batch.sale_value,
-      batch.sales_value,
-    );
-    const pnlValue = pickFirstNumber(batch.pnl, batch.total_profit, batch.profit) ?? 0;
-
-    if ((avgSellRate === null || avgSellRate === 0) && explicitSaleValue !== null && soldQuantity > 0) {
-      avgSellRate = explicitSaleValue / soldQuantity;
-    }
-
-    const totalSaleValue = explicitSaleValue !== null
-      ? explicitSaleValue
-      : avgSellRate !== null && soldQuantity > 0
-        ? avgSellRate * soldQuantity
-        : 0;
+  // Fallback to batch-level aggregates from batch_pnl if sale transactions aren't available
+  const rows = (batchPnl || []).map((batch, index): PnlBreakdownRow => {
+    const soldQuantity = toFiniteNumber(batch.sold_quantity) ?? 0;
+    const freeQuantity = toFiniteNumber(batch.free_quantity) ?? 0;
+    const remainingQuantity = toFiniteNumber(batch.remaining_quantity) ?? 0;
+    const purchaseRate = toFiniteNumber(batch.purchase_rate) ?? 0;
+    const totalSaleValue = toFiniteNumber(batch.sold_revenue) ?? 0;
+    const pnlValue = toFiniteNumber(batch.pnl) ?? 0;
+    const avgSellRate = soldQuantity > 0 ? totalSaleValue / soldQuantity : null;
 
     let profitPerKg: number | null = null;
     if (soldQuantity > 0) {
-      if (Number.isFinite(pnlValue)) {
-        profitPerKg = pnlValue / soldQuantity;
-      } else if (avgSellRate !== null) {
-        profitPerKg = avgSellRate - purchaseRate;
-      }
+      profitPerKg = pnlValue / soldQuantity;
     } else if (avgSellRate !== null) {
       profitPerKg = avgSellRate - purchaseRate;
     }
 
     return {
-      id: batch.batch_id || batch.id || String(index),
-      name: batch.batch_name || batch.name || `Batch ${index + 1}`,
+      id: batch.batch_id || String(index),
+      name: batch.batch_name || `Batch ${index + 1}`,
       soldQuantity,
+      freeQuantity,
       remainingQuantity,
       purchaseRate,
       avgSellRate: avgSellRate ?? 0,
-      totalSaleValue: Number.isFinite(totalSaleValue) ? totalSaleValue : 0,
+      totalSaleValue,
       profitPerKg,
-      pnl: Number.isFinite(pnlValue) ? pnlValue : 0,
-    } as PnlBreakdownRow;
+      pnl: pnlValue,
+    };
   });
 
   rows.sort((a, b) => b.pnl - a.pnl);
@@ -418,10 +580,11 @@ export const buildPnlBreakdown = (batchPnl?: MaybeArray, transactions?: MaybeArr
     (acc, row) => {
       acc.pnl += row.pnl;
       acc.soldQuantity += row.soldQuantity;
+      acc.freeQuantity += row.freeQuantity;
       acc.saleValue += row.totalSaleValue;
       return acc;
     },
-    { pnl: 0, soldQuantity: 0, saleValue: 0 },
+    { pnl: 0, soldQuantity: 0, freeQuantity: 0, saleValue: 0 },
   );
 
   return { rows, totals };
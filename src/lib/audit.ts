@@ -0,0 +1,98 @@
+import { describeScheme } from "./schemes";
+import { schemeSchema } from "./schemas";
+import type { Tables } from "./database.types";
+
+export type AuditTable =
+  | "customers"
+  | "transactions"
+  | "batches"
+  | "price_rules"
+  | "schemes"
+  | "suppliers"
+  | "purchases"
+  | "supplier_payments"
+  | "app_settings";
+export type AuditAction = "insert" | "update" | "delete";
+
+// audit_log rows with their row images, which write_audit_log stores as JSON objects
+export type AuditLogEntry = Omit<Tables<"audit_log">, "before_data" | "after_data"> & {
+  before_data: Record<string, unknown> | null;
+  after_data: Record<string, unknown> | null;
+};
+
+export const AUDIT_TABLE_LABELS: Record<AuditTable, string> = {
+  customers: "Customers",
+  transactions: "Transactions",
+  batches: "Batches",
+  price_rules: "Prices",
+  schemes: "Schemes",
+  suppliers: "Suppliers",
+  purchases: "Purchases",
+  supplier_payments: "Supplier payments",
+  app_settings: "Settings",
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  insert: "Created",
+  update: "Updated",
+  delete: "Deleted",
+};
+
+export type AuditFieldChange = {
+  field: string;
+  before: unknown;
+  after: unknown;
+};
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Fields that differ between the before and after images of an audit entry. Inserts list every
+// field with no "before"; deletes list every field with no "after".
+export const diffAuditEntry = (
+  before?: Record<string, unknown> | null,
+  after?: Record<string, unknown> | null,
+): AuditFieldChange[] => {
+  const fields = Array.from(new Set([...Object.keys(before || {}), ...Object.keys(after || {})])).sort();
+  return fields
+    .map((field) => ({ field, before: before?.[field] ?? null, after: after?.[field] ?? null }))
+    .filter((change) => !before || !after || !sameValue(change.before, change.after));
+};
+
+// Short description of the row an entry is about, e.g. a customer name or a sale's tea
+export const describeAuditRecord = (tableName: string, data?: Record<string, unknown> | null) => {
+  if (!data) return "—";
+  switch (tableName) {
+    case "customers":
+      return String(data.full_name || data.shop_name || "Customer");
+    case "transactions": {
+      const type = String(data.type || "transaction");
+      const amount = Number(data.amount ?? 0);
+      return `${type}${data.tea_name ? ` · ${data.tea_name}` : ""} · ₹${amount.toFixed(2)}`;
+    }
+    case "batches":
+      return String(data.name || "Batch");
+    case "price_rules":
+      return `${data.tea_name || "Tea"} · ₹${Number(data.rate ?? 0).toFixed(2)}${Number(data.min_quantity ?? 0) > 0 ? ` from ${data.min_quantity} kg` : ""}`;
+    case "schemes": {
+      // Older images may lack columns the scheme has now; those are named without their terms
+      const scheme = schemeSchema.safeParse(data);
+      return scheme.success ? `${scheme.data.name} · ${describeScheme(scheme.data)}` : String(data.name || "Scheme");
+    }
+    case "suppliers":
+      return String(data.name || "Supplier");
+    case "purchases":
+      return `${data.invoice_number ? `Invoice ${data.invoice_number}` : "Purchase"} · ${Number(data.quantity ?? 0)} kg · ₹${Number(data.total_cost ?? 0).toFixed(2)}`;
+    case "supplier_payments":
+      return `Payment · ₹${Number(data.amount ?? 0).toFixed(2)}`;
+    case "app_settings":
+      return String(data.key || "Setting");
+    default:
+      return String(data.id || "—");
+  }
+};
+
+export const formatAuditValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
@@ -0,0 +1,71 @@
+import supabase from "./supabase";
+import { clearQueryCache } from "./query-persistence";
+import { clearStoredUser, getStoredUser, setStoredUser, type SessionUser } from "./utils";
+
+type SessionRow = {
+  token: string;
+  id: string;
+  email: string | null;
+  role: string;
+  expires_at: string;
+  must_change_password?: boolean | null;
+};
+
+const toSessionUser = (row: SessionRow): SessionUser => ({
+  id: row.id,
+  email: row.email,
+  role: String(row.role ?? "").toLowerCase(),
+  token: row.token,
+  expiresAt: row.expires_at,
+  mustChangePassword: Boolean(row.must_change_password),
+});
+
+// Exchanges credentials for a server-issued session token. Returns null for invalid credentials.
+export const signIn = async (email: string, password: string): Promise<SessionUser | null> => {
+  const { data, error } = await supabase.rpc("create_session", { p_email: email, p_password: password });
+  if (error) throw error;
+
+  const row = Array.isArray(data) ? (data[0] as SessionRow | undefined) : null;
+  if (!row?.token) return null;
+
+  const user = toSessionUser(row);
+  setStoredUser(user);
+  return user;
+};
+
+// Asks the server whether the stored token is still valid and which role it belongs to.
+// The stored copy is refreshed from the server so a locally edited role is never trusted.
+export const verifyStoredSession = async (): Promise<SessionUser | null> => {
+  const stored = getStoredUser();
+  if (!stored?.token) {
+    if (stored) clearStoredUser();
+    return null;
+  }
+
+  const { data, error } = await supabase.rpc("validate_session", { p_token: stored.token });
+  if (error) throw error;
+
+  const row = Array.isArray(data) ? (data[0] as SessionRow | undefined) : null;
+  if (!row?.token) {
+    clearStoredUser();
+    return null;
+  }
+
+  const user = toSessionUser(row);
+  setStoredUser(user);
+  return user;
+};
+
+export const signOut = async () => {
+  const stored = getStoredUser();
+  try {
+    if (stored?.token) {
+      await supabase.rpc("end_session", { p_token: stored.token });
+    }
+  } catch (err) {
+    console.warn("Failed to end session on the server", err);
+  } finally {
+    clearStoredUser();
+    await clearQueryCache().catch((err) => console.warn("Failed to clear the offline query cache", err));
+  }
+};
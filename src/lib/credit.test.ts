@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { findPendingOverride, getCreditHoldReason, getCreditStatus, isCreditHoldError } from "./credit";
+import { customers, fullDataset, makeCustomer, makeOverride } from "@/test/fixtures";
+
+const [asha] = customers;
+// Asha owes ₹2000 on the partial sale, due on 20 March 2024
+const asOf = new Date(2024, 3, 19);
+
+describe("getCreditStatus", () => {
+  it("never holds a customer without limits", () => {
+    expect(getCreditStatus(asha, fullDataset, asOf)).toEqual({
+      creditLimit: null,
+      maxOverdueDays: null,
+      outstanding: 2000,
+      oldestOverdueDays: 30,
+      available: null,
+      overLimit: false,
+      overdue: false,
+      onHold: false,
+    });
+  });
+
+  it("holds a customer who already owes their whole limit", () => {
+    const status = getCreditStatus({ ...asha, credit_limit: 2000 }, fullDataset, asOf);
+
+    expect(status).toMatchObject({ available: 0, overLimit: true, onHold: true });
+    expect(getCreditStatus({ ...asha, credit_limit: 2500 }, fullDataset, asOf)).toMatchObject({ available: 500, onHold: false });
+  });
+
+  it("holds a customer once an invoice is overdue for longer than allowed", () => {
+    expect(getCreditStatus({ ...asha, max_overdue_days: 29 }, fullDataset, asOf)).toMatchObject({ overdue: true, onHold: true });
+    expect(getCreditStatus({ ...asha, max_overdue_days: 30 }, fullDataset, asOf)).toMatchObject({ overdue: false, onHold: false });
+  });
+
+  it("does not hold a customer with a zero limit who owes nothing", () => {
+    const status = getCreditStatus(makeCustomer({ id: "cust-cash", credit_limit: 0 }), fullDataset, asOf);
+
+    expect(status).toMatchObject({ outstanding: 0, available: 0, onHold: false });
+  });
+});
+
+describe("getCreditHoldReason", () => {
+  const status = getCreditStatus({ ...asha, credit_limit: 2500, max_overdue_days: 29 }, fullDataset, asOf);
+
+  it("allows sales that are paid in full", () => {
+    expect(getCreditHoldReason(status, 0)).toBeNull();
+  });
+
+  it("explains a sale that would go past the limit before an overdue invoice", () => {
+    expect(getCreditHoldReason(status, 600)).toBe("The customer would owe ₹2600.00, above their ₹2500.00 credit limit.");
+    expect(getCreditHoldReason(status, 100)).toBe("An invoice is 30 days overdue; the customer is allowed 29.");
+  });
+});
+
+describe("findPendingOverride", () => {
+  it("picks the oldest unused override for the customer", () => {
+    const overrides = [
+      makeOverride({ id: "used", granted_at: "2024-03-01T09:00:00Z", used_at: "2024-03-02T09:00:00Z" }),
+      makeOverride({ id: "later", granted_at: "2024-04-02T09:00:00Z" }),
+      makeOverride({ id: "other", customer_id: "cust-corner", granted_at: "2024-03-15T09:00:00Z" }),
+      makeOverride({ id: "first" }),
+    ];
+
+    expect(findPendingOverride(overrides, "cust-asha")?.id).toBe("first");
+    expect(findPendingOverride(overrides.slice(0, 1), "cust-asha")).toBeNull();
+  });
+});
+
+describe("isCreditHoldError", () => {
+  it("recognises the error raised by enforce_credit_limit", () => {
+    expect(isCreditHoldError(new Error("credit hold: an invoice is 31 days overdue (allowed 30); collect payment"))).toBe(true);
+    expect(isCreditHoldError(new Error("insufficient stock"))).toBe(false);
+  });
+});
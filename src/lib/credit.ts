@@ -0,0 +1,73 @@
+import { getDaysPastDue } from "./analytics-breakdown";
+import { getOpenInvoices } from "./payment-allocation";
+import { computeTransactionSummary } from "./utils";
+import type { CreditOverride, Customer, Transaction } from "./schemas";
+
+export type CreditStatus = {
+  creditLimit: number | null;
+  maxOverdueDays: number | null;
+  outstanding: number;
+  // Days the oldest open invoice is past its due date (or sale date); 0 when nothing is overdue
+  oldestOverdueDays: number;
+  // Credit left under the limit, or null without a limit
+  available: number | null;
+  overLimit: boolean;
+  overdue: boolean;
+  onHold: boolean;
+};
+
+type CreditCustomer = Pick<Customer, "id" | "credit_limit" | "max_overdue_days">;
+
+const toLimit = (value: number | null | undefined) =>
+  value === null || value === undefined || !Number.isFinite(Number(value)) ? null : Number(value);
+
+// The same figures enforce_credit_limit checks on the server (db/migrations/0013_credit_limits.sql).
+// A customer is on hold when they already owe their whole limit or have an invoice overdue for
+// longer than allowed; until then only a sale that would take them past the limit is refused.
+export const getCreditStatus = (
+  customer: CreditCustomer,
+  transactions?: Transaction[] | null,
+  asOf: Date = new Date(),
+): CreditStatus => {
+  const rows = (transactions || []).filter((txn) => txn?.customer_id === customer.id);
+  const outstanding = computeTransactionSummary(rows).perCustomer[customer.id]?.outstanding ?? 0;
+  const oldestOverdueDays = Math.max(0, ...getOpenInvoices(rows).map((invoice) => getDaysPastDue(invoice, asOf)));
+  const creditLimit = toLimit(customer.credit_limit);
+  const maxOverdueDays = toLimit(customer.max_overdue_days);
+
+  const overLimit = creditLimit !== null && outstanding > 0 && outstanding >= creditLimit;
+  const overdue = maxOverdueDays !== null && oldestOverdueDays > maxOverdueDays;
+
+  return {
+    creditLimit,
+    maxOverdueDays,
+    outstanding,
+    oldestOverdueDays,
+    available: creditLimit !== null ? Math.max(creditLimit - outstanding, 0) : null,
+    overLimit,
+    overdue,
+    onHold: overLimit || overdue,
+  };
+};
+
+// Why a sale leaving `newBalance` unpaid would be refused, or null when it is allowed
+export const getCreditHoldReason = (status: CreditStatus, newBalance: number): string | null => {
+  if (!(newBalance > 0)) return null;
+  const owed = Math.round((status.outstanding + newBalance) * 100) / 100;
+  if (status.creditLimit !== null && owed > status.creditLimit) {
+    return `The customer would owe ₹${owed.toFixed(2)}, above their ₹${status.creditLimit.toFixed(2)} credit limit.`;
+  }
+  if (status.overdue) {
+    return `An invoice is ${status.oldestOverdueDays} days overdue; the customer is allowed ${status.maxOverdueDays}.`;
+  }
+  return null;
+};
+
+// The override the next held sale for this customer will use, oldest first as on the server
+export const findPendingOverride = (overrides: CreditOverride[] | null | undefined, customerId: string) =>
+  (overrides || [])
+    .filter((override) => override.customer_id === customerId && !override.used_at)
+    .sort((a, b) => new Date(a.granted_at).getTime() - new Date(b.granted_at).getTime())[0] ?? null;
+
+export const isCreditHoldError = (err: unknown) =>
+  /^credit hold:/i.test(String((err as { message?: unknown } | null)?.message || ""));
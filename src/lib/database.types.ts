@@ -0,0 +1,1255 @@
+// Database types for the public schema built by db/migrations, in the shape produced by
+// `supabase gen types typescript` (see the `types:db` script). Regenerate after changing the
+// schema; src/lib/schemas.ts is checked against these types, so drift fails the type-check.
+
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      app_sessions: {
+        Row: {
+          created_at: string | null
+          expires_at: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          expires_at: string
+          token: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          expires_at?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "app_sessions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "app_users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      app_settings: {
+        Row: {
+          key: string
+          updated_at: string | null
+          value: string | null
+        }
+        Insert: {
+          key: string
+          updated_at?: string | null
+          value?: string | null
+        }
+        Update: {
+          key?: string
+          updated_at?: string | null
+          value?: string | null
+        }
+        Relationships: []
+      }
+      app_users: {
+        Row: {
+          created_at: string | null
+          disabled_at: string | null
+          email: string
+          id: string
+          must_change_password: boolean
+          password_hash: string
+          role: string
+        }
+        Insert: {
+          created_at?: string | null
+          disabled_at?: string | null
+          email: string
+          id?: string
+          must_change_password?: boolean
+          password_hash: string
+          role: string
+        }
+        Update: {
+          created_at?: string | null
+          disabled_at?: string | null
+          email?: string
+          id?: string
+          must_change_password?: boolean
+          password_hash?: string
+          role?: string
+        }
+        Relationships: []
+      }
+      audit_log: {
+        Row: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          actor_role: string | null
+          after_data: Json | null
+          before_data: Json | null
+          id: number
+          occurred_at: string
+          record_id: string | null
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_email?: string | null
+          actor_id?: string | null
+          actor_role?: string | null
+          after_data?: Json | null
+          before_data?: Json | null
+          id?: number
+          occurred_at?: string
+          record_id?: string | null
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          actor_id?: string | null
+          actor_role?: string | null
+          after_data?: Json | null
+          before_data?: Json | null
+          id?: number
+          occurred_at?: string
+          record_id?: string | null
+          table_name?: string
+        }
+        Relationships: []
+      }
+      batches: {
+        Row: {
+          archived_at: string | null
+          created_at: string | null
+          gst_rate: number
+          hsn_code: string | null
+          id: string
+          name: string
+          purchase_rate: number
+          remaining_quantity: number
+          selling_rate: number | null
+          total_quantity: number
+        }
+        Insert: {
+          archived_at?: string | null
+          created_at?: string | null
+          gst_rate?: number
+          hsn_code?: string | null
+          id?: string
+          name: string
+          purchase_rate: number
+          remaining_quantity: number
+          selling_rate?: number | null
+          total_quantity: number
+        }
+        Update: {
+          archived_at?: string | null
+          created_at?: string | null
+          gst_rate?: number
+          hsn_code?: string | null
+          id?: string
+          name?: string
+          purchase_rate?: number
+          remaining_quantity?: number
+          selling_rate?: number | null
+          total_quantity?: number
+        }
+        Relationships: []
+      }
+      cheques: {
+        Row: {
+          amount: number
+          bank_name: string | null
+          bounce_charge: number | null
+          bounce_charge_id: string | null
+          bounced_at: string | null
+          cheque_date: string | null
+          cheque_number: string
+          cleared_at: string | null
+          created_at: string | null
+          customer_id: string | null
+          deposited_at: string | null
+          id: string
+          partner_id: string | null
+          payment_id: string
+          status: string
+        }
+        Insert: {
+          amount: number
+          bank_name?: string | null
+          bounce_charge?: number | null
+          bounce_charge_id?: string | null
+          bounced_at?: string | null
+          cheque_date?: string | null
+          cheque_number: string
+          cleared_at?: string | null
+          created_at?: string | null
+          customer_id?: string | null
+          deposited_at?: string | null
+          id?: string
+          partner_id?: string | null
+          payment_id: string
+          status?: string
+        }
+        Update: {
+          amount?: number
+          bank_name?: string | null
+          bounce_charge?: number | null
+          bounce_charge_id?: string | null
+          bounced_at?: string | null
+          cheque_date?: string | null
+          cheque_number?: string
+          cleared_at?: string | null
+          created_at?: string | null
+          customer_id?: string | null
+          deposited_at?: string | null
+          id?: string
+          partner_id?: string | null
+          payment_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cheques_bounce_charge_id_fkey"
+            columns: ["bounce_charge_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cheques_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cheques_partner_id_fkey"
+            columns: ["partner_id"]
+            isOneToOne: false
+            referencedRelation: "app_users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cheques_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: true
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_overrides: {
+        Row: {
+          customer_id: string
+          granted_at: string
+          granted_by: string | null
+          id: string
+          order_id: string | null
+          reason: string
+          used_at: string | null
+        }
+        Insert: {
+          customer_id: string
+          granted_at?: string
+          granted_by?: string | null
+          id?: string
+          order_id?: string | null
+          reason: string
+          used_at?: string | null
+        }
+        Update: {
+          customer_id?: string
+          granted_at?: string
+          granted_by?: string | null
+          id?: string
+          order_id?: string | null
+          reason?: string
+          used_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_overrides_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_overrides_granted_by_fkey"
+            columns: ["granted_by"]
+            isOneToOne: false
+            referencedRelation: "app_users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_overrides_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customers: {
+        Row: {
+          address: string | null
+          archived_at: string | null
+          contact: string | null
+          created_at: string | null
+          credit_limit: number | null
+          full_name: string | null
+          gstin: string | null
+          id: string
+          max_overdue_days: number | null
+          outstanding_balance: number | null
+          partner_id: string | null
+          shop_name: string | null
+          state_code: string | null
+          whatsapp_number: string | null
+        }
+        Insert: {
+          address?: string | null
+          archived_at?: string | null
+          contact?: string | null
+          created_at?: string | null
+          credit_limit?: number | null
+          full_name?: string | null
+          gstin?: string | null
+          id?: string
+          max_overdue_days?: number | null
+          outstanding_balance?: number | null
+          partner_id?: string | null
+          shop_name?: string | null
+          state_code?: string | null
+          whatsapp_number?: string | null
+        }
+        Update: {
+          address?: string | null
+          archived_at?: string | null
+          contact?: string | null
+          created_at?: string | null
+          credit_limit?: number | null
+          full_name?: string | null
+          gstin?: string | null
+          id?: string
+          max_overdue_days?: number | null
+          outstanding_balance?: number | null
+          partner_id?: string | null
+          shop_name?: string | null
+          state_code?: string | null
+          whatsapp_number?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customers_partner_id_fkey"
+            columns: ["partner_id"]
+            isOneToOne: false
+            referencedRelation: "app_users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      orders: {
+        Row: {
+          client_id: string | null
+          created_at: string | null
+          customer_id: string | null
+          due_date: string | null
+          id: string
+          invoice_number: number | null
+          partner_id: string | null
+        }
+        Insert: {
+          client_id?: string | null
+          created_at?: string | null
+          customer_id?: string | null
+          due_date?: string | null
+          id?: string
+          invoice_number?: number | null
+          partner_id?: string | null
+        }
+        Update: {
+          client_id?: string | null
+          created_at?: string | null
+          customer_id?: string | null
+          due_date?: string | null
+          id?: string
+          invoice_number?: number | null
+          partner_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orders_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_partner_id_fkey"
+            columns: ["partner_id"]
+            isOneToOne: false
+            referencedRelation: "app_users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_allocations: {
+        Row: {
+          amount: number
+          created_at: string | null
+          id: string
+          payment_id: string
+          sale_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          id?: string
+          payment_id: string
+          sale_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          id?: string
+          payment_id?: string
+          sale_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_allocations_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_allocations_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      price_rules: {
+        Row: {
+          created_at: string
+          customer_id: string | null
+          id: string
+          min_quantity: number
+          rate: number
+          tea_name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          customer_id?: string | null
+          id?: string
+          min_quantity?: number
+          rate: number
+          tea_name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          customer_id?: string | null
+          id?: string
+          min_quantity?: number
+          rate?: number
+          tea_name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_rules_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchases: {
+        Row: {
+          batch_id: string | null
+          created_at: string
+          due_date: string | null
+          freight: number
+          id: string
+          invoice_amount: number
+          invoice_date: string
+          invoice_number: string | null
+          landed_rate: number
+          other_costs: number
+          quantity: number
+          rate: number
+          supplier_id: string
+          total_cost: number
+        }
+        Insert: {
+          batch_id?: string | null
+          created_at?: string
+          due_date?: string | null
+          freight?: number
+          id?: string
+          invoice_amount?: never
+          invoice_date?: string
+          invoice_number?: string | null
+          landed_rate?: never
+          other_costs?: number
+          quantity: number
+          rate: number
+          supplier_id: string
+          total_cost?: never
+        }
+        Update: {
+          batch_id?: string | null
+          created_at?: string
+          due_date?: string | null
+          freight?: number
+          id?: string
+          invoice_amount?: never
+          invoice_date?: string
+          invoice_number?: string | null
+          landed_rate?: never
+          other_costs?: number
+          quantity?: number
+          rate?: number
+          supplier_id?: string
+          total_cost?: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchases_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: true
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchases_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      resets: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          kind: string
+          snapshot: Json
+          summary: Json | null
+          undo_until: string
+          undone_at: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind: string
+          snapshot: Json
+          summary?: Json | null
+          undo_until: string
+          undone_at?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind?: string
+          snapshot?: Json
+          summary?: Json | null
+          undo_until?: string
+          undone_at?: string | null
+        }
+        Relationships: []
+      }
+      schema_migrations: {
+        Row: {
+          applied_at: string
+          checksum: string
+          name: string
+          version: string
+        }
+        Insert: {
+          applied_at?: string
+          checksum: string
+          name: string
+          version: string
+        }
+        Update: {
+          applied_at?: string
+          checksum?: string
+          name?: string
+          version?: string
+        }
+        Relationships: []
+      }
+      schemes: {
+        Row: {
+          active: boolean
+          buy_quantity: number | null
+          created_at: string
+          customer_id: string | null
+          discount_percent: number | null
+          free_quantity: number | null
+          id: string
+          kind: string
+          min_quantity: number
+          name: string
+          tea_name: string | null
+          valid_from: string
+          valid_to: string | null
+        }
+        Insert: {
+          active?: boolean
+          buy_quantity?: number | null
+          created_at?: string
+          customer_id?: string | null
+          discount_percent?: number | null
+          free_quantity?: number | null
+          id?: string
+          kind: string
+          min_quantity?: number
+          name: string
+          tea_name?: string | null
+          valid_from?: string
+          valid_to?: string | null
+        }
+        Update: {
+          active?: boolean
+          buy_quantity?: number | null
+          created_at?: string
+          customer_id?: string | null
+          discount_percent?: number | null
+          free_quantity?: number | null
+          id?: string
+          kind?: string
+          min_quantity?: number
+          name?: string
+          tea_name?: string | null
+          valid_from?: string
+          valid_to?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "schemes_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      supplier_payments: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          paid_on: string
+          payment_method: string
+          payment_reference: string | null
+          purchase_id: string | null
+          supplier_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          paid_on?: string
+          payment_method?: string
+          payment_reference?: string | null
+          purchase_id?: string | null
+          supplier_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          paid_on?: string
+          payment_method?: string
+          payment_reference?: string | null
+          purchase_id?: string | null
+          supplier_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "supplier_payments_purchase_id_fkey"
+            columns: ["purchase_id"]
+            isOneToOne: false
+            referencedRelation: "purchases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_payments_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      suppliers: {
+        Row: {
+          address: string | null
+          archived_at: string | null
+          contact: string | null
+          created_at: string
+          gstin: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          address?: string | null
+          archived_at?: string | null
+          contact?: string | null
+          created_at?: string
+          gstin?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          address?: string | null
+          archived_at?: string | null
+          contact?: string | null
+          created_at?: string
+          gstin?: string | null
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      transactions: {
+        Row: {
+          amount: number | null
+          balance: number | null
+          batch_id: string | null
+          cgst_amount: number
+          client_id: string | null
+          created_at: string | null
+          credit_note_number: number | null
+          customer_id: string | null
+          discount_amount: number
+          due_date: string | null
+          free_quantity: number
+          gst_rate: number
+          hsn_code: string | null
+          id: string
+          igst_amount: number
+          order_id: string | null
+          paid_amount: number | null
+          partner_id: string | null
+          payment_method: string | null
+          payment_reference: string | null
+          place_of_supply: string | null
+          quantity: number | null
+          rate: number | null
+          receipt_number: number | null
+          return_of: string | null
+          return_reason: string | null
+          scheme_id: string | null
+          sgst_amount: number
+          status: string | null
+          taxable_value: number | null
+          tea_name: string | null
+          type: string | null
+        }
+        Insert: {
+          amount?: number | null
+          balance?: number | null
+          batch_id?: string | null
+          cgst_amount?: number
+          client_id?: string | null
+          created_at?: string | null
+          credit_note_number?: number | null
+          customer_id?: string | null
+          discount_amount?: number
+          due_date?: string | null
+          free_quantity?: number
+          gst_rate?: number
+          hsn_code?: string | null
+          id?: string
+          igst_amount?: number
+          order_id?: string | null
+          paid_amount?: number | null
+          partner_id?: string | null
+          payment_method?: string | null
+          payment_reference?: string | null
+          place_of_supply?: string | null
+          quantity?: number | null
+          rate?: number | null
+          receipt_number?: number | null
+          return_of?: string | null
+          return_reason?: string | null
+          scheme_id?: string | null
+          sgst_amount?: number
+          status?: string | null
+          taxable_value?: number | null
+          tea_name?: string | null
+          type?: string | null
+        }
+        Update: {
+          amount?: number | null
+          balance?: number | null
+          batch_id?: string | null
+          cgst_amount?: number
+          client_id?: string | null
+          created_at?: string | null
+          credit_note_number?: number | null
+          customer_id?: string | null
+          discount_amount?: number
+          due_date?: string | null
+          free_quantity?: number
+          gst_rate?: number
+          hsn_code?: string | null
+          id?: string
+          igst_amount?: number
+          order_id?: string | null
+          paid_amount?: number | null
+          partner_id?: string | null
+          payment_method?: string | null
+          payment_reference?: string | null
+          place_of_supply?: string | null
+          quantity?: number | null
+          rate?: number | null
+          receipt_number?: number | null
+          return_of?: string | null
+          return_reason?: string | null
+          scheme_id?: string | null
+          sgst_amount?: number
+          status?: string | null
+          taxable_value?: number | null
+          tea_name?: string | null
+          type?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transactions_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_partner_id_fkey"
+            columns: ["partner_id"]
+            isOneToOne: false
+            referencedRelation: "app_users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_scheme_id_fkey"
+            columns: ["scheme_id"]
+            isOneToOne: false
+            referencedRelation: "schemes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_return_of_fkey"
+            columns: ["return_of"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      analytics_summary: {
+        Row: {
+          avg_sale_value: number | null
+          last_payment_at: string | null
+          last_sale_at: string | null
+          outstanding: number | null
+          payments_count: number | null
+          returns_count: number | null
+          sales_count: number | null
+          today_collections: number | null
+          total_collections: number | null
+          total_customers: number | null
+          total_pnl: number | null
+          total_returns: number | null
+          total_sales: number | null
+          transactions_count: number | null
+        }
+        Relationships: []
+      }
+      batch_pnl: {
+        Row: {
+          batch_id: string | null
+          batch_name: string | null
+          free_quantity: number | null
+          pnl: number | null
+          purchase_cost_for_sold: number | null
+          purchase_rate: number | null
+          remaining_quantity: number | null
+          returned_quantity: number | null
+          sold_quantity: number | null
+          sold_revenue: number | null
+          total_quantity: number | null
+        }
+        Relationships: []
+      }
+      order_summary: {
+        Row: {
+          balance: number | null
+          created_at: string | null
+          customer_id: string | null
+          due_date: string | null
+          invoice_number: number | null
+          line_count: number | null
+          order_id: string | null
+          paid_amount: number | null
+          partner_id: string | null
+          status: string | null
+          total_amount: number | null
+          total_quantity: number | null
+        }
+        Relationships: []
+      }
+      supplier_payables: {
+        Row: {
+          last_paid_on: string | null
+          last_purchase_on: string | null
+          outstanding: number | null
+          purchase_count: number | null
+          supplier_id: string | null
+          supplier_name: string | null
+          total_paid: number | null
+          total_purchased: number | null
+        }
+        Relationships: []
+      }
+      tea_analytics: {
+        Row: {
+          avg_selling_rate: number | null
+          first_sale_at: string | null
+          last_sale_at: string | null
+          orders_count: number | null
+          outstanding_balance: number | null
+          returned_quantity: number | null
+          tea_name: string | null
+          total_paid_amount: number | null
+          total_sales_amount: number | null
+          total_sold_quantity: number | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      admin_create_user: {
+        Args: {
+          p_email: string
+          p_password: string
+          p_role: string
+        }
+        Returns: string
+      }
+      admin_delete_user: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      admin_list_users: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+            id: string
+            email: string
+            role: string
+            created_at: string
+            disabled_at: string
+            must_change_password: boolean
+          }[]
+      }
+      admin_reset_password: {
+        Args: {
+          p_password: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      admin_set_user_disabled: {
+        Args: {
+          p_disabled: boolean
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      apply_credit_notes: {
+        Args: {
+          p_customer_id: string
+          p_sale_ids: string[]
+        }
+        Returns: number
+      }
+      authenticate_user: {
+        Args: {
+          p_email: string
+          p_password: string
+        }
+        Returns: {
+            id: string
+            email: string
+            role: string
+          }[]
+      }
+      bounce_cheque: {
+        Args: {
+          p_bounce_charge?: number
+          p_cheque_id: string
+        }
+        Returns: Json
+      }
+      business_state_code: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      change_own_password: {
+        Args: {
+          p_current_password: string
+          p_new_password: string
+        }
+        Returns: undefined
+      }
+      create_session: {
+        Args: {
+          p_email: string
+          p_password: string
+        }
+        Returns: {
+            token: string
+            id: string
+            email: string
+            role: string
+            expires_at: string
+            must_change_password: boolean
+          }[]
+      }
+      current_app_role: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      current_app_user_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      end_session: {
+        Args: {
+          p_token: string
+        }
+        Returns: undefined
+      }
+      enforce_credit_limit: {
+        Args: {
+          p_customer_id: string
+          p_new_balance: number
+          p_order_id: string
+        }
+        Returns: undefined
+      }
+      grant_credit_override: {
+        Args: {
+          p_customer_id: string
+          p_reason: string
+        }
+        Returns: {
+          customer_id: string
+          granted_at: string
+          granted_by: string | null
+          id: string
+          order_id: string | null
+          reason: string
+          used_at: string | null
+        }
+      }
+      gst_split: {
+        Args: {
+          p_customer_id: string
+          p_gst_rate: number
+          p_taxable: number
+        }
+        Returns: {
+          cgst_amount: number
+          igst_amount: number
+          place_of_supply: string
+          sgst_amount: number
+        }[]
+      }
+      list_partners: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+            id: string
+            email: string
+            created_at: string
+          }[]
+      }
+      purge_archived_batch: {
+        Args: {
+          p_batch_id: string
+        }
+        Returns: undefined
+      }
+      purge_archived_customer: {
+        Args: {
+          p_customer_id: string
+        }
+        Returns: undefined
+      }
+      record_order: {
+        Args: {
+          p_apply_credit?: boolean
+          p_cheque_bank?: string
+          p_cheque_date?: string
+          p_client_id?: string
+          p_customer_id: string
+          p_due_date?: string
+          p_items: Json
+          p_paid_amount?: number
+          p_payment_method?: string
+          p_payment_reference?: string
+          p_recorded_at?: string
+        }
+        Returns: Json
+      }
+      record_payment: {
+        Args: {
+          p_allocations?: Json
+          p_amount: number
+          p_cheque_bank?: string
+          p_cheque_date?: string
+          p_client_id?: string
+          p_customer_id: string
+          p_payment_method?: string
+          p_payment_reference?: string
+          p_recorded_at?: string
+        }
+        Returns: Json
+      }
+      record_purchase: {
+        Args: {
+          p_batch_name: string
+          p_due_date?: string
+          p_freight?: number
+          p_gst_rate?: number
+          p_hsn_code?: string
+          p_invoice_date?: string
+          p_invoice_number?: string
+          p_other_costs?: number
+          p_quantity: number
+          p_rate: number
+          p_selling_rate?: number
+          p_supplier_id: string
+        }
+        Returns: Json
+      }
+      record_return: {
+        Args: {
+          p_quantity: number
+          p_reason?: string
+          p_sale_id: string
+        }
+        Returns: Json
+      }
+      record_sale: {
+        Args: {
+          p_batch_id: string
+          p_customer_id: string
+          p_due_date?: string
+          p_paid_amount: number
+          p_price_per_kg: number
+          p_quantity: number
+          p_scheme_id?: string
+          p_tx_type: string
+        }
+        Returns: Json
+      }
+      reset_all: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      reset_today_metrics: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      scheme_benefit: {
+        Args: {
+          p_customer_id: string
+          p_quantity: number
+          p_rate: number
+          p_scheme_id: string
+          p_sold_on: string
+          p_tea_name: string
+        }
+        Returns: {
+          discount_amount: number
+          free_quantity: number
+        }[]
+      }
+      undo_last_reset: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      update_cheque_status: {
+        Args: {
+          p_cheque_id: string
+          p_status: string
+        }
+        Returns: Json
+      }
+      validate_session: {
+        Args: {
+          p_token: string
+        }
+        Returns: {
+            token: string
+            id: string
+            email: string
+            role: string
+            expires_at: string
+            must_change_password: boolean
+          }[]
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database["public"]
+
+export type Tables<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Row"]
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Insert"]
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Update"]
+export type Views<T extends keyof PublicSchema["Views"]> = PublicSchema["Views"][T]["Row"]
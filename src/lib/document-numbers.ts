@@ -0,0 +1,9 @@
+export const formatInvoiceNumber = (invoiceNumber?: number | string | null) => {
+  if (invoiceNumber == null || invoiceNumber === "") return "—";
+  return `KC-${String(invoiceNumber).padStart(5, "0")}`;
+};
+
+export const formatReceiptNumber = (receiptNumber?: number | string | null) => {
+  if (receiptNumber == null || receiptNumber === "") return "—";
+  return `RC-${String(receiptNumber).padStart(5, "0")}`;
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeGst,
+  formatPlaceOfSupply,
+  getCustomerStateCode,
+  getStateFromGstin,
+  getTaxableValue,
+  isValidGstin,
+  normaliseGstin,
+} from "./gst";
+import { makeCustomer, makeTransaction } from "@/test/fixtures";
+
+describe("isValidGstin", () => {
+  it("accepts well-formed GSTINs with a known state code", () => {
+    expect(isValidGstin("27ABCDE1234F1Z5")).toBe(true);
+    expect(isValidGstin(" 27abcde1234f1z5 ")).toBe(true);
+    expect(isValidGstin("27ABCDE1234F1Z")).toBe(false);
+    expect(isValidGstin("99ABCDE1234F1Z5")).toBe(false);
+    expect(isValidGstin("27ABCDE1234F1X5")).toBe(false);
+    expect(isValidGstin(null)).toBe(false);
+  });
+
+  it("normalises spacing and case", () => {
+    expect(normaliseGstin(" 29aaacb 1234c1zq ")).toBe("29AAACB1234C1ZQ");
+    expect(normaliseGstin("  ")).toBeNull();
+  });
+});
+
+describe("state codes", () => {
+  it("takes the customer's state from the GSTIN before the saved state", () => {
+    expect(getStateFromGstin("29AAACB1234C1ZQ")).toBe("29");
+    expect(getCustomerStateCode(makeCustomer({ id: "cust-bengaluru", gstin: "29AAACB1234C1ZQ", state_code: "27" }))).toBe("29");
+    expect(getCustomerStateCode(makeCustomer({ id: "cust-surat", state_code: "24" }))).toBe("24");
+    expect(getCustomerStateCode(makeCustomer({ id: "cust-walk-in" }))).toBeNull();
+  });
+
+  it("writes the place of supply the way GSTR-1 does", () => {
+    expect(formatPlaceOfSupply("27")).toBe("27-Maharashtra");
+    expect(formatPlaceOfSupply("96")).toBe("96");
+    expect(formatPlaceOfSupply(null)).toBe("—");
+  });
+});
+
+describe("computeGst", () => {
+  it("splits tax within the business's state into CGST and SGST", () => {
+    expect(computeGst(1425, 5, { placeOfSupply: "27", businessState: "27" })).toEqual({
+      taxableValue: 1425,
+      cgst: 35.63,
+      sgst: 35.63,
+      igst: 0,
+      tax: 71.26,
+    });
+  });
+
+  it("charges IGST on sales to other states", () => {
+    expect(computeGst(1425, 5, { placeOfSupply: "29", businessState: "27" })).toEqual({
+      taxableValue: 1425,
+      cgst: 0,
+      sgst: 0,
+      igst: 71.25,
+      tax: 71.25,
+    });
+  });
+
+  it("treats customers without a state, and a business without a GSTIN, as local", () => {
+    expect(computeGst(1000, 5, { placeOfSupply: null, businessState: "27" }).igst).toBe(0);
+    expect(computeGst(1000, 5, { placeOfSupply: "29", businessState: null })).toMatchObject({ cgst: 25, sgst: 25 });
+    expect(computeGst(1000, 0, { placeOfSupply: "29", businessState: "27" }).tax).toBe(0);
+  });
+});
+
+describe("getTaxableValue", () => {
+  it("falls back to the amount for sales recorded before GST", () => {
+    expect(getTaxableValue(makeTransaction({ id: "sale-gst", amount: 1050, taxable_value: 1000 }))).toBe(1000);
+    expect(getTaxableValue(makeTransaction({ id: "sale-old", amount: 1050 }))).toBe(1050);
+  });
+});
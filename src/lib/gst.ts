@@ -0,0 +1,103 @@
+import type { Customer, Transaction } from "./schemas";
+
+// The business's own GSTIN is kept in app_settings under this key (see db/migrations/0016_gst.sql)
+export const BUSINESS_GSTIN_KEY = "business_gstin";
+
+// Tea is HSN 0902 and taxed at 5%; new batches start with these
+export const DEFAULT_HSN_CODE = "0902";
+export const DEFAULT_GST_RATE = 5;
+export const GST_RATES = [0, 5, 12, 18, 28] as const;
+
+// GST state codes, as used in GSTINs and for the place of supply
+export const GST_STATES = [
+  { code: "01", name: "Jammu and Kashmir" },
+  { code: "02", name: "Himachal Pradesh" },
+  { code: "03", name: "Punjab" },
+  { code: "04", name: "Chandigarh" },
+  { code: "05", name: "Uttarakhand" },
+  { code: "06", name: "Haryana" },
+  { code: "07", name: "Delhi" },
+  { code: "08", name: "Rajasthan" },
+  { code: "09", name: "Uttar Pradesh" },
+  { code: "10", name: "Bihar" },
+  { code: "11", name: "Sikkim" },
+  { code: "12", name: "Arunachal Pradesh" },
+  { code: "13", name: "Nagaland" },
+  { code: "14", name: "Manipur" },
+  { code: "15", name: "Mizoram" },
+  { code: "16", name: "Tripura" },
+  { code: "17", name: "Meghalaya" },
+  { code: "18", name: "Assam" },
+  { code: "19", name: "West Bengal" },
+  { code: "20", name: "Jharkhand" },
+  { code: "21", name: "Odisha" },
+  { code: "22", name: "Chhattisgarh" },
+  { code: "23", name: "Madhya Pradesh" },
+  { code: "24", name: "Gujarat" },
+  { code: "26", name: "Dadra and Nagar Haveli and Daman and Diu" },
+  { code: "27", name: "Maharashtra" },
+  { code: "29", name: "Karnataka" },
+  { code: "30", name: "Goa" },
+  { code: "31", name: "Lakshadweep" },
+  { code: "32", name: "Kerala" },
+  { code: "33", name: "Tamil Nadu" },
+  { code: "34", name: "Puducherry" },
+  { code: "35", name: "Andaman and Nicobar Islands" },
+  { code: "36", name: "Telangana" },
+  { code: "37", name: "Andhra Pradesh" },
+  { code: "38", name: "Ladakh" },
+  { code: "97", name: "Other Territory" },
+] as const;
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export const normaliseGstin = (value?: string | null) => {
+  const gstin = (value || "").replace(/\s+/g, "").toUpperCase();
+  return gstin || null;
+};
+
+// Format and state check only; the portal verifies the GSTIN itself
+export const isValidGstin = (value?: string | null) => {
+  const gstin = normaliseGstin(value);
+  return Boolean(gstin && GSTIN_PATTERN.test(gstin) && getStateName(gstin.slice(0, 2)));
+};
+
+export const getStateName = (code?: string | null) => GST_STATES.find((state) => state.code === code)?.name ?? null;
+
+// "27-Maharashtra", the way GSTR-1 writes the place of supply
+export const formatPlaceOfSupply = (code?: string | null) => {
+  const name = getStateName(code);
+  return code ? (name ? `${code}-${name}` : code) : "—";
+};
+
+export const getStateFromGstin = (gstin?: string | null) => normaliseGstin(gstin)?.slice(0, 2) || null;
+
+export const getCustomerStateCode = (customer?: Pick<Customer, "gstin" | "state_code"> | null) =>
+  getStateFromGstin(customer?.gstin) ?? customer?.state_code ?? null;
+
+export type GstAmounts = {
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+};
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// The same split gst_split makes on the server: CGST and SGST at half the rate each within the
+// business's state (or when it is not set), IGST at the full rate for other states
+export const computeGst = (
+  taxableValue: number,
+  gstRate: number,
+  { placeOfSupply, businessState }: { placeOfSupply?: string | null; businessState?: string | null },
+): GstAmounts & { tax: number } => {
+  const rate = Number.isFinite(gstRate) ? gstRate : 0;
+  const interState = Boolean(businessState) && (placeOfSupply ?? businessState) !== businessState;
+  const igst = interState ? roundMoney((taxableValue * rate) / 100) : 0;
+  const cgst = interState ? 0 : roundMoney((taxableValue * rate) / 200);
+  return { taxableValue, cgst, sgst: cgst, igst, tax: roundMoney(cgst * 2 + igst) };
+};
+
+// Value before tax; sales recorded before GST invoicing have no taxable value and no tax
+export const getTaxableValue = (txn: Pick<Transaction, "taxable_value" | "amount">) =>
+  Number(txn.taxable_value ?? txn.amount ?? 0);
@@ -0,0 +1,215 @@
+import { describe, expect, it } from "vitest";
+import { buildGstr1Report } from "./gstr1";
+import { makeCustomer, makeTransaction } from "@/test/fixtures";
+
+// The business is registered in Maharashtra (27)
+const bengaluruTraders = makeCustomer({ id: "cust-bengaluru", full_name: "Bengaluru Traders", gstin: "29AAACB1234C1ZQ" });
+const cornerStall = makeCustomer({ id: "cust-corner", full_name: "Corner Stall" });
+const suratHotel = makeCustomer({ id: "cust-surat", full_name: "Surat Hotel", state_code: "24" });
+
+const october = "2024-10-15T10:00:00Z";
+
+const registeredSale = makeTransaction({
+  id: "sale-b2b-5",
+  customer_id: bengaluruTraders.id,
+  order_id: "order-b2b",
+  hsn_code: "0902",
+  quantity: 10,
+  amount: 1050,
+  gst_rate: 5,
+  taxable_value: 1000,
+  igst_amount: 50,
+  place_of_supply: "29",
+  created_at: october,
+});
+
+const registeredSaleAt12 = makeTransaction({
+  id: "sale-b2b-12",
+  customer_id: bengaluruTraders.id,
+  order_id: "order-b2b",
+  hsn_code: "0902",
+  quantity: 5,
+  amount: 560,
+  gst_rate: 12,
+  taxable_value: 500,
+  igst_amount: 60,
+  place_of_supply: "29",
+  created_at: october,
+});
+
+const registeredReturn = makeTransaction({
+  id: "return-b2b",
+  customer_id: bengaluruTraders.id,
+  type: "return",
+  return_of: registeredSale.id,
+  credit_note_number: 3,
+  hsn_code: "0902",
+  quantity: -5,
+  amount: -525,
+  gst_rate: 5,
+  taxable_value: -500,
+  igst_amount: -25,
+  place_of_supply: "29",
+  created_at: "2024-10-20T10:00:00Z",
+});
+
+const localSale = makeTransaction({
+  id: "sale-local",
+  customer_id: cornerStall.id,
+  order_id: "order-local",
+  hsn_code: "0902",
+  quantity: 20,
+  amount: 2100,
+  gst_rate: 5,
+  taxable_value: 2000,
+  cgst_amount: 50,
+  sgst_amount: 50,
+  place_of_supply: "27",
+  created_at: october,
+});
+
+const localReturn = makeTransaction({
+  id: "return-local",
+  customer_id: cornerStall.id,
+  type: "return",
+  return_of: localSale.id,
+  credit_note_number: 4,
+  hsn_code: "0902",
+  quantity: -2,
+  amount: -210,
+  gst_rate: 5,
+  taxable_value: -200,
+  cgst_amount: -5,
+  sgst_amount: -5,
+  place_of_supply: "27",
+  created_at: october,
+});
+
+const largeInterStateSale = makeTransaction({
+  id: "sale-b2cl",
+  customer_id: suratHotel.id,
+  order_id: "order-b2cl",
+  hsn_code: "0902",
+  quantity: 1000,
+  amount: 126000,
+  gst_rate: 5,
+  taxable_value: 120000,
+  igst_amount: 6000,
+  place_of_supply: "24",
+  created_at: october,
+});
+
+const smallInterStateSale = makeTransaction({
+  id: "sale-small",
+  customer_id: suratHotel.id,
+  order_id: "order-small",
+  hsn_code: "0902",
+  quantity: 10,
+  amount: 1050,
+  gst_rate: 5,
+  taxable_value: 1000,
+  igst_amount: 50,
+  place_of_supply: "24",
+  created_at: october,
+});
+
+const outsideTheMonth = [
+  makeTransaction({ id: "payment", customer_id: cornerStall.id, type: "payment", amount: 500, created_at: october }),
+  makeTransaction({ id: "sale-september", customer_id: cornerStall.id, amount: 1000, created_at: "2024-09-30T10:00:00Z" }),
+];
+
+const invoiceNumbers = new Map<string, number | null>([
+  ["order-b2b", 12],
+  ["order-local", 13],
+  ["order-b2cl", 14],
+  ["order-small", 15],
+]);
+
+const buildReport = () =>
+  buildGstr1Report(
+    [
+      registeredSale,
+      registeredSaleAt12,
+      registeredReturn,
+      localSale,
+      localReturn,
+      largeInterStateSale,
+      smallInterStateSale,
+      ...outsideTheMonth,
+    ],
+    [bengaluruTraders, cornerStall, suratHotel],
+    { month: "2024-10", businessState: "27", invoiceNumbers },
+  );
+
+describe("buildGstr1Report", () => {
+  it("lists invoices to registered customers per rate with the whole invoice value", () => {
+    const { b2b } = buildReport();
+
+    expect(b2b).toHaveLength(2);
+    expect(b2b[0]).toMatchObject({
+      gstin: "29AAACB1234C1ZQ",
+      customerName: "Bengaluru Traders",
+      documentNumber: "KC-00012",
+      documentValue: 1610,
+      placeOfSupply: "29",
+      rate: 5,
+      taxableValue: 1000,
+      igst: 50,
+      cgst: 0,
+    });
+    expect(b2b[1]).toMatchObject({ documentNumber: "KC-00012", documentValue: 1610, rate: 12, taxableValue: 500, igst: 60 });
+  });
+
+  it("reports large inter-state invoices to unregistered customers as B2CL", () => {
+    const { b2cl } = buildReport();
+
+    expect(b2cl).toHaveLength(1);
+    expect(b2cl[0]).toMatchObject({ documentNumber: "KC-00014", documentValue: 126000, placeOfSupply: "24", igst: 6000 });
+  });
+
+  it("nets other unregistered sales and returns by place of supply and rate", () => {
+    expect(buildReport().b2cs).toEqual([
+      { placeOfSupply: "24", rate: 5, taxableValue: 1000, cgst: 0, sgst: 0, igst: 50 },
+      { placeOfSupply: "27", rate: 5, taxableValue: 1800, cgst: 45, sgst: 45, igst: 0 },
+    ]);
+  });
+
+  it("reports returns by registered customers as credit notes against the original invoice", () => {
+    const { creditNotes } = buildReport();
+
+    expect(creditNotes).toHaveLength(1);
+    expect(creditNotes[0]).toMatchObject({
+      gstin: "29AAACB1234C1ZQ",
+      originalInvoiceNumber: "KC-00012",
+      documentValue: 525,
+      taxableValue: 500,
+      igst: 25,
+    });
+  });
+
+  it("summarises quantity, value and tax per HSN code and rate", () => {
+    const { hsn, totals } = buildReport();
+
+    expect(hsn).toEqual([
+      { hsnCode: "0902", rate: 5, quantity: 1033, totalValue: 129465, taxableValue: 123300, cgst: 45, sgst: 45, igst: 6075 },
+      { hsnCode: "0902", rate: 12, quantity: 5, totalValue: 560, taxableValue: 500, cgst: 0, sgst: 0, igst: 60 },
+    ]);
+    expect(totals).toEqual({ taxableValue: 123800, cgst: 45, sgst: 45, igst: 6135, invoiceValue: 130025 });
+  });
+
+  it("leaves out sales zeroed by a reset", () => {
+    const resetSale = makeTransaction({
+      ...registeredSale,
+      id: "sale-reset",
+      order_id: "order-reset",
+      amount: 0,
+      quantity: 0,
+      status: "reset",
+    });
+    const { b2b, hsn, totals } = buildGstr1Report([resetSale], [bengaluruTraders], { month: "2024-10", businessState: "27" });
+
+    expect(b2b).toEqual([]);
+    expect(hsn).toEqual([]);
+    expect(totals).toEqual({ taxableValue: 0, cgst: 0, sgst: 0, igst: 0, invoiceValue: 0 });
+  });
+});
@@ -0,0 +1,174 @@
+import { getCustomerStateCode, getTaxableValue, normaliseGstin, type GstAmounts } from "./gst";
+import { formatInvoiceNumber } from "./document-numbers";
+import { formatCreditNoteNumber } from "./returns";
+import type { Customer, Transaction } from "./schemas";
+
+// Inter-state sales to unregistered buyers above this invoice value are reported as B2CL
+export const B2CL_INVOICE_LIMIT = 100000;
+
+export type Gstr1DocumentRow = GstAmounts & {
+  gstin: string | null;
+  customerName: string;
+  documentNumber: string;
+  documentDate: string | null;
+  // Credit notes only: the invoice the returned tea was sold on
+  originalInvoiceNumber: string | null;
+  documentValue: number;
+  placeOfSupply: string | null;
+  rate: number;
+};
+
+export type Gstr1SummaryRow = GstAmounts & {
+  placeOfSupply: string | null;
+  rate: number;
+};
+
+export type Gstr1HsnRow = GstAmounts & {
+  hsnCode: string;
+  rate: number;
+  quantity: number;
+  totalValue: number;
+};
+
+export type Gstr1Report = {
+  b2b: Gstr1DocumentRow[];
+  b2cl: Gstr1DocumentRow[];
+  b2cs: Gstr1SummaryRow[];
+  creditNotes: Gstr1DocumentRow[];
+  hsn: Gstr1HsnRow[];
+  totals: GstAmounts & { invoiceValue: number };
+};
+
+type Gstr1Options = {
+  // "2024-10"; sales and returns are picked by their local date
+  month: string;
+  businessState?: string | null;
+  invoiceNumbers?: Map<string, number | null>;
+};
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const toLocalMonthValue = (value: string) => {
+  const date = new Date(value);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+};
+
+const emptyAmounts = (): GstAmounts => ({ taxableValue: 0, cgst: 0, sgst: 0, igst: 0 });
+
+// Adds a line's taxable value and tax; credit notes pass -1 so returns (stored negative) add up positive
+const addAmounts = <T extends GstAmounts>(target: T, txn: Transaction, sign = 1) => {
+  target.taxableValue = roundMoney(target.taxableValue + sign * getTaxableValue(txn));
+  target.cgst = roundMoney(target.cgst + sign * Number(txn.cgst_amount || 0));
+  target.sgst = roundMoney(target.sgst + sign * Number(txn.sgst_amount || 0));
+  target.igst = roundMoney(target.igst + sign * Number(txn.igst_amount || 0));
+  return target;
+};
+
+const byDocument = (a: Gstr1DocumentRow, b: Gstr1DocumentRow) =>
+  a.documentNumber.localeCompare(b.documentNumber) || a.rate - b.rate;
+
+// GSTR-1 style summary of a month's sales and returns:
+// - B2B: invoices to customers with a GSTIN, one row per invoice and GST rate
+// - B2CL: inter-state invoices to unregistered customers above B2CL_INVOICE_LIMIT
+// - B2CS: every other unregistered sale, totalled by place of supply and rate, net of returns
+// - Credit notes: returns by customers with a GSTIN
+// - HSN: quantity, value and tax per HSN code and rate, net of returns
+export const buildGstr1Report = (
+  transactions: Transaction[] | null | undefined,
+  customers: Customer[] | null | undefined,
+  { month, businessState = null, invoiceNumbers = new Map() }: Gstr1Options,
+): Gstr1Report => {
+  const customerById = new Map((customers || []).map((customer) => [customer.id, customer]));
+  const saleById = new Map((transactions || []).map((txn) => [txn.id, txn]));
+  // Reset rows were never really sold; ones reset before migration 0016 still carry their tax
+  const rows = (transactions || []).filter((txn) => {
+    const type = String(txn.type || "sale").toLowerCase();
+    return (
+      type !== "payment" &&
+      type !== "charge" &&
+      txn.status !== "reset" &&
+      txn.created_at &&
+      toLocalMonthValue(txn.created_at) === month
+    );
+  });
+
+  // GSTR-1 repeats the whole invoice value on every rate row of the invoice
+  const invoiceValues = new Map<string, number>();
+  rows.forEach((txn) => {
+    if (!txn.order_id || String(txn.type || "").toLowerCase() === "return") return;
+    invoiceValues.set(txn.order_id, roundMoney((invoiceValues.get(txn.order_id) ?? 0) + Number(txn.amount || 0)));
+  });
+
+  const invoiceLabel = (orderId?: string | null) => formatInvoiceNumber(orderId ? invoiceNumbers.get(orderId) : null);
+
+  const b2b = new Map<string, Gstr1DocumentRow>();
+  const b2cl = new Map<string, Gstr1DocumentRow>();
+  const creditNotes = new Map<string, Gstr1DocumentRow>();
+  const b2cs = new Map<string, Gstr1SummaryRow>();
+  const hsn = new Map<string, Gstr1HsnRow>();
+  const totals = { ...emptyAmounts(), invoiceValue: 0 };
+
+  rows.forEach((txn) => {
+    const customer = txn.customer_id ? customerById.get(txn.customer_id) : undefined;
+    const gstin = normaliseGstin(customer?.gstin);
+    const isReturn = String(txn.type || "").toLowerCase() === "return";
+    const rate = Number(txn.gst_rate || 0);
+    const placeOfSupply = txn.place_of_supply ?? getCustomerStateCode(customer) ?? businessState;
+    const invoiceValue = (txn.order_id && invoiceValues.get(txn.order_id)) || Number(txn.amount || 0);
+    const interState = Boolean(businessState) && placeOfSupply !== businessState;
+
+    const documents = isReturn
+      ? gstin
+        ? creditNotes
+        : null
+      : gstin
+        ? b2b
+        : interState && invoiceValue > B2CL_INVOICE_LIMIT
+          ? b2cl
+          : null;
+
+    if (documents) {
+      const key = `${txn.order_id ?? txn.id}:${rate}`;
+      const sign = isReturn ? -1 : 1;
+      const originalSale = isReturn && txn.return_of ? saleById.get(txn.return_of) : undefined;
+      const row = documents.get(key) ?? {
+        gstin,
+        customerName: customer?.full_name || customer?.shop_name || "Customer",
+        documentNumber: isReturn ? formatCreditNoteNumber(txn.credit_note_number) : invoiceLabel(txn.order_id),
+        documentDate: txn.created_at,
+        originalInvoiceNumber: isReturn ? invoiceLabel(originalSale?.order_id) : null,
+        documentValue: isReturn ? 0 : invoiceValue,
+        placeOfSupply,
+        rate,
+        ...emptyAmounts(),
+      };
+      addAmounts(row, txn, sign);
+      if (isReturn) row.documentValue = roundMoney(row.documentValue - Number(txn.amount || 0));
+      documents.set(key, row);
+    } else {
+      const key = `${placeOfSupply}:${rate}`;
+      b2cs.set(key, addAmounts(b2cs.get(key) ?? { placeOfSupply, rate, ...emptyAmounts() }, txn));
+    }
+
+    const hsnCode = txn.hsn_code || "—";
+    const hsnKey = `${hsnCode}:${rate}`;
+    const hsnRow = addAmounts(hsn.get(hsnKey) ?? { hsnCode, rate, quantity: 0, totalValue: 0, ...emptyAmounts() }, txn);
+    hsnRow.quantity = roundMoney(hsnRow.quantity + Number(txn.quantity || 0));
+    hsnRow.totalValue = roundMoney(hsnRow.totalValue + Number(txn.amount || 0));
+    hsn.set(hsnKey, hsnRow);
+
+    addAmounts(totals, txn);
+    totals.invoiceValue = roundMoney(totals.invoiceValue + Number(txn.amount || 0));
+  });
+
+  return {
+    b2b: Array.from(b2b.values()).sort(byDocument),
+    b2cl: Array.from(b2cl.values()).sort(byDocument),
+    b2cs: Array.from(b2cs.values()).sort(
+      (a, b) => String(a.placeOfSupply).localeCompare(String(b.placeOfSupply)) || a.rate - b.rate,
+    ),
+    creditNotes: Array.from(creditNotes.values()).sort(byDocument),
+    hsn: Array.from(hsn.values()).sort((a, b) => a.hsnCode.localeCompare(b.hsnCode) || a.rate - b.rate),
+    totals,
+  };
+};
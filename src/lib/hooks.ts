@@ -1,25 +1,86 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import supabase from "./supabase";
-import { useEffect, useRef } from "react";
-import { normalizePhoneNumber } from "./utils";
+import { useEffect } from "react";
+import { getCurrentPartnerId, getStoredUser, normalizePhoneNumber, type SessionUser } from "./utils";
+import { verifyStoredSession } from "./auth";
+import type { AuditLogEntry } from "./audit";
+import type { PaymentAllocation } from "./payment-allocation";
+import { toPaymentRpcParams, type PaymentDetails } from "./payment-methods";
+import {
+  isNetworkError,
+  listOutboxEntries,
+  removeOutboxEntry,
+  subscribeOutbox,
+  updateOutboxEntry,
+  type OutboxEntry,
+} from "./outbox";
+import type { Tables, TablesInsert, TablesUpdate } from "./database.types";
+import { BUSINESS_GSTIN_KEY, DEFAULT_GST_RATE, DEFAULT_HSN_CODE, isValidGstin, normaliseGstin } from "./gst";
+import {
+  analyticsSummarySchema,
+  appSettingSchema,
+  batchPnlSchema,
+  batchSchema,
+  creditOverrideSchema,
+  customerSchema,
+  orderSummarySchema,
+  parseRow,
+  parseRows,
+  priceRuleSchema,
+  purchaseSchema,
+  schemeSchema,
+  supplierPayableSchema,
+  supplierPaymentSchema,
+  supplierSchema,
+  transactionSchema,
+  type Batch,
+  type BatchPnlRow,
+  type CreditOverride,
+  type Customer,
+  type OrderSummaryRow,
+  type PriceRule,
+  type Purchase,
+  type Scheme,
+  type Supplier,
+  type SupplierPayableRow,
+  type SupplierPayment,
+  type Transaction,
+} from "./schemas";
 
 const PARTNER_CONTACT_KEY = "partner_contact_number";
 
-export const usePartnerContactSetting = () => {
+// Server-side check of the stored session token; re-validated whenever the window regains focus
+export const useVerifiedSession = (token: string | null) => {
+  return useQuery<SessionUser | null>({
+    queryKey: ["session", token],
+    queryFn: verifyStoredSession,
+    enabled: Boolean(token),
+    staleTime: 1000 * 60 * 5,
+    retry: false,
+  });
+};
+
+// Each partner can have their own reminder contact number stored under a suffixed key;
+// without a partner id the global default number is used.
+export const partnerContactSettingKey = (partnerId?: string | null) =>
+  partnerId ? `${PARTNER_CONTACT_KEY}:${partnerId}` : PARTNER_CONTACT_KEY;
+
+export const usePartnerContactSetting = (partnerId?: string | null) => {
+  const settingKey = partnerContactSettingKey(partnerId);
   return useQuery<string | null>({
-    queryKey: ["app_settings", PARTNER_CONTACT_KEY],
+    queryKey: ["app_settings", settingKey],
     queryFn: async () => {
       const { data, error } = await supabase
         .from("app_settings")
-        .select("value")
-        .eq("key", PARTNER_CONTACT_KEY)
+        .select("*")
+        .eq("key", settingKey)
         .maybeSingle();
 
       if (error && error.code !== "PGRST116") {
         throw error;
       }
 
-      const rawValue = (data?.value ?? "").trim();
+      const rawValue = (data ? parseRow(appSettingSchema, data, "app settings").value ?? "" : "").trim();
       if (!rawValue) return null;
 
       const normalized = normalizePhoneNumber(rawValue);
@@ -29,8 +90,9 @@ export const usePartnerContactSetting = () => {
   });
 };
 
-export const useSavePartnerContactSetting = () => {
+export const useSavePartnerContactSetting = (partnerId?: string | null) => {
   const qc = useQueryClient();
+  const settingKey = partnerContactSettingKey(partnerId);
   return useMutation<string | null, Error, string>({
     mutationFn: async (inputValue) => {
       const trimmed = inputValue.trim();
@@ -39,7 +101,7 @@ export const useSavePartnerContactSetting = () => {
         const { error } = await supabase
           .from("app_settings")
           .delete()
-          .eq("key", PARTNER_CONTACT_KEY);
+          .eq("key", settingKey);
         if (error) throw error;
         return null;
       }
@@ -51,7 +113,7 @@ export const useSavePartnerContactSetting = () => {
 
       const { data, error } = await supabase
         .from("app_settings")
-        .upsert({ key: PARTNER_CONTACT_KEY, value: normalized }, { onConflict: "key" })
+        .upsert({ key: settingKey, value: normalized }, { onConflict: "key" })
         .select("value")
         .single();
 
@@ -61,29 +123,82 @@ export const useSavePartnerContactSetting = () => {
       return stored.length > 0 ? stored : null;
     },
     onSuccess: () => {
-      qc.invalidateQueries({ queryKey: ["app_settings", PARTNER_CONTACT_KEY] });
+      qc.invalidateQueries({ queryKey: ["app_settings", settingKey] });
     },
   });
 };
 
-export const useCustomers = () => {
-  return useQuery<any[]>({
-    queryKey: ["customers"],
+// The business's GSTIN, printed on tax invoices; its state code decides CGST/SGST vs IGST
+export const useBusinessGstin = () => {
+  return useQuery<string | null>({
+    queryKey: ["app_settings", BUSINESS_GSTIN_KEY],
     queryFn: async () => {
-      const { data, error } = await supabase.from("customers").select("*").order("created_at", { ascending: false });
+      const { data, error } = await supabase
+        .from("app_settings")
+        .select("*")
+        .eq("key", BUSINESS_GSTIN_KEY)
+        .maybeSingle();
       if (error) throw error;
-      return data as any[];
+      return data ? normaliseGstin(parseRow(appSettingSchema, data, "app settings").value) : null;
+    },
+    staleTime: 1000 * 60 * 5,
+  });
+};
+
+export const useSaveBusinessGstin = () => {
+  const qc = useQueryClient();
+  return useMutation<string | null, Error, string>({
+    mutationFn: async (inputValue) => {
+      const gstin = normaliseGstin(inputValue);
+      if (!gstin) {
+        const { error } = await supabase.from("app_settings").delete().eq("key", BUSINESS_GSTIN_KEY);
+        if (error) throw error;
+        return null;
+      }
+      if (!isValidGstin(gstin)) {
+        throw new Error("Please enter a valid 15-character GSTIN");
+      }
+      const { error } = await supabase
+        .from("app_settings")
+        .upsert({ key: BUSINESS_GSTIN_KEY, value: gstin }, { onConflict: "key" });
+      if (error) throw error;
+      return gstin;
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["app_settings", BUSINESS_GSTIN_KEY] });
+    },
+  });
+};
+
+// Partners only see their own book by default; pass null explicitly (admin views) for every partner.
+// Archived customers are included by default so reports keep their history; pass
+// activeOnly for screens that start new sales or payments.
+export const useCustomers = (
+  partnerId: string | null = getCurrentPartnerId(),
+  { activeOnly = false }: { activeOnly?: boolean } = {},
+) => {
+  return useQuery<Customer[]>({
+    queryKey: ["customers", partnerId ?? "all", activeOnly ? "active" : "with-archived"],
+    queryFn: async () => {
+      let query = supabase.from("customers").select("*").order("created_at", { ascending: false });
+      if (partnerId) query = query.eq("partner_id", partnerId);
+      if (activeOnly) query = query.is("archived_at", null);
+      const { data, error } = await query;
+      if (error) throw error;
+      return parseRows(customerSchema, data, "customers");
     },
   });
 };
 
 export const useAddCustomer = () => {
   const qc = useQueryClient();
-  return useMutation<any, Error, any>({
-    mutationFn: async (payload: any) => {
-      const { data, error } = await supabase.from("customers").insert(payload).select().single();
+  return useMutation<Customer, Error, TablesInsert<"customers">>({
+    mutationFn: async (payload) => {
+      const partnerId = getCurrentPartnerId();
+      const body = partnerId ? { partner_id: partnerId, ...payload } : payload;
+      const { data, error } = await supabase.from("customers").insert(body).select().single();
       if (error) throw error;
-      return data as any;
+      return parseRow(customerSchema, data, "customers");
     },
     onSuccess: () => qc.invalidateQueries({ queryKey: ["customers"] }),
   });
@@ -91,87 +206,378 @@ export const useAddCustomer = () => {
 
 export const useUpdateCustomer = () => {
   const qc = useQueryClient();
-  return useMutation<any, Error, { id: string; changes: any }>({
+  return useMutation<Customer, Error, { id: string; changes: TablesUpdate<"customers"> }>({
     mutationFn: async ({ id, changes }) => {
       const { data, error } = await supabase.from("customers").update(changes).eq("id", id).select().single();
       if (error) throw error;
-      return data as any;
+      return parseRow(customerSchema, data, "customers");
     },
     onSuccess: () => qc.invalidateQueries({ queryKey: ["customers"] }),
   });
 };
 
-export const useDeleteCustomer = () => {
+// Archive instead of delete: the customer's transactions stay in reports and analytics
+export const useArchiveCustomer = () => {
   const qc = useQueryClient();
-  return useMutation<any, Error, string>({
+  return useMutation<Customer, Error, string>({
     mutationFn: async (id: string) => {
-      // First remove transactions for the customer to avoid leaving balances counted in analytics
-      const { error: delTxErr } = await supabase.from("transactions").delete().eq("customer_id", id);
-      if (delTxErr) throw delTxErr;
-
-      const { data, error } = await supabase.from("customers").delete().eq("id", id).select().single();
+      const { data, error } = await supabase
+        .from("customers")
+        .update({ archived_at: new Date().toISOString() })
+        .eq("id", id)
+        .select()
+        .single();
       if (error) throw error;
-      return data as any;
+      return parseRow(customerSchema, data, "customers");
     },
     onSuccess: () => qc.invalidateQueries({ queryKey: ["customers"] }),
   });
 };
 
+// Admin overrides for customers on credit hold that no sale has used yet
+export const useCreditOverrides = () => {
+  return useQuery<CreditOverride[]>({
+    queryKey: ["credit_overrides", "pending"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("credit_overrides")
+        .select("*")
+        .is("used_at", null)
+        .order("granted_at", { ascending: true });
+      if (error) throw error;
+      return parseRows(creditOverrideSchema, data, "credit_overrides");
+    },
+  });
+};
+
+// Lets the customer's next credit sale through their credit hold (admins only)
+export const useGrantCreditOverride = () => {
+  const qc = useQueryClient();
+  return useMutation<CreditOverride, Error, { customerId: string; reason: string }>({
+    mutationFn: async ({ customerId, reason }) => {
+      const { data, error } = await supabase.rpc("grant_credit_override", { p_customer_id: customerId, p_reason: reason });
+      if (error) throw error;
+      return parseRow(creditOverrideSchema, data, "grant_credit_override");
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["credit_overrides"] }),
+  });
+};
+
+export type ArchivedRecordRef = { table: "customers" | "batches"; id: string };
+
+export const useRestoreArchived = () => {
+  const qc = useQueryClient();
+  return useMutation<Tables<"customers"> | Tables<"batches">, Error, ArchivedRecordRef>({
+    mutationFn: async ({ table, id }) => {
+      const { data, error } = await supabase.from(table).update({ archived_at: null }).eq("id", id).select().single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (_data, { table }) => qc.invalidateQueries({ queryKey: [table] }),
+  });
+};
+
+// Admin-only: permanently removes an archived customer (with their transactions) or batch
+export const usePurgeArchived = () => {
+  const qc = useQueryClient();
+  return useMutation<void, Error, ArchivedRecordRef>({
+    mutationFn: async ({ table, id }) => {
+      const { error } = table === "customers"
+        ? await supabase.rpc("purge_archived_customer", { p_customer_id: id })
+        : await supabase.rpc("purge_archived_batch", { p_batch_id: id });
+      if (error) throw error;
+    },
+    onSuccess: () =>
+      Promise.all([
+        qc.invalidateQueries({ queryKey: ["customers"] }),
+        qc.invalidateQueries({ queryKey: ["batches"] }),
+        qc.invalidateQueries({ queryKey: ["transactions"] }),
+        qc.invalidateQueries({ queryKey: ["batch_pnl"] }),
+        qc.invalidateQueries({ queryKey: ["analytics"] }),
+      ]),
+  });
+};
+
+export type ResetTodayResult = {
+  reset_id: string;
+  tx_reset_count: number;
+  customers_reset_count: number;
+  undo_until: string;
+};
+
+export type ResetAllResult = {
+  reset_id: string;
+  tx_deleted: number;
+  customers_deleted: number;
+  customers_inserted: number;
+  transactions_inserted: number;
+  undo_until: string;
+};
+
+export type UndoResetResult = {
+  reset_id: string;
+  kind: "today" | "all";
+  undone_at: string;
+};
+
+const invalidateAfterReset = (qc: ReturnType<typeof useQueryClient>) =>
+  Promise.all([
+    qc.invalidateQueries({ queryKey: ["transactions"] }),
+    qc.invalidateQueries({ queryKey: ["customers"] }),
+    qc.invalidateQueries({ queryKey: ["orders"] }),
+    qc.invalidateQueries({ queryKey: ["batches"] }),
+    qc.invalidateQueries({ queryKey: ["cheques"] }),
+    qc.invalidateQueries({ queryKey: ["batch_pnl"] }),
+    qc.invalidateQueries({ queryKey: ["analytics"] }),
+    qc.invalidateQueries({ queryKey: ["resets"] }),
+  ]);
+
 export const useResetToday = () => {
   const qc = useQueryClient();
-  return useMutation<void, Error, void>({
+  return useMutation<ResetTodayResult, Error, void>({
     mutationFn: async () => {
-      // Call server-side RPC to perform the reset using server time. Returns counts.
+      // Server-side reset using server time; the affected rows are snapshotted first so it can be undone
       const { data, error } = await supabase.rpc('reset_today_metrics');
       if (error) throw error;
-      return data;
+      return data as ResetTodayResult;
     },
-    onSuccess: () => qc.invalidateQueries({ queryKey: ["transactions"] }) || qc.invalidateQueries({ queryKey: ["customers"] }) || qc.invalidateQueries({ queryKey: ["analytics"] }),
+    onSuccess: () => invalidateAfterReset(qc),
   });
 };
 
 export const useResetAll = () => {
   const qc = useQueryClient();
-  return useMutation<any, Error, void>({
+  return useMutation<ResetAllResult, Error, void>({
     mutationFn: async () => {
       const { data, error } = await supabase.rpc('reset_all');
       if (error) throw error;
-      return data;
+      return data as ResetAllResult;
+    },
+    onSuccess: () => invalidateAfterReset(qc),
+  });
+};
+
+// Most recent reset without its snapshot, used to offer "Undo last reset" while the window is open
+export const useLastReset = () => {
+  return useQuery<Omit<Tables<"resets">, "snapshot"> | null>({
+    queryKey: ["resets", "last"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("resets")
+        .select("id, kind, created_at, created_by, summary, undo_until, undone_at")
+        .order("created_at", { ascending: false })
+        .limit(1);
+      if (error) throw error;
+      return data?.[0] ?? null;
+    },
+    enabled: getStoredUser()?.role === "admin",
+  });
+};
+
+export const useUndoLastReset = () => {
+  const qc = useQueryClient();
+  return useMutation<UndoResetResult, Error, void>({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('undo_last_reset');
+      if (error) throw error;
+      return data as UndoResetResult;
     },
-    onSuccess: () => qc.invalidateQueries({ queryKey: ["transactions"] }) || qc.invalidateQueries({ queryKey: ["customers"] }) || qc.invalidateQueries({ queryKey: ["analytics"] }),
+    onSuccess: () => invalidateAfterReset(qc),
   });
 };
 
-export const useTransactions = () => {
-  return useQuery<any[]>({
-    queryKey: ["transactions"],
+export const useTransactions = (partnerId: string | null = getCurrentPartnerId()) => {
+  return useQuery<Transaction[]>({
+    queryKey: ["transactions", partnerId ?? "all"],
     queryFn: async () => {
-      const { data, error } = await supabase.from("transactions").select("*").order("created_at", { ascending: false });
+      let query = supabase.from("transactions").select("*").order("created_at", { ascending: false });
+      if (partnerId) query = query.eq("partner_id", partnerId);
+      const { data, error } = await query;
+      if (error) throw error;
+      return parseRows(transactionSchema, data, "transactions");
+    },
+  });
+};
+
+export type PartnerAccount = {
+  id: string;
+  email: string;
+  created_at: string | null;
+};
+
+export const usePartners = () => {
+  return useQuery<PartnerAccount[]>({
+    queryKey: ["partners"],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("list_partners");
+      if (error) throw error;
+      return (data || []) as PartnerAccount[];
+    },
+    enabled: getStoredUser()?.role === "admin",
+  });
+};
+
+// --- User management hooks (admin only; app_users is reachable only through RPCs) ---
+export type AppUserAccount = {
+  id: string;
+  email: string;
+  role: string;
+  created_at: string | null;
+  disabled_at: string | null;
+  must_change_password: boolean;
+};
+
+export const useAppUsers = () => {
+  return useQuery<AppUserAccount[]>({
+    queryKey: ["app_users"],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("admin_list_users");
+      if (error) throw error;
+      return (data || []) as AppUserAccount[];
+    },
+    enabled: getStoredUser()?.role === "admin",
+  });
+};
+
+export type AuditLogFilters = {
+  table?: string | null;
+  action?: string | null;
+  from?: string | null;
+  to?: string | null;
+  limit?: number;
+};
+
+// Admin-only: newest audit entries first, narrowed by table, action and date range (yyyy-mm-dd)
+export const useAuditLog = (filters: AuditLogFilters = {}) => {
+  return useQuery<AuditLogEntry[]>({
+    queryKey: ["audit_log", filters],
+    queryFn: async () => {
+      let query = supabase
+        .from("audit_log")
+        .select("*")
+        .order("occurred_at", { ascending: false })
+        .limit(filters.limit ?? 500);
+      if (filters.table) query = query.eq("table_name", filters.table);
+      if (filters.action) query = query.eq("action", filters.action);
+      if (filters.from) query = query.gte("occurred_at", `${filters.from}T00:00:00`);
+      if (filters.to) query = query.lte("occurred_at", `${filters.to}T23:59:59.999`);
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as AuditLogEntry[];
+    },
+    enabled: getStoredUser()?.role === "admin",
+  });
+};
+
+export const useCreateAppUser = () => {
+  const qc = useQueryClient();
+  // Resolves to the new account's id
+  return useMutation<string, Error, { email: string; password: string; role: "admin" | "partner" }>({
+    mutationFn: async ({ email, password, role }) => {
+      const { data, error } = await supabase.rpc("admin_create_user", {
+        p_email: email,
+        p_password: password,
+        p_role: role,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () =>
+      Promise.all([
+        qc.invalidateQueries({ queryKey: ["app_users"] }),
+        qc.invalidateQueries({ queryKey: ["partners"] }),
+      ]),
+  });
+};
+
+export const useSetAppUserDisabled = () => {
+  const qc = useQueryClient();
+  return useMutation<void, Error, { id: string; disabled: boolean }>({
+    mutationFn: async ({ id, disabled }) => {
+      const { error } = await supabase.rpc("admin_set_user_disabled", { p_user_id: id, p_disabled: disabled });
       if (error) throw error;
-      return data as any[];
     },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["app_users"] }),
+  });
+};
+
+export const useDeleteAppUser = () => {
+  const qc = useQueryClient();
+  return useMutation<void, Error, { id: string }>({
+    mutationFn: async ({ id }) => {
+      const { error } = await supabase.rpc("admin_delete_user", { p_user_id: id });
+      if (error) throw error;
+    },
+    onSuccess: () =>
+      Promise.all([
+        qc.invalidateQueries({ queryKey: ["app_users"] }),
+        qc.invalidateQueries({ queryKey: ["partners"] }),
+        qc.invalidateQueries({ queryKey: ["customers"] }),
+        qc.invalidateQueries({ queryKey: ["transactions"] }),
+      ]),
+  });
+};
+
+export const useResetAppUserPassword = () => {
+  const qc = useQueryClient();
+  return useMutation<void, Error, { id: string; password: string }>({
+    mutationFn: async ({ id, password }) => {
+      const { error } = await supabase.rpc("admin_reset_password", { p_user_id: id, p_password: password });
+      if (error) throw error;
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["app_users"] }),
+  });
+};
+
+export const useChangeOwnPassword = () => {
+  const qc = useQueryClient();
+  return useMutation<void, Error, { currentPassword: string; newPassword: string }>({
+    mutationFn: async ({ currentPassword, newPassword }) => {
+      const { error } = await supabase.rpc("change_own_password", {
+        p_current_password: currentPassword,
+        p_new_password: newPassword,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["session"] }),
   });
 };
 
 // --- Batches / Inventory hooks ---
-export const useBatches = () => {
-  return useQuery<any[]>({
-    queryKey: ["batches"],
+export const useBatches = ({ activeOnly = false }: { activeOnly?: boolean } = {}) => {
+  return useQuery<Batch[]>({
+    queryKey: ["batches", activeOnly ? "active" : "with-archived"],
     queryFn: async () => {
-      const { data, error } = await supabase.from("batches").select("*").order("created_at", { ascending: false });
+      let query = supabase.from("batches").select("*").order("created_at", { ascending: false });
+      if (activeOnly) query = query.is("archived_at", null);
+      const { data, error } = await query;
       if (error) throw error;
-      return data as any[];
+      return parseRows(batchSchema, data, "batches");
+    },
+  });
+};
+
+// One row per order with its invoice number and totals
+export const useOrderSummaries = (partnerId: string | null = getCurrentPartnerId()) => {
+  return useQuery<OrderSummaryRow[]>({
+    queryKey: ["orders", "summary", partnerId ?? "all"],
+    queryFn: async () => {
+      let query = supabase.from("order_summary").select("*").order("created_at", { ascending: false });
+      if (partnerId) query = query.eq("partner_id", partnerId);
+      const { data, error } = await query;
+      if (error) throw error;
+      return parseRows(orderSummarySchema, data, "orders");
     },
   });
 };
 
 export const useBatchPnl = () => {
-  return useQuery<any[]>({
+  return useQuery<BatchPnlRow[]>({
     queryKey: ["batch_pnl"],
     queryFn: async () => {
       const { data, error } = await supabase.from("batch_pnl").select("*");
       if (error) throw error;
-      return data as any[];
+      return parseRows(batchPnlSchema, data, "batch P&L");
     },
   });
 };
@@ -189,17 +595,31 @@ export const downloadCsvFromRows = (rows: any[], filename = "export.csv") => {
 
 export const useCreateBatch = () => {
   const qc = useQueryClient();
-  return useMutation<any, Error, { name: string; total_quantity: number; purchase_rate: number }>({
+  return useMutation<
+    Batch,
+    Error,
+    {
+      name: string;
+      total_quantity: number;
+      purchase_rate: number;
+      selling_rate?: number | null;
+      hsn_code?: string | null;
+      gst_rate?: number;
+    }
+  >({
     mutationFn: async (payload) => {
       const body = {
         name: payload.name,
         total_quantity: payload.total_quantity,
         remaining_quantity: payload.total_quantity,
         purchase_rate: payload.purchase_rate,
+        selling_rate: payload.selling_rate ?? null,
+        hsn_code: payload.hsn_code ?? DEFAULT_HSN_CODE,
+        gst_rate: payload.gst_rate ?? DEFAULT_GST_RATE,
       };
       const { data, error } = await supabase.from("batches").insert(body).select().single();
       if (error) throw error;
-      return data as any;
+      return parseRow(batchSchema, data, "batches");
     },
     onSuccess: () => qc.invalidateQueries({ queryKey: ["batches"] }),
   });
@@ -207,92 +627,558 @@ export const useCreateBatch = () => {
 
 export const useUpdateBatch = () => {
   const qc = useQueryClient();
-  return useMutation<any, Error, { id: string; changes: any }>({
+  return useMutation<Batch, Error, { id: string; changes: TablesUpdate<"batches"> }>({
     mutationFn: async ({ id, changes }) => {
       const { data, error } = await supabase.from("batches").update(changes).eq("id", id).select().single();
       if (error) throw error;
-      return data as any;
+      return parseRow(batchSchema, data, "batches");
     },
-    onSuccess: () => qc.invalidateQueries({ queryKey: ["batches"] }) || qc.invalidateQueries({ queryKey: ["batch_pnl"] }),
+    onSuccess: () =>
+      Promise.all([
+        qc.invalidateQueries({ queryKey: ["batches"] }),
+        qc.invalidateQueries({ queryKey: ["batch_pnl"] }),
+      ]),
   });
 };
 
-export const useDeleteBatch = () => {
+// Archive instead of delete: historical sales keep their batch for reports and P&L
+export const useArchiveBatch = () => {
   const qc = useQueryClient();
-  return useMutation<any, Error, string>({
+  return useMutation<Batch, Error, string>({
     mutationFn: async (id: string) => {
-      // Optionally, remove or orphan related transactions. Here we set batch_id to null on transactions.
-      const { error: updErr } = await supabase.from("transactions").update({ batch_id: null, tea_name: null }).eq("batch_id", id);
-      if (updErr) throw updErr;
+      const { data, error } = await supabase
+        .from("batches")
+        .update({ archived_at: new Date().toISOString() })
+        .eq("id", id)
+        .select()
+        .single();
+      if (error) throw error;
+      return parseRow(batchSchema, data, "batches");
+    },
+    onSuccess: () =>
+      Promise.all([
+        qc.invalidateQueries({ queryKey: ["batches"] }),
+        qc.invalidateQueries({ queryKey: ["batch_pnl"] }),
+      ]),
+  });
+};
+
+export const usePriceRules = () => {
+  return useQuery<PriceRule[]>({
+    queryKey: ["price_rules"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("price_rules").select("*").order("tea_name").order("min_quantity");
+      if (error) throw error;
+      return parseRows(priceRuleSchema, data, "price_rules");
+    },
+  });
+};
+
+export type PriceRuleInput = Pick<PriceRule, "tea_name" | "customer_id" | "min_quantity" | "rate">;
+
+// Creates a price rule, or updates it when an id is given
+export const useSavePriceRule = () => {
+  const qc = useQueryClient();
+  return useMutation<PriceRule, Error, { id?: string | null; rule: PriceRuleInput }>({
+    mutationFn: async ({ id, rule }) => {
+      const query = id
+        ? supabase.from("price_rules").update(rule).eq("id", id).select().single()
+        : supabase.from("price_rules").insert(rule).select().single();
+      const { data, error } = await query;
+      if (error) throw error;
+      return parseRow(priceRuleSchema, data, "price_rules");
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["price_rules"] }),
+  });
+};
+
+export const useDeletePriceRule = () => {
+  const qc = useQueryClient();
+  return useMutation<void, Error, string>({
+    mutationFn: async (id) => {
+      const { error } = await supabase.from("price_rules").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["price_rules"] }),
+  });
+};
+
+export const useSchemes = ({ activeOnly = false }: { activeOnly?: boolean } = {}) => {
+  return useQuery<Scheme[]>({
+    queryKey: ["schemes", activeOnly ? "active" : "all"],
+    queryFn: async () => {
+      let query = supabase.from("schemes").select("*").order("valid_from", { ascending: false });
+      if (activeOnly) query = query.eq("active", true);
+      const { data, error } = await query;
+      if (error) throw error;
+      return parseRows(schemeSchema, data, "schemes");
+    },
+  });
+};
+
+export type SchemeInput = Omit<Scheme, "id" | "created_at">;
+
+// Creates a scheme, or updates it when an id is given. Schemes are ended rather than deleted
+// so past sales keep the scheme they were sold under.
+export const useSaveScheme = () => {
+  const qc = useQueryClient();
+  return useMutation<Scheme, Error, { id?: string | null; scheme: Partial<SchemeInput> }>({
+    mutationFn: async ({ id, scheme }) => {
+      const query = id
+        ? supabase.from("schemes").update(scheme).eq("id", id).select().single()
+        : supabase.from("schemes").insert(scheme as SchemeInput).select().single();
+      const { data, error } = await query;
+      if (error) throw error;
+      return parseRow(schemeSchema, data, "schemes");
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["schemes"] }),
+  });
+};
+
+export const useSuppliers = ({ activeOnly = false }: { activeOnly?: boolean } = {}) => {
+  return useQuery<Supplier[]>({
+    queryKey: ["suppliers", activeOnly ? "active" : "all"],
+    queryFn: async () => {
+      let query = supabase.from("suppliers").select("*").order("name", { ascending: true });
+      if (activeOnly) query = query.is("archived_at", null);
+      const { data, error } = await query;
+      if (error) throw error;
+      return parseRows(supplierSchema, data, "suppliers");
+    },
+  });
+};
+
+export type SupplierInput = Omit<Supplier, "id" | "created_at">;
+
+// Creates a supplier, or updates it when an id is given. Suppliers are archived rather than
+// deleted so their purchases and payments stay on record.
+export const useSaveSupplier = () => {
+  const qc = useQueryClient();
+  return useMutation<Supplier, Error, { id?: string | null; supplier: Partial<SupplierInput> }>({
+    mutationFn: async ({ id, supplier }) => {
+      const changes = { ...supplier };
+      if ("gstin" in changes) {
+        changes.gstin = normaliseGstin(changes.gstin);
+        if (changes.gstin && !isValidGstin(changes.gstin)) {
+          throw new Error("Please enter a valid 15-character GSTIN");
+        }
+      }
+      const query = id
+        ? supabase.from("suppliers").update(changes).eq("id", id).select().single()
+        : supabase.from("suppliers").insert(changes as SupplierInput).select().single();
+      const { data, error } = await query;
+      if (error) throw error;
+      return parseRow(supplierSchema, data, "suppliers");
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["suppliers"] });
+      qc.invalidateQueries({ queryKey: ["supplier_payables"] });
+    },
+  });
+};
+
+export const usePurchases = (supplierId?: string | null) => {
+  return useQuery<Purchase[]>({
+    queryKey: ["purchases", supplierId ?? "all"],
+    queryFn: async () => {
+      let query = supabase.from("purchases").select("*").order("invoice_date", { ascending: false });
+      if (supplierId) query = query.eq("supplier_id", supplierId);
+      const { data, error } = await query;
+      if (error) throw error;
+      return parseRows(purchaseSchema, data, "purchases");
+    },
+  });
+};
 
-      const { data, error } = await supabase.from("batches").delete().eq("id", id).select().single();
+export const useSupplierPayments = (supplierId?: string | null) => {
+  return useQuery<SupplierPayment[]>({
+    queryKey: ["supplier_payments", supplierId ?? "all"],
+    queryFn: async () => {
+      let query = supabase.from("supplier_payments").select("*").order("paid_on", { ascending: false });
+      if (supplierId) query = query.eq("supplier_id", supplierId);
+      const { data, error } = await query;
       if (error) throw error;
-      return data as any;
+      return parseRows(supplierPaymentSchema, data, "supplier payments");
+    },
+  });
+};
+
+export const useSupplierPayables = () => {
+  return useQuery<SupplierPayableRow[]>({
+    queryKey: ["supplier_payables"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("supplier_payables").select("*");
+      if (error) throw error;
+      return parseRows(supplierPayableSchema, data, "supplier payables");
+    },
+  });
+};
+
+const invalidatePurchases = (qc: ReturnType<typeof useQueryClient>) => {
+  qc.invalidateQueries({ queryKey: ["purchases"] });
+  qc.invalidateQueries({ queryKey: ["supplier_payables"] });
+  qc.invalidateQueries({ queryKey: ["batches"] });
+  qc.invalidateQueries({ queryKey: ["batch_pnl"] });
+};
+
+// record_purchase returns the new rows as JSON; they are checked with the row schemas
+type RecordPurchaseResult = { batch: unknown; purchase: unknown };
+
+// Adds a batch bought from a supplier; record_purchase costs it at the landed rate
+export const useRecordPurchase = () => {
+  const qc = useQueryClient();
+  return useMutation<
+    { batch: Batch; purchase: Purchase },
+    Error,
+    {
+      supplier_id: string;
+      name: string;
+      quantity: number;
+      rate: number;
+      freight?: number;
+      other_costs?: number;
+      invoice_number?: string | null;
+      invoice_date?: string | null;
+      due_date?: string | null;
+      selling_rate?: number | null;
+      hsn_code?: string | null;
+      gst_rate?: number;
+    }
+  >({
+    mutationFn: async (payload) => {
+      const { data, error } = await supabase.rpc("record_purchase", {
+        p_supplier_id: payload.supplier_id,
+        p_batch_name: payload.name,
+        p_quantity: payload.quantity,
+        p_rate: payload.rate,
+        p_freight: payload.freight ?? 0,
+        p_other_costs: payload.other_costs ?? 0,
+        p_invoice_number: payload.invoice_number ?? null,
+        p_invoice_date: payload.invoice_date ?? null,
+        p_due_date: payload.due_date ?? null,
+        p_selling_rate: payload.selling_rate ?? null,
+        p_hsn_code: payload.hsn_code ?? DEFAULT_HSN_CODE,
+        p_gst_rate: payload.gst_rate ?? DEFAULT_GST_RATE,
+      });
+      if (error) throw error;
+      const result = data as RecordPurchaseResult | null;
+      return {
+        batch: parseRow(batchSchema, result?.batch, "batches"),
+        purchase: parseRow(purchaseSchema, result?.purchase, "purchases"),
+      };
+    },
+    onSuccess: () => invalidatePurchases(qc),
+  });
+};
+
+// Freight and other costs that arrive after the tea re-cost the batch through the purchases trigger
+export const useUpdatePurchase = () => {
+  const qc = useQueryClient();
+  return useMutation<
+    Purchase,
+    Error,
+    { id: string; changes: Partial<Pick<Purchase, "invoice_number" | "invoice_date" | "due_date" | "freight" | "other_costs">> }
+  >({
+    mutationFn: async ({ id, changes }) => {
+      const { data, error } = await supabase.from("purchases").update(changes).eq("id", id).select().single();
+      if (error) throw error;
+      return parseRow(purchaseSchema, data, "purchases");
+    },
+    onSuccess: () => invalidatePurchases(qc),
+  });
+};
+
+export const useRecordSupplierPayment = () => {
+  const qc = useQueryClient();
+  // Without paid_on the payment is dated today on the server
+  return useMutation<SupplierPayment, Error, Omit<SupplierPayment, "id" | "created_at" | "paid_on"> & { paid_on?: string }>({
+    mutationFn: async (payment) => {
+      const { data, error } = await supabase.from("supplier_payments").insert(payment).select().single();
+      if (error) throw error;
+      return parseRow(supplierPaymentSchema, data, "supplier payments");
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["supplier_payments"] });
+      qc.invalidateQueries({ queryKey: ["supplier_payables"] });
+    },
+  });
+};
+
+export type OrderLineInput = {
+  batch_id: string;
+  quantity: number;
+  rate: number;
+  // Discount or free-quantity scheme; record_order checks it applies and works out the benefit
+  scheme_id?: string | null;
+};
+
+export type RecordOrderPayload = {
+  customer_id: string;
+  items: OrderLineInput[];
+  paid_amount?: number | null;
+  due_date?: string | null;
+  payment?: PaymentDetails | null;
+  // Apply the customer's open credit notes to what the order still owes
+  apply_credit?: boolean;
+  // Id generated on the device; a second call with the same id returns the first order
+  client_id?: string | null;
+  // When the sale was captured, for orders replayed from the offline outbox
+  recorded_at?: string | null;
+};
+
+export type RecordOrderResult = {
+  order: Tables<"orders">;
+  lines: Transaction[];
+  // The cheque payment recorded with the order, if it was paid by cheque
+  payment?: Transaction | null;
+  total: number;
+  paid: number;
+  credit_applied?: number;
+  balance: number;
+  // Set when the order was already recorded under the same client id
+  duplicate?: boolean;
+};
+
+const recordOrder = async (payload: RecordOrderPayload): Promise<RecordOrderResult> => {
+  const { data, error } = await supabase.rpc("record_order", {
+    p_customer_id: payload.customer_id,
+    p_items: payload.items,
+    p_paid_amount: payload.paid_amount ?? null,
+    p_due_date: payload.due_date ?? null,
+    ...(payload.payment ? toPaymentRpcParams(payload.payment) : {}),
+    p_apply_credit: payload.apply_credit ?? false,
+    p_client_id: payload.client_id ?? null,
+    p_recorded_at: payload.recorded_at ?? null,
+  });
+  if (error) throw error;
+  return data as RecordOrderResult;
+};
+
+// Record a multi-line order through the server-side 'record_order' RPC. All batches are
+// decremented in one database transaction, so insufficient stock on any line rejects the order.
+export const useRecordOrder = () => {
+  const qc = useQueryClient();
+  return useMutation<RecordOrderResult, Error, RecordOrderPayload>({
+    mutationFn: recordOrder,
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["transactions"] });
+      qc.invalidateQueries({ queryKey: ["batches"] });
+      qc.invalidateQueries({ queryKey: ["customers"] });
+      qc.invalidateQueries({ queryKey: ["orders"] });
+      qc.invalidateQueries({ queryKey: ["cheques"] });
+      qc.invalidateQueries({ queryKey: ["credit_overrides"] });
     },
-    onSuccess: () => qc.invalidateQueries({ queryKey: ["batches"] }) || qc.invalidateQueries({ queryKey: ["batch_pnl"] }),
   });
 };
 
-// Try to record a sale atomically using a server-side RPC 'record_sale'. If RPC not available, fallback to client-side operations
-export const useRecordSale = () => {
+export type RecordPaymentPayload = {
+  customer_id: string;
+  amount: number;
+  allocations?: PaymentAllocation[] | null;
+  payment?: PaymentDetails | null;
+  client_id?: string | null;
+  recorded_at?: string | null;
+};
+
+export type RecordPaymentResult = {
+  payment: Transaction;
+  allocated: number;
+  unallocated: number;
+  // Set when the payment was already recorded under the same client id
+  duplicate?: boolean;
+};
+
+const recordPayment = async (payload: RecordPaymentPayload): Promise<RecordPaymentResult> => {
+  const { data, error } = await supabase.rpc("record_payment", {
+    p_customer_id: payload.customer_id,
+    p_amount: payload.amount,
+    p_allocations: payload.allocations && payload.allocations.length > 0 ? payload.allocations : null,
+    ...(payload.payment ? toPaymentRpcParams(payload.payment) : {}),
+    p_client_id: payload.client_id ?? null,
+    p_recorded_at: payload.recorded_at ?? null,
+  });
+  if (error) throw error;
+  return data as RecordPaymentResult;
+};
+
+// Record a payment through the server-side 'record_payment' RPC, which reduces the balance of each
+// allocated sale in the same database transaction. Omit allocations to apply oldest-due first.
+export const useRecordPayment = () => {
   const qc = useQueryClient();
-  return useMutation<any, Error, { batch_id: string; customer_id: string; quantity: number; price_per_kg: number; type?: string; paid_amount?: number; due_date?: string | null }>({
+  return useMutation<RecordPaymentResult, Error, RecordPaymentPayload>({
+    mutationFn: recordPayment,
+    onSuccess: () =>
+      Promise.all([
+        qc.invalidateQueries({ queryKey: ["transactions"] }),
+        qc.invalidateQueries({ queryKey: ["customers"] }),
+        qc.invalidateQueries({ queryKey: ["analytics"] }),
+        qc.invalidateQueries({ queryKey: ["cheques"] }),
+      ]),
+  });
+};
+
+export type RecordReturnResult = {
+  return: Transaction;
+  // Credited against the sale's balance; the rest is credit held for the customer
+  applied: number;
+  credit: number;
+};
+
+// Record a return through the 'record_return' RPC, which restocks the batch and credits the customer
+export const useRecordReturn = () => {
+  const qc = useQueryClient();
+  return useMutation<RecordReturnResult, Error, { sale_id: string; quantity: number; reason?: string | null }>({
     mutationFn: async (payload) => {
-      // First attempt server-side RPC
+      const { data, error } = await supabase.rpc("record_return", {
+        p_sale_id: payload.sale_id,
+        p_quantity: payload.quantity,
+        p_reason: payload.reason ?? null,
+      });
+      if (error) throw error;
+      return data as RecordReturnResult;
+    },
+    onSuccess: () =>
+      Promise.all([
+        qc.invalidateQueries({ queryKey: ["transactions"] }),
+        qc.invalidateQueries({ queryKey: ["batches"] }),
+        qc.invalidateQueries({ queryKey: ["customers"] }),
+        qc.invalidateQueries({ queryKey: ["analytics"] }),
+      ]),
+  });
+};
+
+// --- Offline outbox hooks ---
+// Entries queued on this device by the signed-in user. Reads IndexedDB, so it runs offline too.
+export const useOutbox = () => {
+  const qc = useQueryClient();
+  const userId = getStoredUser()?.id ?? null;
+
+  useEffect(() => subscribeOutbox(() => qc.invalidateQueries({ queryKey: ["outbox"] })), [qc]);
+
+  return useQuery<OutboxEntry[]>({
+    queryKey: ["outbox", userId ?? "anonymous"],
+    queryFn: () => listOutboxEntries(userId),
+    networkMode: "always",
+  });
+};
+
+export type OutboxSyncResult = { synced: number; conflicts: number; pending: number };
+
+let outboxSyncInFlight: Promise<OutboxSyncResult> | null = null;
+
+// Replays pending entries oldest first. A network failure stops the run and leaves the rest
+// pending; a database error (e.g. insufficient stock by now) marks that entry as a conflict
+// and moves on to the next one.
+const syncOutbox = (userId: string | null) => {
+  if (outboxSyncInFlight) return outboxSyncInFlight;
+  outboxSyncInFlight = (async () => {
+    const result: OutboxSyncResult = { synced: 0, conflicts: 0, pending: 0 };
+    const entries = (await listOutboxEntries(userId)).filter((entry) => entry.status === "pending");
+    for (let index = 0; index < entries.length; index++) {
+      const entry = entries[index];
+      const attempt = { attempts: entry.attempts + 1, lastAttemptAt: new Date().toISOString() };
       try {
-        const rpc = await supabase.rpc("record_sale", {
-          batch_id: payload.batch_id,
-          customer_id: payload.customer_id,
-          quantity: payload.quantity,
-          price_per_kg: payload.price_per_kg,
-          paid_amount: payload.paid_amount ?? null,
-          tx_type: payload.type ?? "sale",
-          due_date: payload.due_date ?? null,
-        });
-        // supabase.rpc returns { data, error } like select, but in client v2 it can throw; handle both
-        // If rpc returned error property
-        // @ts-ignore
-        if (rpc?.error) throw rpc.error;
-        return rpc?.data ?? rpc;
-      } catch (rpcErr) {
-        // Fallback: do client-side operations (best-effort)
-        // 1) Check batch remaining quantity
-        const { data: batch, error: bErr } = await supabase.from("batches").select("*").eq("id", payload.batch_id).single();
-        if (bErr) throw bErr;
-        if (!batch) throw new Error("Batch not found");
-        if (Number(batch.remaining_quantity || 0) < payload.quantity) {
-          throw new Error("Insufficient stock for selected tea batch");
+        if (entry.kind === "order") await recordOrder(entry.payload as RecordOrderPayload);
+        else await recordPayment(entry.payload as RecordPaymentPayload);
+        await removeOutboxEntry(entry.id);
+        result.synced += 1;
+      } catch (err) {
+        if (isNetworkError(err)) {
+          await updateOutboxEntry(entry.id, { ...attempt, error: null });
+          result.pending = entries.length - index;
+          break;
         }
+        const message = (err as { message?: string } | null)?.message;
+        await updateOutboxEntry(entry.id, { ...attempt, status: "conflict", error: message || "Rejected by the server" });
+        result.conflicts += 1;
+      }
+    }
+    return result;
+  })().finally(() => {
+    outboxSyncInFlight = null;
+  });
+  return outboxSyncInFlight;
+};
 
-        // 2) Insert transaction
-        const totalAmount = payload.quantity * payload.price_per_kg;
-        const txn: Record<string, any> = {
-          customer_id: payload.customer_id,
-          amount: totalAmount,
-          quantity: payload.quantity,
-          type: payload.type ?? "sale",
-          paid_amount: payload.paid_amount ?? totalAmount,
-          balance: totalAmount - (payload.paid_amount ?? totalAmount),
-          batch_id: payload.batch_id,
-          tea_name: batch.name,
-        };
-
-        if (payload.due_date) {
-          txn.due_date = payload.due_date;
-        }
+export const useSyncOutbox = () => {
+  const qc = useQueryClient();
+  return useMutation<OutboxSyncResult, Error, void>({
+    mutationFn: () => syncOutbox(getStoredUser()?.id ?? null),
+    networkMode: "always",
+    onSuccess: (result) => {
+      if (result.synced === 0) return;
+      return Promise.all([
+        qc.invalidateQueries({ queryKey: ["transactions"] }),
+        qc.invalidateQueries({ queryKey: ["batches"] }),
+        qc.invalidateQueries({ queryKey: ["customers"] }),
+        qc.invalidateQueries({ queryKey: ["orders"] }),
+        qc.invalidateQueries({ queryKey: ["analytics"] }),
+        qc.invalidateQueries({ queryKey: ["cheques"] }),
+      ]);
+    },
+  });
+};
 
-        const { data: inserted, error: insErr } = await supabase.from("transactions").insert(txn).select().single();
-        if (insErr) throw insErr;
+// Manual resolution of a conflict: "retry" puts it back in the queue (e.g. after restocking the
+// batch), "discard" drops it for good
+export const useResolveOutboxEntry = () => {
+  return useMutation<void, Error, { id: string; action: "retry" | "discard" }>({
+    mutationFn: async ({ id, action }) => {
+      if (action === "discard") await removeOutboxEntry(id);
+      else await updateOutboxEntry(id, { status: "pending", error: null });
+    },
+    networkMode: "always",
+  });
+};
 
-        // 3) Update batch remaining quantity
-        const newRemaining = Number(batch.remaining_quantity || 0) - payload.quantity;
-        const { data: updatedBatch, error: updErr } = await supabase.from("batches").update({ remaining_quantity: newRemaining }).eq("id", payload.batch_id).select().single();
-        if (updErr) throw updErr;
+// --- Cheque register hooks ---
+export const useCheques = (partnerId: string | null = getCurrentPartnerId()) => {
+  return useQuery<Tables<"cheques">[]>({
+    queryKey: ["cheques", partnerId ?? "all"],
+    queryFn: async () => {
+      let query = supabase.from("cheques").select("*").order("created_at", { ascending: false });
+      if (partnerId) query = query.eq("partner_id", partnerId);
+      const { data, error } = await query;
+      if (error) throw error;
+      return data;
+    },
+  });
+};
 
-        return { inserted, updatedBatch };
-      }
+export const useUpdateChequeStatus = () => {
+  const qc = useQueryClient();
+  return useMutation<Tables<"cheques">, Error, { id: string; status: "deposited" | "cleared" }>({
+    mutationFn: async ({ id, status }) => {
+      const { data, error } = await supabase.rpc("update_cheque_status", { p_cheque_id: id, p_status: status });
+      if (error) throw error;
+      return data as Tables<"cheques">;
     },
-    onSuccess: () => qc.invalidateQueries({ queryKey: ["transactions"] }) || qc.invalidateQueries({ queryKey: ["batches"] }) || qc.invalidateQueries({ queryKey: ["customers"] }),
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["cheques"] }),
+  });
+};
+
+export type BounceChequeResult = {
+  cheque: Tables<"cheques">;
+  // The bounce charge row, when a charge was levied
+  charge: Tables<"transactions"> | null;
+};
+
+// Reverses the cheque's payment and re-opens the invoices it settled
+export const useBounceCheque = () => {
+  const qc = useQueryClient();
+  return useMutation<BounceChequeResult, Error, { id: string; bounceCharge?: number }>({
+    mutationFn: async ({ id, bounceCharge }) => {
+      const { data, error } = await supabase.rpc("bounce_cheque", { p_cheque_id: id, p_bounce_charge: bounceCharge ?? 0 });
+      if (error) throw error;
+      return data as BounceChequeResult;
+    },
+    onSuccess: () =>
+      Promise.all([
+        qc.invalidateQueries({ queryKey: ["cheques"] }),
+        qc.invalidateQueries({ queryKey: ["transactions"] }),
+        qc.invalidateQueries({ queryKey: ["customers"] }),
+        qc.invalidateQueries({ queryKey: ["analytics"] }),
+      ]),
   });
 };
 
@@ -310,14 +1196,17 @@ export const useAnalytics = () => {
     lastSaleAt: string | null;
     lastPaymentAt: string | null;
     totalPnl: number;
+    totalReturns: number;
+    returnsCount: number;
   } | null>({
     queryKey: ["analytics"],
     queryFn: async () => {
       // Use server-side view for aggregates
-      const { data, error } = await supabase.from("analytics_summary").select("*").limit(1).single();
+      const { data: row, error } = await supabase.from("analytics_summary").select("*").limit(1).single();
       if (error) throw error;
 
-      if (!data) return null;
+      if (!row) return null;
+      const data = parseRow(analyticsSummarySchema, row, "analytics summary");
 
       return {
         totalSales: Number(data.total_sales || 0),
@@ -332,84 +1221,33 @@ export const useAnalytics = () => {
         lastPaymentAt: data.last_payment_at ?? null,
         transactionsCount: Number(data.transactions_count || 0),
         totalPnl: Number(data.total_pnl || 0),
+        totalReturns: Number(data.total_returns || 0),
+        returnsCount: Number(data.returns_count || 0),
       };
     },
   });
 };
 
-// Realtime subscriptions: listen to changes and invalidate queries
-export const useRealtimeSubscriptions = (enabled = true) => {
+// Periodic refresh: Supabase Realtime cannot evaluate the x-session-token row-level security
+// policies, so other devices' changes are picked up by refetching instead of subscribing
+const PERIODIC_REFRESH_MS = 30000;
+
+export const usePeriodicRefresh = (enabled = true) => {
   const qc = useQueryClient();
-  const lastEventRef = useRef<number>(Date.now());
   useEffect(() => {
     if (!enabled) return;
 
-    const subTx = supabase.channel('public:transactions')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'transactions' }, (payload) => {
-        console.debug('[realtime] transactions change', payload);
-        lastEventRef.current = Date.now();
-        qc.invalidateQueries({ queryKey: ['transactions'] });
-        qc.invalidateQueries({ queryKey: ['analytics'] });
-        qc.invalidateQueries({ queryKey: ['tea_analytics'] });
-      })
-      .subscribe((status) => {
-        console.debug('[realtime] transactions subscription status', status);
-        lastEventRef.current = Date.now();
-      });
-
-    const subB = supabase.channel('public:batches')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'batches' }, (payload) => {
-        console.debug('[realtime] batches change', payload);
-        lastEventRef.current = Date.now();
-        qc.invalidateQueries({ queryKey: ['batches'] });
-        qc.invalidateQueries({ queryKey: ['tea_analytics'] });
-      })
-      .subscribe((status) => {
-        console.debug('[realtime] batches subscription status', status);
-        lastEventRef.current = Date.now();
-      });
-
-    const subC = supabase.channel('public:customers')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'customers' }, (payload) => {
-        console.debug('[realtime] customers change', payload);
-        lastEventRef.current = Date.now();
-        qc.invalidateQueries({ queryKey: ['customers'] });
-        qc.invalidateQueries({ queryKey: ['analytics'] });
-      })
-      .subscribe((status) => {
-        console.debug('[realtime] customers subscription status', status);
-        lastEventRef.current = Date.now();
-      });
-
-    // Heartbeat: if no events for 25s, trigger a poll invalidation so UI stays up-to-date
     const interval = setInterval(() => {
-      try {
-        const age = Date.now() - lastEventRef.current;
-        if (age > 25000) {
-          console.debug('[realtime] no events for', age, 'ms — forcing poll invalidation');
-          qc.invalidateQueries({ queryKey: ['transactions'] });
-          qc.invalidateQueries({ queryKey: ['batches'] });
-          qc.invalidateQueries({ queryKey: ['customers'] });
-          qc.invalidateQueries({ queryKey: ['analytics'] });
-          qc.invalidateQueries({ queryKey: ['tea_analytics'] });
-          lastEventRef.current = Date.now();
-        }
-      } catch (e) {
-        console.debug('[realtime] heartbeat error', e);
-      }
-    }, 10000);
+      if (typeof document !== "undefined" && document.visibilityState === "hidden") return;
+      void Promise.all([
+        qc.invalidateQueries({ queryKey: ["transactions"] }),
+        qc.invalidateQueries({ queryKey: ["batches"] }),
+        qc.invalidateQueries({ queryKey: ["customers"] }),
+        qc.invalidateQueries({ queryKey: ["analytics"] }),
+        qc.invalidateQueries({ queryKey: ["tea_analytics"] }),
+      ]);
+    }, PERIODIC_REFRESH_MS);
 
-    return () => {
-      clearInterval(interval);
-      try {
-        supabase.removeChannel(subTx);
-      } catch (e) { console.debug('failed to remove transactions channel', e); }
-      try {
-        supabase.removeChannel(subB);
-      } catch (e) { console.debug('failed to remove batches channel', e); }
-      try {
-        supabase.removeChannel(subC);
-      } catch (e) { console.debug('failed to remove customers channel', e); }
-    };
+    return () => clearInterval(interval);
   }, [enabled, qc]);
 };
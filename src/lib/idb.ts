@@ -0,0 +1,51 @@
+// Minimal IndexedDB access for data the app keeps on the device: the offline outbox and the
+// persisted React Query cache
+const DB_NAME = "kadak-chah";
+const DB_VERSION = 1;
+
+export type IdbStoreName = "outbox" | "query-cache";
+
+const STORES: IdbStoreName[] = ["outbox", "query-cache"];
+
+export const isIndexedDbSupported = () => typeof indexedDB !== "undefined";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        STORES.forEach((name) => {
+          if (!db.objectStoreNames.contains(name)) {
+            // Outbox entries carry their own id; cache blobs are stored under an explicit key
+            db.createObjectStore(name, name === "outbox" ? { keyPath: "id" } : undefined);
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs one request in its own transaction and resolves with its result once the transaction commits
+export const idbRequest = async <T>(
+  storeName: IdbStoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
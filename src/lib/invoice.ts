@@ -0,0 +1,291 @@
+import supabase from "./supabase";
+import { formatInvoiceNumber } from "./document-numbers";
+import { BUSINESS_GSTIN_KEY, formatPlaceOfSupply, getCustomerStateCode, getTaxableValue, normaliseGstin } from "./gst";
+import { loadPdfTools, PDF_HEAD_STYLES, uploadSharedPdf } from "./pdf";
+import { sendReminderMessage } from "./reminders";
+import type { Customer } from "./schemas";
+import { formatReadableDate } from "./utils";
+
+export type InvoiceLine = {
+  teaName: string;
+  quantity: number;
+  rate: number;
+  // Net of `discount` and including GST; free tea from a scheme is listed but not charged
+  amount: number;
+  discount: number;
+  freeQuantity: number;
+  schemeName: string | null;
+  hsnCode: string | null;
+  gstRate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+};
+
+export type InvoiceDocument = {
+  orderId: string;
+  invoiceNumber: number | null;
+  issuedAt: string | null;
+  dueDate: string | null;
+  customer: {
+    name: string;
+    shopName: string | null;
+    address: string | null;
+    contact: string | null;
+    whatsappNumber: string | null;
+    gstin: string | null;
+  };
+  // Set once the business GSTIN is saved; the PDF is then a tax invoice
+  sellerGstin: string | null;
+  placeOfSupply: string | null;
+  lines: InvoiceLine[];
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+  paid: number;
+  balance: number;
+};
+
+// jsPDF's built-in fonts have no rupee glyph, so amounts on the PDF use "Rs."
+const amountFormatter = new Intl.NumberFormat("en-IN", {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+});
+
+const formatPdfAmount = (value: number) => `Rs. ${amountFormatter.format(value)}`;
+
+const sumLines = (lines: InvoiceLine[], pick: (line: InvoiceLine) => number) =>
+  Math.round(lines.reduce((sum, line) => sum + pick(line), 0) * 100) / 100;
+
+// "Diwali offer: Rs. 60.00 off" or "Buy 10 get 1: 1 kg free", or null for lines without a scheme
+const describeInvoiceScheme = (line: InvoiceLine, formatAmount: (value: number) => string) => {
+  if (!line.schemeName && line.discount <= 0 && line.freeQuantity <= 0) return null;
+  const benefit = [
+    line.discount > 0 ? `${formatAmount(line.discount)} off` : null,
+    line.freeQuantity > 0 ? `${line.freeQuantity} kg free` : null,
+  ].filter(Boolean).join(", ");
+  return line.schemeName ? `${line.schemeName}${benefit ? `: ${benefit}` : ""}` : benefit;
+};
+
+// Loads the order header, its sale lines and the customer. `paid` is what has been settled so
+// far (including later payments allocated to the lines), not only the amount paid at sale time.
+export const fetchInvoice = async (orderId: string): Promise<InvoiceDocument> => {
+  const { data: order, error: orderErr } = await supabase.from("orders").select("*").eq("id", orderId).single();
+  if (orderErr) throw orderErr;
+  if (!order) throw new Error("Invoice not found");
+
+  const { data: lines, error: linesErr } = await supabase
+    .from("transactions")
+    .select("*, scheme:schemes(name)")
+    .eq("order_id", orderId)
+    .order("created_at", { ascending: true });
+  if (linesErr) throw linesErr;
+
+  let customer: Customer | null = null;
+  if (order.customer_id) {
+    const { data, error } = await supabase.from("customers").select("*").eq("id", order.customer_id).maybeSingle();
+    if (error) throw error;
+    customer = data;
+  }
+
+  const { data: gstinSetting, error: settingErr } = await supabase
+    .from("app_settings")
+    .select("value")
+    .eq("key", BUSINESS_GSTIN_KEY)
+    .maybeSingle();
+  if (settingErr) throw settingErr;
+
+  const invoiceLines: InvoiceLine[] = (lines || []).map((line) => {
+    const quantity = Number(line.quantity || 0);
+    const amount = Number(line.amount || 0);
+    const rate = line.rate != null ? Number(line.rate) : quantity > 0 ? amount / quantity : 0;
+    return {
+      teaName: line.tea_name || "Tea",
+      quantity,
+      rate,
+      amount,
+      discount: Number(line.discount_amount || 0),
+      freeQuantity: Number(line.free_quantity || 0),
+      schemeName: line.scheme?.name ?? null,
+      hsnCode: line.hsn_code ?? null,
+      gstRate: Number(line.gst_rate || 0),
+      taxableValue: getTaxableValue(line),
+      cgst: Number(line.cgst_amount || 0),
+      sgst: Number(line.sgst_amount || 0),
+      igst: Number(line.igst_amount || 0),
+    };
+  });
+
+  const total = sumLines(invoiceLines, (line) => line.amount);
+  const balance = (lines || []).reduce((sum, line) => sum + Math.max(Number(line.balance || 0), 0), 0);
+
+  return {
+    orderId: order.id,
+    invoiceNumber: order.invoice_number ?? null,
+    issuedAt: order.created_at ?? null,
+    dueDate: order.due_date ?? null,
+    customer: {
+      name: customer?.full_name || customer?.shop_name || "Customer",
+      shopName: customer?.shop_name || null,
+      address: customer?.address || null,
+      contact: customer?.contact || null,
+      whatsappNumber: customer?.whatsapp_number || customer?.contact || null,
+      gstin: normaliseGstin(customer?.gstin),
+    },
+    sellerGstin: normaliseGstin(gstinSetting?.value),
+    placeOfSupply: (lines || []).find((line) => line.place_of_supply)?.place_of_supply ?? getCustomerStateCode(customer),
+    lines: invoiceLines,
+    taxableValue: sumLines(invoiceLines, (line) => line.taxableValue),
+    cgst: sumLines(invoiceLines, (line) => line.cgst),
+    sgst: sumLines(invoiceLines, (line) => line.sgst),
+    igst: sumLines(invoiceLines, (line) => line.igst),
+    total,
+    paid: Math.max(total - balance, 0),
+    balance,
+  };
+};
+
+export const buildInvoicePdf = async (invoice: InvoiceDocument) => {
+  const { jsPDFConstructor, autoTableFn } = await loadPdfTools();
+  const doc = new jsPDFConstructor({ orientation: "portrait" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const rightEdge = pageWidth - 14;
+
+  doc.setFontSize(20);
+  doc.text("Kadak Chah", 14, 22);
+  doc.setFontSize(10);
+  doc.text("Kadak Chah Private Limited", 14, 28);
+  if (invoice.sellerGstin) doc.text(`GSTIN: ${invoice.sellerGstin}`, 14, 33);
+
+  doc.setFontSize(16);
+  doc.text(invoice.sellerGstin ? "TAX INVOICE" : "INVOICE", rightEdge, 22, { align: "right" });
+  doc.setFontSize(10);
+  doc.text(`Invoice No: ${formatInvoiceNumber(invoice.invoiceNumber)}`, rightEdge, 28, { align: "right" });
+  doc.text(`Date: ${formatReadableDate(invoice.issuedAt)}`, rightEdge, 33, { align: "right" });
+  if (invoice.balance > 0 && invoice.dueDate) {
+    doc.text(`Due Date: ${formatReadableDate(invoice.dueDate)}`, rightEdge, 38, { align: "right" });
+  }
+
+  doc.setFontSize(11);
+  doc.text("Bill To", 14, 46);
+  doc.setFontSize(10);
+  const billTo = [
+    invoice.customer.name,
+    invoice.customer.shopName && invoice.customer.shopName !== invoice.customer.name ? invoice.customer.shopName : null,
+    invoice.customer.address,
+    invoice.customer.contact ? `Phone: ${invoice.customer.contact}` : null,
+    invoice.customer.gstin ? `GSTIN: ${invoice.customer.gstin}` : null,
+    invoice.sellerGstin ? `Place of Supply: ${formatPlaceOfSupply(invoice.placeOfSupply)}` : null,
+  ].filter(Boolean) as string[];
+  billTo.forEach((line, index) => doc.text(line, 14, 52 + index * 5));
+
+  autoTableFn(doc, {
+    startY: 56 + billTo.length * 5,
+    head: [["#", "Tea", "HSN", "Qty (kg)", "Rate (Rs./kg)", "Taxable (Rs.)", "GST", "Amount (Rs.)"]],
+    body: invoice.lines.map((line, index) => [
+      String(index + 1),
+      [line.teaName, describeInvoiceScheme(line, formatPdfAmount)].filter(Boolean).join("\n"),
+      line.hsnCode || "—",
+      line.quantity.toFixed(2),
+      amountFormatter.format(line.rate),
+      amountFormatter.format(line.taxableValue),
+      `${line.gstRate}%`,
+      amountFormatter.format(line.amount),
+    ]),
+    styles: { fontSize: 9, cellPadding: 2 },
+    headStyles: PDF_HEAD_STYLES,
+    columnStyles: {
+      3: { halign: "right" },
+      4: { halign: "right" },
+      5: { halign: "right" },
+      6: { halign: "right" },
+      7: { halign: "right" },
+    },
+  });
+
+  let cursorY = ((doc as any).lastAutoTable?.finalY ?? 80) + 10;
+  const taxTotals: Array<[string, string]> = [
+    ["Taxable Value", formatPdfAmount(invoice.taxableValue)],
+    ...(invoice.igst > 0
+      ? [["IGST", formatPdfAmount(invoice.igst)] as [string, string]]
+      : [
+          ["CGST", formatPdfAmount(invoice.cgst)] as [string, string],
+          ["SGST", formatPdfAmount(invoice.sgst)] as [string, string],
+        ]),
+  ];
+  const totals: Array<[string, string]> = [
+    ...(invoice.cgst + invoice.sgst + invoice.igst > 0 ? taxTotals : []),
+    ["Total", formatPdfAmount(invoice.total)],
+    ["Paid", formatPdfAmount(invoice.paid)],
+    ["Balance Due", formatPdfAmount(invoice.balance)],
+  ];
+  doc.setFontSize(11);
+  totals.forEach(([label, value]) => {
+    doc.text(label, rightEdge - 60, cursorY);
+    doc.text(value, rightEdge, cursorY, { align: "right" });
+    cursorY += 6;
+  });
+
+  doc.setFontSize(9);
+  doc.text(
+    invoice.balance > 0 ? "Kindly clear the balance by the due date." : "Paid in full. Thank you for your business!",
+    14,
+    cursorY + 8,
+  );
+
+  return doc;
+};
+
+export const invoiceFilename = (invoice: InvoiceDocument) =>
+  `invoice_${formatInvoiceNumber(invoice.invoiceNumber).replace(/[^A-Za-z0-9-]/g, "")}.pdf`;
+
+export const downloadInvoicePdf = async (invoice: InvoiceDocument) => {
+  const doc = await buildInvoicePdf(invoice);
+  doc.save(invoiceFilename(invoice), { returnPromise: false });
+};
+
+// Uploads the PDF to the private invoices bucket and returns a signed link valid for 30 days
+export const uploadInvoicePdf = async (invoice: InvoiceDocument): Promise<string> => {
+  const doc = await buildInvoicePdf(invoice);
+  return uploadSharedPdf(doc, `${invoice.orderId}/${invoiceFilename(invoice)}`);
+};
+
+export const composeInvoiceMessage = (invoice: InvoiceDocument) => {
+  const lines = [
+    `Dear ${invoice.customer.name},`,
+    "",
+    `Thank you for your purchase. Here is invoice ${formatInvoiceNumber(invoice.invoiceNumber)} dated ${formatReadableDate(invoice.issuedAt)}.`,
+    "",
+    ...invoice.lines.map((line) => {
+      const scheme = describeInvoiceScheme(line, (value) => `₹${value.toFixed(2)}`);
+      return `  • ${line.teaName}: ${line.quantity} kg — ₹${line.amount.toFixed(2)}${scheme ? ` (${scheme})` : ""}`;
+    }),
+    ...(invoice.cgst + invoice.sgst + invoice.igst > 0
+      ? [`  • GST: ₹${(invoice.cgst + invoice.sgst + invoice.igst).toFixed(2)} on ₹${invoice.taxableValue.toFixed(2)}`]
+      : []),
+    `  • Total: ₹${invoice.total.toFixed(2)}`,
+    `  • Paid: ₹${invoice.paid.toFixed(2)}`,
+  ];
+
+  if (invoice.balance > 0) {
+    const due = invoice.dueDate ? ` (due on ${formatReadableDate(invoice.dueDate)})` : "";
+    lines.push(`  • Balance due: ₹${invoice.balance.toFixed(2)}${due}`);
+  }
+
+  return lines.join("\n");
+};
+
+// Sends the invoice summary to the customer's WhatsApp; with `attachLink` the PDF is uploaded
+// and its signed link is added to the message.
+export const shareInvoiceOnWhatsApp = async (invoice: InvoiceDocument, { attachLink = true } = {}) => {
+  const attachmentUrl = attachLink ? await uploadInvoicePdf(invoice) : null;
+  return sendReminderMessage({
+    toNumber: invoice.customer.whatsappNumber,
+    message: composeInvoiceMessage(invoice),
+    attachmentUrl,
+    attachmentLabel: "Invoice PDF",
+  });
+};
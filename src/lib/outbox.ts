@@ -0,0 +1,92 @@
+// Offline outbox: sales and payments captured while Supabase is unreachable are kept in
+// IndexedDB on the device and replayed through record_order / record_payment once the
+// connection returns. Each entry carries the id generated on the device, which the RPCs
+// store as `client_id`, so replaying an entry that already reached the server is harmless.
+
+import { idbRequest, isIndexedDbSupported } from "./idb";
+
+export type OutboxKind = "order" | "payment";
+
+// pending: waiting for a connection; conflict: the server rejected it and a person has to decide
+export type OutboxStatus = "pending" | "conflict";
+
+export type OutboxEntry = {
+  id: string;
+  kind: OutboxKind;
+  // Signed-in user who captured the entry; only they replay it
+  userId: string | null;
+  // Arguments for the hook that records it, including client_id and recorded_at
+  payload: Record<string, unknown>;
+  // Short text shown in the pending list, e.g. "Rajesh Kumar · ₹4000.00"
+  summary: string;
+  status: OutboxStatus;
+  error: string | null;
+  attempts: number;
+  createdAt: string;
+  lastAttemptAt: string | null;
+};
+
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+// Called after every change to the outbox, including changes made by the sync
+export const subscribeOutbox = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const newClientId = () =>
+  typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : "10000000-1000-4000-8000-100000000000".replace(/[018]/g, (c) =>
+        (Number(c) ^ (Math.random() * 16) >> (Number(c) / 4)).toString(16),
+      );
+
+// Entries captured by the given user, oldest first so they replay in the order they were taken
+export const listOutboxEntries = async (userId: string | null): Promise<OutboxEntry[]> => {
+  if (!isIndexedDbSupported()) return [];
+  const entries = await idbRequest<OutboxEntry[]>("outbox", "readonly", (store) => store.getAll());
+  return entries
+    .filter((entry) => entry.userId === userId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const addOutboxEntry = async (
+  entry: Pick<OutboxEntry, "id" | "kind" | "userId" | "payload" | "summary">,
+): Promise<OutboxEntry> => {
+  const stored: OutboxEntry = {
+    ...entry,
+    status: "pending",
+    error: null,
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+    lastAttemptAt: null,
+  };
+  await idbRequest("outbox", "readwrite", (store) => store.put(stored));
+  notify();
+  return stored;
+};
+
+export const updateOutboxEntry = async (id: string, patch: Partial<Omit<OutboxEntry, "id">>) => {
+  const current = await idbRequest<OutboxEntry | undefined>("outbox", "readonly", (store) => store.get(id));
+  if (!current) return;
+  await idbRequest("outbox", "readwrite", (store) => store.put({ ...current, ...patch }));
+  notify();
+};
+
+export const removeOutboxEntry = async (id: string) => {
+  await idbRequest("outbox", "readwrite", (store) => store.delete(id));
+  notify();
+};
+
+// True when a failed call never reached the database (device offline, DNS or fetch failure).
+// Errors raised by the database carry a Postgres or PostgREST code and are real rejections.
+export const isNetworkError = (err: unknown) => {
+  if (typeof navigator !== "undefined" && navigator.onLine === false) return true;
+  const { code, message } = (err ?? {}) as { code?: unknown; message?: unknown };
+  if (code) return false;
+  return err instanceof TypeError || /failed to fetch|networkerror|network request failed|load failed/i.test(String(message || ""));
+};
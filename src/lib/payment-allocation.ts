@@ -0,0 +1,97 @@
+type SaleLike = {
+  id?: string | null;
+  type?: string | null;
+  tea_name?: string | null;
+  created_at?: string | null;
+  due_date?: string | null;
+  amount?: number | string | null;
+  balance?: number | string | null;
+};
+
+export type OpenInvoice = {
+  id: string;
+  teaName: string | null;
+  createdAt: string | null;
+  dueDate: string | null;
+  amount: number;
+  balance: number;
+};
+
+export type PaymentAllocation = {
+  sale_id: string;
+  amount: number;
+};
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const dueSortKey = (invoice: OpenInvoice) => {
+  const source = invoice.dueDate || invoice.createdAt;
+  const time = source ? new Date(source).getTime() : NaN;
+  return Number.isFinite(time) ? time : Number.MAX_SAFE_INTEGER;
+};
+
+// Sales with a remaining balance, ordered the same way the `record_payment` RPC applies
+// payments: earliest due date first (sale date when no due date), then oldest sale.
+export const getOpenInvoices = (transactions?: SaleLike[] | null): OpenInvoice[] => {
+  return (transactions || [])
+    .filter((txn) => {
+      if (!txn?.id) return false;
+      const type = String(txn.type || "").toLowerCase();
+      return type !== "payment" && Number(txn.balance || 0) > 0;
+    })
+    .map((txn) => ({
+      id: txn.id,
+      teaName: txn.tea_name || null,
+      createdAt: txn.created_at || null,
+      dueDate: txn.due_date || null,
+      amount: Number(txn.amount || 0),
+      balance: Number(txn.balance || 0),
+    }))
+    .sort((a, b) => {
+      const diff = dueSortKey(a) - dueSortKey(b);
+      if (diff !== 0) return diff;
+      const aCreated = a.createdAt ? new Date(a.createdAt).getTime() : 0;
+      const bCreated = b.createdAt ? new Date(b.createdAt).getTime() : 0;
+      return aCreated - bCreated;
+    });
+};
+
+export const planOldestDueAllocation = (invoices: OpenInvoice[], amount: number): PaymentAllocation[] => {
+  let remaining = Number.isFinite(amount) ? Math.max(amount, 0) : 0;
+  const allocations: PaymentAllocation[] = [];
+
+  for (const invoice of invoices) {
+    if (remaining <= 0) break;
+    const applied = roundCurrency(Math.min(remaining, invoice.balance));
+    if (applied <= 0) continue;
+    allocations.push({ sale_id: invoice.id, amount: applied });
+    remaining = roundCurrency(remaining - applied);
+  }
+
+  return allocations;
+};
+
+export const validateAllocations = (
+  invoices: OpenInvoice[],
+  allocations: PaymentAllocation[],
+  amount: number,
+): string | null => {
+  const invoicesById = new Map(invoices.map((invoice) => [invoice.id, invoice]));
+  let total = 0;
+
+  for (const allocation of allocations) {
+    const invoice = invoicesById.get(allocation.sale_id);
+    if (!invoice) return "One of the selected invoices is no longer open.";
+    if (allocation.amount < 0) return "Allocated amounts cannot be negative.";
+    if (roundCurrency(allocation.amount) > roundCurrency(invoice.balance)) {
+      return `Allocation exceeds the remaining balance of ₹${invoice.balance.toFixed(2)}.`;
+    }
+    total += allocation.amount;
+  }
+
+  if (roundCurrency(total) > roundCurrency(amount)) {
+    return "Allocated total is more than the payment amount.";
+  }
+
+  return null;
+};
@@ -0,0 +1,60 @@
+export type PaymentMethod = "cash" | "upi" | "cheque" | "bank_transfer";
+
+export type PaymentMethodOption = {
+  value: PaymentMethod;
+  label: string;
+  // Label for the reference field; cash has no reference
+  referenceLabel: string | null;
+  referenceRequired: boolean;
+};
+
+export const PAYMENT_METHODS: PaymentMethodOption[] = [
+  { value: "cash", label: "Cash", referenceLabel: null, referenceRequired: false },
+  { value: "upi", label: "UPI", referenceLabel: "UPI transaction ID", referenceRequired: false },
+  { value: "cheque", label: "Cheque", referenceLabel: "Cheque number", referenceRequired: true },
+  { value: "bank_transfer", label: "Bank transfer", referenceLabel: "Bank reference", referenceRequired: false },
+];
+
+// Payments recorded before methods were captured have no method
+export const UNRECORDED_METHOD_LABEL = "Not recorded";
+
+export const getPaymentMethodOption = (value?: string | null) =>
+  PAYMENT_METHODS.find((option) => option.value === value) ?? null;
+
+export const getPaymentMethodLabel = (value?: string | null) =>
+  getPaymentMethodOption(value)?.label ?? UNRECORDED_METHOD_LABEL;
+
+// Method and reference as captured in the sale and payment forms; cheques also carry the
+// issuing bank and the date written on the cheque
+export type PaymentDetails = {
+  method: PaymentMethod;
+  reference: string;
+  chequeBank: string;
+  chequeDate: string;
+};
+
+export const emptyPaymentDetails = (): PaymentDetails => ({
+  method: "cash",
+  reference: "",
+  chequeBank: "",
+  chequeDate: "",
+});
+
+export const validatePaymentDetails = (details: PaymentDetails): string | null => {
+  const option = getPaymentMethodOption(details.method);
+  if (option?.referenceRequired && !details.reference.trim()) {
+    return `Enter the ${option.referenceLabel?.toLowerCase()} for ${option.label.toLowerCase()} payments.`;
+  }
+  if (details.method === "cheque" && !details.chequeDate) {
+    return "Enter the date written on the cheque.";
+  }
+  return null;
+};
+
+// RPC parameters shared by record_payment and record_order
+export const toPaymentRpcParams = (details: PaymentDetails) => ({
+  p_payment_method: details.method,
+  p_payment_reference: details.reference.trim() || null,
+  p_cheque_bank: details.method === "cheque" ? details.chequeBank.trim() || null : null,
+  p_cheque_date: details.method === "cheque" ? details.chequeDate || null : null,
+});
@@ -0,0 +1,40 @@
+import supabase from "./supabase";
+
+const SHARED_PDF_BUCKET = "invoices";
+const SHARED_PDF_LINK_TTL_SECONDS = 60 * 60 * 24 * 30;
+
+// jsPDF and its autotable plugin are large, so they are only loaded when a PDF is generated
+export const loadPdfTools = async () => {
+  const [jsPDFModule, autoTableModule] = await Promise.all([
+    import("jspdf"),
+    import("jspdf-autotable"),
+  ]);
+
+  const jsPDFConstructor = jsPDFModule.jsPDF || (jsPDFModule as any).default;
+  const autoTableFn = (autoTableModule as any).default || (autoTableModule as any).autoTable;
+
+  if (!jsPDFConstructor) {
+    throw new Error("PDF generator failed to load.");
+  }
+  if (!autoTableFn) {
+    throw new Error("PDF table helper failed to load.");
+  }
+
+  return { jsPDFConstructor, autoTableFn };
+};
+
+export const PDF_HEAD_STYLES = { fillColor: [33, 37, 41], textColor: 255 };
+
+// Uploads a generated PDF to the private invoices bucket and returns a signed link valid for 30 days
+export const uploadSharedPdf = async (doc: { output: (type: "blob") => Blob }, path: string): Promise<string> => {
+  const blob = doc.output("blob");
+  const { error: uploadErr } = await supabase.storage
+    .from(SHARED_PDF_BUCKET)
+    .upload(path, blob, { contentType: "application/pdf", upsert: true });
+  if (uploadErr) throw uploadErr;
+
+  const { data, error } = await supabase.storage.from(SHARED_PDF_BUCKET).createSignedUrl(path, SHARED_PDF_LINK_TTL_SECONDS);
+  if (error) throw error;
+  if (!data?.signedUrl) throw new Error("Unable to create a link to the PDF");
+  return data.signedUrl;
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { describeListPrice, isBelowPurchaseRate, resolveListPrice, sortPriceRules } from "./pricing";
+import { makeRule } from "@/test/fixtures";
+
+const assam = { name: " assam gold", selling_rate: 150, purchase_rate: 110 };
+
+const rules = [
+  makeRule({ id: "list", rate: 140 }),
+  makeRule({ id: "list-25", rate: 135, min_quantity: 25 }),
+  makeRule({ id: "list-50", rate: 130, min_quantity: 50 }),
+  makeRule({ id: "asha", customer_id: "cust-asha", rate: 128 }),
+  makeRule({ id: "asha-40", customer_id: "cust-asha", rate: 120, min_quantity: 40 }),
+  makeRule({ id: "darjeeling", tea_name: "Darjeeling", rate: 400 }),
+];
+
+describe("resolveListPrice", () => {
+  it("uses the highest quantity break the line reaches", () => {
+    expect(resolveListPrice(assam, rules, { quantity: 10 })).toMatchObject({ rate: 140, source: "list", minQuantity: 0 });
+    expect(resolveListPrice(assam, rules, { quantity: 25 })).toMatchObject({ rate: 135, minQuantity: 25 });
+    expect(resolveListPrice(assam, rules, { quantity: 80 })?.rule?.id).toBe("list-50");
+  });
+
+  it("prefers the customer's own rates over the general list", () => {
+    expect(resolveListPrice(assam, rules, { customerId: "cust-asha", quantity: 10 })).toMatchObject({
+      rate: 128,
+      source: "customer",
+    });
+    expect(resolveListPrice(assam, rules, { customerId: "cust-asha", quantity: 60 })?.rule?.id).toBe("asha-40");
+    expect(resolveListPrice(assam, rules, { customerId: "cust-corner", quantity: 60 })?.rule?.id).toBe("list-50");
+  });
+
+  it("falls back to the batch selling rate, then to nothing", () => {
+    expect(resolveListPrice({ name: "Nilgiri", selling_rate: 180 }, rules, { quantity: 5 })).toEqual({
+      rate: 180,
+      source: "batch",
+      minQuantity: 0,
+      rule: null,
+    });
+    expect(resolveListPrice({ name: "Nilgiri", selling_rate: null }, rules, { quantity: 5 })).toBeNull();
+    expect(resolveListPrice(null, rules, { quantity: 5 })).toBeNull();
+  });
+
+  it("treats a quantity not entered yet as zero", () => {
+    expect(resolveListPrice(assam, rules, { quantity: NaN })?.rule?.id).toBe("list");
+  });
+});
+
+describe("describeListPrice", () => {
+  it("names where the rate came from", () => {
+    expect(describeListPrice(resolveListPrice(assam, rules, { customerId: "cust-asha", quantity: 45 }))).toBe(
+      "Customer rate for 40 kg+",
+    );
+    expect(describeListPrice(resolveListPrice(assam, rules, { quantity: 1 }))).toBe("Price list");
+    expect(describeListPrice(resolveListPrice(assam, [], { quantity: 1 }))).toBe("Batch selling rate");
+  });
+});
+
+describe("isBelowPurchaseRate", () => {
+  it("flags rates under the batch cost", () => {
+    expect(isBelowPurchaseRate(109.99, assam)).toBe(true);
+    expect(isBelowPurchaseRate(110, assam)).toBe(false);
+    expect(isBelowPurchaseRate(NaN, assam)).toBe(false);
+    expect(isBelowPurchaseRate(50, undefined)).toBe(false);
+  });
+});
+
+describe("sortPriceRules", () => {
+  it("groups by tea with the general list before customer rates", () => {
+    const sorted = sortPriceRules([...rules].reverse(), (id) => (id === "cust-asha" ? "Asha Patel" : id));
+
+    expect(sorted.map((rule) => rule.id)).toEqual(["list", "list-25", "list-50", "asha", "asha-40", "darjeeling"]);
+  });
+});
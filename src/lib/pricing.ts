@@ -0,0 +1,77 @@
+import type { Batch, PriceRule } from "./schemas";
+
+export type PriceSource = "customer" | "list" | "batch";
+
+export type ListPrice = {
+  rate: number;
+  source: PriceSource;
+  // Quantity break the rate applies from; 0 for plain rates and the batch selling rate
+  minQuantity: number;
+  rule: PriceRule | null;
+};
+
+type PricedBatch = Pick<Batch, "name" | "selling_rate">;
+
+// Price rules match batches by tea name, ignoring case and surrounding spaces
+export const normaliseTeaName = (name: string | null | undefined) => (name || "").trim().toLowerCase();
+
+// The rule with the highest quantity break the line reaches
+const pickTier = (rules: PriceRule[], quantity: number) =>
+  rules
+    .filter((rule) => Number(rule.min_quantity) <= quantity)
+    .sort((a, b) => Number(b.min_quantity) - Number(a.min_quantity))[0] ?? null;
+
+// Selling rate for a sale line, in the order the price list is meant to be read: the customer's
+// own rates for the tea, then the general rates for the tea, then the batch's selling rate.
+// Within a level the highest quantity break reached applies. Returns null when nothing is set,
+// in which case the partner has to enter a rate.
+export const resolveListPrice = (
+  batch: PricedBatch | null | undefined,
+  rules: PriceRule[] | null | undefined,
+  { customerId, quantity }: { customerId?: string | null; quantity?: number | null },
+): ListPrice | null => {
+  if (!batch) return null;
+  const tea = normaliseTeaName(batch.name);
+  const qty = Number.isFinite(Number(quantity)) ? Math.max(Number(quantity), 0) : 0;
+  const forTea = (rules || []).filter((rule) => normaliseTeaName(rule.tea_name) === tea);
+
+  const customerRule = customerId ? pickTier(forTea.filter((rule) => rule.customer_id === customerId), qty) : null;
+  if (customerRule) {
+    return { rate: Number(customerRule.rate), source: "customer", minQuantity: Number(customerRule.min_quantity), rule: customerRule };
+  }
+
+  const listRule = pickTier(forTea.filter((rule) => !rule.customer_id), qty);
+  if (listRule) {
+    return { rate: Number(listRule.rate), source: "list", minQuantity: Number(listRule.min_quantity), rule: listRule };
+  }
+
+  if (batch.selling_rate !== null && batch.selling_rate !== undefined) {
+    return { rate: Number(batch.selling_rate), source: "batch", minQuantity: 0, rule: null };
+  }
+  return null;
+};
+
+export const describeListPrice = (price: ListPrice) => {
+  const tier = price.minQuantity > 0 ? ` for ${price.minQuantity} kg+` : "";
+  switch (price.source) {
+    case "customer":
+      return `Customer rate${tier}`;
+    case "list":
+      return `Price list${tier}`;
+    default:
+      return "Batch selling rate";
+  }
+};
+
+// Selling below what the batch cost is allowed, but the partner is warned first
+export const isBelowPurchaseRate = (rate: number, batch: Pick<Batch, "purchase_rate"> | null | undefined) =>
+  Boolean(batch) && Number.isFinite(rate) && rate < Number(batch.purchase_rate || 0);
+
+// Tea, then the general list before customer rates, then quantity break
+export const sortPriceRules = (rules: PriceRule[], customerName: (customerId: string) => string = (id) => id) =>
+  [...rules].sort(
+    (a, b) =>
+      normaliseTeaName(a.tea_name).localeCompare(normaliseTeaName(b.tea_name)) ||
+      (a.customer_id ? customerName(a.customer_id) : "").localeCompare(b.customer_id ? customerName(b.customer_id) : "") ||
+      Number(a.min_quantity) - Number(b.min_quantity),
+  );
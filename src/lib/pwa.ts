@@ -0,0 +1,8 @@
+// Registers public/sw.js in production builds so the app can be installed and opened offline.
+// The dev server is left alone; a cached shell there would hide code changes.
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || typeof navigator === "undefined" || !("serviceWorker" in navigator)) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((err) => console.warn("Service worker registration failed", err));
+  });
+};
@@ -0,0 +1,74 @@
+import { dehydrate, hydrate, type Query, type QueryClient } from "@tanstack/react-query";
+import { idbRequest, isIndexedDbSupported } from "./idb";
+import { getStoredUser } from "./utils";
+
+// Queries kept on the device so the partner dashboard opens with the last-known data when
+// offline. The verified session is kept too, otherwise RequireRole would wait for the server.
+const PERSISTED_QUERY_KEYS = ["customers", "batches", "transactions", "session"];
+const CACHE_KEY = "react-query";
+const SAVE_DELAY_MS = 1000;
+// Older snapshots are dropped instead of restored
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+type PersistedCache = {
+  userId: string | null;
+  savedAt: number;
+  state: ReturnType<typeof dehydrate>;
+};
+
+const shouldPersist = (query: Query) =>
+  query.state.status === "success" && PERSISTED_QUERY_KEYS.includes(String(query.queryKey[0]));
+
+const saveQueryCache = async (queryClient: QueryClient) => {
+  const user = getStoredUser();
+  if (!user?.token) return;
+  const cache: PersistedCache = {
+    userId: user.id,
+    savedAt: Date.now(),
+    state: dehydrate(queryClient, { shouldDehydrateQuery: shouldPersist }),
+  };
+  await idbRequest("query-cache", "readwrite", (store) => store.put(cache, CACHE_KEY));
+};
+
+// Loads the snapshot saved for the signed-in user into the cache. Hydrated queries keep their
+// original dataUpdatedAt, which is what StaleDataNotice shows as the last sync time.
+export const restoreQueryCache = async (queryClient: QueryClient) => {
+  if (!isIndexedDbSupported()) return;
+  try {
+    const cache = await idbRequest<PersistedCache | undefined>("query-cache", "readonly", (store) => store.get(CACHE_KEY));
+    if (!cache) return;
+    const user = getStoredUser();
+    if (!user?.token || cache.userId !== user.id || Date.now() - cache.savedAt > MAX_AGE_MS) {
+      await clearQueryCache();
+      return;
+    }
+    hydrate(queryClient, cache.state);
+  } catch (err) {
+    console.warn("Failed to restore the offline query cache", err);
+  }
+};
+
+export const clearQueryCache = async () => {
+  if (!isIndexedDbSupported()) return;
+  await idbRequest("query-cache", "readwrite", (store) => store.delete(CACHE_KEY));
+};
+
+// Saves the persisted queries a moment after any of them changes. Returns an unsubscribe function.
+export const persistQueryCache = (queryClient: QueryClient) => {
+  if (!isIndexedDbSupported()) return () => undefined;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const unsubscribe = queryClient.getQueryCache().subscribe((event) => {
+    if (event.type !== "updated" || !shouldPersist(event.query)) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      saveQueryCache(queryClient).catch((err) => console.warn("Failed to save the offline query cache", err));
+    }, SAVE_DELAY_MS);
+  });
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    unsubscribe();
+  };
+};
@@ -0,0 +1,209 @@
+import supabase from "./supabase";
+import { loadPdfTools, PDF_HEAD_STYLES } from "./pdf";
+import { composeReceiptMessage, sendReminderMessage } from "./reminders";
+import { formatInvoiceNumber, formatReceiptNumber } from "./document-numbers";
+import { fetchPartnerContactNumber } from "./reminder-actions";
+import { getPaymentMethodLabel } from "./payment-methods";
+import type { Tables } from "./database.types";
+import type { Customer, Transaction } from "./schemas";
+import { formatReadableDate, getPartnerContactNumber, normalizePhoneNumber } from "./utils";
+
+export type ReceiptAllocation = {
+  saleId: string;
+  label: string;
+  amount: number;
+};
+
+export type ReceiptDocument = {
+  paymentId: string;
+  receiptNumber: number | null;
+  paidAt: string | null;
+  amount: number;
+  method: string | null;
+  reference: string | null;
+  allocations: ReceiptAllocation[];
+  unallocated: number;
+  remainingOutstanding: number;
+  customer: {
+    name: string;
+    shopName: string | null;
+    whatsappNumber: string | null;
+    partnerId: string | null;
+  };
+};
+
+const amountFormatter = new Intl.NumberFormat("en-IN", {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+});
+
+const formatPdfAmount = (value: number) => `Rs. ${amountFormatter.format(value)}`;
+
+// Loads a payment, the invoices it was applied to and the customer's outstanding balance after it
+export const fetchReceipt = async (paymentId: string): Promise<ReceiptDocument> => {
+  const { data: payment, error: paymentErr } = await supabase.from("transactions").select("*").eq("id", paymentId).single();
+  if (paymentErr) throw paymentErr;
+  if (!payment) throw new Error("Payment not found");
+
+  const { data: allocations, error: allocErr } = await supabase
+    .from("payment_allocations")
+    .select("sale_id, amount")
+    .eq("payment_id", paymentId);
+  if (allocErr) throw allocErr;
+
+  const saleIds = (allocations || []).map((allocation) => allocation.sale_id);
+  let sales: Pick<Transaction, "id" | "tea_name" | "created_at" | "order_id">[] = [];
+  let orders: Pick<Tables<"orders">, "id" | "invoice_number">[] = [];
+  if (saleIds.length > 0) {
+    const { data, error } = await supabase.from("transactions").select("id, tea_name, created_at, order_id").in("id", saleIds);
+    if (error) throw error;
+    sales = data || [];
+
+    const orderIds = Array.from(new Set(sales.map((sale) => sale.order_id).filter(Boolean)));
+    if (orderIds.length > 0) {
+      const { data: orderRows, error: orderErr } = await supabase.from("orders").select("id, invoice_number").in("id", orderIds);
+      if (orderErr) throw orderErr;
+      orders = orderRows || [];
+    }
+  }
+
+  let customer: Customer | null = null;
+  let remainingOutstanding = 0;
+  if (payment.customer_id) {
+    const { data, error } = await supabase.from("customers").select("*").eq("id", payment.customer_id).maybeSingle();
+    if (error) throw error;
+    customer = data;
+
+    const { data: balances, error: balanceErr } = await supabase
+      .from("transactions")
+      .select("balance")
+      .eq("customer_id", payment.customer_id);
+    if (balanceErr) throw balanceErr;
+    remainingOutstanding = Math.max(
+      (balances || []).reduce((sum, row) => sum + Number(row.balance || 0), 0),
+      0,
+    );
+  }
+
+  const receiptAllocations: ReceiptAllocation[] = (allocations || []).map((allocation) => {
+    const sale = sales.find((row) => row.id === allocation.sale_id);
+    const order = sale?.order_id ? orders.find((row) => row.id === sale.order_id) : null;
+    const invoiceLabel = order ? formatInvoiceNumber(order.invoice_number) : null;
+    const saleLabel = `${sale?.tea_name || "Tea sale"} (${formatReadableDate(sale?.created_at)})`;
+    return {
+      saleId: allocation.sale_id,
+      label: invoiceLabel ? `${invoiceLabel} · ${saleLabel}` : saleLabel,
+      amount: Number(allocation.amount || 0),
+    };
+  });
+
+  const amount = Number(payment.amount || 0);
+  const allocatedTotal = receiptAllocations.reduce((sum, allocation) => sum + allocation.amount, 0);
+
+  return {
+    paymentId: payment.id,
+    receiptNumber: payment.receipt_number ?? null,
+    paidAt: payment.created_at ?? null,
+    amount,
+    method: payment.payment_method ? getPaymentMethodLabel(payment.payment_method) : null,
+    reference: payment.payment_reference ?? null,
+    allocations: receiptAllocations,
+    unallocated: Math.max(amount - allocatedTotal, 0),
+    remainingOutstanding,
+    customer: {
+      name: customer?.full_name || customer?.shop_name || "Customer",
+      shopName: customer?.shop_name || null,
+      whatsappNumber: customer?.whatsapp_number || customer?.contact || null,
+      partnerId: customer?.partner_id ?? null,
+    },
+  };
+};
+
+export const buildReceiptPdf = async (receipt: ReceiptDocument) => {
+  const { jsPDFConstructor, autoTableFn } = await loadPdfTools();
+  const doc = new jsPDFConstructor({ orientation: "portrait" });
+  const rightEdge = doc.internal.pageSize.getWidth() - 14;
+
+  doc.setFontSize(20);
+  doc.text("Kadak Chah", 14, 22);
+  doc.setFontSize(10);
+  doc.text("Kadak Chah Private Limited", 14, 28);
+
+  doc.setFontSize(16);
+  doc.text("PAYMENT RECEIPT", rightEdge, 22, { align: "right" });
+  doc.setFontSize(10);
+  doc.text(`Receipt No: ${formatReceiptNumber(receipt.receiptNumber)}`, rightEdge, 28, { align: "right" });
+  doc.text(`Date: ${formatReadableDate(receipt.paidAt)}`, rightEdge, 33, { align: "right" });
+
+  doc.setFontSize(11);
+  doc.text("Received From", 14, 46);
+  doc.setFontSize(10);
+  doc.text(receipt.customer.name, 14, 52);
+  if (receipt.customer.shopName && receipt.customer.shopName !== receipt.customer.name) {
+    doc.text(receipt.customer.shopName, 14, 57);
+  }
+
+  doc.setFontSize(12);
+  doc.text(`Amount Received: ${formatPdfAmount(receipt.amount)}`, 14, 68);
+  doc.setFontSize(10);
+  let cursorY = 74;
+  if (receipt.method) {
+    doc.text(`Payment Method: ${receipt.method}${receipt.reference ? ` (Ref: ${receipt.reference})` : ""}`, 14, cursorY);
+    cursorY += 6;
+  }
+
+  autoTableFn(doc, {
+    startY: cursorY + 2,
+    head: [["Applied To", "Amount (Rs.)"]],
+    body:
+      receipt.allocations.length > 0
+        ? receipt.allocations.map((allocation) => [allocation.label, amountFormatter.format(allocation.amount)])
+        : [["Not applied to a specific invoice", amountFormatter.format(receipt.amount)]],
+    styles: { fontSize: 9, cellPadding: 2 },
+    headStyles: PDF_HEAD_STYLES,
+    columnStyles: { 1: { halign: "right" } },
+  });
+
+  cursorY = ((doc as any).lastAutoTable?.finalY ?? cursorY + 20) + 10;
+  doc.setFontSize(11);
+  if (receipt.unallocated > 0 && receipt.allocations.length > 0) {
+    doc.text(`Kept as credit: ${formatPdfAmount(receipt.unallocated)}`, 14, cursorY);
+    cursorY += 6;
+  }
+  doc.text(`Remaining Outstanding: ${formatPdfAmount(receipt.remainingOutstanding)}`, 14, cursorY);
+
+  doc.setFontSize(9);
+  doc.text("Thank you for your payment.", 14, cursorY + 10);
+
+  return doc;
+};
+
+export const downloadReceiptPdf = async (receipt: ReceiptDocument) => {
+  const doc = await buildReceiptPdf(receipt);
+  const label = formatReceiptNumber(receipt.receiptNumber).replace(/[^A-Za-z0-9-]/g, "");
+  doc.save(`receipt_${label}.pdf`, { returnPromise: false });
+};
+
+export const composeReceiptText = (receipt: ReceiptDocument, partnerNumber?: string | null) =>
+  composeReceiptMessage({
+    customerName: receipt.customer.name,
+    receiptNumber: formatReceiptNumber(receipt.receiptNumber),
+    paymentDate: receipt.paidAt,
+    amount: receipt.amount,
+    method: receipt.method ? `${receipt.method}${receipt.reference ? ` (Ref: ${receipt.reference})` : ""}` : null,
+    allocations: receipt.allocations.map(({ label, amount }) => ({ label, amount })),
+    unallocated: receipt.allocations.length > 0 ? receipt.unallocated : null,
+    remainingOutstanding: receipt.remainingOutstanding,
+    partnerNumber,
+  });
+
+export const sendReceiptOnWhatsApp = async (receipt: ReceiptDocument) => {
+  const partnerNumber = normalizePhoneNumber(
+    (await fetchPartnerContactNumber(receipt.customer.partnerId)) ?? getPartnerContactNumber() ?? undefined,
+  );
+  return sendReminderMessage({
+    toNumber: receipt.customer.whatsappNumber,
+    message: composeReceiptText(receipt, partnerNumber),
+    partnerNumber,
+  });
+};
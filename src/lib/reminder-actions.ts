@@ -1,5 +1,7 @@
 import supabase from "./supabase";
 import { composeReminderMessage, sendReminderMessage } from "./reminders";
+import { getOpenInvoices } from "./payment-allocation";
+import { partnerContactSettingKey } from "./hooks";
 import { formatPhoneForDisplay, getPartnerContactNumber, normalizePhoneNumber } from "./utils";
 
 export type ReminderToast = (payload: {
@@ -15,6 +17,25 @@ export type ReminderPayload = {
   toast: ReminderToast;
 };
 
+// Contact number for reminders about a partner's customers: the partner's own number when set,
+// otherwise the global default. Lookup failures fall back to the caller's number.
+export const fetchPartnerContactNumber = async (partnerId?: string | null): Promise<string | null> => {
+  const partnerKey = partnerContactSettingKey(partnerId);
+  const globalKey = partnerContactSettingKey(null);
+  const { data, error } = await supabase
+    .from("app_settings")
+    .select("key, value")
+    .in("key", Array.from(new Set([partnerKey, globalKey])));
+
+  if (error) {
+    console.error("Failed to load partner contact", error);
+    return null;
+  }
+
+  const valueFor = (key: string) => (data || []).find((row) => row.key === key)?.value?.trim() || null;
+  return valueFor(partnerKey) ?? valueFor(globalKey);
+};
+
 export const sendReminderForCustomer = async ({ customer, outstandingAmount, partnerContact, toast }: ReminderPayload) => {
   if (!customer?.id) {
     toast({ title: "Missing customer", description: "Cannot send reminder without a valid customer." });
@@ -29,7 +50,8 @@ export const sendReminderForCustomer = async ({ customer, outstandingAmount, par
     return false;
   }
 
-  const partnerNumberInput = partnerContact ?? getPartnerContactNumber();
+  const partnerNumberInput =
+    (await fetchPartnerContactNumber(customer.partner_id)) ?? partnerContact ?? getPartnerContactNumber();
   const partnerNumber = normalizePhoneNumber(partnerNumberInput ?? undefined);
   if (!partnerNumber) {
     toast({
@@ -67,7 +89,11 @@ export const sendReminderForCustomer = async ({ customer, outstandingAmount, par
     const lastPayment = (transactionHistory || []).find((t: any) => (t.type || "").toLowerCase() === "payment");
     const saleTransactions = (transactionHistory || []).filter((t: any) => (t.type || "").toLowerCase() !== "payment");
     const latestSale = saleTransactions[0] ?? null;
-    const primaryTransaction = nextDue ?? latestSale ?? null;
+    const oldestOpenInvoice = getOpenInvoices(transactionHistory)[0];
+    const oldestOpenSale = oldestOpenInvoice
+      ? saleTransactions.find((t) => t.id === oldestOpenInvoice.id) ?? null
+      : null;
+    const primaryTransaction = nextDue ?? oldestOpenSale ?? latestSale ?? null;
 
     const invoiceAmount = primaryTransaction ? Number(primaryTransaction.amount ?? 0) : null;
     const invoiceBalance = primaryTransaction ? Math.max(Number(primaryTransaction.balance ?? 0) || 0, 0) : Math.max(outstandingAmount, 0);
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { composeReminderMessage, type ReminderMessageDetails } from "./reminders";
+import { formatReadableDate } from "./utils";
+
+const details: ReminderMessageDetails = {
+  customerName: "Asha Patel",
+  teaName: "Assam Gold",
+  purchaseDate: "2024-03-05T10:00:00Z",
+  invoiceAmount: 3300,
+  paidAmount: 1300,
+  invoiceBalance: 2000,
+  totalOutstanding: 2000,
+  dueDate: "2024-03-20",
+  partnerNumber: "919876543210",
+};
+
+const linesOf = (overrides: Partial<ReminderMessageDetails> = {}) =>
+  composeReminderMessage({ ...details, ...overrides }).split("\n");
+
+describe("composeReminderMessage", () => {
+  it("summarises the invoice for the customer", () => {
+    const lines = linesOf();
+
+    expect(lines[0]).toBe("Dear Asha Patel,");
+    expect(lines).toContain("Tea Order Summary:");
+    expect(lines).toContain("  • Tea selection: Assam Gold");
+    expect(lines).toContain(`  • Purchased on: ${formatReadableDate("2024-03-05T10:00:00Z")}`);
+    expect(lines).toContain("  • Invoice total: ₹3300.00");
+    expect(lines).toContain("  • Paid so far: ₹1300.00");
+    expect(lines).toContain(`  • Balance due: ₹2000.00 (due on ${formatReadableDate("2024-03-20")})`);
+    expect(lines.some((line) => line.includes("Total outstanding"))).toBe(false);
+  });
+
+  it("ends with the partner's number and the signature", () => {
+    expect(linesOf().slice(-3)).toEqual([
+      "☎ Partner support: 9876543210",
+      `${" ".repeat(34)}With warm regards,`,
+      `${" ".repeat(34)}Kadak चाह`,
+    ]);
+  });
+
+  it("adds the total outstanding when it differs from the invoice balance by more than ₹1", () => {
+    expect(linesOf({ totalOutstanding: 2500 })).toContain("  • Total outstanding with us: ₹2500.00");
+    expect(linesOf({ totalOutstanding: 2001 }).some((line) => line.includes("Total outstanding"))).toBe(false);
+  });
+
+  it("uses the total outstanding as the balance when no invoice balance is given", () => {
+    const lines = linesOf({ invoiceBalance: null, totalOutstanding: 750, dueDate: null });
+
+    expect(lines).toContain("  • Balance due: ₹750.00");
+    expect(lines.some((line) => line.includes("Total outstanding"))).toBe(false);
+  });
+
+  it("never shows negative amounts", () => {
+    const lines = linesOf({ invoiceAmount: -5, paidAmount: -1, invoiceBalance: null, totalOutstanding: -100 });
+
+    expect(lines).toContain("  • Invoice total: ₹0.00");
+    expect(lines).toContain("  • Paid so far: ₹0.00");
+    expect(lines).toContain(`  • Balance due: ₹0.00 (due on ${formatReadableDate("2024-03-20")})`);
+  });
+
+  it("omits invoice and payment lines without usable amounts", () => {
+    const lines = linesOf({ invoiceAmount: null, paidAmount: Number.NaN });
+
+    expect(lines.some((line) => line.includes("Invoice total"))).toBe(false);
+    expect(lines.some((line) => line.includes("Paid so far"))).toBe(false);
+  });
+
+  it("falls back to generic wording when the tea or purchase date is unknown", () => {
+    const lines = linesOf({ teaName: "   ", purchaseDate: null });
+
+    expect(lines).toContain("  • Tea selection: your latest tea order");
+    expect(lines).toContain("  • Purchased on: Not recorded");
+    expect(linesOf({ teaName: null })).toContain("  • Tea selection: your latest tea order");
+  });
+
+  it("shows the partner number as given when it cannot be normalised", () => {
+    expect(linesOf({ partnerNumber: "ext 12" })).toContain("☎ Partner support: ext 12");
+    expect(linesOf({ partnerNumber: "+49 151 12345678" })).toContain("☎ Partner support: 4915112345678");
+  });
+
+  it("leaves out the partner line without a partner number", () => {
+    const lines = linesOf({ partnerNumber: null });
+
+    expect(lines.some((line) => line.includes("Partner support"))).toBe(false);
+    expect(lines[lines.length - 2]).toBe(`${" ".repeat(34)}With warm regards,`);
+  });
+});
@@ -92,11 +92,89 @@ export const composeReminderMessage = ({
     .join("\n");
 };
 
+export interface ReceiptMessageDetails {
+  customerName: string;
+  receiptNumber: string;
+  paymentDate?: string | null;
+  amount: number;
+  method?: string | null;
+  allocations: Array<{ label: string; amount: number }>;
+  unallocated?: number | null;
+  remainingOutstanding: number;
+  partnerNumber?: string | null;
+}
+
+export const composeReceiptMessage = ({
+  customerName,
+  receiptNumber,
+  paymentDate,
+  amount,
+  method,
+  allocations,
+  unallocated,
+  remainingOutstanding,
+  partnerNumber,
+}: ReceiptMessageDetails) => {
+  const paymentText = paymentDate ? formatReadableDate(paymentDate) : "Today";
+  const partnerDisplay = partnerNumber
+    ? formatPhoneForDisplay(partnerNumber) ?? partnerNumber
+    : null;
+  const partnerLine = partnerDisplay
+    ? `☎ Partner support: ${partnerDisplay}`
+    : null;
+
+  const allocationLines = allocations.map(
+    (allocation) => `${"".padStart(4)}– ${allocation.label}: ${formatCurrencyLine(allocation.amount)}`,
+  );
+  const creditLine = typeof unallocated === "number" && unallocated > 0
+    ? `${"".padStart(2)}• Kept as credit: ${formatCurrencyLine(unallocated)}`
+    : null;
+  const remaining = Math.max(remainingOutstanding, 0);
+  const remainingLine = remaining > 0
+    ? `${"".padStart(2)}• Remaining outstanding: ${formatCurrencyLine(remaining)}`
+    : `${"".padStart(2)}• Your account is fully settled.`;
+
+  const detailsBlock: Array<string | null> = [
+    "Payment Receipt:",
+    `${"".padStart(2)}• Receipt number: ${receiptNumber}`,
+    `${"".padStart(2)}• Received on: ${paymentText}`,
+    `${"".padStart(2)}• Amount received: ${formatCurrencyLine(amount)}`,
+    method ? `${"".padStart(2)}• Payment method: ${method}` : null,
+    allocationLines.length > 0 ? `${"".padStart(2)}• Applied to:` : null,
+    ...allocationLines,
+    creditLine,
+    remainingLine,
+  ];
+
+  const signatureLines: Array<string | null> = [
+    partnerLine,
+    partnerLine ? "" : null,
+    "",
+    `${"".padStart(34)}With warm regards,`,
+    `${"".padStart(34)}Kadak चाह`,
+  ];
+
+  return [
+    `Dear ${customerName},`,
+    "",
+    "Thank you for your payment. This message confirms the amount we have received from you.",
+    "",
+    ...detailsBlock,
+    "",
+    ...signatureLines,
+  ]
+    .filter(Boolean)
+    .join("\n");
+};
+
 interface ReminderOptions {
   toNumber?: string | null;
   message: string;
   partnerNumber?: string | null;
   auto?: boolean;
+  // Optional document link (e.g. an invoice PDF) added above the signature
+  attachmentUrl?: string | null;
+  attachmentLabel?: string;
 }
 
 interface ReminderResult {
@@ -110,6 +188,8 @@ export const sendReminderMessage = async ({
   message,
   partnerNumber,
   auto = false,
+  attachmentUrl,
+  attachmentLabel = "Invoice",
 }: ReminderOptions): Promise<ReminderResult> => {
   const normalizedRecipient = normalizePhoneNumber(toNumber ?? undefined);
   if (!normalizedRecipient) {
@@ -133,6 +213,13 @@ export const sendReminderMessage = async ({
     messageLines.push(trimmedMessage);
   }
 
+  if (attachmentUrl) {
+    if (trimmedMessage) {
+      messageLines.push("");
+    }
+    messageLines.push(`📄 ${attachmentLabel}: ${attachmentUrl}`);
+  }
+
   if (!alreadySigned) {
     if (trimmedMessage) {
       messageLines.push("");
@@ -155,6 +242,7 @@ export const sendReminderMessage = async ({
     to: normalizedRecipient,
     message: messageWithFooter,
     partnerNumber: partnerNumber ?? null,
+    attachmentUrl: attachmentUrl ?? null,
     auto,
   };
 
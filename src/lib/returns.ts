@@ -0,0 +1,33 @@
+type TransactionLike = {
+  id?: string;
+  customer_id?: string | null;
+  type?: string | null;
+  quantity?: number | string | null;
+  balance?: number | string | null;
+  return_of?: string | null;
+};
+
+export const isReturnTransaction = (txn?: TransactionLike | null) => String(txn?.type || "").toLowerCase() === "return";
+
+// Only tea sales can be returned; payments, bounce charges and earlier returns cannot
+export const isReturnableSale = (txn?: TransactionLike | null) =>
+  !["payment", "charge", "return"].includes(String(txn?.type || "").toLowerCase()) && Number(txn?.quantity || 0) > 0;
+
+export const formatCreditNoteNumber = (creditNoteNumber?: number | string | null) => {
+  if (creditNoteNumber == null || creditNoteNumber === "") return "—";
+  return `CN-${String(creditNoteNumber).padStart(5, "0")}`;
+};
+
+// Quantity of a sale the customer still holds after earlier returns
+export const getReturnableQuantity = (sale: TransactionLike, transactions?: TransactionLike[] | null) => {
+  const returned = (transactions || [])
+    .filter((txn) => isReturnTransaction(txn) && txn.return_of === sale.id)
+    .reduce((sum, txn) => sum + Math.abs(Number(txn.quantity || 0)), 0);
+  return Math.max(Number(sale.quantity || 0) - returned, 0);
+};
+
+// Unused credit note value for a customer; return rows keep it as a negative balance
+export const getAvailableCredit = (transactions: TransactionLike[] | null | undefined, customerId?: string | null) =>
+  (transactions || [])
+    .filter((txn) => isReturnTransaction(txn) && txn.customer_id === customerId)
+    .reduce((sum, txn) => sum + Math.max(-Number(txn.balance || 0), 0), 0);
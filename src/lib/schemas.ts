@@ -0,0 +1,269 @@
+import { z } from "zod";
+import type { Tables, Views } from "./database.types";
+
+// Row types for the tables and views the app reads, taken from the generated database types
+export type AppSetting = Tables<"app_settings">;
+export type Customer = Tables<"customers">;
+export type CreditOverride = Tables<"credit_overrides">;
+export type Transaction = Tables<"transactions">;
+export type Batch = Tables<"batches">;
+export type PriceRule = Tables<"price_rules">;
+export type Scheme = Tables<"schemes">;
+export type Supplier = Tables<"suppliers">;
+export type Purchase = Tables<"purchases">;
+export type SupplierPayment = Tables<"supplier_payments">;
+export type AnalyticsSummaryRow = Views<"analytics_summary">;
+export type BatchPnlRow = Views<"batch_pnl">;
+export type OrderSummaryRow = Views<"order_summary">;
+export type SupplierPayableRow = Views<"supplier_payables">;
+export type TeaAnalyticsRow = Views<"tea_analytics">;
+
+// PostgREST sends numeric columns as JSON numbers, but very large values arrive as strings
+const numeric = z.preprocess((value) => (typeof value === "string" && value.trim() !== "" ? Number(value) : value), z.number());
+
+const text = z.string();
+const uuid = z.string();
+const timestamp = z.string();
+const date = z.string();
+
+// Each schema lists exactly the columns of its generated row type with matching types, so a
+// column added, renamed or retyped in db/migrations and regenerated into database.types.ts fails
+// the type-check until the schema follows. At runtime the schemas reject rows that do not match,
+// instead of letting a missing field turn into a silent zero further down.
+// (zod marks every output key optional when strictNullChecks is off, hence the cast.)
+const rowSchema = <Row>(shape: { [K in keyof Row]-?: z.ZodType<Row[K], z.ZodTypeDef, unknown> }) =>
+  z.object(shape as z.ZodRawShape) as unknown as z.ZodType<Row, z.ZodTypeDef, unknown>;
+
+export const appSettingSchema = rowSchema<AppSetting>({
+  key: text,
+  value: text.nullable(),
+  updated_at: timestamp.nullable(),
+});
+
+export const customerSchema = rowSchema<Customer>({
+  id: uuid,
+  full_name: text.nullable(),
+  shop_name: text.nullable(),
+  address: text.nullable(),
+  contact: text.nullable(),
+  whatsapp_number: text.nullable(),
+  outstanding_balance: numeric.nullable(),
+  credit_limit: numeric.nullable(),
+  max_overdue_days: numeric.nullable(),
+  gstin: text.nullable(),
+  state_code: text.nullable(),
+  partner_id: uuid.nullable(),
+  archived_at: timestamp.nullable(),
+  created_at: timestamp.nullable(),
+});
+
+export const creditOverrideSchema = rowSchema<CreditOverride>({
+  id: uuid,
+  customer_id: uuid,
+  reason: text,
+  granted_by: uuid.nullable(),
+  granted_at: timestamp,
+  used_at: timestamp.nullable(),
+  order_id: uuid.nullable(),
+});
+
+export const transactionSchema = rowSchema<Transaction>({
+  id: uuid,
+  customer_id: uuid.nullable(),
+  order_id: uuid.nullable(),
+  batch_id: uuid.nullable(),
+  partner_id: uuid.nullable(),
+  client_id: uuid.nullable(),
+  type: text.nullable(),
+  status: text.nullable(),
+  tea_name: text.nullable(),
+  amount: numeric.nullable(),
+  quantity: numeric.nullable(),
+  rate: numeric.nullable(),
+  paid_amount: numeric.nullable(),
+  balance: numeric.nullable(),
+  due_date: date.nullable(),
+  payment_method: text.nullable(),
+  payment_reference: text.nullable(),
+  receipt_number: numeric.nullable(),
+  return_of: uuid.nullable(),
+  return_reason: text.nullable(),
+  credit_note_number: numeric.nullable(),
+  scheme_id: uuid.nullable(),
+  discount_amount: numeric,
+  free_quantity: numeric,
+  hsn_code: text.nullable(),
+  gst_rate: numeric,
+  taxable_value: numeric.nullable(),
+  cgst_amount: numeric,
+  sgst_amount: numeric,
+  igst_amount: numeric,
+  place_of_supply: text.nullable(),
+  created_at: timestamp.nullable(),
+});
+
+export const batchSchema = rowSchema<Batch>({
+  id: uuid,
+  name: text,
+  total_quantity: numeric,
+  remaining_quantity: numeric,
+  purchase_rate: numeric,
+  selling_rate: numeric.nullable(),
+  hsn_code: text.nullable(),
+  gst_rate: numeric,
+  archived_at: timestamp.nullable(),
+  created_at: timestamp.nullable(),
+});
+
+export const schemeSchema = rowSchema<Scheme>({
+  id: uuid,
+  name: text,
+  kind: text,
+  discount_percent: numeric.nullable(),
+  buy_quantity: numeric.nullable(),
+  free_quantity: numeric.nullable(),
+  tea_name: text.nullable(),
+  customer_id: uuid.nullable(),
+  min_quantity: numeric,
+  valid_from: date,
+  valid_to: date.nullable(),
+  active: z.boolean(),
+  created_at: timestamp,
+});
+
+export const priceRuleSchema = rowSchema<PriceRule>({
+  id: uuid,
+  tea_name: text,
+  customer_id: uuid.nullable(),
+  min_quantity: numeric,
+  rate: numeric,
+  created_at: timestamp,
+  updated_at: timestamp,
+});
+
+export const supplierSchema = rowSchema<Supplier>({
+  id: uuid,
+  name: text,
+  contact: text.nullable(),
+  gstin: text.nullable(),
+  address: text.nullable(),
+  archived_at: timestamp.nullable(),
+  created_at: timestamp,
+});
+
+export const purchaseSchema = rowSchema<Purchase>({
+  id: uuid,
+  supplier_id: uuid,
+  batch_id: uuid.nullable(),
+  invoice_number: text.nullable(),
+  invoice_date: date,
+  due_date: date.nullable(),
+  quantity: numeric,
+  rate: numeric,
+  freight: numeric,
+  other_costs: numeric,
+  invoice_amount: numeric,
+  total_cost: numeric,
+  landed_rate: numeric,
+  created_at: timestamp,
+});
+
+export const supplierPaymentSchema = rowSchema<SupplierPayment>({
+  id: uuid,
+  supplier_id: uuid,
+  purchase_id: uuid.nullable(),
+  amount: numeric,
+  payment_method: text,
+  payment_reference: text.nullable(),
+  paid_on: date,
+  created_at: timestamp,
+});
+
+export const analyticsSummarySchema = rowSchema<AnalyticsSummaryRow>({
+  total_sales: numeric.nullable(),
+  total_collections: numeric.nullable(),
+  outstanding: numeric.nullable(),
+  sales_count: numeric.nullable(),
+  payments_count: numeric.nullable(),
+  avg_sale_value: numeric.nullable(),
+  last_sale_at: timestamp.nullable(),
+  last_payment_at: timestamp.nullable(),
+  total_customers: numeric.nullable(),
+  transactions_count: numeric.nullable(),
+  total_pnl: numeric.nullable(),
+  today_collections: numeric.nullable(),
+  total_returns: numeric.nullable(),
+  returns_count: numeric.nullable(),
+});
+
+export const batchPnlSchema = rowSchema<BatchPnlRow>({
+  batch_id: uuid.nullable(),
+  batch_name: text.nullable(),
+  total_quantity: numeric.nullable(),
+  remaining_quantity: numeric.nullable(),
+  purchase_rate: numeric.nullable(),
+  sold_quantity: numeric.nullable(),
+  sold_revenue: numeric.nullable(),
+  purchase_cost_for_sold: numeric.nullable(),
+  pnl: numeric.nullable(),
+  returned_quantity: numeric.nullable(),
+  free_quantity: numeric.nullable(),
+});
+
+export const orderSummarySchema = rowSchema<OrderSummaryRow>({
+  order_id: uuid.nullable(),
+  invoice_number: numeric.nullable(),
+  customer_id: uuid.nullable(),
+  partner_id: uuid.nullable(),
+  due_date: date.nullable(),
+  created_at: timestamp.nullable(),
+  line_count: numeric.nullable(),
+  total_quantity: numeric.nullable(),
+  total_amount: numeric.nullable(),
+  paid_amount: numeric.nullable(),
+  balance: numeric.nullable(),
+  status: text.nullable(),
+});
+
+export const supplierPayableSchema = rowSchema<SupplierPayableRow>({
+  supplier_id: uuid.nullable(),
+  supplier_name: text.nullable(),
+  purchase_count: numeric.nullable(),
+  total_purchased: numeric.nullable(),
+  total_paid: numeric.nullable(),
+  outstanding: numeric.nullable(),
+  last_purchase_on: date.nullable(),
+  last_paid_on: date.nullable(),
+});
+
+export const teaAnalyticsSchema = rowSchema<TeaAnalyticsRow>({
+  tea_name: text.nullable(),
+  total_sold_quantity: numeric.nullable(),
+  total_sales_amount: numeric.nullable(),
+  total_paid_amount: numeric.nullable(),
+  outstanding_balance: numeric.nullable(),
+  avg_selling_rate: numeric.nullable(),
+  orders_count: numeric.nullable(),
+  first_sale_at: timestamp.nullable(),
+  last_sale_at: timestamp.nullable(),
+  returned_quantity: numeric.nullable(),
+});
+
+const describeIssue = (source: string, error: z.ZodError) => {
+  const issue = error.issues[0];
+  const path = issue?.path.length ? issue.path.join(".") : "row";
+  return `Unexpected ${source} data (${path}: ${issue?.message ?? "invalid"}). The database schema may not match this app version.`;
+};
+
+// Validates rows returned by Supabase; throws so the query shows an error instead of bad numbers
+export const parseRows = <T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, rows: unknown, source: string): T[] => {
+  const result = z.array(schema).safeParse(rows ?? []);
+  if (!result.success) throw new Error(describeIssue(source, result.error));
+  return result.data;
+};
+
+export const parseRow = <T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, row: unknown, source: string): T => {
+  const result = schema.safeParse(row);
+  if (!result.success) throw new Error(describeIssue(source, result.error));
+  return result.data;
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { describeScheme, findEligibleSchemes, getSchemeBenefit, isSchemeEligible, pickBestScheme } from "./schemes";
+import { makeScheme } from "@/test/fixtures";
+
+const festival = makeScheme({ id: "festival", kind: "discount", discount_percent: 5 });
+const buyTen = makeScheme({ id: "buy-ten", kind: "free_quantity", buy_quantity: 10, free_quantity: 1, tea_name: "Assam Gold" });
+const asha = makeScheme({ id: "asha", kind: "discount", discount_percent: 10, customer_id: "cust-asha", min_quantity: 20 });
+
+const diwali = new Date(2024, 9, 31, 18, 0);
+const line = { customerId: "cust-corner", teaName: " assam gold", quantity: 25, rate: 140 };
+
+describe("isSchemeEligible", () => {
+  it("checks validity dates, tea, customer and minimum quantity", () => {
+    expect(isSchemeEligible(buyTen, line, diwali)).toBe(true);
+    expect(isSchemeEligible(buyTen, line, new Date(2024, 10, 16))).toBe(false);
+    expect(isSchemeEligible(buyTen, line, new Date(2024, 8, 30))).toBe(false);
+    expect(isSchemeEligible(buyTen, { ...line, teaName: "Darjeeling" }, diwali)).toBe(false);
+    expect(isSchemeEligible(buyTen, { ...line, quantity: 9.5 }, diwali)).toBe(false);
+    expect(isSchemeEligible(asha, line, diwali)).toBe(false);
+    expect(isSchemeEligible(asha, { ...line, customerId: "cust-asha" }, diwali)).toBe(true);
+    expect(isSchemeEligible({ ...festival, active: false }, line, diwali)).toBe(false);
+  });
+
+  it("keeps schemes without an end date running", () => {
+    expect(isSchemeEligible({ ...festival, valid_to: null }, line, new Date(2030, 0, 1))).toBe(true);
+  });
+});
+
+describe("getSchemeBenefit", () => {
+  it("rounds discounts to paise and gives free tea per whole lot bought", () => {
+    expect(getSchemeBenefit(festival, 3.3, 133)).toEqual({ discountAmount: 21.95, freeQuantity: 0 });
+    expect(getSchemeBenefit(buyTen, 25, 140)).toEqual({ discountAmount: 0, freeQuantity: 2 });
+    expect(getSchemeBenefit(buyTen, 9, 140)).toEqual({ discountAmount: 0, freeQuantity: 0 });
+  });
+});
+
+describe("pickBestScheme", () => {
+  it("picks the offer worth most at the line rate", () => {
+    // 5% of ₹3,500 is ₹175; 2 kg free at ₹140 is worth ₹280
+    expect(pickBestScheme([festival, buyTen, asha], line, diwali)?.id).toBe("buy-ten");
+    // 10% of ₹3,500 beats both for Asha
+    expect(pickBestScheme([festival, buyTen, asha], { ...line, customerId: "cust-asha" }, diwali)?.id).toBe("asha");
+    expect(pickBestScheme([buyTen], { ...line, teaName: "Nilgiri" }, diwali)).toBeNull();
+  });
+
+  it("lists every scheme the line qualifies for", () => {
+    expect(findEligibleSchemes([festival, buyTen, asha], line, diwali).map((scheme) => scheme.id)).toEqual([
+      "festival",
+      "buy-ten",
+    ]);
+    expect(findEligibleSchemes(undefined, line, diwali)).toEqual([]);
+  });
+});
+
+describe("describeScheme", () => {
+  it("summarises the offer", () => {
+    expect(describeScheme(festival)).toBe("5% off");
+    expect(describeScheme(buyTen)).toBe("Buy 10 kg, get 1 kg free");
+  });
+});
@@ -0,0 +1,64 @@
+import { normaliseTeaName } from "./pricing";
+import type { Scheme } from "./schemas";
+
+export type SchemeKind = "discount" | "free_quantity";
+
+export type SchemeBenefit = {
+  discountAmount: number;
+  freeQuantity: number;
+};
+
+export type SchemeLine = {
+  customerId: string | null | undefined;
+  teaName: string | null | undefined;
+  quantity: number;
+  rate: number;
+};
+
+const toLocalDateValue = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// Smallest line a scheme applies to; a free-quantity scheme needs at least one "buy" lot
+export const getSchemeMinimum = (scheme: Scheme) =>
+  Math.max(Number(scheme.min_quantity || 0), scheme.kind === "free_quantity" ? Number(scheme.buy_quantity || 0) : 0);
+
+// The same checks scheme_benefit makes on the server (db/migrations/0015_schemes.sql)
+export const isSchemeEligible = (scheme: Scheme, line: SchemeLine, on: Date = new Date()) => {
+  const day = toLocalDateValue(on);
+  if (!scheme.active || day < scheme.valid_from || (scheme.valid_to && day > scheme.valid_to)) return false;
+  if (scheme.tea_name && normaliseTeaName(scheme.tea_name) !== normaliseTeaName(line.teaName)) return false;
+  if (scheme.customer_id && scheme.customer_id !== line.customerId) return false;
+  return Number.isFinite(line.quantity) && line.quantity > 0 && line.quantity >= getSchemeMinimum(scheme);
+};
+
+export const getSchemeBenefit = (scheme: Scheme, quantity: number, rate: number): SchemeBenefit => {
+  if (scheme.kind === "discount") {
+    const lineValue = roundMoney(quantity * rate);
+    return { discountAmount: roundMoney((lineValue * Number(scheme.discount_percent || 0)) / 100), freeQuantity: 0 };
+  }
+  const lots = Math.floor(quantity / Number(scheme.buy_quantity || Infinity));
+  return { discountAmount: 0, freeQuantity: lots * Number(scheme.free_quantity || 0) };
+};
+
+export const findEligibleSchemes = (schemes: Scheme[] | null | undefined, line: SchemeLine, on: Date = new Date()) =>
+  (schemes || []).filter((scheme) => isSchemeEligible(scheme, line, on));
+
+// The scheme worth most to the customer on this line, valuing free tea at the line rate
+export const pickBestScheme = (schemes: Scheme[] | null | undefined, line: SchemeLine, on: Date = new Date()) => {
+  const value = (scheme: Scheme) => {
+    const benefit = getSchemeBenefit(scheme, line.quantity, line.rate);
+    return benefit.discountAmount + benefit.freeQuantity * (Number.isFinite(line.rate) ? line.rate : 0);
+  };
+  return (
+    findEligibleSchemes(schemes, line, on)
+      .filter((scheme) => value(scheme) > 0)
+      .sort((a, b) => value(b) - value(a))[0] ?? null
+  );
+};
+
+export const describeScheme = (scheme: Pick<Scheme, "kind" | "discount_percent" | "buy_quantity" | "free_quantity">) =>
+  scheme.kind === "discount"
+    ? `${Number(scheme.discount_percent)}% off`
+    : `Buy ${Number(scheme.buy_quantity)} kg, get ${Number(scheme.free_quantity)} kg free`;
@@ -0,0 +1,138 @@
+import supabase from "./supabase";
+import { loadPdfTools, PDF_HEAD_STYLES, uploadSharedPdf } from "./pdf";
+import { sendReminderMessage } from "./reminders";
+import { fetchPartnerContactNumber } from "./reminder-actions";
+import {
+  buildStatement,
+  composeStatementMessage,
+  formatStatementPeriod,
+  statementFilename,
+  type StatementDocument,
+  type StatementRange,
+} from "./statement";
+import { customerSchema, parseRow, parseRows, transactionSchema } from "./schemas";
+import { formatReadableDate, getPartnerContactNumber, normalizePhoneNumber } from "./utils";
+
+// Loads the customer and their whole history; earlier transactions make up the opening balance
+export const fetchStatement = async (customerId: string, range: StatementRange): Promise<StatementDocument> => {
+  const { data: customer, error: customerErr } = await supabase.from("customers").select("*").eq("id", customerId).single();
+  if (customerErr) throw customerErr;
+  if (!customer) throw new Error("Customer not found");
+
+  let query = supabase.from("transactions").select("*").eq("customer_id", customerId).order("created_at", { ascending: true });
+  if (range.to) query = query.lte("created_at", new Date(`${range.to}T23:59:59.999`).toISOString());
+  const { data: transactions, error } = await query;
+  if (error) throw error;
+
+  return buildStatement(
+    parseRow(customerSchema, customer, "customer"),
+    parseRows(transactionSchema, transactions, "transactions"),
+    range,
+  );
+};
+
+// jsPDF's built-in fonts have no rupee glyph, so amounts on the PDF use "Rs."
+const amountFormatter = new Intl.NumberFormat("en-IN", {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+});
+
+// A negative balance is money held for the customer, shown as a credit ("Cr")
+const formatBalance = (value: number) =>
+  value < 0 ? `${amountFormatter.format(-value)} Cr` : amountFormatter.format(value);
+
+export const buildStatementPdf = async (statement: StatementDocument) => {
+  const { jsPDFConstructor, autoTableFn } = await loadPdfTools();
+  const doc = new jsPDFConstructor({ orientation: "portrait" });
+  const rightEdge = doc.internal.pageSize.getWidth() - 14;
+
+  doc.setFontSize(20);
+  doc.text("Kadak Chah", 14, 22);
+  doc.setFontSize(10);
+  doc.text("Kadak Chah Private Limited", 14, 28);
+
+  doc.setFontSize(16);
+  doc.text("STATEMENT OF ACCOUNT", rightEdge, 22, { align: "right" });
+  doc.setFontSize(10);
+  doc.text(`Period: ${formatStatementPeriod(statement.range)}`, rightEdge, 28, { align: "right" });
+  doc.text(`Generated: ${formatReadableDate(statement.generatedAt)}`, rightEdge, 33, { align: "right" });
+
+  doc.setFontSize(11);
+  doc.text("Customer", 14, 46);
+  doc.setFontSize(10);
+  const customerLines = [
+    statement.customer.name,
+    statement.customer.shopName && statement.customer.shopName !== statement.customer.name ? statement.customer.shopName : null,
+    statement.customer.address,
+    statement.customer.contact ? `Phone: ${statement.customer.contact}` : null,
+  ].filter(Boolean) as string[];
+  customerLines.forEach((line, index) => doc.text(line, 14, 52 + index * 5));
+
+  autoTableFn(doc, {
+    startY: 56 + customerLines.length * 5,
+    head: [["Date", "Particulars", "Qty (kg)", "Debit (Rs.)", "Credit (Rs.)", "Balance (Rs.)"]],
+    body: [
+      [statement.range.from ? formatReadableDate(statement.range.from) : "", "Opening balance", "", "", "", formatBalance(statement.openingBalance)],
+      ...statement.entries.map((entry) => [
+        formatReadableDate(entry.date),
+        entry.particulars,
+        entry.quantity != null ? entry.quantity.toFixed(2) : "",
+        entry.debit ? amountFormatter.format(entry.debit) : "",
+        entry.credit ? amountFormatter.format(entry.credit) : "",
+        formatBalance(entry.balance),
+      ]),
+    ],
+    foot: [[
+      "",
+      "Closing balance",
+      "",
+      amountFormatter.format(statement.totalDebit),
+      amountFormatter.format(statement.totalCredit),
+      formatBalance(statement.closingBalance),
+    ]],
+    styles: { fontSize: 9, cellPadding: 2 },
+    headStyles: PDF_HEAD_STYLES,
+    footStyles: PDF_HEAD_STYLES,
+    columnStyles: { 2: { halign: "right" }, 3: { halign: "right" }, 4: { halign: "right" }, 5: { halign: "right" } },
+  });
+
+  const cursorY = ((doc as any).lastAutoTable?.finalY ?? 80) + 10;
+  doc.setFontSize(9);
+  doc.text(
+    statement.closingBalance > 0
+      ? `Amount due: Rs. ${amountFormatter.format(statement.closingBalance)}. Kindly clear the balance at the earliest.`
+      : statement.closingBalance < 0
+      ? `Credit available: Rs. ${amountFormatter.format(-statement.closingBalance)}. It will be adjusted against your next purchase.`
+      : "Your account is fully settled. Thank you for your business!",
+    14,
+    cursorY,
+  );
+
+  return doc;
+};
+
+export const downloadStatementPdf = async (statement: StatementDocument) => {
+  const doc = await buildStatementPdf(statement);
+  doc.save(statementFilename(statement), { returnPromise: false });
+};
+
+// Sends the statement summary to the customer's WhatsApp; with `attachLink` the PDF is uploaded
+// and its signed link is added to the message.
+export const shareStatementOnWhatsApp = async (statement: StatementDocument, { attachLink = true } = {}) => {
+  const partnerNumber = normalizePhoneNumber(
+    (await fetchPartnerContactNumber(statement.customer.partnerId)) ?? getPartnerContactNumber() ?? undefined,
+  );
+  const attachmentUrl = attachLink
+    ? await uploadSharedPdf(
+        await buildStatementPdf(statement),
+        `statements/${statement.customerId}/${statementFilename(statement)}`,
+      )
+    : null;
+  return sendReminderMessage({
+    toNumber: statement.customer.whatsappNumber,
+    message: composeStatementMessage(statement, partnerNumber),
+    partnerNumber,
+    attachmentUrl,
+    attachmentLabel: "Statement PDF",
+  });
+};
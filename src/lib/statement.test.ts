@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { buildStatement, composeStatementMessage, getDefaultStatementRange, getLedgerAmounts } from "./statement";
+import { customers, fullDataset, fullyPaidSale, makeTransaction, partialPayment, partialSale } from "@/test/fixtures";
+
+const [asha] = customers;
+
+describe("getLedgerAmounts", () => {
+  it("debits a sale and credits what was paid at the counter", () => {
+    expect(getLedgerAmounts(partialSale)).toEqual({ debit: 3300, credit: 300 });
+  });
+
+  it("credits payments and returns by their absolute amount", () => {
+    expect(getLedgerAmounts(partialPayment)).toEqual({ debit: 0, credit: 1000 });
+    expect(getLedgerAmounts({ type: "return", amount: -220, paid_amount: 0 })).toEqual({ debit: 0, credit: 220 });
+  });
+});
+
+describe("buildStatement", () => {
+  it("lists every transaction in date order with the running balance", () => {
+    const statement = buildStatement(asha, fullDataset, { from: null, to: null }, "2024-04-01T00:00:00Z");
+
+    expect(statement.openingBalance).toBe(0);
+    expect(statement.entries.map((entry) => [entry.id, entry.debit, entry.credit, entry.balance])).toEqual([
+      ["sale-full", 1100, 1100, 0],
+      ["sale-partial", 3300, 300, 3000],
+      ["payment-partial", 0, 1000, 2000],
+    ]);
+    expect(statement.entries[2].particulars).toBe("Payment received (Cash)");
+    expect(statement.entries[2].quantity).toBeNull();
+    expect(statement).toMatchObject({ totalDebit: 4400, totalCredit: 2400, closingBalance: 2000 });
+  });
+
+  it("carries earlier transactions into the opening balance", () => {
+    const statement = buildStatement(asha, fullDataset, { from: "2024-03-06", to: null });
+
+    expect(statement.openingBalance).toBe(3000);
+    expect(statement.entries.map((entry) => entry.id)).toEqual(["payment-partial"]);
+    expect(statement).toMatchObject({ totalDebit: 0, totalCredit: 1000, closingBalance: 2000 });
+  });
+
+  it("stops at the end of the range", () => {
+    const statement = buildStatement(asha, fullDataset, { from: "2024-03-01", to: "2024-03-05" });
+
+    expect(statement.entries.map((entry) => entry.id)).toEqual(["sale-full", "sale-partial"]);
+    expect(statement.closingBalance).toBe(3000);
+  });
+
+  it("skips other customers and rows that no longer move money", () => {
+    const statement = buildStatement(
+      asha,
+      [
+        fullyPaidSale,
+        makeTransaction({ id: "other", customer_id: "cust-corner", amount: 900, created_at: "2024-03-02T10:00:00Z" }),
+        makeTransaction({ id: "bounced", customer_id: "cust-asha", type: "payment", amount: 0, created_at: "2024-03-03T10:00:00Z" }),
+      ],
+      { from: null, to: null },
+    );
+
+    expect(statement.entries.map((entry) => entry.id)).toEqual(["sale-full"]);
+  });
+
+  it("shows credit held for the customer as a negative balance", () => {
+    const statement = buildStatement(
+      asha,
+      [makeTransaction({ id: "advance", customer_id: "cust-asha", type: "payment", amount: 500, created_at: "2024-03-02T10:00:00Z" })],
+      { from: null, to: null },
+    );
+
+    expect(statement.closingBalance).toBe(-500);
+    expect(composeStatementMessage(statement)).toContain("  • Closing balance: ₹500.00 (credit)");
+  });
+});
+
+describe("getDefaultStatementRange", () => {
+  it("starts on 1 April of the current financial year", () => {
+    expect(getDefaultStatementRange(new Date(2024, 6, 15))).toEqual({ from: "2024-04-01", to: "2024-07-15" });
+    expect(getDefaultStatementRange(new Date(2025, 1, 3))).toEqual({ from: "2024-04-01", to: "2025-02-03" });
+  });
+});
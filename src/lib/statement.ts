@@ -0,0 +1,177 @@
+import { formatReceiptNumber } from "./document-numbers";
+import { formatCreditNoteNumber } from "./returns";
+import { getPaymentMethodOption } from "./payment-methods";
+import type { Customer, Transaction } from "./schemas";
+import { formatPhoneForDisplay, formatReadableDate } from "./utils";
+
+type LedgerTransaction = Pick<Transaction, "type" | "amount" | "paid_amount">;
+
+// What a transaction adds to and takes off a customer's account. A sale debits its amount and
+// credits whatever was paid at the counter; payments and returns (stored negative) only credit.
+// The running sum of debit - credit is what the customer owes.
+export const getLedgerAmounts = (txn: LedgerTransaction) => {
+  const type = String(txn?.type || "").toLowerCase();
+  const amount = Number(txn?.amount ?? 0);
+  const paidAmount = Number(txn?.paid_amount ?? 0);
+  if (type === "payment" || type === "return") {
+    return { debit: 0, credit: Math.abs(amount || paidAmount) };
+  }
+  return { debit: amount, credit: Math.max(paidAmount, 0) };
+};
+
+// yyyy-mm-dd dates, both inclusive; a missing bound leaves that side open
+export type StatementRange = {
+  from: string | null;
+  to: string | null;
+};
+
+export type StatementEntry = {
+  id: string;
+  date: string | null;
+  type: string;
+  particulars: string;
+  quantity: number | null;
+  debit: number;
+  credit: number;
+  balance: number;
+};
+
+export type StatementDocument = {
+  customerId: string;
+  customer: {
+    name: string;
+    shopName: string | null;
+    address: string | null;
+    contact: string | null;
+    whatsappNumber: string | null;
+    partnerId: string | null;
+  };
+  range: StatementRange;
+  generatedAt: string;
+  openingBalance: number;
+  entries: StatementEntry[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+};
+
+const toLocalDateValue = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+// Statements default to the current financial year, which in India starts on 1 April
+export const getDefaultStatementRange = (today = new Date()): StatementRange => {
+  const startYear = today.getMonth() >= 3 ? today.getFullYear() : today.getFullYear() - 1;
+  return { from: `${startYear}-04-01`, to: toLocalDateValue(today) };
+};
+
+const describeEntry = (txn: Transaction) => {
+  const type = String(txn.type || "").toLowerCase();
+  if (type === "payment") {
+    const method = getPaymentMethodOption(txn.payment_method)?.label;
+    const receipt = txn.receipt_number != null ? ` ${formatReceiptNumber(txn.receipt_number)}` : "";
+    return `Payment received${receipt}${method ? ` (${method})` : ""}`;
+  }
+  if (type === "return") {
+    return `Return of ${txn.tea_name || "tea"}, credit note ${formatCreditNoteNumber(txn.credit_note_number)}`;
+  }
+  if (type === "charge") {
+    return "Bounced cheque charge";
+  }
+  return `Sale of ${txn.tea_name || "tea"}`;
+};
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Opening balance from everything before the range, then each sale, payment, return and charge
+// in the range with the balance after it. Rows that no longer move money (zeroed by a reset or a
+// bounced cheque) are left out.
+export const buildStatement = (
+  customer: Customer,
+  transactions: Transaction[] | null | undefined,
+  range: StatementRange,
+  generatedAt = new Date().toISOString(),
+): StatementDocument => {
+  const start = range.from ? new Date(`${range.from}T00:00:00`).getTime() : -Infinity;
+  const end = range.to ? new Date(`${range.to}T23:59:59.999`).getTime() : Infinity;
+
+  const rows = (transactions || [])
+    .filter((txn) => txn?.customer_id === customer.id)
+    .map((txn) => ({ txn, time: txn.created_at ? new Date(txn.created_at).getTime() : 0, ...getLedgerAmounts(txn) }))
+    .filter((row) => row.debit !== 0 || row.credit !== 0)
+    .sort((a, b) => a.time - b.time);
+
+  let openingBalance = 0;
+  let balance = 0;
+  let totalDebit = 0;
+  let totalCredit = 0;
+  const entries: StatementEntry[] = [];
+
+  rows.forEach(({ txn, time, debit, credit }) => {
+    if (time > end) return;
+    if (time < start) {
+      openingBalance += debit - credit;
+      balance = openingBalance;
+      return;
+    }
+    const type = String(txn.type || "sale").toLowerCase();
+    balance += debit - credit;
+    totalDebit += debit;
+    totalCredit += credit;
+    entries.push({
+      id: txn.id,
+      date: txn.created_at,
+      type,
+      particulars: describeEntry(txn),
+      quantity: type === "payment" ? null : Number(txn.quantity ?? 0) || null,
+      debit,
+      credit,
+      balance: roundCurrency(balance),
+    });
+  });
+
+  return {
+    customerId: customer.id,
+    customer: {
+      name: customer.full_name || customer.shop_name || "Customer",
+      shopName: customer.shop_name || null,
+      address: customer.address || null,
+      contact: customer.contact || null,
+      whatsappNumber: customer.whatsapp_number || customer.contact || null,
+      partnerId: customer.partner_id ?? null,
+    },
+    range,
+    generatedAt,
+    openingBalance: roundCurrency(openingBalance),
+    entries,
+    totalDebit: roundCurrency(totalDebit),
+    totalCredit: roundCurrency(totalCredit),
+    closingBalance: roundCurrency(balance),
+  };
+};
+
+export const formatStatementPeriod = (range: StatementRange) =>
+  `${range.from ? formatReadableDate(range.from) : "the first transaction"} to ${formatReadableDate(range.to ?? new Date().toISOString())}`;
+
+export const statementFilename = (statement: StatementDocument) => {
+  const name = statement.customer.name.replace(/[^A-Za-z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "customer";
+  return `statement_${name}_${statement.range.from ?? "start"}_${statement.range.to ?? "today"}.pdf`;
+};
+
+const formatMessageAmount = (value: number) => `₹${Math.abs(value).toFixed(2)}${value < 0 ? " (credit)" : ""}`;
+
+export const composeStatementMessage = (statement: StatementDocument, partnerNumber?: string | null) => {
+  const lines = [
+    `Dear ${statement.customer.name},`,
+    "",
+    `Here is your statement of account for ${formatStatementPeriod(statement.range)}.`,
+    "",
+    `  • Opening balance: ${formatMessageAmount(statement.openingBalance)}`,
+    `  • Purchases: ₹${statement.totalDebit.toFixed(2)}`,
+    `  • Payments and credits: ₹${statement.totalCredit.toFixed(2)}`,
+    `  • Closing balance: ${formatMessageAmount(statement.closingBalance)}`,
+  ];
+  if (partnerNumber) {
+    lines.push("", `☎ Partner support: ${formatPhoneForDisplay(partnerNumber) ?? partnerNumber}`);
+  }
+  return lines.join("\n");
+};
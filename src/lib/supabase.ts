@@ -1,12 +1,27 @@
 import { createClient } from "@supabase/supabase-js";
+import { getSessionToken } from "./utils";
+import type { Database } from "./database.types";
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL as string;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
 
+// Header read by current_app_role() in db/migrations to apply row-level security per session
+export const SESSION_HEADER = "x-session-token";
+
 if (!supabaseUrl || !supabaseAnonKey) {
   console.warn("VITE_SUPABASE_URL or VITE_SUPABASE_ANON_KEY is not set. Supabase client may not work as expected.");
 }
 
-export const supabase = createClient(supabaseUrl ?? "", supabaseAnonKey ?? "");
+export const supabase = createClient<Database>(supabaseUrl ?? "", supabaseAnonKey ?? "", {
+  global: {
+    fetch: (input, init) => {
+      const token = getSessionToken();
+      if (!token) return fetch(input, init);
+      const headers = new Headers(init?.headers);
+      headers.set(SESSION_HEADER, token);
+      return fetch(input, { ...init, headers });
+    },
+  },
+});
 
 export default supabase;
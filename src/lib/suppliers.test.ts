@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { buildSupplierAccount, getLandedCost } from "./suppliers";
+import { makePayment, makePurchase } from "@/test/fixtures";
+
+describe("getLandedCost", () => {
+  it("spreads freight and other costs over every kilogram", () => {
+    expect(getLandedCost({ quantity: 120, rate: 180, freight: 1500, otherCosts: 300 })).toEqual({
+      baseCost: 21600,
+      totalCost: 23400,
+      landedRate: 195,
+    });
+    expect(getLandedCost({ quantity: 3, rate: 100, freight: 10 }).landedRate).toBe(103.33);
+  });
+
+  it("has no landed rate without a quantity", () => {
+    expect(getLandedCost({ quantity: 0, rate: 180, freight: 500 })).toEqual({ baseCost: 0, totalCost: 500, landedRate: null });
+  });
+});
+
+describe("buildSupplierAccount", () => {
+  const september = makePurchase({ id: "purchase-sep", invoice_date: "2024-09-10", due_date: "2024-10-10", quantity: 50, rate: 200 });
+  const october = makePurchase({ id: "purchase-oct", invoice_date: "2024-10-05", due_date: "2024-11-04", quantity: 100, rate: 180, freight: 1000 });
+  const asOf = new Date(2024, 9, 25);
+
+  it("clears the oldest invoices first with payments made on account", () => {
+    const account = buildSupplierAccount([october, september], [makePayment({ id: "pay-1", amount: 14000 })], asOf);
+
+    expect(account.purchases.map(({ purchase, paid, outstanding }) => [purchase.id, paid, outstanding])).toEqual([
+      ["purchase-sep", 10000, 0],
+      ["purchase-oct", 4000, 14000],
+    ]);
+    expect(account).toMatchObject({ totalPurchased: 28000, totalPaid: 14000, outstanding: 14000, advance: 0 });
+  });
+
+  it("owes the supplier their invoice amount, without freight and other costs", () => {
+    const account = buildSupplierAccount([october], [], asOf);
+
+    expect(october.total_cost).toBe(19000);
+    expect(account.purchases[0].outstanding).toBe(18000);
+    expect(account.totalPurchased).toBe(18000);
+  });
+
+  it("applies a payment against an invoice to that invoice first", () => {
+    const account = buildSupplierAccount(
+      [september, october],
+      [makePayment({ id: "pay-oct", amount: 20000, purchase_id: "purchase-oct" })],
+      asOf,
+    );
+
+    expect(account.purchases.map(({ paid, outstanding }) => [paid, outstanding])).toEqual([
+      [2000, 8000],
+      [18000, 0],
+    ]);
+  });
+
+  it("counts days past the due date and carries overpayments as an advance", () => {
+    const account = buildSupplierAccount([september, october], [makePayment({ id: "pay-all", amount: 30000 })], asOf);
+
+    expect(account.purchases.map((entry) => entry.daysPastDue)).toEqual([15, -10]);
+    expect(account).toMatchObject({ outstanding: 0, advance: 2000 });
+    expect(buildSupplierAccount(undefined, undefined, asOf)).toEqual({
+      purchases: [],
+      totalPurchased: 0,
+      totalPaid: 0,
+      outstanding: 0,
+      advance: 0,
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { getDaysPastDue } from "./analytics-breakdown";
+import type { Purchase, SupplierPayment } from "./schemas";
+
+export type LandedCostInput = {
+  quantity: number;
+  rate: number;
+  freight?: number | null;
+  otherCosts?: number | null;
+};
+
+export type LandedCost = {
+  // Quantity times the supplier's rate: what is owed to the supplier
+  baseCost: number;
+  // What the batch cost once landed, freight and other costs included
+  totalCost: number;
+  landedRate: number | null;
+};
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// The same figures the purchases table generates (db/migrations/0017_suppliers.sql); the
+// landed rate becomes the batch's purchase rate
+export const getLandedCost = ({ quantity, rate, freight, otherCosts }: LandedCostInput): LandedCost => {
+  const baseCost = Number.isFinite(quantity) && Number.isFinite(rate) ? roundMoney(quantity * rate) : 0;
+  const totalCost = roundMoney(baseCost + (Number(freight) || 0) + (Number(otherCosts) || 0));
+  return { baseCost, totalCost, landedRate: quantity > 0 ? roundMoney(totalCost / quantity) : null };
+};
+
+export type OpenPurchase = {
+  purchase: Purchase;
+  paid: number;
+  outstanding: number;
+  // Negative while the invoice is not yet due; purchases without a due date are due on the invoice date
+  daysPastDue: number;
+};
+
+export type SupplierAccount = {
+  purchases: OpenPurchase[];
+  totalPurchased: number;
+  totalPaid: number;
+  outstanding: number;
+  // Paid beyond every invoice, carried forward to the next purchase
+  advance: number;
+};
+
+const byInvoiceDate = (a: Purchase, b: Purchase) =>
+  a.invoice_date.localeCompare(b.invoice_date) || a.created_at.localeCompare(b.created_at);
+
+// Settles a supplier's invoices with their payments. A payment made against an invoice goes to
+// that invoice first; the rest, and payments made on account, clear the oldest invoices first.
+// Only the invoice amount is owed to the supplier; freight and other costs are paid to others.
+export const buildSupplierAccount = (
+  purchases: Purchase[] | null | undefined,
+  payments: SupplierPayment[] | null | undefined,
+  asOf: Date = new Date(),
+): SupplierAccount => {
+  const open = [...(purchases || [])].sort(byInvoiceDate).map((purchase) => ({
+    purchase,
+    paid: 0,
+    outstanding: Number(purchase.invoice_amount || 0),
+    daysPastDue: getDaysPastDue({ dueDate: purchase.due_date, createdAt: purchase.invoice_date }, asOf),
+  }));
+  const byId = new Map(open.map((entry) => [entry.purchase.id, entry]));
+
+  const apply = (entry: OpenPurchase, amount: number) => {
+    const applied = Math.min(entry.outstanding, amount);
+    entry.paid = roundMoney(entry.paid + applied);
+    entry.outstanding = roundMoney(entry.outstanding - applied);
+    return roundMoney(amount - applied);
+  };
+
+  let onAccount = 0;
+  (payments || []).forEach((payment) => {
+    const amount = Number(payment.amount || 0);
+    const target = payment.purchase_id ? byId.get(payment.purchase_id) : undefined;
+    onAccount = roundMoney(onAccount + (target ? apply(target, amount) : amount));
+  });
+  open.forEach((entry) => {
+    if (onAccount > 0) onAccount = apply(entry, onAccount);
+  });
+
+  const totalPurchased = roundMoney(open.reduce((sum, entry) => sum + Number(entry.purchase.invoice_amount || 0), 0));
+  const totalPaid = roundMoney((payments || []).reduce((sum, payment) => sum + Number(payment.amount || 0), 0));
+  return {
+    purchases: open,
+    totalPurchased,
+    totalPaid,
+    outstanding: Math.max(roundMoney(totalPurchased - totalPaid), 0),
+    advance: onAccount,
+  };
+};
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { computeTransactionSummary, normalizePhoneNumber } from "./utils";
+import { fullDataset, makeTransaction, paymentsOnly, unknownCustomerRows } from "@/test/fixtures";
+
+describe("computeTransactionSummary", () => {
+  it("counts payments in full and sales by the amount paid up front", () => {
+    expect(computeTransactionSummary(fullDataset)).toEqual({
+      totals: { totalSales: 4400, totalCollections: 2400, outstanding: 2000 },
+      perCustomer: {
+        "cust-asha": { totalSales: 4400, totalCollections: 2400, outstanding: 2000, transactions: 3 },
+      },
+    });
+  });
+
+  it("never reports negative outstanding for a customer in credit", () => {
+    expect(computeTransactionSummary(paymentsOnly)).toEqual({
+      totals: { totalSales: 0, totalCollections: 750, outstanding: 0 },
+      perCustomer: {
+        "cust-corner": { totalSales: 0, totalCollections: 750, outstanding: 0, transactions: 2 },
+      },
+    });
+  });
+
+  it("nets credit against other customers' balances in the totals only", () => {
+    const { totals, perCustomer } = computeTransactionSummary([
+      makeTransaction({ id: "a", customer_id: "cust-a", amount: 500, balance: 500 }),
+      makeTransaction({ id: "b", customer_id: "cust-b", type: "payment", amount: 200, balance: -200 }),
+    ]);
+
+    expect(totals.outstanding).toBe(300);
+    expect(perCustomer["cust-a"].outstanding).toBe(500);
+    expect(perCustomer["cust-b"].outstanding).toBe(0);
+  });
+
+  it("groups rows without a customer under __unknown", () => {
+    const { perCustomer } = computeTransactionSummary(unknownCustomerRows);
+    expect(perCustomer.__unknown).toEqual({ totalSales: 400, totalCollections: 400, outstanding: 0, transactions: 1 });
+    expect(perCustomer["cust-deleted"].outstanding).toBe(800);
+  });
+
+  it("counts a bounced cheque's charge as owed but not as a sale", () => {
+    // After bounce_cheque: the sale owes again, the cheque payment is zeroed and the charge is due
+    const { totals, perCustomer } = computeTransactionSummary([
+      makeTransaction({ id: "sale", customer_id: "cust-a", amount: 1000, balance: 1000, status: "partial" }),
+      makeTransaction({ id: "cheque", customer_id: "cust-a", type: "payment", amount: 0, status: "bounced" }),
+      makeTransaction({ id: "charge", customer_id: "cust-a", type: "charge", amount: 250, balance: 250, status: "due" }),
+    ]);
+    expect(totals).toEqual({ totalSales: 1000, totalCollections: 0, outstanding: 1250 });
+    expect(perCustomer["cust-a"]).toEqual({ totalSales: 1000, totalCollections: 0, outstanding: 1250, transactions: 3 });
+  });
+
+  it("matches payment types case-insensitively", () => {
+    const { totals } = computeTransactionSummary([
+      makeTransaction({ id: "p", type: "PAYMENT", amount: 120, paid_amount: 0 }),
+    ]);
+    expect(totals).toEqual({ totalSales: 0, totalCollections: 120, outstanding: 0 });
+  });
+
+  it("ignores missing rows and non-numeric amounts", () => {
+    const rows = [null, { id: "x", customer_id: "cust-a", type: "sale", amount: "n/a", paid_amount: null, balance: undefined }];
+    expect(computeTransactionSummary(rows)).toEqual({
+      totals: { totalSales: 0, totalCollections: 0, outstanding: 0 },
+      perCustomer: {
+        "cust-a": { totalSales: 0, totalCollections: 0, outstanding: 0, transactions: 1 },
+      },
+    });
+  });
+
+  it("returns zero totals without data", () => {
+    expect(computeTransactionSummary(undefined)).toEqual({
+      totals: { totalSales: 0, totalCollections: 0, outstanding: 0 },
+      perCustomer: {},
+    });
+  });
+});
+
+describe("normalizePhoneNumber", () => {
+  it("adds the Indian country code to ten-digit numbers", () => {
+    expect(normalizePhoneNumber("98765 43210")).toBe("919876543210");
+    expect(normalizePhoneNumber("98765-43210")).toBe("919876543210");
+  });
+
+  it("drops a leading trunk zero before adding the country code", () => {
+    expect(normalizePhoneNumber("09876543210")).toBe("919876543210");
+  });
+
+  it("keeps numbers that already carry a country code", () => {
+    expect(normalizePhoneNumber("+91 98765 43210")).toBe("919876543210");
+    expect(normalizePhoneNumber("+49 151 12345678")).toBe("4915112345678");
+  });
+
+  it("accepts numbers between 8 and 15 digits", () => {
+    expect(normalizePhoneNumber("12345678")).toBe("12345678");
+    expect(normalizePhoneNumber("123456789012345")).toBe("123456789012345");
+  });
+
+  it("rejects numbers that are too short or too long", () => {
+    expect(normalizePhoneNumber("1234567")).toBeNull();
+    expect(normalizePhoneNumber("1234567890123456")).toBeNull();
+    expect(normalizePhoneNumber("0000")).toBeNull();
+  });
+
+  it("rejects empty values and text without digits", () => {
+    expect(normalizePhoneNumber(undefined)).toBeNull();
+    expect(normalizePhoneNumber(null)).toBeNull();
+    expect(normalizePhoneNumber("")).toBeNull();
+    expect(normalizePhoneNumber("   ")).toBeNull();
+    expect(normalizePhoneNumber("call me")).toBeNull();
+  });
+});
@@ -9,6 +9,9 @@ export type SessionUser = {
   id: string;
   role: string;
   email?: string | null;
+  token?: string | null;
+  expiresAt?: string | null;
+  mustChangePassword?: boolean;
 };
 
 export const getStoredUser = (): SessionUser | null => {
@@ -36,6 +39,19 @@ export const clearStoredUser = () => {
   window.localStorage.removeItem("user");
 };
 
+export const getSessionToken = (): string | null => {
+  const stored = getStoredUser();
+  if (!stored?.token) return null;
+  if (stored.expiresAt && new Date(stored.expiresAt).getTime() <= Date.now()) return null;
+  return stored.token;
+};
+
+// Partner whose customer book the current session works on; admins see every partner's data
+export const getCurrentPartnerId = (): string | null => {
+  const stored = getStoredUser();
+  return stored?.role === "partner" ? stored.id : null;
+};
+
 const PARTNER_CONTACT_KEY = "partner-contact-number";
 const DEFAULT_COUNTRY_CODE = "91";
 
@@ -146,6 +162,8 @@ export const computeTransactionSummary = (transactions?: any[] | null): Transact
     if (type === "payment") {
       entry.totalCollections += amount;
       totalCollections += amount;
+    } else if (type === "charge") {
+      // Bounce charges are owed by the customer but were never sold, so they only add to outstanding
     } else {
       entry.totalSales += amount;
       entry.totalCollections += paidAmount;
@@ -3,7 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Leaf, Users, TrendingUp, AlertCircle, LogOut, Database, IndianRupee } from "lucide-react";
+import { Leaf, Users, TrendingUp, AlertCircle, LogOut, Database, IndianRupee, Undo2, CalendarClock } from "lucide-react";
 import { Navigate, useNavigate } from "react-router-dom";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
@@ -13,22 +13,38 @@ import AllCustomers from "@/components/admin/AllCustomers";
 import AllTransactions from "@/components/admin/AllTransactions";
 import SystemAnalytics from "@/components/admin/SystemAnalytics";
 import TeaAnalytics from "@/components/admin/TeaAnalytics";
+import PartnerComparison from "@/components/admin/PartnerComparison";
+import UserManagement from "@/components/admin/UserManagement";
+import ActivityLog from "@/components/admin/ActivityLog";
+import ArchiveManager from "@/components/admin/ArchiveManager";
+import SchemeManager from "@/components/admin/SchemeManager";
+import GstSettings from "@/components/admin/GstSettings";
 import BatchList from "@/components/common/BatchList";
 import ManageBatches from "@/components/common/ManageBatches";
+import PriceList from "@/components/common/PriceList";
+import Suppliers from "@/components/common/Suppliers";
+import AgeingReportDialog from "@/components/common/AgeingReportDialog";
 import {
   useAnalytics,
   useBatchPnl,
   useCustomers,
+  useLastReset,
   usePartnerContactSetting,
   useResetAll,
   useResetToday,
   useSavePartnerContactSetting,
   useTransactions,
+  useUndoLastReset,
 } from "@/lib/hooks";
 import { useToast } from "@/hooks/use-toast";
-import { buildCollectionBreakdown, buildOutstandingBreakdown, buildPnlBreakdown } from "@/lib/analytics-breakdown";
+import { getPaymentMethodLabel } from "@/lib/payment-methods";
+import {
+  buildAgeingReport,
+  buildCollectionBreakdown,
+  buildOutstandingBreakdown,
+  buildPnlBreakdown,
+} from "@/lib/analytics-breakdown";
 import {
-  clearStoredUser,
   computeTransactionSummary,
   formatPhoneForDisplay,
   formatReadableDate,
@@ -38,6 +54,7 @@ import {
   setPartnerContactNumber,
 } from "@/lib/utils";
 import { sendReminderForCustomer } from "@/lib/reminder-actions";
+import { signOut } from "@/lib/auth";
 
 const AdminDashboard = () => {
   const navigate = useNavigate();
@@ -57,7 +74,7 @@ const AdminDashboard = () => {
   const { data: customers } = useCustomers();
   const { data: batchPnl, isLoading: batchPnlLoading } = useBatchPnl();
 
-  const [activeModal, setActiveModal] = useState<"collections" | "outstanding" | "pnl" | null>(null);
+  const [activeModal, setActiveModal] = useState<"collections" | "outstanding" | "ageing" | "pnl" | null>(null);
   const [reminderSendingId, setReminderSendingId] = useState<string | null>(null);
 
   const { details: collectionDetails, summary: collectionSummary } = useMemo(
@@ -70,6 +87,8 @@ const AdminDashboard = () => {
     [transactionSummary, transactions, customers],
   );
 
+  const ageingReport = useMemo(() => buildAgeingReport(transactions, customers), [transactions, customers]);
+
   const pnlBreakdown = useMemo(() => buildPnlBreakdown(batchPnl, transactions), [batchPnl, transactions]);
   const averageProfitPerKg = useMemo(() => {
     if (!pnlBreakdown.rows.length || pnlBreakdown.totals.soldQuantity === 0) {
@@ -104,13 +123,28 @@ const AdminDashboard = () => {
     }
   }, [partnerContactFromDb]);
 
-  const handleLogout = () => {
-    clearStoredUser();
+  const handleLogout = async () => {
+    await signOut();
     navigate("/admin/login", { replace: true });
   };
 
   const resetMutation = useResetToday();
   const resetAllMutation = useResetAll();
+  const { data: lastReset } = useLastReset();
+  const undoResetMutation = useUndoLastReset();
+  const canUndoReset = !!lastReset && !lastReset.undone_at && new Date(lastReset.undo_until).getTime() > Date.now();
+
+  const handleUndoReset = async () => {
+    if (!lastReset) return;
+    const label = lastReset.kind === "all" ? "All Reset" : "Reset Today";
+    if (!confirm(`Undo the ${label} from ${new Date(lastReset.created_at).toLocaleString()}? The values saved before that reset will be put back.`)) return;
+    try {
+      await undoResetMutation.mutateAsync();
+      toast({ title: 'Reset undone', description: `${label} was reverted.` });
+    } catch (err: any) {
+      toast({ title: 'Error', description: err?.message || 'Failed to undo the reset', variant: 'destructive' });
+    }
+  };
   const { toast } = useToast();
 
   if (!sessionUser || sessionUser.role !== "admin") {
@@ -233,21 +267,8 @@ const AdminDashboard = () => {
                 return;
               }
               try {
-                const res: any = await resetAllMutation.mutateAsync();
-                // handle array/object responses
-                let txDel = 0, custDel = 0, custIns = 0, txIns = 0;
-                if (Array.isArray(res) && res.length > 0) {
-                  txDel = Number(res[0].tx_deleted || 0);
-                  custDel = Number(res[0].customers_deleted || 0);
-                  custIns = Number(res[0].customers_inserted || 0);
-                  txIns = Number(res[0].transactions_inserted || 0);
-                } else if (res && typeof res === 'object') {
-                  txDel = Number(res.tx_deleted || 0);
-                  custDel = Number(res.customers_deleted || 0);
-                  custIns = Number(res.customers_inserted || 0);
-                  txIns = Number(res.transactions_inserted || 0);
-                }
-                toast({ title: 'Reset All Done', description: `Deleted ${txDel} transactions, ${custDel} customers. Re-seeded ${custIns} customers and ${txIns} transactions.` });
+                const res = await resetAllMutation.mutateAsync();
+                toast({ title: 'Reset All Done', description: `Deleted ${res.tx_deleted} transactions, ${res.customers_deleted} customers. Re-seeded ${res.customers_inserted} customers and ${res.transactions_inserted} transactions. Undo is available until ${new Date(res.undo_until).toLocaleString()}.` });
               } catch (err: any) {
                 toast({ title: 'Error', description: err?.message || 'Failed to reset all' });
               }
@@ -261,7 +282,7 @@ const AdminDashboard = () => {
           <CardHeader>
             <CardTitle>Reminder Contact Placeholder</CardTitle>
             <p className="text-sm text-muted-foreground">
-              Set the WhatsApp number partners want customers to reach. This appears in reminder messages sent from the partner dashboard.
+              Set the default WhatsApp number customers can reach. Partners without their own number (set in the Partners tab) use this one in reminder messages.
             </p>
           </CardHeader>
           <CardContent>
@@ -309,7 +330,8 @@ const AdminDashboard = () => {
             </div>
           </CardContent>
         </Card>
-  <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-7 mb-8">
+        <GstSettings />
+  <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-4 mb-8">
           <Card>
             <CardHeader className="pb-3">
               <CardTitle className="text-sm font-medium text-muted-foreground flex items-center">
@@ -386,6 +408,33 @@ const AdminDashboard = () => {
             </CardContent>
           </Card>
 
+          <Card
+            role="button"
+            tabIndex={0}
+            onClick={() => setActiveModal("ageing")}
+            onKeyDown={(event) => {
+              if (event.key === "Enter" || event.key === " ") {
+                event.preventDefault();
+                setActiveModal("ageing");
+              }
+            }}
+            className={interactiveCardClass}
+          >
+            <CardHeader className="pb-3">
+              <CardTitle className="text-sm font-medium text-muted-foreground flex items-center">
+                <CalendarClock className="h-4 w-4 mr-2" />
+                Overdue 90+ Days
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${ageingReport.summary.buckets.over90 > 0 ? "text-destructive" : ""}`}>
+                ₹{ageingReport.summary.buckets.over90.toFixed(2)}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">Of ₹{ageingReport.summary.total.toFixed(2)} in open invoices</p>
+              <p className="text-xs text-primary mt-2">View ageing</p>
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader className="pb-3">
               <CardTitle className="text-sm font-medium text-muted-foreground flex items-center">
@@ -482,6 +531,16 @@ const AdminDashboard = () => {
                 </div>
               </div>
 
+              {collectionSummary.methodTotals.length > 0 && (
+                <div className="flex flex-wrap gap-2 text-xs">
+                  {collectionSummary.methodTotals.map((total) => (
+                    <span key={total.method ?? "unrecorded"} className="rounded-full border px-3 py-1">
+                      {total.label}: <span className="font-semibold">₹{total.amount.toFixed(2)}</span> ({total.count})
+                    </span>
+                  ))}
+                </div>
+              )}
+
               {collectionDetails.length > 0 ? (
                 <ScrollArea className="h-[60vh] pr-2">
                   <div className="space-y-4">
@@ -508,6 +567,7 @@ const AdminDashboard = () => {
                                 <TableHead>Quantity</TableHead>
                                 <TableHead className="text-right">Selling Price</TableHead>
                                 <TableHead className="text-right">Paid</TableHead>
+                                <TableHead>Method</TableHead>
                                 <TableHead className="text-right">Status</TableHead>
                               </TableRow>
                             </TableHeader>
@@ -529,6 +589,9 @@ const AdminDashboard = () => {
                                       : "—"}
                                   </TableCell>
                                   <TableCell className="text-right font-medium">₹{payment.amount.toFixed(2)}</TableCell>
+                                  <TableCell className="text-xs text-muted-foreground" title={payment.reference || undefined}>
+                                    {payment.method ? getPaymentMethodLabel(payment.method) : "—"}
+                                  </TableCell>
                                   <TableCell
                                     className={`text-right text-xs font-semibold ${
                                       payment.status === "full paid"
@@ -618,6 +681,11 @@ const AdminDashboard = () => {
                               {entry.phone && (
                                 <p className="text-xs text-muted-foreground">WhatsApp: {formatPhoneForDisplay(entry.phone) || entry.phone}</p>
                               )}
+                              {entry.openInvoices.map((invoice) => (
+                                <p key={invoice.id} className="text-xs text-muted-foreground">
+                                  {invoice.teaName || "Tea sale"} ({formatReadableDate(invoice.createdAt)}): ₹{invoice.balance.toFixed(2)} left
+                                </p>
+                              ))}
                             </div>
                           </TableCell>
                           <TableCell className="text-right font-semibold text-destructive">
@@ -649,6 +717,18 @@ const AdminDashboard = () => {
           </DialogContent>
         </Dialog>
 
+        <AgeingReportDialog
+          open={activeModal === "ageing"}
+          onOpenChange={(open) => {
+            if (open) {
+              setActiveModal("ageing");
+            } else {
+              closeModal();
+            }
+          }}
+          report={ageingReport}
+        />
+
         <Dialog
           open={activeModal === "pnl"}
           onOpenChange={(open) => {
@@ -681,6 +761,11 @@ const AdminDashboard = () => {
                 <div>
                   <p className="text-muted-foreground">Total sold quantity</p>
                   <p className="font-semibold">{pnlBreakdown.totals.soldQuantity.toFixed(2)} kg</p>
+                  {pnlBreakdown.totals.freeQuantity > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      plus {pnlBreakdown.totals.freeQuantity.toFixed(2)} kg free under schemes, costed at purchase rate
+                    </p>
+                  )}
                 </div>
                 <div>
                   <p className="text-muted-foreground">Avg profit per kg</p>
@@ -719,7 +804,12 @@ const AdminDashboard = () => {
                         <TableRow key={row.id}>
                           <TableCell className="text-right text-xs text-muted-foreground">{index + 1}</TableCell>
                           <TableCell className="font-medium">{row.name}</TableCell>
-                          <TableCell className="text-right">{row.soldQuantity.toFixed(2)}</TableCell>
+                          <TableCell className="text-right">
+                            {row.soldQuantity.toFixed(2)}
+                            {row.freeQuantity > 0 && (
+                              <div className="text-xs text-muted-foreground">+{row.freeQuantity.toFixed(2)} free</div>
+                            )}
+                          </TableCell>
                           <TableCell className="text-right">{row.remainingQuantity.toFixed(2)}</TableCell>
                           <TableCell className="text-right">₹{row.purchaseRate.toFixed(2)}</TableCell>
                           <TableCell
@@ -753,22 +843,18 @@ const AdminDashboard = () => {
         </Dialog>
 
         <div className="mb-6">
-          <div className="flex items-center justify-end">
+          <div className="flex items-center justify-end gap-2">
+            {canUndoReset && (
+              <Button variant="outline" onClick={handleUndoReset} disabled={undoResetMutation.status === "pending"}>
+                <Undo2 className="mr-2 h-4 w-4" />
+                Undo last reset
+              </Button>
+            )}
             <button className="btn btn-destructive" onClick={async () => {
               if (!confirm('Reset today\'s sales, collections and outstanding balances? This will set those values to 0.')) return;
               try {
-                const res: any = await resetMutation.mutateAsync();
-                // The RPC may return an array or object depending on driver; handle both
-                let txCount = 0;
-                let custCount = 0;
-                if (Array.isArray(res) && res.length > 0) {
-                  txCount = Number(res[0].tx_reset_count || 0);
-                  custCount = Number(res[0].customers_reset_count || 0);
-                } else if (res && typeof res === 'object') {
-                  txCount = Number(res.tx_reset_count || res.tx_reset_count === 0 ? res.tx_reset_count : 0);
-                  custCount = Number(res.customers_reset_count || res.customers_reset_count === 0 ? res.customers_reset_count : 0);
-                }
-                toast({ title: 'Reset', description: `Reset ${txCount} transactions and ${custCount} customer balances` });
+                const res = await resetMutation.mutateAsync();
+                toast({ title: 'Reset', description: `Reset ${res.tx_reset_count} transactions and ${res.customers_reset_count} customer balances. Undo is available until ${new Date(res.undo_until).toLocaleString()}.` });
               } catch (err: any) {
                 toast({ title: 'Error', description: err?.message || 'Failed to reset' });
               }
@@ -782,6 +868,13 @@ const AdminDashboard = () => {
             <TabsTrigger value="customers">All Customers</TabsTrigger>
             <TabsTrigger value="transactions">All Transactions</TabsTrigger>
             <TabsTrigger value="batches">Batches</TabsTrigger>
+            <TabsTrigger value="prices">Prices</TabsTrigger>
+            <TabsTrigger value="schemes">Schemes</TabsTrigger>
+            <TabsTrigger value="suppliers">Suppliers</TabsTrigger>
+            <TabsTrigger value="partners">Partners</TabsTrigger>
+            <TabsTrigger value="users">Users</TabsTrigger>
+            <TabsTrigger value="activity">Activity</TabsTrigger>
+            <TabsTrigger value="archive">Archive</TabsTrigger>
           </TabsList>
           
           <TabsContent value="analytics" className="space-y-4">
@@ -801,6 +894,34 @@ const AdminDashboard = () => {
           <TabsContent value="batches" className="space-y-4">
             <ManageBatches onBack={() => { /* noop for admin */ }} />
           </TabsContent>
+
+          <TabsContent value="prices" className="space-y-4">
+            <PriceList />
+          </TabsContent>
+
+          <TabsContent value="schemes" className="space-y-4">
+            <SchemeManager />
+          </TabsContent>
+
+          <TabsContent value="suppliers" className="space-y-4">
+            <Suppliers />
+          </TabsContent>
+
+          <TabsContent value="partners" className="space-y-4">
+            <PartnerComparison />
+          </TabsContent>
+
+          <TabsContent value="users" className="space-y-4">
+            <UserManagement />
+          </TabsContent>
+
+          <TabsContent value="activity" className="space-y-4">
+            <ActivityLog />
+          </TabsContent>
+
+          <TabsContent value="archive" className="space-y-4">
+            <ArchiveManager />
+          </TabsContent>
         </Tabs>
       </main>
     </div>
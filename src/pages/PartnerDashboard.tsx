@@ -1,24 +1,31 @@
 import { useMemo, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Leaf, UserPlus, ShoppingCart, Wallet, FileDown, LogOut } from "lucide-react";
+import { Leaf, UserPlus, ShoppingCart, Wallet, FileDown, LogOut, Landmark, Undo2, Tags, Truck } from "lucide-react";
 import { Navigate, Outlet, useNavigate } from "react-router-dom";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import BatchList from "@/components/common/BatchList";
+import StaleDataNotice from "@/components/common/StaleDataNotice";
+import AgeingReportDialog from "@/components/common/AgeingReportDialog";
+import OutboxPanel from "@/components/partner/OutboxPanel";
 import { useAnalytics, useCustomers, useTransactions } from "@/lib/hooks";
 import { useToast } from "@/hooks/use-toast";
-import { buildCollectionBreakdown, buildOutstandingBreakdown } from "@/lib/analytics-breakdown";
-import { clearStoredUser, computeTransactionSummary, formatPhoneForDisplay, formatReadableDate, getStoredUser } from "@/lib/utils";
+import useOutboxSync from "@/hooks/use-outbox-sync";
+import { getPaymentMethodLabel } from "@/lib/payment-methods";
+import { buildAgeingReport, buildCollectionBreakdown, buildOutstandingBreakdown } from "@/lib/analytics-breakdown";
+import { computeTransactionSummary, formatPhoneForDisplay, formatReadableDate, getStoredUser } from "@/lib/utils";
 import { sendReminderForCustomer } from "@/lib/reminder-actions";
+import { signOut } from "@/lib/auth";
 
 const PartnerDashboard = () => {
   const navigate = useNavigate();
   const sessionUser = getStoredUser();
+  useOutboxSync(sessionUser?.role === "partner");
 
-  const handleLogout = () => {
-    clearStoredUser();
+  const handleLogout = async () => {
+    await signOut();
     navigate("/partner/login", { replace: true });
   };
 
@@ -50,7 +57,8 @@ const PartnerDashboard = () => {
         </div>
       </header>
 
-      <main className="container mx-auto px-4 py-8">
+      <main className="container mx-auto px-4 py-8 space-y-4">
+        <StaleDataNotice />
         <Outlet />
       </main>
     </div>
@@ -71,7 +79,8 @@ export const PartnerDashboardHome = () => {
     () => buildOutstandingBreakdown(transactionSummary, transactions, customers),
     [transactionSummary, transactions, customers],
   );
-  const [activeModal, setActiveModal] = useState<null | "collections" | "outstanding">(null);
+  const ageingReport = useMemo(() => buildAgeingReport(transactions, customers), [transactions, customers]);
+  const [activeModal, setActiveModal] = useState<null | "collections" | "outstanding" | "ageing">(null);
   const [reminderSendingId, setReminderSendingId] = useState<string | null>(null);
   const { toast } = useToast();
   const closeModal = () => setActiveModal(null);
@@ -123,6 +132,18 @@ export const PartnerDashboardHome = () => {
       description: "Collect outstanding balance from customers",
       path: "payment",
     },
+    {
+      icon: Landmark,
+      title: "Cheque Register",
+      description: "Deposit, clear or bounce received cheques",
+      path: "cheques",
+    },
+    {
+      icon: Undo2,
+      title: "Record Return",
+      description: "Restock returned tea and issue a credit note",
+      path: "returns",
+    },
     {
       icon: FileDown,
       title: "Download Reports",
@@ -147,11 +168,25 @@ export const PartnerDashboardHome = () => {
       description: "View, edit or delete batches",
       path: "manage-batches",
     },
+    {
+      icon: Tags,
+      title: "Price List",
+      description: "Set selling rates, customer rates and quantity breaks",
+      path: "price-list",
+    },
+    {
+      icon: Truck,
+      title: "Suppliers",
+      description: "Purchases, supplier payments and what is owed",
+      path: "suppliers",
+    },
   ];
 
   return (
     <div className="space-y-6">
-      <div className="grid gap-4 md:grid-cols-3">
+      <OutboxPanel />
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card>
           <CardHeader className="pb-3">
             <CardTitle className="text-sm font-medium text-muted-foreground">
@@ -209,6 +244,31 @@ export const PartnerDashboardHome = () => {
             <p className="text-xs text-primary mt-2">View customers</p>
           </CardContent>
         </Card>
+        <Card
+          role="button"
+          tabIndex={0}
+          onClick={() => setActiveModal("ageing")}
+          onKeyDown={(event) => {
+            if (event.key === "Enter" || event.key === " ") {
+              event.preventDefault();
+              setActiveModal("ageing");
+            }
+          }}
+          className={interactiveCardClass}
+        >
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Overdue 90+ Days
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${ageingReport.summary.buckets.over90 > 0 ? "text-destructive" : ""}`}>
+              ₹{ageingReport.summary.buckets.over90.toFixed(2)}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">Of ₹{ageingReport.summary.total.toFixed(2)} in open invoices</p>
+            <p className="text-xs text-primary mt-2">View ageing</p>
+          </CardContent>
+        </Card>
       </div>
 
       <Dialog
@@ -251,6 +311,16 @@ export const PartnerDashboardHome = () => {
               </div>
             </div>
 
+            {collectionSummary.methodTotals.length > 0 && (
+              <div className="flex flex-wrap gap-2 text-xs">
+                {collectionSummary.methodTotals.map((total) => (
+                  <span key={total.method ?? "unrecorded"} className="rounded-full border px-3 py-1">
+                    {total.label}: <span className="font-semibold">₹{total.amount.toFixed(2)}</span> ({total.count})
+                  </span>
+                ))}
+              </div>
+            )}
+
             {collectionDetails.length > 0 ? (
               <ScrollArea className="h-[60vh] pr-2">
                 <div className="space-y-4">
@@ -277,6 +347,7 @@ export const PartnerDashboardHome = () => {
                               <TableHead>Quantity</TableHead>
                               <TableHead className="text-right">Selling Price</TableHead>
                               <TableHead className="text-right">Paid</TableHead>
+                              <TableHead>Method</TableHead>
                               <TableHead className="text-right">Status</TableHead>
                             </TableRow>
                           </TableHeader>
@@ -298,6 +369,9 @@ export const PartnerDashboardHome = () => {
                                     : "—"}
                                 </TableCell>
                                 <TableCell className="text-right font-medium">₹{payment.amount.toFixed(2)}</TableCell>
+                                <TableCell className="text-xs text-muted-foreground" title={payment.reference || undefined}>
+                                  {payment.method ? getPaymentMethodLabel(payment.method) : "—"}
+                                </TableCell>
                                 <TableCell
                                   className={`text-right text-xs font-semibold ${
                                     payment.status === "full paid"
@@ -387,6 +461,11 @@ export const PartnerDashboardHome = () => {
                             {entry.phone && (
                               <p className="text-xs text-muted-foreground">WhatsApp: {formatPhoneForDisplay(entry.phone) || entry.phone}</p>
                             )}
+                            {entry.openInvoices.map((invoice) => (
+                              <p key={invoice.id} className="text-xs text-muted-foreground">
+                                {invoice.teaName || "Tea sale"} ({formatReadableDate(invoice.createdAt)}): ₹{invoice.balance.toFixed(2)} left
+                              </p>
+                            ))}
                           </div>
                         </TableCell>
                         <TableCell className="text-right font-semibold text-destructive">
@@ -418,6 +497,18 @@ export const PartnerDashboardHome = () => {
         </DialogContent>
       </Dialog>
 
+      <AgeingReportDialog
+        open={activeModal === "ageing"}
+        onOpenChange={(open) => {
+          if (open) {
+            setActiveModal("ageing");
+          } else {
+            closeModal();
+          }
+        }}
+        report={ageingReport}
+      />
+
       <div className="mt-6">
         <BatchList />
       </div>
@@ -6,8 +6,8 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Leaf } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import supabase from "@/lib/supabase";
-import { getStoredUser, setStoredUser } from "@/lib/utils";
+import { signIn, signOut } from "@/lib/auth";
+import { getStoredUser } from "@/lib/utils";
 
 const PartnerLogin = () => {
   const navigate = useNavigate();
@@ -33,23 +33,21 @@ const PartnerLogin = () => {
     }
 
     try {
-      const { data, error } = await supabase.rpc("authenticate_user", { p_email: username, p_password: password });
-      if (error) throw error;
+      const user = await signIn(username, password);
 
-      if (data && data.length > 0) {
-        const user = data[0];
-    const role = String(user.role ?? "").toLowerCase();
-    if (role !== "partner") {
-          toast({ title: "Unauthorized", description: "You are not a partner account.", variant: "destructive" });
-          return;
-        }
-        // simple session (demo only)
-        setStoredUser({ id: user.id, role, email: user.email });
-        toast({ title: "Login Successful", description: "Welcome back, Partner!" });
-        navigate("/partner/dashboard", { replace: true });
-      } else {
+      if (!user) {
         toast({ title: "Login Failed", description: "Invalid credentials.", variant: "destructive" });
+        return;
       }
+
+      if (user.role !== "partner") {
+        await signOut();
+        toast({ title: "Unauthorized", description: "You are not a partner account.", variant: "destructive" });
+        return;
+      }
+
+      toast({ title: "Login Successful", description: "Welcome back, Partner!" });
+      navigate("/partner/dashboard", { replace: true });
     } catch (err: any) {
       toast({ title: "Error", description: err?.message || "Login failed", variant: "destructive" });
     }
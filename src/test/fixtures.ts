@@ -0,0 +1,287 @@
+import { getLandedCost } from "@/lib/suppliers";
+import type {
+  BatchPnlRow,
+  CreditOverride,
+  Customer,
+  PriceRule,
+  Purchase,
+  Scheme,
+  SupplierPayment,
+  Transaction,
+} from "@/lib/schemas";
+
+// Row builders with every column present, so fixtures look like what the hooks return
+export const makeCustomer = (overrides: Partial<Customer> & Pick<Customer, "id">): Customer => ({
+  full_name: null,
+  shop_name: null,
+  address: null,
+  contact: null,
+  whatsapp_number: null,
+  outstanding_balance: 0,
+  credit_limit: null,
+  max_overdue_days: null,
+  gstin: null,
+  state_code: null,
+  partner_id: "partner-1",
+  archived_at: null,
+  created_at: "2024-01-01T09:00:00Z",
+  ...overrides,
+});
+
+export const makeTransaction = (overrides: Partial<Transaction> & Pick<Transaction, "id">): Transaction => ({
+  customer_id: null,
+  order_id: null,
+  batch_id: null,
+  partner_id: "partner-1",
+  client_id: null,
+  type: "sale",
+  status: null,
+  tea_name: null,
+  amount: 0,
+  quantity: 0,
+  rate: null,
+  paid_amount: 0,
+  balance: 0,
+  due_date: null,
+  payment_method: null,
+  payment_reference: null,
+  receipt_number: null,
+  return_of: null,
+  return_reason: null,
+  credit_note_number: null,
+  scheme_id: null,
+  discount_amount: 0,
+  free_quantity: 0,
+  hsn_code: null,
+  gst_rate: 0,
+  taxable_value: null,
+  cgst_amount: 0,
+  sgst_amount: 0,
+  igst_amount: 0,
+  place_of_supply: null,
+  created_at: "2024-03-01T10:00:00Z",
+  ...overrides,
+});
+
+export const makeBatchPnl = (overrides: Partial<BatchPnlRow>): BatchPnlRow => ({
+  batch_id: null,
+  batch_name: null,
+  total_quantity: 0,
+  remaining_quantity: 0,
+  purchase_rate: 0,
+  sold_quantity: 0,
+  sold_revenue: 0,
+  purchase_cost_for_sold: 0,
+  pnl: 0,
+  returned_quantity: 0,
+  free_quantity: 0,
+  ...overrides,
+});
+
+export const makeOverride = (overrides: Partial<CreditOverride> & Pick<CreditOverride, "id">): CreditOverride => ({
+  customer_id: "cust-asha",
+  reason: "Festival order",
+  granted_by: "admin-1",
+  granted_at: "2024-04-01T09:00:00Z",
+  used_at: null,
+  order_id: null,
+  ...overrides,
+});
+
+export const makeRule = (overrides: Partial<PriceRule> & Pick<PriceRule, "id" | "rate">): PriceRule => ({
+  tea_name: "Assam Gold",
+  customer_id: null,
+  min_quantity: 0,
+  created_at: "2024-03-01T09:00:00Z",
+  updated_at: "2024-03-01T09:00:00Z",
+  ...overrides,
+});
+
+export const makeScheme = (overrides: Partial<Scheme> & Pick<Scheme, "id" | "kind">): Scheme => ({
+  name: overrides.id,
+  discount_percent: null,
+  buy_quantity: null,
+  free_quantity: null,
+  tea_name: null,
+  customer_id: null,
+  min_quantity: 0,
+  valid_from: "2024-10-01",
+  valid_to: "2024-11-15",
+  active: true,
+  created_at: "2024-10-01T09:00:00Z",
+  ...overrides,
+});
+
+// The generated columns are worked out like the purchases table does
+export const makePurchase = (overrides: Partial<Purchase> & Pick<Purchase, "id" | "quantity" | "rate">): Purchase => {
+  const { baseCost, totalCost, landedRate } = getLandedCost({
+    quantity: overrides.quantity,
+    rate: overrides.rate,
+    freight: overrides.freight,
+    otherCosts: overrides.other_costs,
+  });
+  return {
+    supplier_id: "supplier-jorhat",
+    batch_id: null,
+    invoice_number: null,
+    invoice_date: "2024-10-01",
+    due_date: null,
+    freight: 0,
+    other_costs: 0,
+    invoice_amount: baseCost,
+    total_cost: totalCost,
+    landed_rate: landedRate ?? 0,
+    created_at: "2024-10-01T09:00:00Z",
+    ...overrides,
+  };
+};
+
+export const makePayment = (overrides: Partial<SupplierPayment> & Pick<SupplierPayment, "id" | "amount">): SupplierPayment => ({
+  supplier_id: "supplier-jorhat",
+  purchase_id: null,
+  payment_method: "bank_transfer",
+  payment_reference: null,
+  paid_on: "2024-10-20",
+  created_at: "2024-10-20T09:00:00Z",
+  ...overrides,
+});
+
+export const customers: Customer[] = [
+  makeCustomer({
+    id: "cust-asha",
+    full_name: "Asha Patel",
+    shop_name: "Patel Tea Stall",
+    whatsapp_number: "98765 43210",
+    contact: "022 2345 6789",
+  }),
+  // No full name: reports fall back to the shop name, and to the contact number for reminders
+  makeCustomer({ id: "cust-corner", shop_name: "Corner Shop", contact: "+91 91234 56789" }),
+];
+
+export const batchPnl: BatchPnlRow[] = [
+  makeBatchPnl({
+    batch_id: "batch-assam",
+    batch_name: "Assam Gold",
+    total_quantity: 100,
+    remaining_quantity: 60,
+    purchase_rate: 80,
+    sold_quantity: 40,
+    sold_revenue: 4400,
+    purchase_cost_for_sold: 3200,
+    pnl: 1200,
+  }),
+  makeBatchPnl({
+    batch_id: "batch-nilgiri",
+    batch_name: "Nilgiri Frost",
+    total_quantity: 50,
+    remaining_quantity: 50,
+    purchase_rate: 120,
+  }),
+];
+
+// Fully paid: the sale was settled at the counter
+export const fullyPaidSale = makeTransaction({
+  id: "sale-full",
+  customer_id: "cust-asha",
+  batch_id: "batch-assam",
+  tea_name: "Assam Gold",
+  amount: 1100,
+  quantity: 10,
+  rate: 110,
+  paid_amount: 1100,
+  balance: 0,
+  status: "paid",
+  payment_method: "cash",
+  created_at: "2024-03-01T10:00:00Z",
+});
+
+// Partial: part paid up front, the rest due later and partly settled by a payment
+export const partialSale = makeTransaction({
+  id: "sale-partial",
+  customer_id: "cust-asha",
+  batch_id: "batch-assam",
+  tea_name: "Assam Gold",
+  amount: 3300,
+  quantity: 30,
+  rate: 110,
+  paid_amount: 300,
+  balance: 2000,
+  status: "partial",
+  due_date: "2024-03-20",
+  payment_method: "upi",
+  payment_reference: "UPI-1",
+  created_at: "2024-03-05T10:00:00Z",
+});
+
+export const partialPayment = makeTransaction({
+  id: "payment-partial",
+  customer_id: "cust-asha",
+  type: "payment",
+  amount: 1000,
+  paid_amount: 1000,
+  balance: 0,
+  payment_method: "cash",
+  created_at: "2024-03-10T10:00:00Z",
+});
+
+export const fullDataset: Transaction[] = [partialPayment, partialSale, fullyPaidSale];
+
+// Payments only: no sale rows at all, e.g. a partner's book filtered to collections
+export const paymentsOnly: Transaction[] = [
+  makeTransaction({
+    id: "payment-cheque",
+    customer_id: "cust-corner",
+    type: "payment",
+    amount: 500,
+    balance: -200,
+    payment_method: "cheque",
+    payment_reference: "000123",
+    created_at: "2024-04-02T10:00:00Z",
+  }),
+  makeTransaction({
+    id: "payment-unrecorded",
+    customer_id: "cust-corner",
+    type: "payment",
+    amount: 250,
+    balance: null,
+    created_at: "2024-04-01T10:00:00Z",
+  }),
+];
+
+// Orphaned batch: the sale points at a batch that is no longer in batch_pnl (purged)
+export const orphanedBatchSale = makeTransaction({
+  id: "sale-orphan",
+  customer_id: "cust-corner",
+  batch_id: "batch-purged",
+  tea_name: "Darjeeling First Flush",
+  amount: 1500,
+  quantity: 5,
+  rate: 300,
+  paid_amount: 0,
+  balance: 1500,
+  due_date: "2024-04-15",
+  created_at: "2024-04-05T10:00:00Z",
+});
+
+// Unknown customer: no customer link, and a customer id missing from the customer list
+export const unknownCustomerRows: Transaction[] = [
+  makeTransaction({
+    id: "sale-no-customer",
+    customer_id: null,
+    amount: 400,
+    quantity: 4,
+    paid_amount: 400,
+    balance: 0,
+    created_at: "2024-05-01T10:00:00Z",
+  }),
+  makeTransaction({
+    id: "sale-missing-customer",
+    customer_id: "cust-deleted",
+    amount: 900,
+    quantity: 9,
+    paid_amount: 100,
+    balance: 800,
+    due_date: "2024-05-10",
+    created_at: "2024-05-02T10:00:00Z",
+  }),
+];